@@ -1,7 +1,8 @@
 import fs from 'fs'
 import path from 'path'
 
-const srcDir = path.join(process.cwd(), 'node_modules', '@ffmpeg', 'core', 'dist', 'umd')
+// The 0.12 FFmpeg class runs a module worker, which can only load the ESM core
+const srcDir = path.join(process.cwd(), 'node_modules', '@ffmpeg', 'core', 'dist', 'esm')
 const destDir = path.join(process.cwd(), 'public', 'ffmpeg-core')
 
 const files = ['ffmpeg-core.js', 'ffmpeg-core.wasm']
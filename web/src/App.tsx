@@ -1,37 +1,48 @@
-import { useEffect, useMemo, useRef, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import type React from 'react'
 import { get, set } from 'idb-keyval'
+import { createAnalysisPool, isAbortError } from './lib/analysisPool'
+import { autoCutToBeat, timelineBeats } from './lib/autoCut'
+import type { AutoCutOptions } from './lib/autoCut'
+import { findClipForAsset, gridLineLabel, mediaToTimeline, resolveBeatGrid } from './lib/beatGrid'
+import { applyQuantize, planQuantize } from './lib/quantize'
+import type { CutMove } from './lib/quantize'
+import { SECTION_COLORS, sectionLabel } from './lib/structure'
+import { MARKER_TYPES, createMarkerId, updateMarker } from './lib/markers'
+import { MARKER_FORMATS, exportMarkers, importMarkerFile } from './lib/markerInterchange'
+import type { MarkerFormat } from './lib/markerInterchange'
+import { TIMELINE_FORMATS, TIMELINE_IMPORT_ACCEPT, createMediaResolver, detectTimelineFormat, exportTimeline, importTimeline, offlineClips, relinkClips } from './lib/timelineInterchange'
+import type { TimelineFormat } from './lib/timelineInterchange'
+import { contentDuration, kindOf, trackIsLive } from './lib/render'
+import { DEFAULT_HEADROOM, rulerTicks, sequenceContentEnd, sequenceDuration } from './lib/sequence'
+import { liveAudioClips, scheduleClips } from './lib/mixdown'
+import type { ScheduledClip } from './lib/mixdown'
+import { formatLufs } from './lib/loudness'
+import type { LoudnessReading } from './lib/loudness'
+import loudnessWorkletUrl from './workers/loudness.worklet.ts?worker&url'
+import { appendLog, createQueueJob, moveJob, outputName, retryJob, runQueueJob } from './lib/renderQueue'
+import type { QueueJob, RenderEncoder } from './lib/renderQueue'
+import { DEFAULT_PRESETS, PRESETS_DB_KEY, conformPreset, duplicatePreset, mergePresets, parsePresetsJson, presetFps, presetMedia, presetsToJson, renderFileName } from './lib/exportPresets'
+import type { ExportPreset } from './lib/exportPresets'
+import { slateLines, topVisualClipAt, withWatermarkUrl } from './lib/burnIn'
+import { DEFAULT_STORYBOARD, GRID_CHOICES, captureStills, renderContactSheet, storyboardHtml, storyboardPages, storyboardPanels } from './lib/storyboard'
+import type { StoryboardFrames, StoryboardMode, StoryboardOptions } from './lib/storyboard'
+import { bindAssetMedia, bindClipMedia, deleteMedia, formatBytes, loadMediaIndex, mediaUrls, referencedMedia, requestPersistentStorage, storableAssets, storageReport, storeMedia, unusedMedia } from './lib/mediaStore'
+import type { MediaIndex, MediaUrls, StorageReport } from './lib/mediaStore'
+import { collectBundle, readBundle } from './lib/bundle'
+import { PROJECT_SCHEMA_VERSION, loadProject, parseProjectJson, projectToJson, versionedProject } from './lib/projectSchema'
+import { FRAME_RATES, canDropFrame, frameRateId, framesToSeconds, secondsToTc, snapToFrame } from './lib/timecode'
+import type { Asset, BeatAnalysis, Clip, Marker, MarkerType, ProjectState, SectionKind, TrackState } from './types'
+import BeatEditor from './components/BeatEditor'
+import BurnInOverlay from './components/BurnInOverlay'
+import BurnInPanel from './components/BurnInPanel'
+import MarkerImportDialog from './components/MarkerImportDialog'
+import MediaStorePanel from './components/MediaStorePanel'
+import TimecodeInput from './components/TimecodeInput'
+import PresetEditor from './components/PresetEditor'
+import RenderQueue from './components/RenderQueue'
 import './App.css'
 
-type Clip = {
-  id: string
-  title: string
-  track: string
-  color: string
-  start: number // seconds
-  duration: number // seconds
-  url?: string
-  assetType?: string
-  waveform?: number[] | null
-  thumb?: string | null
-  mediaDuration?: number
-  mediaOffset?: number
-  gain?: number
-  fadeIn?: number
-  fadeOut?: number
-}
-
-type Marker = { time: number; label: string; color: string }
-
-type Track = { id: string; name: string; type: 'video' | 'audio' }
-type TrackState = Track & { mute?: boolean; solo?: boolean; locked?: boolean; height?: 'normal' | 'compact' }
-
-type ProjectState = {
-  tracks: TrackState[]
-  clips: Clip[]
-  markers: Marker[]
-}
-
 type SelectionState = {
   clipIds: string[]
   marquee: { x1: number; x2: number; y1: number; y2: number } | null
@@ -44,24 +55,23 @@ type SnapState = {
 
 type DragHandle = null | 'loop-start' | 'loop-end'
 
-type SnapPoint = { time: number; label: string }
+type AnalysisState = 'pending' | 'processing' | 'cached' | 'done' | 'error' | 'cancelled'
+type AnalysisStatus = { state: AnalysisState; progress: number }
 
-type Asset = {
-  id: string
-  name: string
-  type: string
-  duration: number
-  url?: string
-  waveform?: number[]
-  thumb?: string
+type BeatStatus = {
+  state: 'idle' | 'analyzing' | 'ready' | 'error'
+  message?: string
+  assetId?: string
+  progress?: number
 }
 
-type BeatAnalysis = {
-  assetId: string
-  beats: number[]
-  bpm: number
-  createdAt: number
-}
+type SnapPoint = { time: number; label: string }
+
+type RulerMode = 'seconds' | 'bars'
+
+type AutoCutForm = Omit<AutoCutOptions, 'seed' | 'palette'>
+
+type QuantizeForm = { scope: 'selection' | string; tolerance: number } // scope: 'selection' or a track id
 
 type KeyMap = {
   playPause: string
@@ -78,10 +88,18 @@ type Draft = {
   savedAt: number
   payload: {
     project: ProjectState
-    beatAnalyses: Record<string, BeatAnalysis>
+    beatAnalyses?: Record<string, BeatAnalysis> // drafts saved before analyses moved into the project
   }
 }
 
+// Just the shape the draft list and the render queue read; the project itself is validated on load
+const isDraft = (value: unknown): value is Draft => {
+  const d = value as Partial<Draft> | null
+  const project = d?.payload?.project
+  return !!d && typeof d === 'object' && typeof d.id === 'string' && typeof d.name === 'string' && typeof d.savedAt === 'number' &&
+    !!project && typeof project === 'object' && Array.isArray(project.tracks) && Array.isArray(project.clips)
+}
+
 const DEFAULT_TRACKS: TrackState[] = [
   { id: 'v1', name: 'V1 · Motion', type: 'video', height: 'normal' },
   { id: 'v2', name: 'V2 · Titles', type: 'video', height: 'normal' },
@@ -97,10 +115,21 @@ const DEFAULT_CLIPS: Clip[] = [
   { id: 'c5', title: 'Sample WAV', track: 'a2', color: '#a78bfa', start: 4, duration: 3.2, url: '/samples/sample-3s.wav', assetType: 'audio/wav', waveform: Array.from({ length: 72 }, (_, i) => 0.25 + 0.3 * Math.sin(i * 0.28 + 0.4) ** 2), mediaDuration: 3.2, gain: 1, fadeIn: 0.12, fadeOut: 0.12 }
 ]
 
+const downloadBlob = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = name
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+const MARKER_PALETTE = ['#22d3ee', '#f97316', '#e11d48', '#a78bfa', '#22c55e']
+
 const DEFAULT_MARKERS: Marker[] = [
-  { time: 2, label: 'Beat drop', color: '#22d3ee' },
-  { time: 8.5, label: 'Cut to B-roll', color: '#f97316' },
-  { time: 12, label: 'Logo hit', color: '#e11d48' }
+  { id: 'mk-default-1', time: 2, label: 'Beat drop', color: '#22d3ee', type: 'cue' },
+  { id: 'mk-default-2', time: 8.5, label: 'Cut to B-roll', color: '#f97316', type: 'cue' },
+  { id: 'mk-default-3', time: 12, label: 'Logo hit', color: '#e11d48', type: 'cue' }
 ]
 
 const DEFAULT_ASSETS: Asset[] = [
@@ -138,12 +167,14 @@ const DEFAULT_ASSETS: Asset[] = [
   }
 ]
 
+const FPS_CHOICES = [...new Set(FRAME_RATES.map(r => r.fps))]
+const DEFAULT_FPS = 30
+
 const CLIP_COLORS = ['#4ade80', '#60a5fa', '#f472b6', '#fbbf24', '#a78bfa', '#22d3ee']
 
-const TOTAL_DURATION = 18
 const GRID_STEP = 0.25
 const MIN_CLIP = 0.2
-const ZOOM_MIN = 0.6
+const ZOOM_MIN = 0.002 // an hour fits in about 600 px
 const ZOOM_MAX = 3
 const VIEW_PADDING_PX = 60
 
@@ -157,9 +188,14 @@ const DEFAULT_KEYMAP: KeyMap = {
   stop: 'k'
 }
 const DRAFTS_KEY = 'timeline-builder-drafts'
+const REJECTED_DRAFTS_KEY = `${DRAFTS_KEY}-rejected`
+const ASSETS_DB_KEY = 'media-pool' // IndexedDB; the files themselves are in the media store
 
 const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v))
 
+// -60..0 LUFS across the toolbar meter
+const loudnessFill = (lufs?: number) => (lufs !== undefined && Number.isFinite(lufs) ? clamp((lufs + 60) / 60, 0, 1) * 100 : 0)
+
 const ensureAudioContext = async (ref: React.MutableRefObject<AudioContext | null>) => {
   if (!ref.current) ref.current = new AudioContext()
   if (ref.current.state === 'suspended') await ref.current.resume()
@@ -176,7 +212,7 @@ const loadMediaDuration = (file: File): Promise<number> => new Promise(resolve =
       const dur = media.duration
       URL.revokeObjectURL(url)
       if (!Number.isFinite(dur)) return resolve(5)
-      resolve(clamp(dur, 0.5, 120))
+      resolve(Math.max(0.5, dur))
     }
     media.onerror = () => resolve(5)
   } catch (err) {
@@ -184,69 +220,16 @@ const loadMediaDuration = (file: File): Promise<number> => new Promise(resolve =
   }
 })
 
-const decodeWaveform = async (file: File): Promise<number[] | null> => {
-  if (typeof window === 'undefined' || typeof AudioContext === 'undefined') return null
-  try {
-    const buffer = await file.arrayBuffer()
-    const ctx = new AudioContext({ sampleRate: 48000 })
-    const audio = await ctx.decodeAudioData(buffer)
-    const channelL = audio.getChannelData(0)
-    const channelR = audio.numberOfChannels > 1 ? audio.getChannelData(1) : null
-    const buckets = Math.min(512, Math.max(96, Math.floor(channelL.length / 4000)))
-    const step = Math.max(1, Math.floor(channelL.length / buckets))
-    const samplesL: number[] = []
-    const samplesR: number[] = []
-    for (let i = 0; i < buckets; i++) {
-      let sumL = 0
-      let sumR = 0
-      for (let j = 0; j < step; j++) {
-        const idx = i * step + j
-        sumL += Math.abs(channelL[idx])
-        if (channelR) sumR += Math.abs(channelR[idx])
-      }
-      samplesL.push(sumL / step)
-      if (channelR) samplesR.push(sumR / step)
-    }
-    const max = Math.max(...samplesL, ...(samplesR.length ? samplesR : [0.001]), 0.001)
-    return samplesL.map((s, i) => (s + (samplesR[i] || s)) / (samplesR.length ? 2 : 1) / max)
-  } catch (err) {
-    console.warn('waveform decode failed', err)
-    return null
-  }
+// Web Audio is not exposed to workers; decodeAudioData already decodes off the main thread,
+// so only the copied PCM is shipped to the analysis pool.
+const decodeChannels = async (data: ArrayBuffer, sampleRate = 44100) => {
+  const ctx = new OfflineAudioContext(1, 1, sampleRate)
+  const audio = await ctx.decodeAudioData(data)
+  const channels = Array.from({ length: audio.numberOfChannels }, (_, i) => new Float32Array(audio.getChannelData(i)))
+  return { channels, sampleRate: audio.sampleRate, duration: audio.duration }
 }
 
-const analyzeBeatsFromBuffer = (audio: AudioBuffer) => {
-  const channel = audio.getChannelData(0)
-  const hop = 512
-  const frame = 1024
-  const sr = audio.sampleRate
-  const energies: number[] = []
-  for (let i = 0; i + frame < channel.length; i += hop) {
-    let sum = 0
-    for (let j = 0; j < frame; j++) {
-      const v = channel[i + j] || 0
-      sum += v * v
-    }
-    energies.push(Math.sqrt(sum / frame))
-  }
-  const mean = energies.reduce((a, b) => a + b, 0) / Math.max(1, energies.length)
-  const variance = energies.reduce((a, b) => a + (b - mean) ** 2, 0) / Math.max(1, energies.length)
-  const std = Math.sqrt(variance)
-  const threshold = mean + std * 0.9
-  const beats: number[] = []
-  let lastBeat = -1
-  energies.forEach((e, idx) => {
-    const t = (idx * hop) / sr
-    if (e > threshold && e > (energies[idx - 1] || 0) && e >= (energies[idx + 1] || 0)) {
-      if (lastBeat < 0 || t - lastBeat > 0.23) {
-        beats.push(Number(t.toFixed(3)))
-        lastBeat = t
-      }
-    }
-  })
-  const bpm = beats.length > 1 ? Math.round(60 * (beats.length - 1) / (beats[beats.length - 1] - beats[0])) : 0
-  return { beats, bpm }
-}
+const analysisPool = createAnalysisPool()
 
 const loadThumb = (file: File): Promise<string | null> => new Promise(resolve => {
   if (file.type.startsWith('image')) {
@@ -289,7 +272,9 @@ const loadThumb = (file: File): Promise<string | null> => new Promise(resolve =>
   resolve(null)
 })
 
-const STORAGE_KEY = 'timeline-builder-project-v1'
+const STORAGE_KEY = 'timeline-builder-project-v1' // the name predates schemaVersion; the payload carries it now
+const REJECTED_STORAGE_KEY = `${STORAGE_KEY}-rejected`
+
 
 type HistoryOpts = { push?: boolean }
 
@@ -339,16 +324,20 @@ function useHistoryState<T>(initial: T, limit = 80) {
   return { state, set: commit, undo, redo, canUndo, canRedo, pushCheckpoint }
 }
 
-const formatTime = (t: number) => {
-  const mins = Math.floor(t / 60)
-  const secs = t % 60
-  return `${String(mins).padStart(2, '0')}:${secs.toFixed(2).padStart(5, '0')}`
+// The working rate travels with the project; drop-frame only sticks where it exists (29.97/59.94)
+const projectRate = (data: { fps?: unknown; dropFrame?: unknown }, fallback = DEFAULT_FPS) => {
+  const fps = typeof data.fps === 'number' && data.fps > 0 ? data.fps : fallback
+  return { fps, dropFrame: data.dropFrame === true && canDropFrame(fps) }
 }
 
 function App() {
   const [activeTab, setActiveTab] = useState<'edit' | 'assets' | 'export'>('edit')
   const [playhead, setPlayhead] = useState(4.5)
   const [zoom, setZoom] = useState(1.4) // multiplier for px/sec
+  const [headroom, setHeadroom] = useState(() => {
+    const cached = localStorage.getItem('timeline-headroom')
+    return cached === null ? DEFAULT_HEADROOM : Math.max(0, Number(cached) || 0)
+  })
   const [playing, setPlaying] = useState(false)
   const [allowOverlap, setAllowOverlap] = useState(false)
   const [rippleEdit, setRippleEdit] = useState(false)
@@ -359,23 +348,62 @@ function App() {
     const cached = localStorage.getItem('timeline-snap-threshold')
     return cached ? Number(cached) || DEFAULT_SNAP_THRESHOLD : DEFAULT_SNAP_THRESHOLD
   })
-  const [assets, setAssets] = useState<Asset[]>(DEFAULT_ASSETS)
+  const [assetPool, setAssets] = useState<Asset[]>(DEFAULT_ASSETS)
+  const [assetsLoaded, setAssetsLoaded] = useState(false)
+  const [mediaUrlMap, setMediaUrlMap] = useState<MediaUrls>({})
+  const [mediaIndex, setMediaIndex] = useState<MediaIndex>({})
+  const [storageInfo, setStorageInfo] = useState<StorageReport | null>(null)
+  const [mediaStoreBusy, setMediaStoreBusy] = useState(false)
+  const [mediaStatus, setMediaStatus] = useState<string | null>(null)
   const [trackHeightScale, setTrackHeightScale] = useState(1)
-  const [exportPreset, setExportPreset] = useState<'json' | 'mp4' | 'webm'>('json')
+  const [markerImport, setMarkerImport] = useState<{ fileName: string; text: string } | null>(null)
+  const [markerFilter, setMarkerFilter] = useState<MarkerType | 'all'>('all')
+  const [expandedMarkerId, setExpandedMarkerId] = useState<string | null>(null)
+  const markerDragRef = useRef<{ id: string; startX: number; origTime: number; moved: boolean } | null>(null)
+  const markerEditDirtyRef = useRef(false)
+  const [markerFormat, setMarkerFormat] = useState<MarkerFormat>('resolve-edl')
+  const [markerIoStatus, setMarkerIoStatus] = useState<string | null>(null)
+  const [rulerMode, setRulerMode] = useState<RulerMode>(() => localStorage.getItem('timeline-ruler-mode') === 'bars' ? 'bars' : 'seconds')
+  const [timelineFormat, setTimelineFormat] = useState<TimelineFormat>('otio')
+  const [timelineIoStatus, setTimelineIoStatus] = useState<string | null>(null)
+  const [storyboard, setStoryboard] = useState<StoryboardOptions>(DEFAULT_STORYBOARD)
+  const [storyboardStatus, setStoryboardStatus] = useState<string | null>(null)
+  const [storyboardBusy, setStoryboardBusy] = useState(false)
+  const [exportPresets, setExportPresets] = useState<ExportPreset[]>(DEFAULT_PRESETS)
+  const [presetsLoaded, setPresetsLoaded] = useState(false)
+  const [presetIoStatus, setPresetIoStatus] = useState<string | null>(null)
+  const [bundleStatus, setBundleStatus] = useState<string | null>(null)
+  const [bundleBusy, setBundleBusy] = useState(false)
+  const [exportPreset, setExportPreset] = useState(() => localStorage.getItem('timeline-export-preset') || 'json') // 'json' or a preset id
+  const [exportSource, setExportSource] = useState('current') // 'current' or a draft id
+  const [renderEncoder, setRenderEncoder] = useState<RenderEncoder>('ffmpeg')
+  const [slatePreview, setSlatePreview] = useState(false)
+  const [projectName, setProjectName] = useState(() => localStorage.getItem('timeline-project-name') || 'Untitled project')
   const [exportStatus, setExportStatus] = useState<string | null>(null)
-  const [exportProgress, setExportProgress] = useState(0)
-  const exportAbortRef = useRef<{ cancelled: boolean }>({ cancelled: false })
-  const [beatAnalyses, setBeatAnalyses] = useState<Record<string, BeatAnalysis>>({})
-  const [beatStatus, setBeatStatus] = useState<{ state: 'idle' | 'analyzing' | 'ready' | 'error'; message?: string; assetId?: string }>({ state: 'idle' })
+  const [projectStatus, setProjectStatus] = useState<string | null>(null) // import/restore problems
+  const [renderJobs, setRenderJobs] = useState<QueueJob[]>([])
+  const renderJobsAbortRef = useRef<Map<string, AbortController>>(new Map())
+  const [beatStatus, setBeatStatus] = useState<BeatStatus>({ state: 'idle' })
+  const beatJobRef = useRef<AbortController | null>(null)
   const [selectedBeatAsset, setSelectedBeatAsset] = useState<string | null>(null)
-  const [analysisStatuses, setAnalysisStatuses] = useState<Record<string, 'pending' | 'processing' | 'cached' | 'done' | 'error'>>({})
+  const [selectedAssetIds, setSelectedAssetIds] = useState<string[]>([])
+  const [quantizeForm, setQuantizeForm] = useState<QuantizeForm>({ scope: 'selection', tolerance: 0.15 })
+  const [quantizePlan, setQuantizePlan] = useState<CutMove[] | null>(null)
+  const [autoCut, setAutoCut] = useState<AutoCutForm>({
+    trackId: 'v1',
+    every: 1,
+    unit: 'beats',
+    order: 'sequential',
+    emphasizeDownbeats: true,
+    placement: 'overwrite'
+  })
+  const [analysisStatuses, setAnalysisStatuses] = useState<Record<string, AnalysisStatus>>({})
   const pendingFilesRef = useRef<Map<string, File>>(new Map())
-  const processingAnalysisRef = useRef(false)
-  const analysisStatusRef = useRef<Record<string, 'pending' | 'processing' | 'cached' | 'done' | 'error'>>({})
+  const analysisJobsRef = useRef<Map<string, AbortController>>(new Map())
   const [drafts, setDrafts] = useState<Draft[]>([])
   const [activeDraftId, setActiveDraftId] = useState<string | null>(null)
   const [draftName, setDraftName] = useState('')
-  const [masterLevel, setMasterLevel] = useState(0)
+  const [loudness, setLoudness] = useState<LoudnessReading | null>(null)
   const [keymap, setKeymap] = useState<KeyMap>(() => {
     try {
       const cached = localStorage.getItem('timeline-keymap')
@@ -384,19 +412,32 @@ function App() {
     return DEFAULT_KEYMAP
   })
   const { state: project, set: setProject, undo, redo, canUndo, canRedo, pushCheckpoint } = useHistoryState<ProjectState>(
-    { tracks: DEFAULT_TRACKS, clips: DEFAULT_CLIPS, markers: DEFAULT_MARKERS }
+    { tracks: DEFAULT_TRACKS, clips: DEFAULT_CLIPS, markers: DEFAULT_MARKERS, beatAnalyses: {}, fps: DEFAULT_FPS, dropFrame: false }
   )
-  const { tracks, clips, markers } = project
+  const { tracks, markers, beatAnalyses, fps, dropFrame } = project
+  // Stored media resolves to this session's object URLs; the project keeps the media ids
+  const clips = useMemo(() => bindClipMedia(project.clips, mediaUrlMap), [project.clips, mediaUrlMap])
+  const assets = useMemo(() => bindAssetMedia(assetPool, mediaUrlMap), [assetPool, mediaUrlMap])
+  const setFrameRate = (id: string) => {
+    const rate = FRAME_RATES.find(r => r.id === id)
+    if (rate) setProject(prev => ({ ...prev, fps: rate.fps, dropFrame: rate.dropFrame }))
+  }
+  const formatTime = (t: number) => secondsToTc(t, fps, dropFrame)
+  const setBeatAnalyses = (
+    updater: (prev: Record<string, BeatAnalysis>) => Record<string, BeatAnalysis>,
+    opts?: { push?: boolean }
+  ) => setProject(prev => ({ ...prev, beatAnalyses: updater(prev.beatAnalyses) }), opts)
+  const beatGrid = project.beatGrid ?? null
   const [selection, setSelection] = useState<SelectionState>({ clipIds: [], marquee: null })
   const [snap, setSnap] = useState<SnapState>({ position: null, label: null })
   const loopHandleRef = useRef<DragHandle>(null)
 
   const audioCtxRef = useRef<AudioContext | null>(null)
-  const bufferCacheRef = useRef<Map<string, AudioBuffer>>(new Map())
+  const bufferCacheRef = useRef<Map<string, AudioBuffer | null>>(new Map())
   const bufferDurRef = useRef<Map<string, number>>(new Map())
   const sourcesRef = useRef<AudioBufferSourceNode[]>([])
   const masterGainRef = useRef<GainNode | null>(null)
-  const analyserRef = useRef<AnalyserNode | null>(null)
+  const loudnessNodeRef = useRef<AudioWorkletNode | null>(null)
   const playheadStartRef = useRef<number>(0)
   const playStartTimeRef = useRef<number>(0)
   const videoRef = useRef<HTMLVideoElement | null>(null)
@@ -411,6 +452,7 @@ function App() {
   const anySolo = useMemo(() => tracks.some(t => t.solo), [tracks])
   const heroAsset = useMemo(() => assets.find(a => a.type.startsWith('video') || a.type.startsWith('image')), [assets])
   const primaryClip = useMemo(() => clips.find(c => c.id === selection.clipIds[0]), [clips, selection.clipIds])
+  const offlineCount = useMemo(() => offlineClips(clips).length, [clips])
 
   useEffect(() => {
     if (!selectedBeatAsset) {
@@ -423,6 +465,74 @@ function App() {
     localStorage.setItem('timeline-snap-threshold', String(snapStrength))
   }, [snapStrength])
 
+  useEffect(() => {
+    localStorage.setItem('timeline-ruler-mode', rulerMode)
+  }, [rulerMode])
+
+  useEffect(() => {
+    localStorage.setItem('timeline-headroom', String(headroom))
+  }, [headroom])
+
+  useEffect(() => {
+    localStorage.setItem('timeline-project-name', projectName)
+  }, [projectName])
+
+  useEffect(() => {
+    localStorage.setItem('timeline-export-preset', exportPreset)
+  }, [exportPreset])
+
+  // Export presets live in IndexedDB; the defaults stand in until (or unless) a saved set loads
+  useEffect(() => {
+    get(PRESETS_DB_KEY)
+      .then(stored => {
+        if (Array.isArray(stored) && stored.length) setExportPresets(stored.map(p => conformPreset(p)))
+      })
+      .catch(err => console.warn('Could not load export presets', err))
+      .finally(() => setPresetsLoaded(true))
+  }, [])
+
+  useEffect(() => {
+    if (!presetsLoaded) return
+    set(PRESETS_DB_KEY, exportPresets).catch(err => console.warn('Could not save export presets', err))
+  }, [exportPresets, presetsLoaded])
+
+  // The media pool is kept in IndexedDB; uploads made before it loads stay in the list
+  useEffect(() => {
+    get(ASSETS_DB_KEY)
+      .then(stored => {
+        if (!Array.isArray(stored) || !stored.length) return
+        const restored = stored as Asset[]
+        const ids = new Set(restored.map(a => a.id))
+        setAssets(prev => [...restored, ...prev.filter(a => !ids.has(a.id) && !DEFAULT_ASSETS.includes(a))])
+      })
+      .catch(err => console.warn('Could not load the media pool', err))
+      .finally(() => setAssetsLoaded(true))
+  }, [])
+
+  useEffect(() => {
+    if (!assetsLoaded) return
+    set(ASSETS_DB_KEY, storableAssets(assetPool)).catch(err => console.warn('Could not save the media pool', err))
+  }, [assetPool, assetsLoaded])
+
+  // Every stored media id the pool, the timeline, a draft or a preset watermark points at gets one
+  // object URL per session
+  const resolvingMediaRef = useRef<Set<string>>(new Set())
+  useEffect(() => {
+    const referenced = referencedMedia(assetPool, [project.clips, ...drafts.map(d => d.payload.project.clips ?? [])], presetMedia(exportPresets))
+    const wanted = [...referenced].filter(id => !(id in mediaUrlMap) && !resolvingMediaRef.current.has(id))
+    if (!wanted.length) return
+    wanted.forEach(id => resolvingMediaRef.current.add(id))
+    mediaUrls(wanted)
+      .then(urls => setMediaUrlMap(prev => ({ ...prev, ...urls })))
+      .catch(err => console.warn('Could not read the media store', err))
+      .finally(() => wanted.forEach(id => resolvingMediaRef.current.delete(id)))
+  }, [assetPool, project.clips, drafts, exportPresets, mediaUrlMap])
+
+  // A quantize preview describes the clips it was computed from; any edit invalidates it
+  useEffect(() => {
+    setQuantizePlan(null)
+  }, [project.clips])
+
   type DragInfo = {
     id: string
     mode: 'move' | 'trim-start' | 'trim-end' | 'slip' | 'slide'
@@ -438,28 +548,38 @@ function App() {
     const saved = localStorage.getItem(STORAGE_KEY)
     if (saved) {
       try {
-        const parsed = JSON.parse(saved)
-        setProject({
-          tracks: parsed.tracks ?? DEFAULT_TRACKS,
-          clips: parsed.clips ?? DEFAULT_CLIPS,
-          markers: parsed.markers ?? DEFAULT_MARKERS
-        })
-        if (parsed.beatAnalyses) setBeatAnalyses(parsed.beatAnalyses)
+        // projects saved before the rate moved into them used a separate setting
+        const restored = parseProjectJson(saved, { fps: Number(localStorage.getItem('timeline-fps')) || DEFAULT_FPS })
+        setProject(restored.project)
+        if (restored.warnings.length) setProjectStatus(restored.warnings.join(' '))
       } catch (err) {
-        console.warn('Failed to parse saved project', err)
+        // Autosave is about to overwrite the entry, so set the unreadable copy aside first
+        localStorage.setItem(REJECTED_STORAGE_KEY, saved)
+        console.warn('Failed to restore saved project', err)
+        setProjectStatus(`Could not restore the saved project (set aside as "${REJECTED_STORAGE_KEY}"): ${err instanceof Error ? err.message : String(err)}`)
       }
     }
   }, [])
 
   useEffect(() => {
+    const stored = localStorage.getItem(DRAFTS_KEY)
+    if (!stored) return
+    let parsed: unknown
     try {
-      const stored = localStorage.getItem(DRAFTS_KEY)
-      if (stored) {
-        const parsed = JSON.parse(stored) as Draft[]
-        setDrafts(parsed)
-        if (parsed.length) setActiveDraftId(parsed[0].id)
-      }
-    } catch (_) { /* ignore */ }
+      parsed = JSON.parse(stored)
+    } catch {
+      parsed = null
+    }
+    const list = Array.isArray(parsed) ? parsed.filter(isDraft) : []
+    if (!Array.isArray(parsed) || list.length < parsed.length) {
+      // The next save rewrites the list, so keep the original payload where it can be recovered
+      localStorage.setItem(REJECTED_DRAFTS_KEY, stored)
+      const problem = Array.isArray(parsed) ? `${parsed.length - list.length} unreadable draft(s) were` : 'The saved drafts could not be read and were'
+      console.warn('Failed to restore saved drafts', parsed)
+      setProjectStatus(prev => [prev, `${problem} set aside as "${REJECTED_DRAFTS_KEY}".`].filter(Boolean).join(' '))
+    }
+    setDrafts(list)
+    if (list.length) setActiveDraftId(list[0].id)
   }, [])
 
   useEffect(() => {
@@ -470,19 +590,30 @@ function App() {
 
   // Persist project
   useEffect(() => {
-    const payload = JSON.stringify({ ...project, beatAnalyses })
-    localStorage.setItem(STORAGE_KEY, payload)
-  }, [project, beatAnalyses])
+    localStorage.setItem(STORAGE_KEY, projectToJson(project))
+  }, [project])
 
+  // Hand every newly queued asset to the pool; the pool bounds how many run at once
   useEffect(() => {
-    analysisStatusRef.current = analysisStatuses
+    Object.entries(analysisStatuses).forEach(([assetId, status]) => {
+      if (status.state === 'pending' && !analysisJobsRef.current.has(assetId)) analyzeAsset(assetId)
+    })
+  // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [analysisStatuses])
 
+  // The render queue runs one job at a time, in list order
   useEffect(() => {
-    if (Object.values(analysisStatuses).some(s => s === 'pending') && !processingAnalysisRef.current) {
-      runNextAnalysis()
-    }
-  }, [analysisStatuses])
+    if (renderJobsAbortRef.current.size) return
+    const next = renderJobs.find(j => j.status === 'queued')
+    if (next) runQueuedRender(next)
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [renderJobs])
+
+  useEffect(() => () => {
+    analysisJobsRef.current.forEach(job => job.abort())
+    renderJobsAbortRef.current.forEach(job => job.abort())
+    beatJobRef.current?.abort()
+  }, [])
 
   useEffect(() => {
     const autosave = window.setInterval(() => {
@@ -490,7 +621,7 @@ function App() {
         id: 'autosave',
         name: 'Autosave',
         savedAt: Date.now(),
-        payload: { project, beatAnalyses }
+        payload: { project: versionedProject(project) }
       }
       setDrafts(prev => {
         const others = prev.filter(d => d.id !== 'autosave')
@@ -501,7 +632,7 @@ function App() {
       })
     }, 90_000)
     return () => window.clearInterval(autosave)
-  }, [project, beatAnalyses])
+  }, [project])
 
   // playback loop (audio-backed)
   useEffect(() => {
@@ -520,31 +651,31 @@ function App() {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [playhead])
 
+  // Integrated loudness and max true peak cover one playback run; every fresh start resets them
   useEffect(() => {
-    let raf: number | null = null
-    const data = new Uint8Array(256)
-    const tick = () => {
-      const analyser = analyserRef.current
-      if (analyser) {
-        analyser.getByteTimeDomainData(data)
-        let sum = 0
-        for (let i = 0; i < data.length; i++) {
-          const v = (data[i] - 128) / 128
-          sum += v * v
-        }
-        const rms = Math.sqrt(sum / data.length)
-        setMasterLevel(rms)
-      }
-      raf = requestAnimationFrame(tick)
-    }
-    tick()
-    return () => { if (raf) cancelAnimationFrame(raf) }
-  }, [])
+    if (!playing) return
+    loudnessNodeRef.current?.port.postMessage({ type: 'reset' })
+    setLoudness(null)
+  }, [playing])
+
+  const pxPerSec = useMemo(() => 80 * zoom, [zoom])
+
+  const contentEnd = useMemo(() => sequenceContentEnd(clips, markers), [clips, markers])
+  const totalDuration = useMemo(() => sequenceDuration(clips, markers, headroom), [clips, markers, headroom])
+  const timelineWidth = totalDuration * pxPerSec + 200
+
+  // Only the ticks around the visible window; spacing follows the zoom
+  const timeTicks = useMemo(
+    () => rulerTicks(Math.max(0, viewWindow.start - viewWindow.duration), Math.min(totalDuration, viewWindow.start + 2 * viewWindow.duration), pxPerSec),
+    [viewWindow, totalDuration, pxPerSec]
+  )
+
+  const clampTime = useCallback((value: number) => Math.min(Math.max(value, 0), totalDuration), [totalDuration])
 
   // Keyboard: nudge, playback toggles, undo/redo, delete/duplicate
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
-      const step = e.shiftKey ? 0.5 : 0.1
+      const step = framesToSeconds(e.shiftKey ? 10 : 1, fps)
       const match = (binding: string) => {
         const key = binding.toLowerCase()
         if (binding === ' ') return e.code === 'Space' || e.key === ' '
@@ -554,7 +685,7 @@ function App() {
         setProject(prev => ({
           ...prev,
           clips: prev.clips.map(c => selection.clipIds.includes(c.id)
-            ? { ...c, start: Math.max(0, c.start + (match(keymap.nudgeLeft) ? -step : step)) }
+            ? { ...c, start: Math.max(0, snapToFrame(c.start + (match(keymap.nudgeLeft) ? -step : step), fps)) }
             : c)
         }), { push: false })
         pushCheckpoint()
@@ -595,19 +726,25 @@ function App() {
     }
     window.addEventListener('keydown', onKey)
     return () => window.removeEventListener('keydown', onKey)
-  }, [selection.clipIds, setProject, pushCheckpoint, undo, redo, keymap])
-
-  const pxPerSec = useMemo(() => 80 * zoom, [zoom])
-
-  const timelineWidth = TOTAL_DURATION * pxPerSec + 200
-
-  const timeTicks = useMemo(() => {
-    const ticks = []
-    for (let t = 0; t <= TOTAL_DURATION; t += 0.5) ticks.push(t)
-    return ticks
-  }, [])
+  }, [selection.clipIds, setProject, pushCheckpoint, undo, redo, keymap, clampTime, fps])
+
+  const gridLines = useMemo(() => resolveBeatGrid(beatGrid, clips, beatAnalyses), [beatGrid, clips, beatAnalyses])
+  const gridClip = useMemo(() => (beatGrid ? clips.find(c => c.id === beatGrid.clipId) ?? null : null), [beatGrid, clips])
+
+  // Beat labels only once they have room; bars always show
+  const rulerGrid = useMemo(() => {
+    if (rulerMode !== 'bars') return []
+    const beatPx = (() => {
+      const beats = gridLines.filter(l => l.kind !== 'sub')
+      if (beats.length < 2) return 0
+      return ((beats[beats.length - 1].time - beats[0].time) / (beats.length - 1)) * pxPerSec
+    })()
+    return gridLines.filter(l => l.kind === 'bar' || (l.kind === 'beat' && beatPx >= 14)).map(l => ({
+      ...l,
+      showLabel: l.kind === 'bar' || beatPx >= 36
+    }))
+  }, [gridLines, rulerMode, pxPerSec])
 
-  const clampTime = (value: number) => Math.min(Math.max(value, 0), TOTAL_DURATION)
   const handleScrub = (value: number) => setPlayhead(clampTime(value))
 
   const stopPlayback = () => {
@@ -619,10 +756,6 @@ function App() {
       try { masterGainRef.current.disconnect() } catch (_) { /* ignore */ }
       masterGainRef.current = null
     }
-    if (analyserRef.current) {
-      try { analyserRef.current.disconnect() } catch (_) { /* ignore */ }
-      analyserRef.current = null
-    }
     if (rafRef.current) cancelAnimationFrame(rafRef.current)
     rafRef.current = null
     const vid = videoRef.current
@@ -632,7 +765,7 @@ function App() {
     }
   }
 
-  const fetchBuffer = async (ctx: AudioContext, url?: string) => {
+  const fetchBuffer = async (ctx: BaseAudioContext, url?: string) => {
     if (!url) return null
     const cache = bufferCacheRef.current
     if (cache.has(url)) return cache.get(url) || null
@@ -644,41 +777,150 @@ function App() {
     return buf
   }
 
+  const loadAudioBuffers = async (ctx: BaseAudioContext, audioClips: Clip[]) => {
+    const loaded = await Promise.all(audioClips.map(async clip => {
+      // A video without a sound track doesn't decode; remember that so it isn't fetched again
+      const buffer = kindOf(clip) === 'video'
+        ? await fetchBuffer(ctx, clip.url).catch(() => {
+            if (clip.url) bufferCacheRef.current.set(clip.url, null)
+            return null
+          })
+        : await fetchBuffer(ctx, clip.url)
+      return buffer ? { clip, buffer } : null
+    }))
+    return loaded.filter((item): item is ScheduledClip => item !== null)
+  }
+
   const runBeatAnalysis = async (assetId: string) => {
     const asset = assets.find(a => a.id === assetId)
     if (!asset || !(asset.type || '').startsWith('audio') || !asset.url) {
       setBeatStatus({ state: 'error', message: 'Select an audio asset with a valid URL.' })
       return
     }
+    beatJobRef.current?.abort()
+    const job = new AbortController()
+    beatJobRef.current = job
     try {
-      setBeatStatus({ state: 'analyzing', assetId })
-      const ctx = new AudioContext()
-      const res = await fetch(asset.url)
+      setBeatStatus({ state: 'analyzing', assetId, message: 'Decoding audio…', progress: 0 })
+      const res = await fetch(asset.url, { signal: job.signal })
       const arr = await res.arrayBuffer()
-      const audio = await ctx.decodeAudioData(arr)
-      const { beats, bpm } = analyzeBeatsFromBuffer(audio)
-      setBeatAnalyses(prev => ({ ...prev, [asset.id]: { assetId: asset.id, beats, bpm, createdAt: Date.now() } }))
-      setBeatStatus({ state: 'ready', assetId, message: `${beats.length} beats · BPM ~ ${bpm || 'n/a'}` })
+      const { channels, sampleRate } = await decodeChannels(arr)
+      const detection = await analysisPool.run('beats', { channels, sampleRate }, {
+        signal: job.signal,
+        onProgress: ratio => setBeatStatus({ state: 'analyzing', assetId, message: ratio < 0.8 ? 'Detecting beats…' : 'Finding sections…', progress: ratio })
+      })
+      setBeatAnalyses(prev => ({ ...prev, [asset.id]: { assetId: asset.id, ...detection, createdAt: Date.now() } }))
+      setBeatStatus({ state: 'ready', assetId, message: `${detection.beats.length} beats · BPM ~ ${detection.bpm || 'n/a'} · ${detection.sections.length} sections` })
     } catch (err) {
+      if (isAbortError(err) || job.signal.aborted) {
+        if (beatJobRef.current === job) setBeatStatus({ state: 'idle', assetId, message: 'Beat analysis cancelled' })
+        return
+      }
       console.error('beat analysis failed', err)
       setBeatStatus({ state: 'error', message: 'Beat analysis failed' })
+    } finally {
+      if (beatJobRef.current === job) beatJobRef.current = null
     }
   }
 
+  const cancelBeatAnalysis = () => beatJobRef.current?.abort()
+
   const applyBeatsToMarkers = (assetId: string) => {
     const analysis = beatAnalyses[assetId]
     const asset = assets.find(a => a.id === assetId)
     if (!analysis || !asset) return
+    // Follow the placed clip when there is one so markers land where the beats play
+    const anchor = findClipForAsset(clips, asset.id, asset.url)
     setProject(prev => {
       const nextMarkers = [...prev.markers]
       analysis.beats.forEach((t, idx) => {
-        nextMarkers.push({ time: clampTime(t), label: `${asset.name} · Beat ${idx + 1}`, color: '#22d3ee' })
+        const at = anchor ? mediaToTimeline(anchor, t) : t
+        if (at === null) return
+        nextMarkers.push({ id: createMarkerId(), time: clampTime(at), label: `${asset.name} · Beat ${idx + 1}`, color: '#22d3ee', type: 'beat' })
       })
       return { ...prev, markers: nextMarkers }
     })
     pushCheckpoint()
   }
 
+  const applySectionsToMarkers = (assetId: string) => {
+    const analysis = beatAnalyses[assetId]
+    const asset = assets.find(a => a.id === assetId)
+    if (!analysis?.sections?.length || !asset) return
+    const anchor = findClipForAsset(clips, asset.id, asset.url)
+    const counts: Partial<Record<SectionKind, number>> = {}
+    setProject(prev => {
+      const nextMarkers = [...prev.markers]
+      analysis.sections?.forEach(section => {
+        // Clip the range to the part of the song the anchor clip actually plays
+        const from = anchor ? Math.max(section.start, anchor.mediaOffset ?? 0) : section.start
+        const to = anchor ? Math.min(section.end, (anchor.mediaOffset ?? 0) + anchor.duration) : section.end
+        const start = anchor ? mediaToTimeline(anchor, from) : from
+        if (start === null || to <= from) return
+        counts[section.kind] = (counts[section.kind] ?? 0) + 1
+        nextMarkers.push({
+          id: createMarkerId(),
+          type: 'chapter',
+          time: clampTime(start),
+          duration: to - from,
+          label: `${sectionLabel(section.kind)} ${counts[section.kind]}`,
+          color: SECTION_COLORS[section.kind]
+        })
+      })
+      return { ...prev, markers: nextMarkers }
+    })
+    pushCheckpoint()
+  }
+
+  const anchorBeatGrid = (assetId: string) => {
+    const asset = assets.find(a => a.id === assetId)
+    if (!asset || !beatAnalyses[assetId]) return
+    const anchor = findClipForAsset(clips, asset.id, asset.url)
+    if (!anchor) return
+    setProject(prev => ({ ...prev, beatGrid: { assetId, clipId: anchor.id, subdivisions: prev.beatGrid?.subdivisions ?? 2 } }))
+    setRulerMode('bars')
+  }
+
+  const runAutoCut = (assetId: string) => {
+    const analysis = beatAnalyses[assetId]
+    const music = assets.find(a => a.id === assetId)
+    const picked = selectedAssetIds.map(id => assets.find(a => a.id === id)).filter((a): a is Asset => !!a)
+    if (!analysis || !music || !picked.length) return
+    const track = trackIndex[autoCut.trackId]
+    if (!track || track.locked) return
+    const anchor = findClipForAsset(clips, music.id, music.url)
+    const beats = timelineBeats(analysis, anchor)
+    // One commit so the whole montage is a single undo step
+    setProject(prev => autoCutToBeat(prev, picked, beats, { ...autoCut, seed: Date.now(), palette: CLIP_COLORS }))
+  }
+
+  const previewQuantize = (assetId: string) => {
+    const analysis = beatAnalyses[assetId]
+    const music = assets.find(a => a.id === assetId)
+    if (!analysis || !music) return
+    const anchor = findClipForAsset(clips, music.id, music.url)
+    const beats = timelineBeats(analysis, anchor).map(b => b.time)
+    const scope = quantizeForm.scope === 'selection' ? { clipIds: selection.clipIds } : { trackIds: [quantizeForm.scope] }
+    // Locked tracks and the music clip itself never move
+    const editable = clips.filter(c => !trackIndex[c.track]?.locked && c.id !== anchor?.id)
+    setQuantizePlan(planQuantize(editable, scope, beats, quantizeForm.tolerance, MIN_CLIP))
+  }
+
+  const applyQuantizePlan = () => {
+    if (!quantizePlan?.length) return
+    const plan = quantizePlan
+    setProject(prev => ({ ...prev, clips: applyQuantize(prev.clips, plan) }))
+    setQuantizePlan(null)
+  }
+
+  const toggleAssetSelection = (assetId: string) => {
+    setSelectedAssetIds(prev => prev.includes(assetId) ? prev.filter(id => id !== assetId) : [...prev, assetId])
+  }
+
+  const clearBeatGrid = () => {
+    setProject(prev => ({ ...prev, beatGrid: null }))
+  }
+
   const exportBeatCSV = (assetId: string) => {
     const analysis = beatAnalyses[assetId]
     const asset = assets.find(a => a.id === assetId)
@@ -694,6 +936,29 @@ function App() {
     URL.revokeObjectURL(url)
   }
 
+  // The meter taps the master bus in an AudioWorklet; the node lives as long as the context and
+  // each playback's master gain connects to it (stopPlayback's disconnect drops that link).
+  const connectLoudnessMeter = async (ctx: AudioContext, source: AudioNode) => {
+    try {
+      if (!loudnessNodeRef.current || loudnessNodeRef.current.context !== ctx) {
+        await ctx.audioWorklet.addModule(loudnessWorkletUrl)
+        const node = new AudioWorkletNode(ctx, 'loudness-meter', {
+          numberOfInputs: 1,
+          numberOfOutputs: 1,
+          outputChannelCount: [2],
+          channelCount: 2,
+          channelCountMode: 'explicit'
+        })
+        node.port.onmessage = (e: MessageEvent<LoudnessReading>) => setLoudness(e.data)
+        node.connect(ctx.destination) // silent, but keeps the node pulled
+        loudnessNodeRef.current = node
+      }
+      source.connect(loudnessNodeRef.current)
+    } catch (err) {
+      console.warn('Loudness meter unavailable', err)
+    }
+  }
+
   const startPlayback = async () => {
     const ctx = await ensureAudioContext(audioCtxRef)
     stopPlayback()
@@ -702,53 +967,15 @@ function App() {
     const startAt = ctx.currentTime + 0.05
     const master = ctx.createGain()
     master.gain.setValueAtTime(1, startAt)
-    const analyser = ctx.createAnalyser()
-    analyser.fftSize = 512
-    master.connect(analyser)
-    analyser.connect(ctx.destination)
+    master.connect(ctx.destination)
     masterGainRef.current = master
-    analyserRef.current = analyser
-
-    const audioClips = clips.filter(c => {
-      if (!(c.assetType || '').startsWith('audio')) return false
-      const tr = trackIndex[c.track]
-      if (!tr) return false
-      if (tr.locked) return false
-      if (anySolo) return tr.solo === true
-      return !tr.mute
-    })
-    const resolved = await Promise.all(audioClips.map(async clip => {
-      const buf = await fetchBuffer(ctx, clip.url)
-      if (!buf) return null
-      const mediaDur = clip.mediaDuration ?? bufferDurRef.current.get(clip.url || '') ?? buf.duration
-      const clipOffset = clip.mediaOffset ?? 0
-      const offset = Math.max(0, playheadStartRef.current - clip.start + clipOffset)
-      const dur = Math.max(0, Math.min(mediaDur - offset, clip.duration))
-      if (dur <= 0) return null
-      const when = startAt + Math.max(0, clip.start - playheadStartRef.current)
-      const src = ctx.createBufferSource()
-      src.buffer = buf
-      const gainNode = ctx.createGain()
-      const targetGain = Math.max(0.0001, clip.gain ?? 1)
-      const fadeIn = Math.max(0, clip.fadeIn ?? 0.12)
-      const fadeOut = Math.max(0, clip.fadeOut ?? 0.12)
-      gainNode.gain.setValueAtTime(targetGain, when)
-      if (fadeIn > 0) {
-        gainNode.gain.setValueAtTime(0.0001, when)
-        gainNode.gain.linearRampToValueAtTime(targetGain, when + Math.min(fadeIn, dur * 0.6))
-      }
-      if (fadeOut > 0) {
-        gainNode.gain.setValueAtTime(targetGain, when + Math.max(0, dur - fadeOut))
-        gainNode.gain.linearRampToValueAtTime(0.0001, when + dur)
-      }
-      src.connect(gainNode)
-      gainNode.connect(master)
-      src.start(when, offset, dur)
-      return src
-    }))
-    sourcesRef.current = resolved.filter(Boolean) as AudioBufferSourceNode[]
+    connectLoudnessMeter(ctx, master)
 
-    const stopAt = loopEnabled ? loopRange.end : TOTAL_DURATION
+    const scheduled = await loadAudioBuffers(ctx, liveAudioClips(tracks, clips))
+    sourcesRef.current = scheduleClips(ctx, master, scheduled, playheadStartRef.current, startAt)
+
+    // Stop where the content ends; from past that point, at the end of the headroom
+    const stopAt = loopEnabled ? loopRange.end : playheadStartRef.current < contentEnd ? contentEnd : totalDuration
 
     const tick = () => {
       const ctxNow = ctx.currentTime
@@ -779,10 +1006,7 @@ function App() {
     if (!vid) return
     const active = clips.find(c => {
       if (!(c.assetType || '').startsWith('video')) return false
-      const tr = trackIndex[c.track]
-      if (!tr || tr.locked) return false
-      if (anySolo && !tr.solo) return false
-      if (!anySolo && tr.mute) return false
+      if (!trackIsLive(trackIndex[c.track], anySolo)) return false
       return c.url && pos >= c.start && pos <= c.start + c.duration
     })
     if (!active) {
@@ -806,7 +1030,10 @@ function App() {
 
   const collectSnapPoints = (trackId: string, excludeId?: string): SnapPoint[] => {
     const pts: SnapPoint[] = []
-    markers.forEach(m => pts.push({ time: m.time, label: `Marker · ${m.label}` }))
+    markers.forEach(m => {
+      pts.push({ time: m.time, label: `Marker · ${m.label}` })
+      if (m.duration) pts.push({ time: m.time + m.duration, label: `Marker end · ${m.label}` })
+    })
     const trackClips = clips.filter(c => c.track === trackId && c.id !== excludeId).sort((a, b) => a.start - b.start)
     trackClips.forEach((c, idx) => {
       pts.push({ time: c.start, label: `Edge · ${c.title}` })
@@ -821,11 +1048,31 @@ function App() {
         }
       }
     })
-    for (let t = 0; t <= TOTAL_DURATION; t += GRID_STEP) pts.push({ time: Number(t.toFixed(3)), label: 'Grid' })
+    // A clip carrying the beat grid moves the grid with it, so it can't snap to itself
+    if (!beatGrid || beatGrid.clipId !== excludeId) {
+      gridLines.forEach(l => pts.push({ time: l.time, label: gridLineLabel(l) }))
+    }
     return pts
   }
 
-  const snapTime = (candidate: number, snaps: SnapPoint[]) => {
+  // Markers snap to other markers, clip edges on any track, the beat grid and the playhead
+  const collectMarkerSnapPoints = (excludeId: string): SnapPoint[] => {
+    const pts: SnapPoint[] = [{ time: playhead, label: 'Playhead' }]
+    markers.forEach(m => {
+      if (m.id === excludeId) return
+      pts.push({ time: m.time, label: `Marker · ${m.label}` })
+      if (m.duration) pts.push({ time: m.time + m.duration, label: `Marker end · ${m.label}` })
+    })
+    clips.forEach(c => {
+      pts.push({ time: c.start, label: `Edge · ${c.title}` })
+      pts.push({ time: c.start + c.duration, label: `Edge · ${c.title}` })
+    })
+    gridLines.forEach(l => pts.push({ time: l.time, label: gridLineLabel(l) }))
+    return pts
+  }
+
+  // `grid` adds the nearest line of a regular grid (from 0 to the end of the timeline) as a snap point
+  const snapTime = (candidate: number, snaps: SnapPoint[], grid = 0) => {
     let best = candidate
     let label: string | null = null
     let minDelta = snapStrength
@@ -837,14 +1084,27 @@ function App() {
         label = s.label
       }
     }
-    return { time: best, label }
+    if (grid > 0) {
+      const line = Math.max(0, Math.min(Math.round(candidate / grid), Math.floor(totalDuration / grid))) * grid
+      if (Math.abs(candidate - line) < minDelta) {
+        best = line
+        label = 'Grid'
+      }
+    }
+    return { time: snapToFrame(best, fps), label }
+  }
+
+  // Both edges and the source in-point on the frame grid, never shorter than a frame
+  const alignToFrames = (clip: Clip): Clip => {
+    const start = snapToFrame(clip.start, fps)
+    const end = Math.max(snapToFrame(clip.start + clip.duration, fps), start + framesToSeconds(1, fps))
+    return { ...clip, start, duration: end - start, ...(clip.mediaOffset !== undefined ? { mediaOffset: snapToFrame(clip.mediaOffset, fps) } : {}) }
   }
 
   const addMarker = () => {
-    const palette = ['#22d3ee', '#f97316', '#e11d48', '#a78bfa', '#22c55e']
-    const color = palette[(markers.length) % palette.length]
+    const color = MARKER_PALETTE[(markers.length) % MARKER_PALETTE.length]
     const label = `Marker ${markers.length + 1}`
-    setProject(prev => ({ ...prev, markers: [...prev.markers, { time: playhead, label, color }] }))
+    setProject(prev => ({ ...prev, markers: [...prev.markers, { id: createMarkerId(), time: playhead, label, color, type: 'cue' }] }))
   }
 
   const handleRulerClick = (e: React.MouseEvent<HTMLDivElement>) => {
@@ -854,6 +1114,148 @@ function App() {
     setPlayhead(clampTime(seconds))
   }
 
+  const openMarkerCsv = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    file.text()
+      .then(text => setMarkerImport({ fileName: file.name, text }))
+      .catch(err => console.error('Marker CSV read failed', err))
+  }
+
+  const importMarkers = (incoming: Marker[], mode: 'merge' | 'replace') => {
+    setProject(prev => {
+      if (mode === 'replace') return { ...prev, markers: incoming }
+      const seen = new Set(prev.markers.map(m => `${m.time.toFixed(3)}|${m.label}`))
+      const fresh = incoming.filter(m => !seen.has(`${m.time.toFixed(3)}|${m.label}`))
+      return { ...prev, markers: [...prev.markers, ...fresh].sort((a, b) => a.time - b.time) }
+    })
+    setMarkerImport(null)
+  }
+
+  const editMarker = (id: string, patch: Partial<Omit<Marker, 'id'>>, opts?: { push?: boolean }) => {
+    if (opts?.push === false) markerEditDirtyRef.current = true
+    setProject(prev => ({ ...prev, markers: updateMarker(prev.markers, id, patch) }), opts)
+  }
+
+  // Text fields edit without history on every keystroke; leaving the field records one step
+  const commitMarkerEdit = () => {
+    if (!markerEditDirtyRef.current) return
+    markerEditDirtyRef.current = false
+    setProject(prev => ({ ...prev }))
+  }
+
+  const deleteMarker = (id: string) => {
+    setProject(prev => ({ ...prev, markers: prev.markers.filter(m => m.id !== id) }))
+    if (expandedMarkerId === id) setExpandedMarkerId(null)
+  }
+
+  const startMarkerDrag = (m: Marker) => (e: React.MouseEvent<HTMLDivElement>) => {
+    e.stopPropagation()
+    if (e.button !== 0) return
+    markerDragRef.current = { id: m.id, startX: e.clientX, origTime: m.time, moved: false }
+  }
+
+  const exportMarkerFile = () => {
+    const format = MARKER_FORMATS.find(f => f.id === markerFormat) ?? MARKER_FORMATS[0]
+    const { text, warnings } = exportMarkers(format.id, markers, fps)
+    downloadBlob(new Blob([text], { type: format.mime }), `markers_${format.id}.${format.ext}`)
+    setMarkerIoStatus(warnings.length ? warnings.join(' ') : `Exported ${markers.length} markers as ${format.label}.`)
+  }
+
+  const exportTimelineFile = () => {
+    const format = TIMELINE_FORMATS.find(f => f.id === timelineFormat) ?? TIMELINE_FORMATS[0]
+    const { text, warnings } = exportTimeline(format.id, { tracks, clips, markers }, fps, { dropFrame })
+    downloadBlob(new Blob([text], { type: format.mime }), `timeline.${format.ext}`)
+    setTimelineIoStatus(warnings.length ? warnings.join(' ') : `Exported ${clips.length} clips as ${format.label} at ${fps} fps.`)
+  }
+
+  const exportStoryboard = async (output: 'png' | 'html') => {
+    const panels = storyboardPanels(tracks, clips, markers, storyboard.mode)
+    if (!panels.length) {
+      setStoryboardStatus(storyboard.mode === 'markers' ? 'No markers to board.' : 'No picture clips to board.')
+      return
+    }
+    setStoryboardBusy(true)
+    try {
+      const stills = await captureStills(panels, storyboard.frames, {
+        onProgress: (done, total) => setStoryboardStatus(`Capturing frame ${done}/${total}…`)
+      })
+      const info = { project: projectName, fps, dropFrame, date: new Date(), options: storyboard }
+      const base = `${projectName.trim().replace(/[^\p{L}\p{N}_-]+/gu, '-') || 'project'}_storyboard`
+      if (output === 'html') {
+        downloadBlob(new Blob([await storyboardHtml(panels, stills, info)], { type: 'text/html' }), `${base}.html`)
+      } else {
+        const pages = storyboardPages(panels, storyboard)
+        for (const [i, page] of pages.entries()) {
+          const png = await renderContactSheet(page, stills, info, i, pages.length)
+          downloadBlob(png, pages.length > 1 ? `${base}_${i + 1}.png` : `${base}.png`)
+        }
+      }
+      const missing = [...stills.values()].filter(s => !s).length
+      setStoryboardStatus(`Boarded ${panels.length} ${storyboard.mode === 'markers' ? 'markers' : 'clips'}${missing ? ` (${missing} without a frame)` : ''}.`)
+    } catch (err) {
+      console.error('Storyboard failed', err)
+      setStoryboardStatus(`Storyboard failed: ${err instanceof Error ? err.message : String(err)}`)
+    } finally {
+      setStoryboardBusy(false)
+    }
+  }
+
+  const importTimelineFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    file.text()
+      .then(text => {
+        const format = detectTimelineFormat(file.name, text)
+        // the pool first, then whatever the current timeline already plays
+        const resolveMedia = createMediaResolver([
+          ...assets,
+          ...clips.filter(c => c.url).map(c => ({ name: c.title, url: c.url, id: c.assetId, mediaId: c.mediaId, type: c.assetType, duration: c.mediaDuration, waveform: c.waveform, thumb: c.thumb }))
+        ])
+        const imported = importTimeline(format, text, { fps, resolveMedia, clipColors: CLIP_COLORS, markerColor: MARKER_PALETTE[0] })
+        const adoptRate = imported.fps !== fps && FPS_CHOICES.includes(imported.fps)
+        setProject(prev => ({
+          ...prev,
+          tracks: imported.tracks,
+          clips: imported.clips,
+          markers: imported.markers,
+          beatGrid: null,
+          ...(adoptRate ? projectRate({ fps: imported.fps, dropFrame: prev.dropFrame }) : {})
+        }))
+        setSelection({ clipIds: [], marquee: null })
+        const notes = [...imported.warnings]
+        if (imported.fps !== fps && !adoptRate) notes.push(`The timeline runs at ${imported.fps} fps; the project stays at ${fps}.`)
+        const label = TIMELINE_FORMATS.find(f => f.id === format)?.label
+        setTimelineIoStatus([`Imported ${imported.clips.length} clips on ${imported.tracks.length} tracks from ${label}.`, ...notes].join(' '))
+      })
+      .catch(err => setTimelineIoStatus(`Import failed: ${err instanceof Error ? err.message : String(err)}`))
+  }
+
+  const relinkPrimaryClip = (assetId: string) => {
+    const asset = assets.find(a => a.id === assetId)
+    if (!primaryClip || !asset) return
+    setProject(prev => ({ ...prev, clips: relinkClips(prev.clips, primaryClip.id, asset) }))
+  }
+
+  const importMarkerInterchange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    file.text()
+      .then(text => {
+        const incoming = importMarkerFile(markerFormat, text, fps, MARKER_PALETTE[markers.length % MARKER_PALETTE.length])
+        if (!incoming.length) {
+          setMarkerIoStatus(`No markers found in ${file.name}.`)
+          return
+        }
+        importMarkers(incoming, 'merge')
+        setMarkerIoStatus(`Imported ${incoming.length} markers from ${file.name}.`)
+      })
+      .catch(err => setMarkerIoStatus(err instanceof Error ? err.message : 'Marker import failed'))
+  }
+
   const jumpToMarker = (m: Marker) => {
     setPlayhead(clampTime(m.time))
   }
@@ -872,6 +1274,14 @@ function App() {
     timelineRef.current.parentElement.scrollLeft = Math.max(0, px - 60)
   }
 
+  const zoomToFit = () => {
+    const scroller = timelineRef.current?.parentElement
+    if (!scroller) return
+    const viewPx = scroller.clientWidth || 960
+    setZoom(clamp((viewPx - 120) / (totalDuration * 80), ZOOM_MIN, ZOOM_MAX))
+    scroller.scrollLeft = 0
+  }
+
   const handleAssetUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || [])
     if (!files.length) return
@@ -884,55 +1294,144 @@ function App() {
       url: URL.createObjectURL(f)
     }))
     setAssets(prev => [...prev, ...stubAssets])
+    // Keep the bytes for later sessions; clips placed meanwhile pick up the media id too
+    stubAssets.forEach((stub, idx) => {
+      const file = files[idx]
+      storeMedia(file, file.name)
+        .then(record => {
+          setMediaUrlMap(prev => ({ ...prev, [record.id]: prev[record.id] || stub.url || null }))
+          setAssets(prev => prev.map(a => (a.id === stub.id ? { ...a, mediaId: record.id } : a)))
+          setProject(prev => (prev.clips.some(c => c.assetId === stub.id && !c.mediaId)
+            ? { ...prev, clips: prev.clips.map(c => (c.assetId === stub.id && !c.mediaId ? { ...c, mediaId: record.id } : c)) }
+            : prev), { push: false })
+          setExportPresets(prev => prev.map(p => (p.burnIn.watermark?.assetId === stub.id && !p.burnIn.watermark.mediaId
+            ? { ...p, burnIn: { ...p.burnIn, watermark: { ...p.burnIn.watermark, mediaId: record.id } } }
+            : p)))
+          refreshMediaStore()
+        })
+        .catch(err => setMediaStatus(`${file.name} is kept for this session only: ${err instanceof Error ? err.message : String(err)}`))
+    })
     stubAssets.forEach(stub => {
       const file = files.find(f => stub.id.startsWith(String(now)) && stub.name === f.name)
       if (!file) return
       pendingFilesRef.current.set(stub.id, file)
-      setAnalysisStatuses(prev => ({ ...prev, [stub.id]: 'pending' }))
+      setAnalysisStatuses(prev => ({ ...prev, [stub.id]: { state: 'pending', progress: 0 } }))
     })
-    runNextAnalysis()
     e.target.value = ''
   }
 
-  const runNextAnalysis = async () => {
-    if (processingAnalysisRef.current) return
-    const pendingEntry = Object.entries(analysisStatusRef.current).find(([, status]) => status === 'pending')
-    if (!pendingEntry) return
-    const [assetId] = pendingEntry
+  const refreshMediaStore = async () => {
+    try {
+      const index = await loadMediaIndex()
+      setMediaIndex(index)
+      setStorageInfo(await storageReport(index))
+    } catch (err) {
+      setMediaStatus(`Could not read the media store: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+
+  // Drafts and preset watermarks count as users too: loading one must not find its media gone
+  const unusedStoredMedia = useMemo(
+    () => unusedMedia(mediaIndex, referencedMedia(assetPool, [project.clips, ...drafts.map(d => d.payload.project.clips ?? [])], presetMedia(exportPresets))),
+    [mediaIndex, assetPool, project.clips, drafts, exportPresets]
+  )
+
+  const removeUnusedMedia = async () => {
+    const doomed = unusedStoredMedia
+    if (!doomed.length) return
+    setMediaStoreBusy(true)
+    try {
+      await deleteMedia(doomed.map(r => r.id))
+      setMediaUrlMap(prev => {
+        const next = { ...prev }
+        doomed.forEach(r => {
+          const url = next[r.id]
+          if (url) URL.revokeObjectURL(url)
+          delete next[r.id]
+        })
+        return next
+      })
+      setMediaStatus(`Removed ${doomed.length} unused file${doomed.length === 1 ? '' : 's'} (${formatBytes(doomed.reduce((sum, r) => sum + r.size, 0))}).`)
+      await refreshMediaStore()
+    } catch (err) {
+      setMediaStatus(`Cleanup failed: ${err instanceof Error ? err.message : String(err)}`)
+    } finally {
+      setMediaStoreBusy(false)
+    }
+  }
+
+  useEffect(() => {
+    if (activeTab === 'assets') refreshMediaStore()
+  }, [activeTab])
+
+  const persistMediaStore = async () => {
+    const granted = await requestPersistentStorage()
+    setMediaStatus(granted ? null : 'The browser declined; it decides based on how the site is used (installing or bookmarking it helps).')
+    await refreshMediaStore()
+  }
+
+  const setAnalysisStatus = (assetId: string, state: AnalysisState, progress = 0) => {
+    setAnalysisStatuses(prev => ({ ...prev, [assetId]: { state, progress } }))
+  }
+
+  const analyzeAsset = async (assetId: string) => {
     const file = pendingFilesRef.current.get(assetId)
     if (!file) {
-      setAnalysisStatuses(prev => ({ ...prev, [assetId]: 'error' }))
+      setAnalysisStatus(assetId, 'error')
       return
     }
-    processingAnalysisRef.current = true
-    setAnalysisStatuses(prev => ({ ...prev, [assetId]: 'processing' }))
+    const job = new AbortController()
+    analysisJobsRef.current.set(assetId, job)
+    setAnalysisStatus(assetId, 'processing')
     const cacheKey = `asset-meta-${file.name}-${file.size}-${file.lastModified}`
     try {
       const cached = await get(cacheKey) as { duration: number; waveform?: number[] | null; thumb?: string | null } | undefined
       if (cached) {
         setAssets(prev => prev.map(a => a.id === assetId ? { ...a, duration: cached.duration, waveform: cached.waveform ?? a.waveform, thumb: cached.thumb ?? a.thumb } : a))
-        setAnalysisStatuses(prev => ({ ...prev, [assetId]: 'cached' }))
+        setAnalysisStatus(assetId, 'cached', 1)
       } else {
+        const decodeWaveform = async () => {
+          const { channels } = await decodeChannels(await file.arrayBuffer(), 48000)
+          return analysisPool.run('waveform', { channels }, {
+            signal: job.signal,
+            onProgress: ratio => setAnalysisStatus(assetId, 'processing', ratio)
+          })
+        }
         const [duration, waveform, thumb] = await Promise.all([
           file.type.startsWith('audio') || file.type.startsWith('video') ? loadMediaDuration(file) : Promise.resolve(Math.max(3, Math.min(20, file.size / 1_000_000))),
-          file.type.startsWith('audio') ? decodeWaveform(file) : Promise.resolve(null),
+          file.type.startsWith('audio') ? decodeWaveform().catch(err => {
+            if (isAbortError(err)) throw err
+            console.warn('waveform decode failed', err)
+            return null
+          }) : Promise.resolve(null),
           loadThumb(file)
         ])
+        if (job.signal.aborted) throw new DOMException('Analysis cancelled', 'AbortError')
         const meta = { duration, waveform, thumb }
         await set(cacheKey, meta)
         setAssets(prev => prev.map(a => a.id === assetId ? { ...a, duration, waveform: waveform ?? a.waveform, thumb: thumb ?? a.thumb } : a))
-        setAnalysisStatuses(prev => ({ ...prev, [assetId]: 'done' }))
+        setAnalysisStatus(assetId, 'done', 1)
       }
     } catch (err) {
-      console.error('analysis failed', err)
-      setAnalysisStatuses(prev => ({ ...prev, [assetId]: 'error' }))
+      if (isAbortError(err)) {
+        setAnalysisStatus(assetId, 'cancelled')
+      } else {
+        console.error('analysis failed', err)
+        setAnalysisStatus(assetId, 'error')
+      }
     } finally {
       pendingFilesRef.current.delete(assetId)
-      processingAnalysisRef.current = false
-      setTimeout(runNextAnalysis, 20)
+      analysisJobsRef.current.delete(assetId)
     }
   }
 
+  const cancelAssetAnalysis = (assetId: string) => {
+    const job = analysisJobsRef.current.get(assetId)
+    if (job) job.abort()
+    else setAnalysisStatus(assetId, 'cancelled')
+    pendingFilesRef.current.delete(assetId)
+  }
+
   const saveDraft = (name?: string) => {
     const trimmed = (name || draftName || 'Draft').trim()
     const id = `${Date.now()}`
@@ -940,7 +1439,7 @@ function App() {
       id,
       name: trimmed,
       savedAt: Date.now(),
-      payload: { project, beatAnalyses }
+      payload: { project: versionedProject(project) }
     }
     setDrafts(prev => {
       const next = [draft, ...prev.filter(d => d.id !== id)].slice(0, 10)
@@ -954,9 +1453,15 @@ function App() {
   const loadDraft = (id: string) => {
     const draft = drafts.find(d => d.id === id)
     if (!draft) return
-    setProject(draft.payload.project)
-    setBeatAnalyses(draft.payload.beatAnalyses || {})
-    setActiveDraftId(id)
+    const { project: saved, beatAnalyses: legacyAnalyses } = draft.payload
+    try {
+      const loaded = loadProject({ ...saved, beatAnalyses: saved.beatAnalyses ?? legacyAnalyses }, { fps })
+      setProject(loaded.project)
+      setProjectStatus(loaded.warnings.length ? loaded.warnings.join(' ') : null)
+      setActiveDraftId(id)
+    } catch (err) {
+      setProjectStatus(`Draft "${draft.name}" could not be loaded: ${err instanceof Error ? err.message : String(err)}`)
+    }
   }
 
   const deleteDraft = (id: string) => {
@@ -981,6 +1486,8 @@ function App() {
         start: end + 0.1,
         duration: asset.duration,
         url: asset.url,
+        assetId: asset.id,
+        mediaId: asset.mediaId,
         assetType: asset.type,
         waveform: asset.waveform ?? null,
         thumb: asset.thumb ?? null,
@@ -1001,7 +1508,7 @@ function App() {
   }
 
   const exportJson = () => {
-    const blob = new Blob([JSON.stringify({ tracks, clips, markers }, null, 2)], { type: 'application/json' })
+    const blob = new Blob([projectToJson(project, 2)], { type: 'application/json' })
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
     a.href = url
@@ -1012,88 +1519,210 @@ function App() {
 
   const importJson = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
+    e.target.value = ''
     if (!file) return
-    file.text().then(txt => {
-      const data = JSON.parse(txt)
-      setProject({
-        tracks: data.tracks ?? DEFAULT_TRACKS,
-        clips: data.clips ?? DEFAULT_CLIPS,
-        markers: data.markers ?? DEFAULT_MARKERS
+    file.text()
+      .then(text => {
+        // Nothing changes unless the whole file validates
+        const { project: imported, fromVersion, warnings } = parseProjectJson(text, { fps })
+        setProject(imported)
+        setSelection({ clipIds: [], marquee: null })
+        const upgraded = fromVersion < PROJECT_SCHEMA_VERSION ? ` (upgraded from schema ${fromVersion})` : ''
+        setProjectStatus([`Imported ${file.name}${upgraded}.`, ...warnings].join(' '))
       })
-    }).catch(err => console.error('Import failed', err))
+      .catch(err => setProjectStatus(`Could not import ${file.name}: ${err instanceof Error ? err.message : String(err)}`))
   }
 
-  const renderPreset = async () => {
-    if (exportPreset === 'json') {
-      exportJson()
-      return
+  const exportBundle = async () => {
+    setBundleBusy(true)
+    try {
+      const { blob, mediaCount, bytes, warnings } = await collectBundle(
+        { name: projectName, project, assets: assetPool, presets: exportPresets },
+        { onProgress: (stage, ratio) => setBundleStatus(`${stage}… ${Math.round(ratio * 100)}%`) }
+      )
+      downloadBlob(blob, `${projectName.trim().replace(/[^\p{L}\p{N}_-]+/gu, '-') || 'project'}_bundle.zip`)
+      setBundleStatus([`Bundled ${mediaCount} media file${mediaCount === 1 ? '' : 's'} (${formatBytes(bytes)}).`, ...warnings].join(' '))
+    } catch (err) {
+      console.error('Bundle export failed', err)
+      setBundleStatus(`Bundle export failed: ${err instanceof Error ? err.message : String(err)}`)
+    } finally {
+      setBundleBusy(false)
     }
-    exportAbortRef.current.cancelled = false
-    setExportProgress(4)
-    setExportStatus('Preparing encoder…')
-    let useFfmpeg = false
+  }
+
+  const importBundle = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    setBundleBusy(true)
     try {
-      const ffmpegMod = await import('@ffmpeg/ffmpeg')
-      const createFFmpeg = (ffmpegMod as any).createFFmpeg || (ffmpegMod as any).default?.createFFmpeg
-      if (!createFFmpeg) throw new Error('ffmpeg factory missing')
-      const pickCorePath = async () => {
-        const localCore = '/ffmpeg-core/ffmpeg-core.js'
-        try {
-          const res = await fetch(localCore, { method: 'HEAD' })
-          if (res.ok) return localCore
-        } catch (_) { /* fallback */ }
-        return 'https://unpkg.com/@ffmpeg/core@0.12.10/dist/ffmpeg-core.js'
+      // Everything is read and validated before the store or the project changes
+      const bundle = await readBundle(file, { fps })
+      const warnings = [...bundle.warnings]
+      for (const [i, { info, blob }] of bundle.media.entries()) {
+        setBundleStatus(`Storing ${info.name} (${i + 1}/${bundle.media.length})…`)
+        const record = await storeMedia(blob, info.name)
+        if (record.id !== info.mediaId) warnings.push(`${info.name}: its bytes don't match the bundle's id, clips using it stay offline.`)
       }
-      const corePath = await pickCorePath()
-      const ffmpeg = createFFmpeg({
-        corePath,
-        log: false
+      // Ids this browser didn't have were cached as offline; drop them so they resolve again
+      const bundled = new Set(bundle.media.map(m => m.info.mediaId))
+      setMediaUrlMap(prev => Object.fromEntries(Object.entries(prev).filter(([id, url]) => url !== null || !bundled.has(id))))
+      setProject(bundle.project)
+      setSelection({ clipIds: [], marquee: null })
+      setAssets(prev => {
+        const incoming = new Map(bundle.assets.map(a => [a.id, a]))
+        const known = new Set(prev.map(a => a.id))
+        return [...prev.map(a => incoming.get(a.id) ?? a), ...bundle.assets.filter(a => !known.has(a.id))]
       })
-      setExportStatus('Loading ffmpeg.wasm…')
-      await ffmpeg.load()
-      useFfmpeg = true
-      setExportStatus('ffmpeg.wasm ready – staging timeline…')
+      if (bundle.presets.length) setExportPresets(prev => mergePresets(prev, bundle.presets).presets)
+      if (bundle.name) setProjectName(bundle.name)
+      const upgraded = bundle.fromVersion < PROJECT_SCHEMA_VERSION ? ` (upgraded from schema ${bundle.fromVersion})` : ''
+      setBundleStatus([`Imported ${file.name} with ${bundle.media.length} media file${bundle.media.length === 1 ? '' : 's'}${upgraded}.`, ...warnings].join(' '))
+      refreshMediaStore()
     } catch (err) {
-      console.warn('ffmpeg wasm unavailable, using lightweight mock', err)
-      setExportStatus('Falling back to lightweight renderer…')
+      setBundleStatus(`Could not import ${file.name}: ${err instanceof Error ? err.message : String(err)}`)
+    } finally {
+      setBundleBusy(false)
     }
+  }
 
-    const steps = useFfmpeg
-      ? ['Mixing audio', 'Muxing container', 'Optimizing chunks']
-      : ['Mixing audio', 'Packaging preset', 'Finalizing']
+  const updateRenderJob = (id: string, patch: (job: QueueJob) => Partial<QueueJob>) => {
+    setRenderJobs(prev => prev.map(j => (j.id === id ? { ...j, ...patch(j) } : j)))
+  }
 
-    for (let i = 0; i < steps.length; i++) {
-      if (exportAbortRef.current.cancelled) {
-        setExportStatus('Cancelled')
-        setExportProgress(0)
-        return
+  const runQueuedRender = async (job: QueueJob) => {
+    const controller = new AbortController()
+    renderJobsAbortRef.current.set(job.id, controller)
+    updateRenderJob(job.id, () => ({ status: 'running', progress: 0, stage: 'Starting…' }))
+    let result: Partial<QueueJob>
+    try {
+      // The watermark is found in the pool now, so a preset saved in another session still works
+      const preset = { ...job.preset, burnIn: withWatermarkUrl(job.preset.burnIn, assets, mediaUrlMap) }
+      const blob = await runQueueJob({ ...job, preset }, {
+        signal: controller.signal,
+        pool: analysisPool,
+        loadBuffers: async list => loadAudioBuffers(await ensureAudioContext(audioCtxRef), list),
+        onProgress: (ratio, stage) => updateRenderJob(job.id, () => ({ progress: ratio, stage })),
+        onLog: line => updateRenderJob(job.id, j => ({ log: appendLog(j.log, line) })),
+        onLoudness: measured => updateRenderJob(job.id, () => ({ loudness: measured })),
+        onBackend: backend => updateRenderJob(job.id, () => ({ backend }))
+      })
+      const output = { url: URL.createObjectURL(blob), name: outputName(job), size: blob.size }
+      result = { status: 'done', progress: 1, stage: 'Done', output, finishedAt: Date.now() }
+    } catch (err) {
+      if (isAbortError(err)) result = { status: 'cancelled', stage: 'Cancelled', finishedAt: Date.now() }
+      else {
+        console.error('Render failed', err)
+        result = { status: 'error', stage: 'Failed', error: err instanceof Error ? err.message : String(err), finishedAt: Date.now() }
       }
-      setExportStatus(steps[i])
-      setExportProgress(20 + (i + 1) * 20)
-      // simulate workload; in ffmpeg path we could pipe real commands later
-      // eslint-disable-next-line no-await-in-loop
-      await new Promise(res => setTimeout(res, 420))
     }
+    // Free the slot before the status change so the queue effect can start the next job
+    renderJobsAbortRef.current.delete(job.id)
+    updateRenderJob(job.id, () => result)
+  }
+
+  // null while the JSON bundle is picked (or the picked preset was deleted)
+  const activePreset = exportPresets.find(p => p.id === exportPreset) ?? null
+
+  const updatePreset = (next: ExportPreset) => setExportPresets(prev => prev.map(p => (p.id === next.id ? next : p)))
+
+  const duplicateActivePreset = () => {
+    if (!activePreset) return
+    const copy = duplicatePreset(activePreset)
+    setExportPresets(prev => [...prev, copy])
+    setExportPreset(copy.id)
+  }
+
+  const deleteActivePreset = () => {
+    if (!activePreset || exportPresets.length < 2) return
+    const rest = exportPresets.filter(p => p.id !== activePreset.id)
+    setExportPresets(rest)
+    setExportPreset(rest[0].id)
+  }
+
+  const exportPresetsFile = () => {
+    downloadBlob(new Blob([presetsToJson(exportPresets)], { type: 'application/json' }), 'export-presets.json')
+    setPresetIoStatus(`Exported ${exportPresets.length} presets.`)
+  }
+
+  const importPresetsFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    file.text()
+      .then(text => {
+        const incoming = parsePresetsJson(text)
+        const merged = mergePresets(exportPresets, incoming)
+        setExportPresets(merged.presets)
+        setPresetIoStatus(`Imported ${merged.added} new and updated ${merged.replaced} existing presets from ${file.name}.`)
+      })
+      .catch(err => setPresetIoStatus(`Could not import ${file.name}: ${err instanceof Error ? err.message : String(err)}`))
+  }
+
+  const resolveExportRange = (preset: ExportPreset, rangeClips: Clip[]) => (preset.range.mode === 'loop'
+    ? { from: loopRange.start, to: loopRange.end }
+    : { from: 0, to: contentDuration(rangeClips) })
+
+  const renderPreset = () => {
+    if (!activePreset) {
+      exportJson()
+      return
+    }
+    // The editor keeps whatever is typed; the job gets the clamped version
+    const preset = conformPreset(activePreset)
+    const draft = exportSource === 'current' ? null : drafts.find(d => d.id === exportSource)
+    const snapshot = draft ? { tracks: draft.payload.project.tracks, clips: bindClipMedia(draft.payload.project.clips, mediaUrlMap) } : { tracks, clips }
+    const range = resolveExportRange(preset, snapshot.clips)
+    if (!(range.to > range.from)) {
+      setExportStatus('Nothing to render: the range is empty')
+      return
+    }
+    setExportStatus(null)
+    setRenderJobs(prev => [...prev, createQueueJob({
+      preset,
+      source: draft ? draft.name : 'Current timeline',
+      range,
+      fps: presetFps(preset, fps),
+      dropFrame,
+      project: projectName,
+      encoder: preset.kind === 'audio' ? undefined : renderEncoder,
+      snapshot
+    })])
+  }
 
-    if (exportAbortRef.current.cancelled) {
-      setExportStatus('Cancelled')
-      setExportProgress(0)
+  const cancelRenderJob = (id: string) => {
+    const running = renderJobsAbortRef.current.get(id)
+    if (running) {
+      running.abort()
       return
     }
+    updateRenderJob(id, j => (j.status === 'queued' ? { status: 'cancelled', stage: 'Cancelled' } : {}))
+  }
 
-    const payload = `Render preset ${exportPreset.toUpperCase()} · tracks:${tracks.length} clips:${clips.length} markers:${markers.length} · ${new Date().toISOString()}`
-    const blob = new Blob([payload], { type: exportPreset === 'mp4' ? 'video/mp4' : 'video/webm' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = exportPreset === 'mp4' ? 'preview.mp4' : 'preview.webm'
-    a.click()
-    URL.revokeObjectURL(url)
-    setExportProgress(100)
-    setExportStatus('Done')
-    setTimeout(() => setExportProgress(0), 800)
+  const removeRenderJobs = (shouldRemove: (job: QueueJob) => boolean) => {
+    setRenderJobs(prev => {
+      prev.filter(j => j.status !== 'running' && shouldRemove(j)).forEach(j => j.output && URL.revokeObjectURL(j.output.url))
+      return prev.filter(j => j.status === 'running' || !shouldRemove(j))
+    })
   }
 
+  const runningRender = renderJobs.find(j => j.status === 'running')
+  const queuedRenders = renderJobs.filter(j => j.status === 'queued').length
+
+  // Burn-ins of the video preset picked in the Export tab, previewed over the program monitor
+  const previewBurnIn = activePreset && activePreset.kind !== 'audio' ? withWatermarkUrl(activePreset.burnIn, assets, mediaUrlMap) : null
+  const previewClip = previewBurnIn?.clipName ? topVisualClipAt(tracks, clips, playhead) : null
+  const previewRange = activePreset ? resolveExportRange(activePreset, clips) : { from: 0, to: contentDuration(clips) }
+  const previewSlate = previewBurnIn?.slate && slatePreview && activePreset
+    ? slateLines({
+        project: projectName,
+        date: new Date().toLocaleString(),
+        duration: previewRange.to - previewRange.from,
+        preset: activePreset.name,
+        range: previewRange
+      }, presetFps(activePreset, fps), dropFrame)
+    : null
+
   // track scroll -> minimap view window
   useEffect(() => {
     const scroller = timelineRef.current?.parentElement
@@ -1101,12 +1730,12 @@ function App() {
     const onScroll = () => {
       const start = (scroller.scrollLeft || 0) / pxPerSec
       const duration = (scroller.clientWidth || 1) / pxPerSec
-      setViewWindow({ start: clampTime(start), duration: Math.min(TOTAL_DURATION, duration) })
+      setViewWindow({ start: clampTime(start), duration: Math.min(totalDuration, duration) })
     }
     onScroll()
     scroller.addEventListener('scroll', onScroll)
     return () => scroller.removeEventListener('scroll', onScroll)
-  }, [pxPerSec])
+  }, [pxPerSec, totalDuration, clampTime])
 
   useEffect(() => {
     const scroller = timelineRef.current?.parentElement
@@ -1168,7 +1797,7 @@ function App() {
       if (loopHandleRef.current && minimapRef.current) {
         const rect = minimapRef.current.getBoundingClientRect()
         const ratio = Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width))
-        const time = clampTime(ratio * TOTAL_DURATION)
+        const time = clampTime(ratio * totalDuration)
         setLoopRange(range => {
           if (loopHandleRef.current === 'loop-start') {
             const start = Math.min(time, range.end - 0.2)
@@ -1180,6 +1809,17 @@ function App() {
         return
       }
 
+      const markerDrag = markerDragRef.current
+      if (markerDrag) {
+        if (!markerDrag.moved && Math.abs(e.clientX - markerDrag.startX) < 3) return
+        markerDrag.moved = true
+        const candidate = clampTime(markerDrag.origTime + (e.clientX - markerDrag.startX) / pxPerSec)
+        const { time, label } = snapTime(candidate, collectMarkerSnapPoints(markerDrag.id))
+        setProject(prev => ({ ...prev, markers: updateMarker(prev.markers, markerDrag.id, { time }) }), { push: false })
+        setSnap({ position: time, label: label || formatTime(time) })
+        return
+      }
+
       // marquee drag
       if (selection.marquee) {
         const container = timelineRef.current
@@ -1222,7 +1862,7 @@ function App() {
           if (c.id !== id) return c
           if (mode === 'move') {
             let candidate = clampTime(origStart + deltaSec)
-            const snapRes = snapTime(candidate, snaps)
+            const snapRes = snapTime(candidate, snaps, GRID_STEP)
             candidate = snapRes.time
             const prevSibling = siblings.filter(s => s.start + s.duration <= candidate).at(-1)
             const nextSibling = siblings.find(s => s.start >= candidate)
@@ -1271,7 +1911,7 @@ function App() {
           if (mode === 'trim-start') {
             const prevSibling = siblings.filter(s => s.start + s.duration <= origStart).at(-1)
             const newStart = clampTime(origStart + deltaSec)
-            const snappedStart = snapTime(newStart, snaps).time
+            const snappedStart = snapTime(newStart, snaps, GRID_STEP).time
 
             // Roll: adjust boundary between previous sibling and this clip
             if (rollEdit && prevSibling) {
@@ -1297,7 +1937,7 @@ function App() {
           const nextSibling = siblings.find(s => s.start >= origStart)
 
           if (rollEdit && nextSibling) {
-            const snappedEnd = snapTime(origStart + newDur, snaps).time
+            const snappedEnd = snapTime(origStart + newDur, snaps, GRID_STEP).time
             const deltaBoundary = snappedEnd - (origStart + origDuration)
             const newNextStart = nextSibling.start + deltaBoundary
             const newNextDur = Math.max(minDur, nextSibling.duration - deltaBoundary)
@@ -1315,9 +1955,9 @@ function App() {
           if (nextSibling && !allowOverlap) {
             newDur = Math.min(newDur, nextSibling.start - origStart - 0.01)
           }
-          newDur = Math.min(newDur, TOTAL_DURATION - origStart)
+          newDur = Math.min(newDur, totalDuration - origStart)
           newDur = Math.max(minDur, newDur)
-          const snappedEnd = snapTime(origStart + newDur, snaps).time
+          const snappedEnd = snapTime(origStart + newDur, snaps, GRID_STEP).time
           newDur = Math.max(minDur, snappedEnd - origStart)
           return { ...c, duration: newDur }
         })
@@ -1344,18 +1984,19 @@ function App() {
           })
         }
 
-        return { ...prev, clips: updatedClips }
+        // Edits land on whole frames; only the clips this drag touched get moved
+        return { ...prev, clips: updatedClips.map((c, i) => (c === prev.clips[i] ? c : alignToFrames(c))) }
       }, { push: false })
 
       // snap ghost
       if (mode === 'move') {
-        const { time, label } = snapTime(clampTime(origStart + deltaSec), snaps)
+        const { time, label } = snapTime(clampTime(origStart + deltaSec), snaps, GRID_STEP)
         setSnap({ position: time, label: label || formatTime(time) })
       } else if (mode === 'trim-start') {
-        const { time, label } = snapTime(clampTime(origStart + deltaSec), snaps)
+        const { time, label } = snapTime(clampTime(origStart + deltaSec), snaps, GRID_STEP)
         setSnap({ position: time, label: label || formatTime(time) })
       } else {
-        const { time, label } = snapTime(origStart + Math.max(minDur, origDuration + deltaSec), snaps)
+        const { time, label } = snapTime(origStart + Math.max(minDur, origDuration + deltaSec), snaps, GRID_STEP)
         setSnap({ position: time, label: label || formatTime(time) })
       }
     }
@@ -1365,6 +2006,11 @@ function App() {
         dragRef.current = null
         pushCheckpoint()
       }
+      if (markerDragRef.current) {
+        // Record the dropped position as a single undo step
+        if (markerDragRef.current.moved) setProject(prev => ({ ...prev }))
+        markerDragRef.current = null
+      }
       if (selection.marquee) {
         setSelection(prev => ({ ...prev, marquee: null }))
       }
@@ -1378,7 +2024,7 @@ function App() {
       window.removeEventListener('mousemove', onMove)
       window.removeEventListener('mouseup', onUp)
     }
-  }, [pxPerSec, setProject, pushCheckpoint, project.clips, allowOverlap, selection.marquee, clips, tracks, rippleEdit])
+  }, [pxPerSec, setProject, pushCheckpoint, project.clips, allowOverlap, selection.marquee, clips, tracks, rippleEdit, markers, clampTime, totalDuration])
 
   return (
     <div className="app">
@@ -1396,14 +2042,17 @@ function App() {
           ))}
         </div>
         <div className="deck">
+          <label className="pill ghosty">Project
+            <input className="project-name" aria-label="Project name" value={projectName} onChange={(e) => setProjectName(e.target.value)} />
+          </label>
           <label className="pill ghosty">FPS
-            <select defaultValue="30">
-              <option value="24">24</option>
-              <option value="30">30</option>
-              <option value="60">60</option>
+            <select aria-label="Frame rate" value={frameRateId(fps, dropFrame)} onChange={(e) => setFrameRate(e.target.value)}>
+              {FRAME_RATES.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
             </select>
           </label>
-          <div className="pill timecode">TC {formatTime(playhead)}</div>
+          <label className="pill timecode">TC
+            <TimecodeInput value={playhead} fps={fps} dropFrame={dropFrame} ariaLabel="Playhead timecode" title="Type a timecode to jump there" onCommit={(t) => setPlayhead(clampTime(t))} />
+          </label>
           <div className="transport chunky">
             <button onClick={() => setPlayhead(0)}>⏮</button>
             <button
@@ -1414,7 +2063,7 @@ function App() {
             >
               {playing ? '⏸' : '▶'}
             </button>
-            <button onClick={() => setPlayhead(TOTAL_DURATION)}>⏭</button>
+            <button onClick={() => setPlayhead(contentEnd)}>⏭</button>
           </div>
           <div className="pill slim">
             Track height
@@ -1464,7 +2113,7 @@ function App() {
                 {assets.map(a => (
                   <div
                     key={a.id}
-                    className="asset-card"
+                    className={`asset-card ${selectedAssetIds.includes(a.id) ? 'selected' : ''}`}
                     draggable
                     onDragStart={(e) => {
                       e.dataTransfer.setData('text/asset-id', a.id)
@@ -1486,7 +2135,13 @@ function App() {
                     </div>
                     <div className="asset-meta">
                       <strong>{a.name}</strong>
-                      <div className="muted small">{a.type || 'file'} · ~{a.duration.toFixed(1)}s</div>
+                      <div className="muted small">{a.type || 'file'} · ~{a.duration.toFixed(1)}s{a.mediaId ? ' · stored' : a.url?.startsWith('blob:') ? ' · this session only' : ''}</div>
+                      {(a.type.startsWith('image') || a.type.startsWith('video')) && (
+                        <label className="muted small asset-pick">
+                          <input type="checkbox" checked={selectedAssetIds.includes(a.id)} onChange={() => toggleAssetSelection(a.id)} />
+                          Use in auto-cut
+                        </label>
+                      )}
                     </div>
                     <div className="asset-actions">
                       {tracks.map(t => (
@@ -1530,8 +2185,11 @@ function App() {
                   <div className="video-frame">
                     <video ref={videoRef} muted playsInline controls />
                     <div className="monitor-overlay">
-                      <div className="time-badge">{formatTime(playhead)}</div>
+                      {!previewBurnIn?.timecode && <div className="time-badge">{formatTime(playhead)}</div>}
                       <div className="safe-guides" />
+                      {previewBurnIn && (
+                        <BurnInOverlay settings={previewBurnIn} timecode={secondsToTc(playhead, activePreset ? presetFps(activePreset, fps) : fps, dropFrame)} clipName={previewClip?.title ?? null} slate={previewSlate} />
+                      )}
                     </div>
                   </div>
                 </div>
@@ -1539,23 +2197,21 @@ function App() {
                   <label className={`pill ghosty ${loopEnabled ? 'active' : ''}`}>
                     <input type="checkbox" checked={loopEnabled} onChange={(e) => setLoopEnabled(e.target.checked)} />
                     Loop
-                    <input
-                      type="number"
-                      min={0}
-                      max={loopRange.end - 0.1}
-                      step={0.1}
-                      value={loopRange.start}
-                      onChange={(e) => setLoopRange({ ...loopRange, start: clampTime(parseFloat(e.target.value) || 0) })}
+                    <TimecodeInput
                       className="pill-input"
+                      ariaLabel="Loop start"
+                      value={loopRange.start}
+                      fps={fps}
+                      dropFrame={dropFrame}
+                      onCommit={(t) => setLoopRange(r => ({ ...r, start: Math.min(clampTime(t), r.end - framesToSeconds(1, fps)) }))}
                     />
-                    <input
-                      type="number"
-                      min={loopRange.start + 0.1}
-                      max={TOTAL_DURATION}
-                      step={0.1}
-                      value={loopRange.end}
-                      onChange={(e) => setLoopRange({ ...loopRange, end: clampTime(parseFloat(e.target.value) || TOTAL_DURATION) })}
+                    <TimecodeInput
                       className="pill-input"
+                      ariaLabel="Loop end"
+                      value={loopRange.end}
+                      fps={fps}
+                      dropFrame={dropFrame}
+                      onCommit={(t) => setLoopRange(r => ({ ...r, end: Math.max(clampTime(t), r.start + framesToSeconds(1, fps)) }))}
                     />
                   </label>
                   <label className={`pill ghosty ${rippleEdit ? 'active' : ''}`}>
@@ -1575,18 +2231,81 @@ function App() {
             </section>
 
             <section className="panel inspector">
-              <div className="panel-head">Markers</div>
-              <ul className="marker-list">
-                {markers.map((m) => (
-                  <li key={m.label} style={{ borderLeftColor: m.color }} onClick={() => jumpToMarker(m)}>
-                    <span>{formatTime(m.time)}</span>
-                    <strong>{m.label}</strong>
+              <div className="panel-head">
+                <span>Markers</span>
+                <label className="ghost tiny">
+                  Import CSV
+                  <input type="file" accept=".csv,text/csv" hidden onChange={openMarkerCsv} />
+                </label>
+              </div>
+              <select className="marker-filter" value={markerFilter} onChange={(e) => setMarkerFilter(e.target.value as MarkerType | 'all')}>
+                <option value="all">All types ({markers.length})</option>
+                {MARKER_TYPES.map(t => (
+                  <option key={t} value={t}>{t.charAt(0).toUpperCase() + t.slice(1)} ({markers.filter(m => m.type === t).length})</option>
+                ))}
+              </select>
+              <ul className="marker-list" data-testid="marker-list">
+                {markers.filter(m => markerFilter === 'all' || m.type === markerFilter).map((m) => (
+                  <li key={m.id} style={{ borderLeftColor: m.color }}>
+                    <div className="marker-row">
+                      <input
+                        type="color"
+                        className="marker-color"
+                        value={m.color}
+                        aria-label="Marker color"
+                        onChange={(e) => editMarker(m.id, { color: e.target.value }, { push: false })}
+                        onBlur={commitMarkerEdit}
+                      />
+                      <button className="marker-time" onClick={() => jumpToMarker(m)} title="Jump to marker">
+                        {formatTime(m.time)}{m.duration ? ` → ${formatTime(m.time + m.duration)}` : ''}
+                      </button>
+                      <input
+                        className="marker-label"
+                        value={m.label}
+                        aria-label="Marker name"
+                        onChange={(e) => editMarker(m.id, { label: e.target.value }, { push: false })}
+                        onBlur={commitMarkerEdit}
+                        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur() }}
+                      />
+                      <select value={m.type} aria-label="Marker type" onChange={(e) => editMarker(m.id, { type: e.target.value as MarkerType })}>
+                        {MARKER_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                      </select>
+                      <button
+                        className={`ghost tiny ${m.notes ? 'active' : ''}`}
+                        title="Notes"
+                        onClick={() => setExpandedMarkerId(id => (id === m.id ? null : m.id))}
+                      >
+                        ✎
+                      </button>
+                      <button className="ghost tiny danger" title="Delete marker" onClick={() => deleteMarker(m.id)}>✕</button>
+                    </div>
+                    {expandedMarkerId === m.id && (
+                      <textarea
+                        className="marker-notes"
+                        placeholder="Notes"
+                        value={m.notes ?? ''}
+                        onChange={(e) => editMarker(m.id, { notes: e.target.value }, { push: false })}
+                        onBlur={commitMarkerEdit}
+                      />
+                    )}
                   </li>
                 ))}
               </ul>
+              <div className="marker-io" data-testid="marker-io">
+                <select value={markerFormat} onChange={(e) => { setMarkerFormat(e.target.value as MarkerFormat); setMarkerIoStatus(null) }}>
+                  {MARKER_FORMATS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+                </select>
+                <button className="ghost tiny" disabled={!markers.length} onClick={exportMarkerFile}>Export</button>
+                <label className="ghost tiny">
+                  Import
+                  <input type="file" accept=".edl,.csv,.txt,text/plain,text/csv" hidden onChange={importMarkerInterchange} />
+                </label>
+              </div>
+              {markerIoStatus && <div className="muted small">{markerIoStatus}</div>}
               <div className="panel-head">Edit status</div>
               <div className="inspector-cards">
                 <div className="pill ghosty">Clips {clips.length}</div>
+                {offlineCount > 0 && <div className="pill ghosty error">Offline {offlineCount}</div>}
                 <div className="pill ghosty">Tracks {tracks.length}</div>
               </div>
               <div className="panel-head">Keyboard map</div>
@@ -1624,6 +2343,7 @@ function App() {
                   />
                   <button className="ghost" onClick={() => saveDraft(draftName || 'Draft')}>Save</button>
                 </div>
+                {projectStatus && <div className="muted small">{projectStatus}</div>}
                 <div className="draft-list">
                   {drafts.length === 0 && <div className="muted small">No drafts yet</div>}
                   {drafts.map(d => (
@@ -1636,6 +2356,19 @@ function App() {
                   ))}
                 </div>
               </div>
+              {primaryClip?.offlineMedia && (
+                <>
+                  <div className="panel-head">Media offline · {primaryClip.title}</div>
+                  <div className="inspector-cards stacked">
+                    <div className="muted small">{primaryClip.offlineMedia}</div>
+                    <select value="" aria-label="Relink media" disabled={!assets.length} onChange={(e) => relinkPrimaryClip(e.target.value)}>
+                      <option value="">{assets.length ? 'Relink to asset…' : 'Import the media to relink'}</option>
+                      {assets.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                    </select>
+                    <div className="muted small">Other clips pointing at the same file relink with it.</div>
+                  </div>
+                </>
+              )}
               {primaryClip && (
                 <>
                   <div className="panel-head">Clip audio · {primaryClip.title}</div>
@@ -1689,40 +2422,198 @@ function App() {
                 <span>Beat detection (AI-lite)</span>
                 <span className="muted small">on-device</span>
               </div>
-              <div className="beat-form">
-                <label className="muted small">Audio asset</label>
-                <select
-                  value={selectedBeatAsset || assets.find(a => a.type.startsWith('audio'))?.id || ''}
-                  onChange={(e) => setSelectedBeatAsset(e.target.value || null)}
-                >
-                  {assets.filter(a => a.type.startsWith('audio')).map(a => (
-                    <option key={a.id} value={a.id}>{a.name}</option>
-                  ))}
-                </select>
-                <button
-                  className="ghost"
-                  disabled={(!selectedBeatAsset && !assets.find(a => a.type.startsWith('audio'))) || beatStatus.state === 'analyzing'}
-                  onClick={() => runBeatAnalysis(selectedBeatAsset || assets.find(a => a.type.startsWith('audio'))?.id || '')}
-                >
-                  {beatStatus.state === 'analyzing' ? 'Detecting…' : 'Detect beats'}
-                </button>
-              </div>
-              {beatStatus.message && (
-                <div className={`pill ghosty ${beatStatus.state === 'error' ? 'error' : ''}`}>
-                  {beatStatus.message}
-                </div>
-              )}
-              {selectedBeatAsset && beatAnalyses[selectedBeatAsset] && (
-                <div className="beat-results">
-                  <div className="pill ghosty">Beats {beatAnalyses[selectedBeatAsset].beats.length}</div>
-                  <div className="pill ghosty">BPM ~ {beatAnalyses[selectedBeatAsset].bpm || 'n/a'}</div>
-                  <div className="beat-actions">
-                    <button className="ghost" onClick={() => applyBeatsToMarkers(selectedBeatAsset)}>Add beats as markers</button>
-                    <button className="ghost" onClick={() => exportBeatCSV(selectedBeatAsset)}>Export CSV</button>
+              <div className="beat-panel-body">
+                <div className="beat-panel-side">
+                  <div className="beat-form">
+                    <label className="muted small">Audio asset</label>
+                    <select
+                      value={selectedBeatAsset || assets.find(a => a.type.startsWith('audio'))?.id || ''}
+                      onChange={(e) => setSelectedBeatAsset(e.target.value || null)}
+                    >
+                      {assets.filter(a => a.type.startsWith('audio')).map(a => (
+                        <option key={a.id} value={a.id}>{a.name}</option>
+                      ))}
+                    </select>
+                    <button
+                      className="ghost"
+                      disabled={(!selectedBeatAsset && !assets.find(a => a.type.startsWith('audio'))) || beatStatus.state === 'analyzing'}
+                      onClick={() => runBeatAnalysis(selectedBeatAsset || assets.find(a => a.type.startsWith('audio'))?.id || '')}
+                    >
+                      {beatStatus.state === 'analyzing' ? 'Detecting…' : 'Detect beats'}
+                    </button>
+                    {beatStatus.state === 'analyzing' && (
+                      <button className="ghost danger" onClick={cancelBeatAnalysis}>Cancel detection</button>
+                    )}
                   </div>
+                  {beatStatus.message && (
+                    <div className={`pill ghosty ${beatStatus.state === 'error' ? 'error' : ''}`}>
+                      {beatStatus.message}
+                      {beatStatus.state === 'analyzing' && ` ${Math.round((beatStatus.progress ?? 0) * 100)}%`}
+                    </div>
+                  )}
+                  {beatStatus.state === 'analyzing' && (
+                    <div className="progress">
+                      <div className="progress-bar" style={{ width: `${Math.round((beatStatus.progress ?? 0) * 100)}%` }} />
+                    </div>
+                  )}
+                  {selectedBeatAsset && beatAnalyses[selectedBeatAsset] && (
+                    <div className="beat-results">
+                      <div className="inspector-cards">
+                        <div className="pill ghosty">Beats {beatAnalyses[selectedBeatAsset].beats.length}</div>
+                        <div className="pill ghosty">BPM ~ {beatAnalyses[selectedBeatAsset].bpm || 'n/a'}</div>
+                        <div className="pill ghosty">Bars {beatAnalyses[selectedBeatAsset].downbeats.length} · {beatAnalyses[selectedBeatAsset].beatsPerBar}/4</div>
+                        <div className="pill ghosty">Onsets {beatAnalyses[selectedBeatAsset].onsets.length}</div>
+                        <div className="pill ghosty" title="How clearly one tempo stands out in the onset autocorrelation">
+                          Tempo confidence {Math.round(beatAnalyses[selectedBeatAsset].tempoConfidence * 100)}%
+                        </div>
+                      </div>
+                      {(() => {
+                        const analysis = beatAnalyses[selectedBeatAsset]
+                        const span = Math.max(assets.find(a => a.id === selectedBeatAsset)?.duration ?? 0, analysis.beats.at(-1) ?? 0, 0.001)
+                        const downbeats = new Set(analysis.downbeats)
+                        return (
+                          <div className="beat-strip" data-testid="beat-strip">
+                            {analysis.sections?.map(sec => (
+                              <span
+                                key={`s-${sec.start}`}
+                                className="section"
+                                title={`${sectionLabel(sec.kind)} · ${formatTime(sec.start)}–${formatTime(sec.end)}`}
+                                style={{ left: `${(sec.start / span) * 100}%`, width: `${((sec.end - sec.start) / span) * 100}%`, background: SECTION_COLORS[sec.kind] }}
+                              />
+                            ))}
+                            {analysis.onsets.map(t => (
+                              <span key={`o-${t}`} className="onset" style={{ left: `${(t / span) * 100}%` }} />
+                            ))}
+                            {analysis.beats.map(t => (
+                              <span key={`b-${t}`} className={downbeats.has(t) ? 'beat downbeat' : 'beat'} style={{ left: `${(t / span) * 100}%` }} />
+                            ))}
+                          </div>
+                        )
+                      })()}
+                      <div className="beat-actions">
+                        <button
+                          className="ghost"
+                          disabled={!findClipForAsset(clips, selectedBeatAsset, assets.find(a => a.id === selectedBeatAsset)?.url)}
+                          title="Anchors bars/beats to the placed clip of this asset; place it on a track first"
+                          onClick={() => anchorBeatGrid(selectedBeatAsset)}
+                        >
+                          {beatGrid?.assetId === selectedBeatAsset ? 'Re-anchor beat grid' : 'Use as beat grid'}
+                        </button>
+                        <button className="ghost" onClick={() => applyBeatsToMarkers(selectedBeatAsset)}>Add beats as markers</button>
+                        <button
+                          className="ghost"
+                          disabled={!beatAnalyses[selectedBeatAsset].sections?.length}
+                          title="Adds intro/build/drop/breakdown/outro ranges to the ruler"
+                          onClick={() => applySectionsToMarkers(selectedBeatAsset)}
+                        >
+                          Add sections as markers
+                        </button>
+                        <button className="ghost" onClick={() => exportBeatCSV(selectedBeatAsset)}>Export CSV</button>
+                      </div>
+                      <div className="panel-head">Auto-cut to beat</div>
+                      <div className="auto-cut" data-testid="auto-cut">
+                        <label className="muted small">Track
+                          <select value={autoCut.trackId} onChange={(e) => setAutoCut(prev => ({ ...prev, trackId: e.target.value }))}>
+                            {tracks.filter(t => t.type === 'video').map(t => (
+                              <option key={t.id} value={t.id} disabled={t.locked}>{t.name}</option>
+                            ))}
+                          </select>
+                        </label>
+                        <label className="muted small">Cut every
+                          <span className="auto-cut-row">
+                            <input
+                              type="number"
+                              min={1}
+                              max={64}
+                              className="pill-input"
+                              value={autoCut.every}
+                              onChange={(e) => setAutoCut(prev => ({ ...prev, every: Math.max(1, parseInt(e.target.value, 10) || 1) }))}
+                            />
+                            <select value={autoCut.unit} onChange={(e) => setAutoCut(prev => ({ ...prev, unit: e.target.value as AutoCutForm['unit'] }))}>
+                              <option value="beats">beats</option>
+                              <option value="bars">bars</option>
+                            </select>
+                          </span>
+                        </label>
+                        <label className="muted small">Order
+                          <select value={autoCut.order} onChange={(e) => setAutoCut(prev => ({ ...prev, order: e.target.value as AutoCutForm['order'] }))}>
+                            <option value="sequential">Sequential (selection order)</option>
+                            <option value="shuffle">Shuffled</option>
+                            <option value="name">By name</option>
+                          </select>
+                        </label>
+                        <label className="muted small">Placement
+                          <select value={autoCut.placement} onChange={(e) => setAutoCut(prev => ({ ...prev, placement: e.target.value as AutoCutForm['placement'] }))}>
+                            <option value="overwrite">Overwrite</option>
+                            <option value="ripple">Ripple (push later clips)</option>
+                          </select>
+                        </label>
+                        <label className="muted small">
+                          <input
+                            type="checkbox"
+                            checked={autoCut.emphasizeDownbeats}
+                            disabled={autoCut.unit === 'bars'}
+                            onChange={(e) => setAutoCut(prev => ({ ...prev, emphasizeDownbeats: e.target.checked }))}
+                          />
+                          Always cut on downbeats
+                        </label>
+                        <button
+                          className="ghost"
+                          disabled={!selectedAssetIds.length || !!trackIndex[autoCut.trackId]?.locked}
+                          onClick={() => runAutoCut(selectedBeatAsset)}
+                        >
+                          Auto-cut {selectedAssetIds.length} asset{selectedAssetIds.length === 1 ? '' : 's'}
+                        </button>
+                        {!selectedAssetIds.length && <span className="muted small">Tick image/video assets in the media pool first.</span>}
+                      </div>
+                      <div className="panel-head">Quantize cuts</div>
+                      <div className="auto-cut" data-testid="quantize">
+                        <label className="muted small">Cuts on
+                          <select value={quantizeForm.scope} onChange={(e) => { setQuantizeForm(prev => ({ ...prev, scope: e.target.value })); setQuantizePlan(null) }}>
+                            <option value="selection">Selected clips ({selection.clipIds.length})</option>
+                            {tracks.filter(t => !t.locked).map(t => (
+                              <option key={t.id} value={t.id}>Track {t.name}</option>
+                            ))}
+                          </select>
+                        </label>
+                        <label className="muted small">Max shift (s)
+                          <input
+                            type="number"
+                            min={0.01}
+                            max={2}
+                            step={0.01}
+                            className="pill-input"
+                            value={quantizeForm.tolerance}
+                            onChange={(e) => { setQuantizeForm(prev => ({ ...prev, tolerance: Math.max(0.01, parseFloat(e.target.value) || 0.01) })); setQuantizePlan(null) }}
+                          />
+                        </label>
+                        <div className="beat-actions">
+                          <button className="ghost" onClick={() => previewQuantize(selectedBeatAsset)}>Preview</button>
+                          <button className="ghost" disabled={!quantizePlan?.length} onClick={applyQuantizePlan}>Apply</button>
+                          {quantizePlan && <button className="ghost danger" onClick={() => setQuantizePlan(null)}>Discard</button>}
+                        </div>
+                        {quantizePlan && (
+                          <span className="muted small">
+                            {quantizePlan.length
+                              ? `${quantizePlan.length} cut${quantizePlan.length === 1 ? '' : 's'} · max shift ${Math.max(...quantizePlan.map(m => Math.abs(m.target - m.time))).toFixed(3)}s`
+                              : 'Every cut is already on the beat or out of range.'}
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                  <p className="muted small">Beats are tracked from a multi-band spectral-flux onset envelope; tempo comes from its autocorrelation and bars from low-end accents; sections come from a self-similarity novelty curve over bars. Apply them as timeline markers or export to share.</p>
                 </div>
-              )}
-              <p className="muted small">Beat peaks are computed from waveform energy. Apply them as timeline markers or export to share.</p>
+                {selectedBeatAsset && beatAnalyses[selectedBeatAsset] && (
+                  <BeatEditor
+                    analysis={beatAnalyses[selectedBeatAsset]}
+                    duration={assets.find(a => a.id === selectedBeatAsset)?.duration ?? 0}
+                    waveform={assets.find(a => a.id === selectedBeatAsset)?.waveform}
+                    url={assets.find(a => a.id === selectedBeatAsset)?.url}
+                    onChange={(next, opts) => setBeatAnalyses(prev => ({ ...prev, [next.assetId]: next }), opts)}
+                  />
+                )}
+              </div>
             </section>
           </div>
 
@@ -1732,11 +2623,12 @@ function App() {
                 <div className="pill">Zoom</div>
                 <input
                   type="range"
-                  min={0.6}
-                  max={3}
-                  step={0.1}
-                  value={zoom}
-                  onChange={(e) => setZoom(parseFloat(e.target.value))}
+                  min={Math.log(ZOOM_MIN)}
+                  max={Math.log(ZOOM_MAX)}
+                  step={0.01}
+                  value={Math.log(zoom)}
+                  onChange={(e) => setZoom(Math.exp(parseFloat(e.target.value)))}
+                  title="Zoom (logarithmic, from the whole sequence down to single frames)"
                 />
                 <div className="pill">Snap</div>
                 <input
@@ -1749,12 +2641,54 @@ function App() {
                   title="Snap threshold (seconds)"
                 />
                 <button className="ghost" onClick={zoomToSelection}>Zoom to selection</button>
-                <div className="pill ghosty">Master meter <span className="meter"><span style={{ width: `${Math.min(1, masterLevel * 2) * 100}%` }} /></span></div>
+                <button className="ghost" onClick={zoomToFit}>Fit sequence</button>
+                <label className="pill ghosty" title="Empty time after the last clip or marker">
+                  Headroom
+                  <input
+                    className="headroom-input"
+                    type="number"
+                    min={0}
+                    step={5}
+                    value={headroom}
+                    onChange={(e) => setHeadroom(Math.max(0, Number(e.target.value) || 0))}
+                  />
+                  s
+                </label>
+                <label className="pill ghosty">Ruler
+                  <select value={rulerMode} onChange={(e) => setRulerMode(e.target.value as RulerMode)}>
+                    <option value="seconds">Seconds</option>
+                    <option value="bars">Bars:Beats</option>
+                  </select>
+                </label>
+                {beatGrid && (
+                  <label className="pill ghosty" title={gridClip ? `Grid follows ${gridClip.title}` : 'Grid clip was removed'}>
+                    Grid
+                    <select
+                      value={beatGrid.subdivisions}
+                      onChange={(e) => {
+                        const subdivisions = Number(e.target.value)
+                        setProject(prev => prev.beatGrid ? { ...prev, beatGrid: { ...prev.beatGrid, subdivisions } } : prev)
+                      }}
+                    >
+                      <option value={1}>Beats</option>
+                      <option value={2}>1/8</option>
+                      <option value={4}>1/16</option>
+                    </select>
+                    <button className="ghost tiny" onClick={clearBeatGrid}>Clear</button>
+                  </label>
+                )}
+                <div className="pill ghosty loudness-pill" title="EBU R128: momentary (400 ms), short-term (3 s), integrated since play started, max true peak">
+                  Loudness <span className="meter"><span style={{ width: `${loudnessFill(loudness?.momentary)}%` }} /></span>
+                  <span>M {formatLufs(loudness?.momentary ?? -Infinity, '')}</span>
+                  <span>S {formatLufs(loudness?.shortTerm ?? -Infinity, '')}</span>
+                  <span>I {formatLufs(loudness?.integrated ?? -Infinity)}</span>
+                  <span className={(loudness?.truePeak ?? -Infinity) > -1 ? 'over' : ''}>TP {formatLufs(loudness?.truePeak ?? -Infinity, 'dBTP')}</span>
+                </div>
                 <div className="pill">Playhead</div>
                 <input
                   type="range"
                   min={0}
-                  max={TOTAL_DURATION}
+                  max={totalDuration}
                   step={0.1}
                   value={playhead}
                   onChange={(e) => handleScrub(parseFloat(e.target.value))}
@@ -1767,8 +2701,8 @@ function App() {
               onWheel={(e) => {
                 if (e.ctrlKey || e.metaKey || e.altKey) {
                   e.preventDefault()
-                  const delta = e.deltaY > 0 ? -0.12 : 0.12
-                  setZoom(z => clamp(z + delta, ZOOM_MIN, ZOOM_MAX))
+                  const factor = e.deltaY > 0 ? 1 / 1.1 : 1.1
+                  setZoom(z => clamp(z * factor, ZOOM_MIN, ZOOM_MAX))
                 } else if (e.shiftKey && timelineRef.current?.parentElement) {
                   e.preventDefault()
                   const scroller = timelineRef.current.parentElement
@@ -1778,8 +2712,26 @@ function App() {
             >
               <div className="ruler" style={{ width: timelineWidth }} onClick={handleRulerClick}>
                 {timeTicks.map((t) => (
-                  <div key={t} className="tick" style={{ left: t * pxPerSec }}>
-                    <span>{t % 1 === 0 ? t.toFixed(0) : ''}</span>
+                  <div key={t.time} className={`tick ${t.label === null ? 'minor' : ''} ${rulerMode === 'bars' && gridLines.length ? 'subdued' : ''}`} style={{ left: t.time * pxPerSec }}>
+                    <span>{t.label ?? ''}</span>
+                  </div>
+                ))}
+                {markers.map(m => (
+                  <div
+                    key={m.id}
+                    className={m.duration ? 'marker-range' : 'marker-pin'}
+                    style={{ left: m.time * pxPerSec, width: m.duration ? m.duration * pxPerSec : undefined, ['--marker-color' as string]: m.color }}
+                    title={`${m.label} · ${m.type}${m.duration ? ` · ${formatTime(m.time)}–${formatTime(m.time + m.duration)}` : ` · ${formatTime(m.time)}`} · drag to move`}
+                    onMouseDown={startMarkerDrag(m)}
+                    onClick={(e) => e.stopPropagation()}
+                    onDoubleClick={() => jumpToMarker(m)}
+                  >
+                    {m.duration ? <span>{m.label}</span> : null}
+                  </div>
+                ))}
+                {rulerGrid.map(l => (
+                  <div key={`g-${l.time}`} className={`grid-tick ${l.kind}`} style={{ left: l.time * pxPerSec }}>
+                    {l.showLabel && <span>{l.kind === 'bar' ? l.bar : `${l.bar}.${l.beat}`}</span>}
                   </div>
                 ))}
                 <div className="playhead" style={{ left: playhead * pxPerSec }} />
@@ -1880,6 +2832,8 @@ function App() {
                             start: seconds,
                             duration: asset.duration,
                             url: asset.url,
+                            assetId: asset.id,
+                            mediaId: asset.mediaId,
                             assetType: asset.type,
                             waveform: asset.waveform ?? null,
                             thumb: asset.thumb ?? null,
@@ -1890,19 +2844,28 @@ function App() {
                         pushCheckpoint()
                       }}
                     >
+                      {quantizePlan?.filter(m => m.trackId === track.id).map(m => (
+                        <div
+                          key={`q-${m.outgoing}-${m.incoming}`}
+                          className={`quantize-ghost ${m.target < m.time ? 'left' : 'right'}`}
+                          style={{ left: Math.min(m.time, m.target) * pxPerSec, width: Math.max(2, Math.abs(m.target - m.time) * pxPerSec) }}
+                          data-label={`${m.target > m.time ? '+' : '−'}${Math.abs(m.target - m.time).toFixed(3)}s`}
+                        />
+                      ))}
                       {clips.filter(c => c.track === track.id).map((clip) => {
                         const isAudio = (clip.assetType || '').startsWith('audio') || track.type === 'audio'
                         if (track.locked) return (
                           <div
                             key={clip.id}
-                            className={`clip locked ${selection.clipIds.includes(clip.id) ? 'selected' : ''} ${isAudio ? 'audio' : ''}`}
+                            className={`clip locked ${selection.clipIds.includes(clip.id) ? 'selected' : ''} ${isAudio ? 'audio' : ''} ${clip.offlineMedia ? 'offline' : ''}`}
                             style={{
                               left: clip.start * pxPerSec,
                               width: clip.duration * pxPerSec,
                               background: clip.color
                             }}
-                            title={`${clip.title} (${formatTime(clip.start)} - ${formatTime(clip.start + clip.duration)})`}
+                            title={`${clip.title} (${formatTime(clip.start)} - ${formatTime(clip.start + clip.duration)})${clip.offlineMedia ? ` · media offline: ${clip.offlineMedia}` : ''}`}
                           >
+                            {clip.offlineMedia && <span className="clip-offline" />}
                             {clip.thumb && (
                               <span className="clip-thumb" style={{ backgroundImage: `url(${clip.thumb})` }} />
                             )}
@@ -1919,13 +2882,13 @@ function App() {
                         return (
                         <div
                           key={clip.id}
-                          className={`clip ${selection.clipIds.includes(clip.id) ? 'selected' : ''} ${isAudio ? 'audio' : ''}`}
+                          className={`clip ${selection.clipIds.includes(clip.id) ? 'selected' : ''} ${isAudio ? 'audio' : ''} ${clip.offlineMedia ? 'offline' : ''}`}
                           style={{
                             left: clip.start * pxPerSec,
                             width: clip.duration * pxPerSec,
                             background: clip.color
                           }}
-                          title={`${clip.title} (${formatTime(clip.start)} - ${formatTime(clip.start + clip.duration)})`}
+                          title={`${clip.title} (${formatTime(clip.start)} - ${formatTime(clip.start + clip.duration)})${clip.offlineMedia ? ` · media offline: ${clip.offlineMedia}` : ''}`}
                           onMouseDown={(e) => {
                             e.stopPropagation()
                             startClipDrag(e, clip)
@@ -1937,6 +2900,7 @@ function App() {
                             }
                           }}
                         >
+                          {clip.offlineMedia && <span className="clip-offline" />}
                           {clip.thumb && (
                             <span className="clip-thumb" style={{ backgroundImage: `url(${clip.thumb})` }} />
                           )}
@@ -1982,7 +2946,7 @@ function App() {
               <div className="minimap" onClick={(e) => {
                 const rect = e.currentTarget.getBoundingClientRect()
                 const ratio = (e.clientX - rect.left) / rect.width
-                const target = clampTime(ratio * TOTAL_DURATION)
+                const target = clampTime(ratio * totalDuration)
                 setPlayhead(target)
                 if (timelineRef.current) {
                   const viewport = timelineRef.current.parentElement?.clientWidth || 0
@@ -1995,27 +2959,27 @@ function App() {
                     <div
                       key={c.id}
                       className="mini-clip"
-                      style={{ left: `${(c.start / TOTAL_DURATION) * 100}%`, width: `${(c.duration / TOTAL_DURATION) * 100}%`, background: c.color }}
+                      style={{ left: `${(c.start / totalDuration) * 100}%`, width: `${(c.duration / totalDuration) * 100}%`, background: c.color }}
                     />
                   ))}
                   <div
                     className="loop-handle start"
-                    style={{ left: `${(loopRange.start / TOTAL_DURATION) * 100}%` }}
+                    style={{ left: `${(loopRange.start / totalDuration) * 100}%` }}
                     onMouseDown={startLoopHandle('loop-start')}
                   />
                   <div
                     className="loop-handle end"
-                    style={{ left: `${(loopRange.end / TOTAL_DURATION) * 100}%` }}
+                    style={{ left: `${(loopRange.end / totalDuration) * 100}%` }}
                     onMouseDown={startLoopHandle('loop-end')}
                   />
                   <div
                     className="mini-view"
                     style={{
-                      left: `${(viewWindow.start / TOTAL_DURATION) * 100}%`,
-                      width: `${(viewWindow.duration / TOTAL_DURATION) * 100}%`
+                      left: `${(viewWindow.start / totalDuration) * 100}%`,
+                      width: `${(viewWindow.duration / totalDuration) * 100}%`
                     }}
                   />
-                  <div className="mini-playhead" style={{ left: `${(playhead / TOTAL_DURATION) * 100}%` }} />
+                  <div className="mini-playhead" style={{ left: `${(playhead / totalDuration) * 100}%` }} />
                 </div>
               </div>
             </div>
@@ -2044,14 +3008,18 @@ function App() {
               >
                 <div className="asset-meta">
                   <strong>{a.name}</strong>
-                  <div className="muted small">{a.type || 'file'} · ~{a.duration.toFixed(1)}s</div>
+                  <div className="muted small">{a.type || 'file'} · ~{a.duration.toFixed(1)}s{a.mediaId ? ' · stored' : a.url?.startsWith('blob:') ? ' · this session only' : ''}</div>
                   {analysisStatuses[a.id] && (
-                    <div className={`pill ghosty ${analysisStatuses[a.id] === 'error' ? 'error' : ''}`}>
-                      {analysisStatuses[a.id] === 'pending' && 'Queued for analysis'}
-                      {analysisStatuses[a.id] === 'processing' && 'Analyzing…'}
-                      {analysisStatuses[a.id] === 'cached' && 'Loaded from cache'}
-                      {analysisStatuses[a.id] === 'done' && 'Analyzed'}
-                      {analysisStatuses[a.id] === 'error' && 'Analysis failed'}
+                    <div className={`pill ghosty ${analysisStatuses[a.id].state === 'error' ? 'error' : ''}`}>
+                      {analysisStatuses[a.id].state === 'pending' && 'Queued for analysis'}
+                      {analysisStatuses[a.id].state === 'processing' && `Analyzing… ${Math.round(analysisStatuses[a.id].progress * 100)}%`}
+                      {analysisStatuses[a.id].state === 'cached' && 'Loaded from cache'}
+                      {analysisStatuses[a.id].state === 'done' && 'Analyzed'}
+                      {analysisStatuses[a.id].state === 'error' && 'Analysis failed'}
+                      {analysisStatuses[a.id].state === 'cancelled' && 'Analysis cancelled'}
+                      {(analysisStatuses[a.id].state === 'pending' || analysisStatuses[a.id].state === 'processing') && (
+                        <button className="ghost tiny" onClick={() => cancelAssetAnalysis(a.id)}>Cancel</button>
+                      )}
                     </div>
                   )}
                   {a.thumb && <img src={a.thumb} alt="thumb" className="asset-thumb" />}
@@ -2072,33 +3040,146 @@ function App() {
             ))}
           </ul>
           <p className="muted">Waveform/thumb extraction ready; drag assets straight onto a track or use the send buttons.</p>
+          <MediaStorePanel
+            report={storageInfo}
+            unused={unusedStoredMedia}
+            busy={mediaStoreBusy}
+            status={mediaStatus}
+            onRefresh={refreshMediaStore}
+            onRemoveUnused={removeUnusedMedia}
+            onPersist={persistMediaStore}
+          />
         </div>
       )}
       {activeTab === 'export' && (
         <div className="placeholder export-box">
           <div className="export-actions">
-            <select className="ghost" value={exportPreset} onChange={(e) => setExportPreset(e.target.value as typeof exportPreset)}>
+            <select className="ghost" aria-label="Export preset" value={activePreset ? activePreset.id : 'json'} onChange={(e) => { setExportPreset(e.target.value); setPresetIoStatus(null) }}>
               <option value="json">JSON bundle</option>
-              <option value="mp4">MP4 · 1080p</option>
-              <option value="webm">WebM · 720p</option>
+              {exportPresets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
             </select>
-            <button className="ghost" onClick={renderPreset}>Render preset</button>
-            <button className="ghost danger" onClick={() => { exportAbortRef.current.cancelled = true; }}>Cancel</button>
+            {activePreset && (
+              <select className="ghost" aria-label="Render source" value={exportSource} onChange={(e) => setExportSource(e.target.value)}>
+                <option value="current">Current timeline</option>
+                {drafts.map(d => <option key={d.id} value={d.id}>Draft · {d.name}</option>)}
+              </select>
+            )}
+            {activePreset && activePreset.kind !== 'audio' && (
+              <select className="ghost" aria-label="Video encoder" value={renderEncoder} onChange={(e) => setRenderEncoder(e.target.value as RenderEncoder)}>
+                <option value="ffmpeg">Encoder · ffmpeg.wasm (worker)</option>
+                <option value="auto">Encoder · WebCodecs, ffmpeg.wasm fallback (main thread, editing may stutter)</option>
+              </select>
+            )}
+            <button className="ghost" title={activePreset ? 'Add a job to the render queue' : 'Download the project as JSON'} onClick={renderPreset}>Render preset</button>
+            <button className="ghost danger" disabled={!runningRender} onClick={() => runningRender && cancelRenderJob(runningRender.id)}>Cancel</button>
             <label className="ghost">
               Import JSON
               <input type="file" accept="application/json" hidden onChange={importJson} />
             </label>
+            {projectStatus && <span className="muted small">{projectStatus}</span>}
             <button className="ghost" onClick={addMarker}>Add marker @ playhead</button>
           </div>
-          <div className="pill ghosty">Status: {exportStatus || 'Idle'}</div>
-          {exportProgress > 0 && (
-            <div className="progress">
-              <div className="progress-bar" style={{ width: `${Math.min(100, exportProgress)}%` }} />
-            </div>
+          <div className="export-actions">
+            <select className="ghost" aria-label="Timeline format" value={timelineFormat} onChange={(e) => { setTimelineFormat(e.target.value as TimelineFormat); setTimelineIoStatus(null) }}>
+              {TIMELINE_FORMATS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+            </select>
+            <button className="ghost" title="Hand the cut list to Resolve, Premiere or Final Cut" disabled={!clips.length} onClick={exportTimelineFile}>Export timeline</button>
+            <label className="ghost">
+              Import timeline
+              <input type="file" accept={TIMELINE_IMPORT_ACCEPT} hidden onChange={importTimelineFile} />
+            </label>
+            {timelineIoStatus && <span className="muted small">{timelineIoStatus}</span>}
+          </div>
+          <div className="export-actions">
+            <button className="ghost" disabled={bundleBusy} title="One zip with the project, its media, analyses and export presets" onClick={exportBundle}>Collect &amp; export bundle</button>
+            <label className="ghost">
+              Import bundle
+              <input type="file" accept=".zip,application/zip" hidden disabled={bundleBusy} onChange={importBundle} />
+            </label>
+            {bundleStatus && <span className="muted small">{bundleStatus}</span>}
+          </div>
+          <div className="export-actions">
+            <select className="ghost" aria-label="Storyboard panels" value={storyboard.mode} onChange={(e) => setStoryboard(prev => ({ ...prev, mode: e.target.value as StoryboardMode }))}>
+              <option value="clips">Storyboard · one frame per clip</option>
+              <option value="markers">Storyboard · one frame per marker</option>
+            </select>
+            <select className="ghost" aria-label="Storyboard frames" value={storyboard.frames} onChange={(e) => setStoryboard(prev => ({ ...prev, frames: e.target.value as StoryboardFrames }))}>
+              <option value="render">{storyboard.mode === 'markers' ? 'Frame at the marker' : 'Frame at the clip midpoint'}</option>
+              <option value="thumb">Clip thumbnail</option>
+            </select>
+            <select className="ghost" aria-label="Storyboard columns" value={storyboard.columns} onChange={(e) => setStoryboard(prev => ({ ...prev, columns: Number(e.target.value) }))}>
+              {GRID_CHOICES.map(n => <option key={n} value={n}>{n} columns</option>)}
+            </select>
+            <select className="ghost" aria-label="Storyboard rows" value={storyboard.rows} onChange={(e) => setStoryboard(prev => ({ ...prev, rows: Number(e.target.value) }))}>
+              {GRID_CHOICES.map(n => <option key={n} value={n}>{n} rows per page</option>)}
+            </select>
+            <button className="ghost" disabled={storyboardBusy} title="One PNG per grid page" onClick={() => exportStoryboard('png')}>Contact sheet (PNG)</button>
+            <button className="ghost" disabled={storyboardBusy} title="Printable page, one grid per sheet" onClick={() => exportStoryboard('html')}>Storyboard (HTML)</button>
+            {storyboardStatus && <span className="muted small">{storyboardStatus}</span>}
+          </div>
+          {activePreset && (
+            <PresetEditor
+              preset={activePreset}
+              projectFps={fps}
+              fpsChoices={FPS_CHOICES}
+              loopRange={loopRange}
+              fileName={renderFileName(activePreset.filename, {
+                project: projectName,
+                preset: activePreset,
+                source: exportSource === 'current' ? 'Current timeline' : drafts.find(d => d.id === exportSource)?.name ?? '',
+                range: previewRange,
+                fps: presetFps(activePreset, fps),
+                date: new Date()
+              })}
+              canDelete={exportPresets.length > 1}
+              status={presetIoStatus}
+              onChange={updatePreset}
+              onDuplicate={duplicateActivePreset}
+              onDelete={deleteActivePreset}
+              onExport={exportPresetsFile}
+              onImport={importPresetsFile}
+            />
+          )}
+          {activePreset && activePreset.kind !== 'audio' && (
+            <BurnInPanel
+              preset={activePreset.name}
+              value={activePreset.burnIn}
+              images={assets.filter(a => (a.type || '').startsWith('image') && a.url)}
+              slatePreview={slatePreview}
+              onChange={(patch) => updatePreset({ ...activePreset, burnIn: { ...activePreset.burnIn, ...patch } })}
+              onSlatePreview={setSlatePreview}
+            />
           )}
-          <p>Preset renderer uses a lightweight ffmpeg.wasm path when available; cancel anytime.</p>
+          <div className="pill ghosty">
+            Status: {runningRender
+              ? `${runningRender.label} · ${runningRender.stage} (${Math.round(runningRender.progress * 100)}%)${queuedRenders ? ` · ${queuedRenders} queued` : ''}`
+              : exportStatus || 'Idle'}
+          </div>
+          <RenderQueue
+            jobs={renderJobs}
+            onMove={(id, delta) => setRenderJobs(prev => moveJob(prev, id, delta))}
+            onCancel={cancelRenderJob}
+            onRetry={(id) => updateRenderJob(id, j => {
+              if (j.output) URL.revokeObjectURL(j.output.url)
+              return retryJob(j)
+            })}
+            onRemove={(id) => removeRenderJobs(j => j.id === id)}
+            onClearFinished={() => removeRenderJobs(j => j.status !== 'queued')}
+          />
+          <p>Each job renders a snapshot of the timeline or a saved draft, so you can keep editing while the queue runs. Video goes through ffmpeg.wasm in its own worker. The WebCodecs encoder (H.264 or VP9/VP8 with AAC/Opus, muxed in the page) is usually faster but draws every frame on the main thread, so the editor stutters while it runs; it falls back to ffmpeg.wasm where the browser can't encode the preset. Each job shows which encoder ran. Audio only mixes the playback graph offline and encodes WAV/FLAC in a worker. Mute/solo/lock, trims, fades and gains are honoured.</p>
         </div>
       )}
+      {markerImport && (
+        <MarkerImportDialog
+          fileName={markerImport.fileName}
+          text={markerImport.text}
+          fps={fps}
+          palette={MARKER_PALETTE}
+          existingCount={markers.length}
+          onImport={importMarkers}
+          onClose={() => setMarkerImport(null)}
+        />
+      )}
     </div>
   )
 }
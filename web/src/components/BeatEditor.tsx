@@ -0,0 +1,238 @@
+import { useEffect, useRef, useState } from 'react'
+import type React from 'react'
+import type { BeatAnalysis } from '../types'
+import { addBeat, evenGrid, moveBeat, removeBeat, setBarStart, tapTempo } from '../lib/beatEdit'
+
+type Props = {
+  analysis: BeatAnalysis
+  duration: number
+  waveform?: number[]
+  url?: string
+  tapKey?: string
+  onChange: (next: BeatAnalysis, opts?: { push?: boolean }) => void
+}
+
+type BeatDrag = { from: number; current: number; startX: number; moved: boolean }
+
+const TAP_RESET_MS = 2000
+
+function BeatEditor({ analysis, duration, waveform, url, tapKey = 't', onChange }: Props) {
+  const [pxPerSec, setPxPerSec] = useState(40)
+  const [selectedBeat, setSelectedBeat] = useState<number | null>(null)
+  const [taps, setTaps] = useState<{ times: number[]; media: boolean }>({ times: [], media: false })
+  const [gridBpm, setGridBpm] = useState(analysis.bpm || 120)
+  const [gridOffset, setGridOffset] = useState(analysis.downbeats[0] ?? analysis.beats[0] ?? 0)
+  const [gridBpb, setGridBpb] = useState(analysis.beatsPerBar || 4)
+  const [previewing, setPreviewing] = useState(false)
+  const [cursor, setCursor] = useState(0)
+  const laneRef = useRef<HTMLDivElement | null>(null)
+  const audioRef = useRef<HTMLAudioElement | null>(null)
+  const dragRef = useRef<BeatDrag | null>(null)
+  const lastTapRef = useRef(0)
+  const analysisRef = useRef(analysis)
+  analysisRef.current = analysis
+
+  const span = Math.max(duration, analysis.beats.at(-1) ?? 0, 1)
+  const width = span * pxPerSec
+  const downbeats = new Set(analysis.downbeats)
+  const tapResult = tapTempo(taps.times)
+
+  useEffect(() => {
+    setGridBpm(analysis.bpm || 120)
+    setGridBpb(analysis.beatsPerBar || 4)
+  }, [analysis.assetId, analysis.bpm, analysis.beatsPerBar])
+
+  useEffect(() => {
+    if (!previewing) return
+    let raf = 0
+    const tick = () => {
+      setCursor(audioRef.current?.currentTime ?? 0)
+      raf = requestAnimationFrame(tick)
+    }
+    tick()
+    return () => cancelAnimationFrame(raf)
+  }, [previewing])
+
+  useEffect(() => {
+    const onMove = (e: MouseEvent) => {
+      const drag = dragRef.current
+      if (!drag) return
+      const next = Math.max(0, Number((drag.from + (e.clientX - drag.startX) / pxPerSec).toFixed(3)))
+      if (!drag.moved && Math.abs(e.clientX - drag.startX) < 3) return
+      drag.moved = true
+      if (next === drag.current) return
+      onChange(moveBeat(analysisRef.current, drag.current, next), { push: false })
+      drag.current = next
+      setSelectedBeat(next)
+    }
+    const onUp = () => {
+      const drag = dragRef.current
+      if (!drag) return
+      dragRef.current = null
+      // Commit the dragged state as one undo step
+      if (drag.moved) onChange(analysisRef.current)
+    }
+    window.addEventListener('mousemove', onMove)
+    window.addEventListener('mouseup', onUp)
+    return () => {
+      window.removeEventListener('mousemove', onMove)
+      window.removeEventListener('mouseup', onUp)
+    }
+  }, [pxPerSec, onChange])
+
+  const timeAt = (clientX: number) => {
+    const rect = laneRef.current?.getBoundingClientRect()
+    if (!rect) return 0
+    return Math.max(0, Math.min(span, (clientX - rect.left) / pxPerSec))
+  }
+
+  const registerTap = () => {
+    const now = performance.now()
+    const media = previewing && !!audioRef.current
+    const stamp = media ? (audioRef.current as HTMLAudioElement).currentTime : now / 1000
+    const fresh = now - lastTapRef.current > TAP_RESET_MS || taps.media !== media
+    lastTapRef.current = now
+    setTaps(prev => ({ times: fresh ? [stamp] : [...prev.times, stamp], media }))
+  }
+
+  const applyTaps = () => {
+    if (!tapResult) return
+    setGridBpm(tapResult.bpm)
+    // Taps against the playing audio also fix the phase; wall-clock taps only give tempo
+    if (taps.media) {
+      setGridOffset(tapResult.offset)
+      onChange(evenGrid(analysis, tapResult.bpm, tapResult.offset, span, gridBpb))
+    }
+    setTaps({ times: [], media: false })
+  }
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key.toLowerCase() === tapKey.toLowerCase()) {
+      e.preventDefault()
+      e.stopPropagation()
+      registerTap()
+      return
+    }
+    if (selectedBeat === null) return
+    if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault()
+      e.stopPropagation()
+      onChange(removeBeat(analysis, selectedBeat))
+      setSelectedBeat(null)
+    }
+    if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      e.preventDefault()
+      e.stopPropagation()
+      const step = (e.shiftKey ? 0.05 : 0.005) * (e.key === 'ArrowLeft' ? -1 : 1)
+      const next = Number(Math.max(0, selectedBeat + step).toFixed(3))
+      onChange(moveBeat(analysis, selectedBeat, next))
+      setSelectedBeat(next)
+    }
+  }
+
+  const togglePreview = async () => {
+    const audio = audioRef.current
+    if (!audio) return
+    if (audio.paused) {
+      await audio.play().catch(() => {})
+      setPreviewing(!audio.paused)
+    } else {
+      audio.pause()
+      setPreviewing(false)
+    }
+  }
+
+  return (
+    <div className="beat-editor" data-testid="beat-editor">
+      <div className="beat-editor-bar">
+        <button className="ghost tiny" disabled={!url} onClick={togglePreview}>{previewing ? '⏸ Pause' : '▶ Play'}</button>
+        <button className="ghost tiny" onClick={registerTap} title={`Or press ${tapKey.toUpperCase()} while the lane has focus`}>
+          Tap ({tapKey.toUpperCase()})
+        </button>
+        <span className="muted small">
+          {tapResult ? `${tapResult.bpm} BPM · ${taps.times.length} taps${taps.media ? ' on audio' : ''}` : 'Tap along to set tempo'}
+        </span>
+        {tapResult && <button className="ghost tiny" onClick={applyTaps}>{taps.media ? 'Build grid from taps' : 'Use tapped BPM'}</button>}
+        <label className="muted small beat-editor-zoom">
+          Zoom
+          <input type="range" min={10} max={240} step={5} value={pxPerSec} onChange={(e) => setPxPerSec(parseFloat(e.target.value))} />
+        </label>
+      </div>
+      <div className="beat-lane-scroll">
+        <div
+          ref={laneRef}
+          className="beat-lane"
+          style={{ width }}
+          tabIndex={0}
+          onKeyDown={onKeyDown}
+          onClick={(e) => {
+            const at = Number(timeAt(e.clientX).toFixed(3))
+            onChange(addBeat(analysis, at))
+            setSelectedBeat(at)
+          }}
+        >
+          {waveform && (
+            <div className="beat-lane-wave">
+              {waveform.map((v, idx) => (
+                <span key={idx} style={{ height: `${Math.max(4, v * 100)}%` }} />
+              ))}
+            </div>
+          )}
+          {analysis.beats.map(t => (
+            <span
+              key={t}
+              className={`lane-beat ${downbeats.has(t) ? 'downbeat' : ''} ${selectedBeat === t ? 'selected' : ''}`}
+              style={{ left: t * pxPerSec }}
+              title={`${t.toFixed(3)}s · drag to move, Alt/right-click to delete, double-click to start a bar`}
+              onMouseDown={(e) => {
+                e.stopPropagation()
+                if (e.button !== 0 || e.altKey) return
+                laneRef.current?.focus()
+                setSelectedBeat(t)
+                dragRef.current = { from: t, current: t, startX: e.clientX, moved: false }
+              }}
+              onClick={(e) => {
+                e.stopPropagation()
+                if (!e.altKey) return
+                onChange(removeBeat(analysis, t))
+                setSelectedBeat(null)
+              }}
+              onContextMenu={(e) => {
+                e.preventDefault()
+                e.stopPropagation()
+                onChange(removeBeat(analysis, t))
+                setSelectedBeat(null)
+              }}
+              onDoubleClick={(e) => {
+                e.stopPropagation()
+                onChange(setBarStart(analysis, t))
+              }}
+            />
+          ))}
+          {previewing && <span className="lane-cursor" style={{ left: cursor * pxPerSec }} />}
+        </div>
+      </div>
+      <div className="beat-editor-bar">
+        <label className="muted small">BPM
+          <input className="pill-input" type="number" min={30} max={300} step={0.1} value={gridBpm} onChange={(e) => setGridBpm(parseFloat(e.target.value) || 0)} />
+        </label>
+        <label className="muted small">First downbeat (s)
+          <input className="pill-input" type="number" min={0} step={0.001} value={gridOffset} onChange={(e) => setGridOffset(parseFloat(e.target.value) || 0)} />
+        </label>
+        <label className="muted small">Meter
+          <select value={gridBpb} onChange={(e) => setGridBpb(Number(e.target.value))}>
+            <option value={3}>3/4</option>
+            <option value={4}>4/4</option>
+            <option value={6}>6/8</option>
+          </select>
+        </label>
+        <button className="ghost tiny" disabled={gridBpm <= 0} onClick={() => onChange(evenGrid(analysis, gridBpm, gridOffset, span, gridBpb))}>
+          Regenerate even grid
+        </button>
+      </div>
+      {url && <audio ref={audioRef} src={url} preload="none" onEnded={() => setPreviewing(false)} />}
+    </div>
+  )
+}
+
+export default BeatEditor
@@ -0,0 +1,48 @@
+import { OVERLAY_POSITIONS } from '../lib/burnIn'
+import type { BurnInSettings, OverlayPosition } from '../lib/burnIn'
+
+type Props = {
+  settings: BurnInSettings
+  timecode: string
+  clipName: string | null
+  slate: string[] | null // shown instead of the picture while previewing the slate
+}
+
+// Mirrors the ffmpeg burn-in layout: text sized and inset off the frame height, lines that
+// share a corner stacked with the timecode nearest the edge.
+function BurnInOverlay({ settings, timecode, clipName, slate }: Props) {
+  if (slate) {
+    return (
+      <div className="burn-in-slate">
+        {slate.map((line, i) => <div key={i} className={i === 0 ? 'slate-title' : ''}>{line}</div>)}
+      </div>
+    )
+  }
+  const lines: Array<{ position: OverlayPosition; text: string }> = []
+  if (settings.timecode) lines.push({ position: settings.timecodePosition, text: timecode })
+  if (settings.clipName && clipName) lines.push({ position: settings.clipNamePosition, text: clipName })
+  const { watermark } = settings
+  return (
+    <>
+      {watermark?.url && (
+        <img
+          className={`burn-in-watermark ${watermark.position}`}
+          src={watermark.url}
+          alt=""
+          style={{ opacity: watermark.opacity, width: `${watermark.scale * 100}%` }}
+        />
+      )}
+      {OVERLAY_POSITIONS.map(({ id }) => {
+        const here = lines.filter(l => l.position === id)
+        if (!here.length) return null
+        return (
+          <div key={id} className={`burn-in-slot ${id}`}>
+            {here.map((l, i) => <span key={i}>{l.text}</span>)}
+          </div>
+        )
+      })}
+    </>
+  )
+}
+
+export default BurnInOverlay
@@ -0,0 +1,102 @@
+import { OVERLAY_POSITIONS } from '../lib/burnIn'
+import type { BurnInSettings, OverlayPosition } from '../lib/burnIn'
+import type { Asset } from '../types'
+
+type Props = {
+  preset: string // label of the preset being edited
+  value: BurnInSettings
+  images: Asset[] // watermark candidates from the media pool
+  slatePreview: boolean
+  onChange: (patch: Partial<BurnInSettings>) => void
+  onSlatePreview: (on: boolean) => void
+}
+
+const MISSING = '__missing' // a saved watermark whose image isn't in this pool
+
+function PositionSelect({ label, value, onChange }: { label: string; value: OverlayPosition; onChange: (p: OverlayPosition) => void }) {
+  return (
+    <select className="ghost" aria-label={label} value={value} onChange={(e) => onChange(e.target.value as OverlayPosition)}>
+      {OVERLAY_POSITIONS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+    </select>
+  )
+}
+
+function BurnInPanel({ preset, value, images, slatePreview, onChange, onSlatePreview }: Props) {
+  const { watermark } = value
+  const missing = !!watermark && !images.some(a => a.id === watermark.assetId)
+  return (
+    <div className="burn-in-panel" data-testid="burn-in-panel">
+      <div className="panel-head">
+        <span>Burn-ins · {preset}</span>
+        <span className="muted small">Previewed in the program monitor</span>
+      </div>
+      <div className="burn-in-row">
+        <label className="pill ghosty">
+          <input type="checkbox" checked={value.timecode} onChange={(e) => onChange({ timecode: e.target.checked })} />
+          Timecode
+        </label>
+        <PositionSelect label="Timecode position" value={value.timecodePosition} onChange={(timecodePosition) => onChange({ timecodePosition })} />
+      </div>
+      <div className="burn-in-row">
+        <label className="pill ghosty">
+          <input type="checkbox" checked={value.clipName} onChange={(e) => onChange({ clipName: e.target.checked })} />
+          Clip name
+        </label>
+        <PositionSelect label="Clip name position" value={value.clipNamePosition} onChange={(clipNamePosition) => onChange({ clipNamePosition })} />
+      </div>
+      <div className="burn-in-row">
+        <select
+          className="ghost"
+          aria-label="Watermark image"
+          value={missing ? MISSING : watermark?.assetId ?? ''}
+          onChange={(e) => {
+            if (e.target.value === MISSING) return
+            const asset = images.find(a => a.id === e.target.value)
+            onChange({ watermark: asset ? { opacity: 0.6, position: 'top-right', scale: 0.15, ...watermark, assetId: asset.id, mediaId: asset.mediaId, name: asset.name } : null })
+          }}
+        >
+          <option value="">{images.length ? 'No watermark' : 'No watermark (import an image first)'}</option>
+          {missing && <option value={MISSING}>Watermark · {watermark.name} (missing, pick it again)</option>}
+          {images.map(a => <option key={a.id} value={a.id}>Watermark · {a.name}</option>)}
+        </select>
+        {watermark && (
+          <>
+            <PositionSelect label="Watermark position" value={watermark.position} onChange={(position) => onChange({ watermark: { ...watermark, position } })} />
+            <label className="muted small">
+              Opacity {Math.round(watermark.opacity * 100)}%
+              <input type="range" min={0.05} max={1} step={0.05} value={watermark.opacity} onChange={(e) => onChange({ watermark: { ...watermark, opacity: Number(e.target.value) } })} />
+            </label>
+            <label className="muted small">
+              Size {Math.round(watermark.scale * 100)}%
+              <input type="range" min={0.05} max={0.5} step={0.01} value={watermark.scale} onChange={(e) => onChange({ watermark: { ...watermark, scale: Number(e.target.value) } })} />
+            </label>
+          </>
+        )}
+      </div>
+      <div className="burn-in-row">
+        <label className="pill ghosty">
+          <input type="checkbox" checked={value.slate} onChange={(e) => onChange({ slate: e.target.checked })} />
+          Slate
+        </label>
+        <input
+          className="ghost range-input"
+          type="number"
+          min={1}
+          max={10}
+          step={0.5}
+          aria-label="Slate seconds"
+          disabled={!value.slate}
+          value={value.slateSeconds}
+          onChange={(e) => onChange({ slateSeconds: Math.min(10, Math.max(1, Number(e.target.value) || 1)) })}
+        />
+        <span className="muted small">s before the first frame</span>
+        <label className="pill ghosty">
+          <input type="checkbox" checked={slatePreview} disabled={!value.slate} onChange={(e) => onSlatePreview(e.target.checked)} />
+          Preview slate
+        </label>
+      </div>
+    </div>
+  )
+}
+
+export default BurnInPanel
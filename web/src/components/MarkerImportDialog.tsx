@@ -0,0 +1,107 @@
+import { useMemo, useState } from 'react'
+import type { Marker } from '../types'
+import { detectNameColumn, detectTimecodeColumn, markersFromCsv, parseCsv } from '../lib/markerCsv'
+import { FRAME_RATES, framesToSeconds, secondsToTc } from '../lib/timecode'
+
+type Props = {
+  fileName: string
+  text: string
+  fps: number
+  palette: string[]
+  existingCount: number
+  onImport: (markers: Marker[], mode: 'merge' | 'replace') => void
+  onClose: () => void
+}
+
+const PREVIEW_ROWS = 50
+
+function MarkerImportDialog({ fileName, text, fps: projectFps, palette, existingCount, onImport, onClose }: Props) {
+  const table = useMemo(() => parseCsv(text), [text])
+  const [fps, setFps] = useState(projectFps)
+  const [tcColumn, setTcColumn] = useState(() => detectTimecodeColumn(table, projectFps))
+  const [nameColumn, setNameColumn] = useState(() => detectNameColumn(table, detectTimecodeColumn(table, projectFps)))
+  const [subtractBase, setSubtractBase] = useState(true)
+
+  const result = useMemo(
+    () => (tcColumn >= 0 ? markersFromCsv(table, { tcColumn, nameColumn, fps, subtractBase }, palette, existingCount) : null),
+    [table, tcColumn, nameColumn, fps, subtractBase, palette, existingCount]
+  )
+
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="modal" role="dialog" aria-label="Import markers" data-testid="marker-import" onClick={(e) => e.stopPropagation()}>
+        <div className="panel-head">
+          <span>Import markers · {fileName}</span>
+          <button className="ghost tiny" onClick={onClose}>✕</button>
+        </div>
+        {!table.headers.length ? (
+          <p className="muted small">The file has no header row.</p>
+        ) : (
+          <>
+            <div className="modal-form">
+              <label className="muted small">Timecode column
+                <select value={tcColumn} onChange={(e) => setTcColumn(Number(e.target.value))}>
+                  <option value={-1} disabled>Pick a column</option>
+                  {table.headers.map((h, idx) => <option key={idx} value={idx}>{h || `Column ${idx + 1}`}</option>)}
+                </select>
+              </label>
+              <label className="muted small">Name column
+                <select value={nameColumn} onChange={(e) => setNameColumn(Number(e.target.value))}>
+                  <option value={-1}>(number them)</option>
+                  {table.headers.map((h, idx) => <option key={idx} value={idx}>{h || `Column ${idx + 1}`}</option>)}
+                </select>
+              </label>
+              <label className="muted small">FPS
+                <select value={fps} onChange={(e) => setFps(Number(e.target.value))}>
+                  {[...new Set(FRAME_RATES.map(r => r.fps))].map(v => <option key={v} value={v}>{v}</option>)}
+                </select>
+              </label>
+              <label className="muted small">
+                <input type="checkbox" checked={subtractBase} onChange={(e) => setSubtractBase(e.target.checked)} />
+                Subtract timecode base{result?.base ? ` (${secondsToTc(result.base, fps)})` : ''}
+              </label>
+            </div>
+            {tcColumn < 0 && <p className="pill ghosty error">No column with timecode-like values was found; pick one.</p>}
+            {result && (
+              <>
+                <div className="muted small">
+                  {result.markers.length} marker{result.markers.length === 1 ? '' : 's'}
+                  {result.skipped ? ` · ${result.skipped} row${result.skipped === 1 ? '' : 's'} skipped (not HH:MM:SS:FF)` : ''}
+                </div>
+                <div className="modal-table">
+                  <table>
+                    <thead>
+                      <tr><th>Row</th><th>Name</th><th>Timecode</th><th>Timeline</th></tr>
+                    </thead>
+                    <tbody>
+                      {result.rows.slice(0, PREVIEW_ROWS).map(r => (
+                        <tr key={r.row} className={r.frames === null ? 'skipped' : ''}>
+                          <td>{r.row}</td>
+                          <td>{r.label}</td>
+                          <td>{r.tc || '—'}</td>
+                          <td>{r.frames === null ? 'skipped' : `${(framesToSeconds(r.frames, fps) - result.base).toFixed(3)}s`}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {result.rows.length > PREVIEW_ROWS && <p className="muted small">…and {result.rows.length - PREVIEW_ROWS} more rows</p>}
+                </div>
+              </>
+            )}
+          </>
+        )}
+        <div className="beat-actions">
+          <button className="ghost" disabled={!result?.markers.length} onClick={() => result && onImport(result.markers, 'merge')}>
+            Merge into markers
+          </button>
+          <button className="ghost danger" disabled={!result?.markers.length} onClick={() => result && onImport(result.markers, 'replace')}>
+            Replace markers
+          </button>
+          <button className="ghost" onClick={onClose}>Cancel</button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default MarkerImportDialog
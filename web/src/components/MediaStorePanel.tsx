@@ -0,0 +1,61 @@
+import { formatBytes } from '../lib/mediaStore'
+import type { MediaRecord, StorageReport } from '../lib/mediaStore'
+
+type Props = {
+  report: StorageReport | null
+  unused: MediaRecord[] // stored files no asset, clip, draft or preset points at
+  busy: boolean
+  status: string | null
+  onRefresh: () => void
+  onRemoveUnused: () => void
+  onPersist: () => void
+}
+
+const BACKEND_LABEL: Record<StorageReport['backend'], string> = { opfs: 'Origin Private File System', indexeddb: 'IndexedDB' }
+
+function MediaStorePanel({ report, unused, busy, status, onRefresh, onRemoveUnused, onPersist }: Props) {
+  const unusedBytes = unused.reduce((sum, r) => sum + r.size, 0)
+  const share = report?.usage != null && report.quota ? report.usage / report.quota : null
+  return (
+    <div className="media-store" data-testid="media-store">
+      <div className="panel-head">
+        <span>Media store</span>
+        <button className="ghost tiny" disabled={busy} onClick={onRefresh}>Refresh</button>
+      </div>
+      {report ? (
+        <>
+          <div className="muted small">
+            {report.count} file{report.count === 1 ? '' : 's'} · {formatBytes(report.bytes)} in {BACKEND_LABEL[report.backend]}
+          </div>
+          {share !== null && (
+            <div className="muted small">
+              Site storage {formatBytes(report.usage ?? 0)} of {formatBytes(report.quota ?? 0)}
+              <span className="meter" title={`${(share * 100).toFixed(1)}% of the quota`}><span style={{ width: `${Math.min(100, share * 100)}%` }} /></span>
+            </div>
+          )}
+          <div className="muted small">
+            {report.persisted
+              ? 'Persistent: the browser won’t clear it to free space.'
+              : <>The browser may clear it when space runs low. <button className="ghost tiny" onClick={onPersist}>Keep it</button></>}
+          </div>
+        </>
+      ) : (
+        <div className="muted small">Reading the store…</div>
+      )}
+      {unused.length > 0 && (
+        <>
+          <ul className="media-unused">
+            {unused.map(r => <li key={r.id} className="muted small" title={r.id}>{r.name} · {formatBytes(r.size)}</li>)}
+          </ul>
+          <button className="ghost danger" disabled={busy} onClick={onRemoveUnused}>
+            Remove {unused.length} unused ({formatBytes(unusedBytes)})
+          </button>
+        </>
+      )}
+      {report && !unused.length && <div className="muted small">Every stored file is in use.</div>}
+      {status && <div className="muted small">{status}</div>}
+    </div>
+  )
+}
+
+export default MediaStorePanel
@@ -0,0 +1,165 @@
+import type React from 'react'
+import type { AudioFormat, BitDepth } from '../lib/audioEncode'
+import { LOUDNESS_TARGETS } from '../lib/loudness'
+import {
+  AUDIO_CODEC_LABELS,
+  CONTAINER_CODECS,
+  CRF_RANGE,
+  FILENAME_TOKENS,
+  FRAME_SIZES,
+  RANGE_LABELS,
+  VIDEO_CODEC_LABELS,
+  withKind
+} from '../lib/exportPresets'
+import type { ExportPreset, PresetKind, RangeMode } from '../lib/exportPresets'
+import type { AudioCodec, VideoCodec } from '../lib/render'
+
+type Props = {
+  preset: ExportPreset
+  projectFps: number
+  fpsChoices: number[]
+  loopRange: { start: number; end: number }
+  fileName: string // the template rendered for the current project
+  canDelete: boolean
+  status: string | null
+  onChange: (next: ExportPreset) => void
+  onDuplicate: () => void
+  onDelete: () => void
+  onExport: () => void
+  onImport: (e: React.ChangeEvent<HTMLInputElement>) => void
+}
+
+const KIND_LABELS: Record<PresetKind, string> = { mp4: 'MP4', webm: 'WebM', audio: 'Audio only' }
+
+const num = (value: string) => Number(value) || 0
+
+function PresetEditor({ preset, projectFps, fpsChoices, loopRange, fileName, canDelete, status, onChange, onDuplicate, onDelete, onExport, onImport }: Props) {
+  const { video, audio, mixdown, range } = preset
+  const isVideo = preset.kind !== 'audio'
+  const container = CONTAINER_CODECS[preset.kind === 'webm' ? 'webm' : 'mp4']
+  const crfRange = CRF_RANGE[video.codec]
+  const size = FRAME_SIZES.find(s => s.width === video.width && s.height === video.height)?.label ?? 'custom'
+  const setVideo = (patch: Partial<ExportPreset['video']>) => onChange({ ...preset, video: { ...video, ...patch } })
+  const setAudio = (patch: Partial<ExportPreset['audio']>) => onChange({ ...preset, audio: { ...audio, ...patch } })
+  const setMixdown = (patch: Partial<ExportPreset['mixdown']>) => onChange({ ...preset, mixdown: { ...mixdown, ...patch } })
+  const setRange = (patch: Partial<ExportPreset['range']>) => onChange({ ...preset, range: { ...range, ...patch } })
+
+  return (
+    <div className="preset-editor" data-testid="preset-editor">
+      <div className="panel-head">
+        <span>Preset · {preset.name}</span>
+        <div className="preset-row">
+          <button className="ghost" onClick={onDuplicate}>Duplicate</button>
+          <button className="ghost danger" disabled={!canDelete} onClick={onDelete}>Delete</button>
+          <button className="ghost" title="Download every preset as JSON to share with the team" onClick={onExport}>Export presets</button>
+          <label className="ghost">
+            Import presets
+            <input type="file" accept="application/json" hidden onChange={onImport} />
+          </label>
+        </div>
+      </div>
+      {status && <span className="muted small">{status}</span>}
+      <div className="preset-row">
+        <input className="ghost preset-name" aria-label="Preset name" value={preset.name} onChange={(e) => onChange({ ...preset, name: e.target.value })} />
+        <select className="ghost" aria-label="Container" value={preset.kind} onChange={(e) => onChange(withKind(preset, e.target.value as PresetKind))}>
+          {(Object.keys(KIND_LABELS) as PresetKind[]).map(k => <option key={k} value={k}>{KIND_LABELS[k]}</option>)}
+        </select>
+      </div>
+      {isVideo ? (
+        <>
+          <div className="preset-row">
+            <select
+              className="ghost"
+              aria-label="Frame size"
+              value={size}
+              onChange={(e) => {
+                const next = FRAME_SIZES.find(s => s.label === e.target.value)
+                if (next) setVideo({ width: next.width, height: next.height })
+              }}
+            >
+              {FRAME_SIZES.map(s => <option key={s.label} value={s.label}>{s.label} · {s.width}×{s.height}</option>)}
+              <option value="custom">Custom size</option>
+            </select>
+            <input className="ghost range-input" type="number" min={16} max={4096} step={2} aria-label="Width" value={video.width} onChange={(e) => setVideo({ width: num(e.target.value) })} />
+            <span className="muted small">×</span>
+            <input className="ghost range-input" type="number" min={16} max={4096} step={2} aria-label="Height" value={video.height} onChange={(e) => setVideo({ height: num(e.target.value) })} />
+            <select className="ghost" aria-label="Frame rate" value={video.fps ?? ''} onChange={(e) => setVideo({ fps: e.target.value ? Number(e.target.value) : null })}>
+              <option value="">Project rate ({projectFps} fps)</option>
+              {fpsChoices.map(f => <option key={f} value={f}>{f} fps</option>)}
+            </select>
+          </div>
+          <div className="preset-row">
+            <select
+              className="ghost"
+              aria-label="Video codec"
+              value={video.codec}
+              onChange={(e) => {
+                const codec = e.target.value as VideoCodec
+                setVideo({ codec, crf: Math.min(CRF_RANGE[codec].max, Math.max(CRF_RANGE[codec].min, video.crf)) })
+              }}
+            >
+              {container.video.map(c => <option key={c} value={c}>{VIDEO_CODEC_LABELS[c]}</option>)}
+            </select>
+            <select className="ghost" aria-label="Rate control" value={video.rateControl} onChange={(e) => setVideo({ rateControl: e.target.value as ExportPreset['video']['rateControl'] })}>
+              <option value="crf">Constant quality (CRF)</option>
+              <option value="bitrate">Target bitrate</option>
+            </select>
+            {video.rateControl === 'crf' ? (
+              <label className="muted small">
+                CRF {video.crf}
+                <input type="range" min={crfRange.min} max={crfRange.max} step={1} value={video.crf} onChange={(e) => setVideo({ crf: Number(e.target.value) })} />
+              </label>
+            ) : (
+              <>
+                <input className="ghost range-input" type="number" min={100} step={100} aria-label="Video bitrate" value={video.kbps} onChange={(e) => setVideo({ kbps: num(e.target.value) })} />
+                <span className="muted small">kb/s</span>
+              </>
+            )}
+          </div>
+          <div className="preset-row">
+            <select className="ghost" aria-label="Audio codec" value={audio.codec} onChange={(e) => setAudio({ codec: e.target.value as AudioCodec })}>
+              {container.audio.map(c => <option key={c} value={c}>{AUDIO_CODEC_LABELS[c]}</option>)}
+            </select>
+            <input className="ghost range-input" type="number" min={32} max={512} step={32} aria-label="Audio bitrate" value={audio.kbps} onChange={(e) => setAudio({ kbps: num(e.target.value) })} />
+            <span className="muted small">kb/s</span>
+          </div>
+        </>
+      ) : (
+        <div className="preset-row">
+          <select className="ghost" aria-label="Audio format" value={mixdown.format} onChange={(e) => setMixdown({ format: e.target.value as AudioFormat })}>
+            <option value="wav">WAV</option>
+            <option value="flac">FLAC</option>
+          </select>
+          <select className="ghost" aria-label="Bit depth" value={mixdown.bitDepth} onChange={(e) => setMixdown({ bitDepth: Number(e.target.value) as BitDepth })}>
+            <option value={16}>16-bit</option>
+            <option value={24}>24-bit</option>
+          </select>
+          <select className="ghost" aria-label="Sample rate" value={mixdown.sampleRate} onChange={(e) => setMixdown({ sampleRate: Number(e.target.value) })}>
+            <option value={44100}>44.1 kHz</option>
+            <option value={48000}>48 kHz</option>
+          </select>
+        </div>
+      )}
+      <div className="preset-row">
+        <select className="ghost" aria-label="Render range" value={range.mode} onChange={(e) => setRange({ mode: e.target.value as RangeMode })}>
+          {(Object.keys(RANGE_LABELS) as RangeMode[]).map(m => (
+            <option key={m} value={m}>{RANGE_LABELS[m]}{m === 'loop' ? ` (${loopRange.start.toFixed(1)}–${loopRange.end.toFixed(1)}s)` : ''}</option>
+          ))}
+        </select>
+        <select className="ghost" aria-label="Loudness normalization" value={preset.normalize} onChange={(e) => onChange({ ...preset, normalize: e.target.value })}>
+          <option value="off">No loudness normalization</option>
+          {LOUDNESS_TARGETS.map(t => <option key={t.id} value={t.id}>Normalize · {t.label} ({t.truePeak} dBTP)</option>)}
+        </select>
+      </div>
+      <div className="preset-row">
+        <input className="ghost preset-filename" aria-label="File name template" value={preset.filename} onChange={(e) => onChange({ ...preset, filename: e.target.value })} />
+        {FILENAME_TOKENS.map(t => (
+          <button key={t} className="pill ghosty token-chip" title={`Insert {${t}}`} onClick={() => onChange({ ...preset, filename: `${preset.filename}{${t}}` })}>{`{${t}}`}</button>
+        ))}
+      </div>
+      <span className="muted small">→ {fileName}</span>
+    </div>
+  )
+}
+
+export default PresetEditor
@@ -0,0 +1,96 @@
+import { describePreset } from '../lib/exportPresets'
+import { formatLufs } from '../lib/loudness'
+import type { QueueJob } from '../lib/renderQueue'
+
+type Props = {
+  jobs: QueueJob[]
+  onMove: (id: string, delta: -1 | 1) => void
+  onCancel: (id: string) => void
+  onRetry: (id: string) => void
+  onRemove: (id: string) => void
+  onClearFinished: () => void
+}
+
+const STATUS_LABEL: Record<QueueJob['status'], string> = {
+  queued: 'Queued',
+  running: 'Rendering',
+  done: 'Done',
+  error: 'Failed',
+  cancelled: 'Cancelled'
+}
+
+const formatSize = (bytes: number) => (bytes > 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`)
+
+function RenderQueue({ jobs, onMove, onCancel, onRetry, onRemove, onClearFinished }: Props) {
+  const finished = jobs.filter(j => j.status === 'done' || j.status === 'error' || j.status === 'cancelled').length
+  return (
+    <div className="render-queue" data-testid="render-queue">
+      <div className="panel-head">
+        <span>Render queue</span>
+        <button className="ghost tiny" disabled={!finished} onClick={onClearFinished}>Clear finished</button>
+      </div>
+      {!jobs.length && <p className="muted small">Add renders with the preset picker; they run one after another while you keep editing.</p>}
+      <ol className="render-queue-list">
+        {jobs.map((job, idx) => (
+          <li key={job.id} className={`render-job ${job.status}`}>
+            <div className="render-job-head">
+              <strong>{idx + 1}. {job.label}</strong>
+              <span className="muted small">
+                {job.source} · {job.range.from.toFixed(1)}–{job.range.to.toFixed(1)}s · {describePreset(job.preset)}
+              </span>
+              <span className={`pill ghosty ${job.status === 'error' ? 'error' : ''}`}>{STATUS_LABEL[job.status]}</span>
+            </div>
+            {(job.status === 'running' || job.status === 'queued') && (
+              <div className="progress">
+                <div className="progress-bar" style={{ width: `${Math.round(job.progress * 100)}%` }} />
+              </div>
+            )}
+            <div className="muted small">
+              {job.status === 'error' ? job.error : job.stage}
+              {job.output && ` · ${formatSize(job.output.size)}`}
+            </div>
+            {job.backend && (
+              <div className="muted small">
+                Encoder {job.backend.kind === 'webcodecs' ? 'WebCodecs' : 'ffmpeg.wasm'} · {job.backend.codecs}
+              </div>
+            )}
+            {job.loudness && (
+              <div className="muted small">
+                Loudness {formatLufs(job.loudness.measured)} · TP {formatLufs(job.loudness.truePeak, 'dBTP')} → {job.loudness.gainDb >= 0 ? '+' : ''}{job.loudness.gainDb.toFixed(1)} dB
+                {' '}({formatLufs(job.loudness.measured + job.loudness.gainDb)} at {formatLufs(job.loudness.truePeak + job.loudness.gainDb, 'dBTP')})
+              </div>
+            )}
+            <div className="render-job-actions">
+              {job.status === 'queued' && (
+                <>
+                  <button className="ghost tiny" aria-label="Move up" onClick={() => onMove(job.id, -1)}>↑</button>
+                  <button className="ghost tiny" aria-label="Move down" onClick={() => onMove(job.id, 1)}>↓</button>
+                </>
+              )}
+              {(job.status === 'queued' || job.status === 'running') && (
+                <button className="ghost tiny danger" onClick={() => onCancel(job.id)}>Cancel</button>
+              )}
+              {(job.status === 'error' || job.status === 'cancelled' || job.status === 'done') && (
+                <button className="ghost tiny" onClick={() => onRetry(job.id)}>{job.status === 'done' ? 'Render again' : 'Retry'}</button>
+              )}
+              {job.output && (
+                <a className="ghost tiny" href={job.output.url} download={job.output.name}>Download {job.output.name}</a>
+              )}
+              {job.status !== 'running' && (
+                <button className="ghost tiny" onClick={() => onRemove(job.id)}>Remove</button>
+              )}
+            </div>
+            {job.log.length > 0 && (
+              <details className="export-log">
+                <summary className="muted small">Log ({job.log.length} lines)</summary>
+                <pre>{job.log.join('\n')}</pre>
+              </details>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
+
+export default RenderQueue
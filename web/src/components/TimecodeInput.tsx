@@ -0,0 +1,46 @@
+import { useState } from 'react'
+import { parseTcEntry, secondsToTc } from '../lib/timecode'
+
+type Props = {
+  value: number // seconds
+  fps: number
+  dropFrame: boolean
+  onCommit: (seconds: number) => void
+  className?: string
+  ariaLabel?: string
+  title?: string
+}
+
+// Shows HH:MM:SS:FF (`;` before the frames when drop-frame) and takes typed timecode, committed
+// on Enter or blur; anything that doesn't parse snaps back to the current value.
+function TimecodeInput({ value, fps, dropFrame, onCommit, className, ariaLabel, title }: Props) {
+  const [draft, setDraft] = useState<string | null>(null)
+  const shown = secondsToTc(value, fps, dropFrame)
+
+  const commit = () => {
+    if (draft === null) return
+    const seconds = parseTcEntry(draft, fps, dropFrame)
+    setDraft(null)
+    if (seconds !== null) onCommit(seconds)
+  }
+
+  return (
+    <input
+      className={`timecode-input ${className ?? ''}`}
+      aria-label={ariaLabel}
+      title={title}
+      spellCheck={false}
+      value={draft ?? shown}
+      onFocus={(e) => e.currentTarget.select()}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur()
+        if (e.key === 'Escape') setDraft(null)
+        e.stopPropagation() // keep typed digits and arrows away from the timeline shortcuts
+      }}
+    />
+  )
+}
+
+export default TimecodeInput
@@ -0,0 +1,133 @@
+import type { Section } from '../types'
+import type { AudioFormat, BitDepth } from './audioEncode'
+import type { BeatDetection, BeatDetectOptions } from './beats'
+import type { LoudnessReading } from './loudness'
+
+// Jobs the analysis worker understands: input sent in, output posted back.
+export type AnalysisJobs = {
+  beats: { input: { channels: Float32Array[]; sampleRate: number; options?: BeatDetectOptions }; output: BeatDetection & { sections: Section[] } }
+  waveform: { input: { channels: Float32Array[] }; output: number[] }
+  loudness: { input: { channels: Float32Array[]; sampleRate: number }; output: LoudnessReading }
+  // Not analysis, but the same kind of long synchronous loop over PCM: mixdown encoding
+  encode: { input: { channels: Float32Array[]; sampleRate: number; format: AudioFormat; bitDepth: BitDepth; gain?: number }; output: Blob }
+}
+export type AnalysisKind = keyof AnalysisJobs
+
+export type AnalysisRequest = { [K in AnalysisKind]: { id: number; kind: K; input: AnalysisJobs[K]['input'] } }[AnalysisKind]
+export type AnalysisResponse =
+  | { id: number; type: 'progress'; ratio: number }
+  | { id: number; type: 'result'; result: unknown }
+  | { id: number; type: 'error'; message: string }
+
+type RunOpts = { signal?: AbortSignal; onProgress?: (ratio: number) => void }
+
+type Task = {
+  id: number
+  request: AnalysisRequest
+  opts: RunOpts
+  resolve: (value: unknown) => void
+  reject: (reason: unknown) => void
+}
+
+const abortError = () => new DOMException('Analysis cancelled', 'AbortError')
+
+export const isAbortError = (err: unknown) => err instanceof DOMException && err.name === 'AbortError'
+
+const transferables = (request: AnalysisRequest) => request.input.channels.map(c => c.buffer as ArrayBuffer)
+
+const defaultPoolSize = () => Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1))
+
+// Fixed-size pool of analysis workers. Workers spawn lazily; a cancelled running job
+// terminates its worker (the only way to stop a synchronous DSP loop) and the slot respawns.
+export const createAnalysisPool = (size = defaultPoolSize()) => {
+  const queue: Task[] = []
+  const idle: Worker[] = []
+  let live = 0
+  let nextId = 1
+
+  const spawn = () => new Worker(new URL('../workers/analysis.worker.ts', import.meta.url), { type: 'module' })
+
+  const release = (worker: Worker) => {
+    worker.onmessage = null
+    worker.onerror = null
+    idle.push(worker)
+    pump()
+  }
+
+  const start = (worker: Worker, task: Task) => {
+    const { signal, onProgress } = task.opts
+    const onAbort = () => {
+      worker.terminate()
+      live -= 1
+      task.reject(abortError())
+      pump()
+    }
+    const finish = () => signal?.removeEventListener('abort', onAbort)
+    signal?.addEventListener('abort', onAbort, { once: true })
+    worker.onmessage = (e: MessageEvent<AnalysisResponse>) => {
+      const msg = e.data
+      if (msg.id !== task.id) return
+      if (msg.type === 'progress') {
+        onProgress?.(msg.ratio)
+        return
+      }
+      finish()
+      if (msg.type === 'result') task.resolve(msg.result)
+      else task.reject(new Error(msg.message))
+      release(worker)
+    }
+    worker.onerror = (e: ErrorEvent) => {
+      finish()
+      worker.terminate()
+      live -= 1
+      task.reject(new Error(e.message || 'Analysis worker crashed'))
+      pump()
+    }
+    worker.postMessage(task.request, transferables(task.request))
+  }
+
+  const pump = () => {
+    while (queue.length) {
+      let worker = idle.pop()
+      if (!worker && live < size) {
+        worker = spawn()
+        live += 1
+      }
+      if (!worker) return
+      start(worker, queue.shift() as Task)
+    }
+  }
+
+  const run = <K extends AnalysisKind>(kind: K, input: AnalysisJobs[K]['input'], opts: RunOpts = {}) => {
+    const { signal } = opts
+    let dequeue = () => {}
+    return new Promise<AnalysisJobs[K]['output']>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortError())
+        return
+      }
+      const id = nextId++
+      const task: Task = { id, request: { id, kind, input } as AnalysisRequest, opts, resolve: resolve as (v: unknown) => void, reject }
+      // Queued jobs just drop out of the queue when cancelled
+      dequeue = () => {
+        const idx = queue.indexOf(task)
+        if (idx >= 0) {
+          queue.splice(idx, 1)
+          reject(abortError())
+        }
+      }
+      signal?.addEventListener('abort', dequeue, { once: true })
+      queue.push(task)
+      pump()
+    }).finally(() => signal?.removeEventListener('abort', dequeue))
+  }
+
+  const dispose = () => {
+    queue.splice(0).forEach(t => t.reject(abortError()))
+    idle.splice(0).forEach(w => w.terminate())
+  }
+
+  return { run, dispose, size }
+}
+
+export type AnalysisPool = ReturnType<typeof createAnalysisPool>
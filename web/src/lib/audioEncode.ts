@@ -0,0 +1,335 @@
+// PCM WAV and FLAC writers for mixdowns. Both take planar float channels in [-1, 1].
+
+export type BitDepth = 16 | 24
+export type AudioFormat = 'wav' | 'flac'
+
+const toInt = (channels: Float32Array[], bitDepth: BitDepth) => {
+  const scale = bitDepth === 16 ? 32767 : 8388607
+  return channels.map(ch => {
+    const out = new Int32Array(ch.length)
+    for (let i = 0; i < ch.length; i++) out[i] = Math.round(Math.max(-1, Math.min(1, ch[i])) * scale)
+    return out
+  })
+}
+
+export const encodeWav = (channels: Float32Array[], sampleRate: number, bitDepth: BitDepth = 16) => {
+  const ints = toInt(channels, bitDepth)
+  const frames = ints[0]?.length ?? 0
+  const bytesPerSample = bitDepth / 8
+  const blockAlign = ints.length * bytesPerSample
+  const dataSize = frames * blockAlign
+  const buffer = new ArrayBuffer(44 + dataSize)
+  const view = new DataView(buffer)
+  const ascii = (offset: number, text: string) => [...text].forEach((ch, i) => view.setUint8(offset + i, ch.charCodeAt(0)))
+  ascii(0, 'RIFF')
+  view.setUint32(4, 36 + dataSize, true)
+  ascii(8, 'WAVE')
+  ascii(12, 'fmt ')
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true) // integer PCM
+  view.setUint16(22, ints.length, true)
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * blockAlign, true)
+  view.setUint16(32, blockAlign, true)
+  view.setUint16(34, bitDepth, true)
+  ascii(36, 'data')
+  view.setUint32(40, dataSize, true)
+  let pos = 44
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < ints.length; c++) {
+      const v = ints[c][i]
+      if (bitDepth === 16) view.setInt16(pos, v, true)
+      else {
+        view.setUint8(pos, v & 0xff)
+        view.setUint8(pos + 1, (v >> 8) & 0xff)
+        view.setUint8(pos + 2, (v >> 16) & 0xff)
+      }
+      pos += bytesPerSample
+    }
+  }
+  return new Blob([buffer], { type: 'audio/wav' })
+}
+
+// --- FLAC -------------------------------------------------------------------------------------
+// Fixed-blocksize frames, FIXED predictors (order 0–4) with partitioned Rice residuals, and
+// per-frame stereo decorrelation (independent / left-side / right-side / mid-side, whichever is
+// smallest). No LPC, so files land between WAV and `flac -5` in size; every decoder reads them.
+
+const BLOCK_SIZE = 4096
+const MAX_PARTITION_ORDER = 6
+const MAX_RICE_PARAM = 14
+
+class BitWriter {
+  bytes = new Uint8Array(1 << 16)
+  length = 0
+  private acc = 0
+  private accBits = 0
+
+  private ensure(extra: number) {
+    if (this.length + extra <= this.bytes.length) return
+    const next = new Uint8Array(Math.max(this.bytes.length * 2, this.length + extra))
+    next.set(this.bytes.subarray(0, this.length))
+    this.bytes = next
+  }
+
+  // Unsigned value of up to 24 bits; larger widths are split by the callers below
+  private put(value: number, bits: number) {
+    this.acc = (this.acc << bits) | (value & ((1 << bits) - 1))
+    this.accBits += bits
+    this.ensure(4)
+    while (this.accBits >= 8) {
+      this.accBits -= 8
+      this.bytes[this.length++] = (this.acc >>> this.accBits) & 0xff
+    }
+    this.acc &= (1 << this.accBits) - 1
+  }
+
+  write(value: number, bits: number) {
+    while (bits > 24) {
+      bits -= 24
+      this.put(Math.floor(value / 2 ** bits) % (1 << 24), 24)
+    }
+    if (bits > 0) this.put(value % 2 ** bits, bits)
+  }
+
+  writeSigned(value: number, bits: number) {
+    this.write(value < 0 ? value + 2 ** bits : value, bits)
+  }
+
+  writeZeros(count: number) {
+    while (count > 0) {
+      const n = Math.min(24, count)
+      this.put(0, n)
+      count -= n
+    }
+  }
+
+  alignToByte() {
+    if (this.accBits) this.put(0, 8 - this.accBits)
+  }
+}
+
+const CRC8_TABLE = (() => {
+  const table = new Uint8Array(256)
+  for (let i = 0; i < 256; i++) {
+    let c = i
+    for (let j = 0; j < 8; j++) c = c & 0x80 ? ((c << 1) ^ 0x07) & 0xff : (c << 1) & 0xff
+    table[i] = c
+  }
+  return table
+})()
+
+const CRC16_TABLE = (() => {
+  const table = new Uint16Array(256)
+  for (let i = 0; i < 256; i++) {
+    let c = i << 8
+    for (let j = 0; j < 8; j++) c = c & 0x8000 ? ((c << 1) ^ 0x8005) & 0xffff : (c << 1) & 0xffff
+    table[i] = c
+  }
+  return table
+})()
+
+const crc8 = (bytes: Uint8Array, start: number, end: number) => {
+  let crc = 0
+  for (let i = start; i < end; i++) crc = CRC8_TABLE[crc ^ bytes[i]]
+  return crc
+}
+
+const crc16 = (bytes: Uint8Array, start: number, end: number) => {
+  let crc = 0
+  for (let i = start; i < end; i++) crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[(crc >> 8) ^ bytes[i]]
+  return crc
+}
+
+const SAMPLE_RATE_CODES: Record<number, number> = {
+  88200: 1, 176400: 2, 192000: 3, 8000: 4, 16000: 5, 22050: 6, 24000: 7, 32000: 8, 44100: 9, 48000: 10, 96000: 11
+}
+
+// Residual of the order-k fixed polynomial predictor
+const fixedResidual = (x: Int32Array, order: number) => {
+  const n = x.length
+  const res = new Float64Array(Math.max(0, n - order))
+  for (let i = order; i < n; i++) {
+    let r: number
+    if (order === 0) r = x[i]
+    else if (order === 1) r = x[i] - x[i - 1]
+    else if (order === 2) r = x[i] - 2 * x[i - 1] + x[i - 2]
+    else if (order === 3) r = x[i] - 3 * x[i - 1] + 3 * x[i - 2] - x[i - 3]
+    else r = x[i] - 4 * x[i - 1] + 6 * x[i - 2] - 4 * x[i - 3] + x[i - 4]
+    res[i - order] = r
+  }
+  return res
+}
+
+const zigzag = (r: number) => (r >= 0 ? 2 * r : -2 * r - 1)
+
+type RicePlan = { order: number; params: number[]; bits: number }
+
+const riceParamFor = (sum: number, count: number) => {
+  if (count === 0 || sum <= count) return 0
+  return Math.min(MAX_RICE_PARAM, Math.floor(Math.log2(sum / count)))
+}
+
+// Estimated cost per partition order; picks the cheapest split of the residual.
+const planRice = (folded: Float64Array, blockSize: number, predictorOrder: number): RicePlan => {
+  let best: RicePlan = { order: 0, params: [], bits: Infinity }
+  for (let order = 0; order <= MAX_PARTITION_ORDER; order++) {
+    const parts = 1 << order
+    if (blockSize % parts || (blockSize >> order) <= predictorOrder) break
+    const params: number[] = []
+    let bits = 0
+    let pos = 0
+    for (let p = 0; p < parts; p++) {
+      const count = (blockSize >> order) - (p === 0 ? predictorOrder : 0)
+      let sum = 0
+      for (let i = 0; i < count; i++) sum += folded[pos + i]
+      const k = riceParamFor(sum, count)
+      let exact = count * (k + 1)
+      for (let i = 0; i < count; i++) exact += Math.floor(folded[pos + i] / 2 ** k)
+      params.push(k)
+      bits += 4 + exact
+      pos += count
+    }
+    if (bits < best.bits) best = { order, params, bits }
+  }
+  return best
+}
+
+type Subframe = { bits: number; write: (w: BitWriter) => void }
+
+const encodeSubframe = (x: Int32Array, bps: number): Subframe => {
+  const n = x.length
+  if (x.every(v => v === x[0])) {
+    return { bits: 8 + bps, write: w => { w.write(0, 8); w.writeSigned(x[0], bps) } }
+  }
+  let best: Subframe = {
+    bits: 8 + n * bps,
+    write: w => {
+      w.write(0b00000010, 8)
+      for (let i = 0; i < n; i++) w.writeSigned(x[i], bps)
+    }
+  }
+  // Pick the predictor order by total absolute residual, as libFLAC's fixed search does
+  let order = 0
+  let lowest = Infinity
+  for (let k = 0; k <= Math.min(4, n - 1); k++) {
+    const res = fixedResidual(x, k)
+    let total = 0
+    for (let i = 0; i < res.length; i++) total += Math.abs(res[i])
+    if (total < lowest) {
+      lowest = total
+      order = k
+    }
+  }
+  const res = fixedResidual(x, order)
+  const folded = res.map(zigzag)
+  const plan = planRice(folded, n, order)
+  const bits = 8 + order * bps + 6 + plan.bits
+  if (bits < best.bits) {
+    best = {
+      bits,
+      write: w => {
+        w.write(0b00010000 | (order << 1), 8)
+        for (let i = 0; i < order; i++) w.writeSigned(x[i], bps)
+        w.write(0, 2) // Rice, 4-bit parameters
+        w.write(plan.order, 4)
+        let pos = 0
+        plan.params.forEach((k, p) => {
+          w.write(k, 4)
+          const count = (n >> plan.order) - (p === 0 ? order : 0)
+          for (let i = 0; i < count; i++) {
+            const u = folded[pos + i]
+            w.writeZeros(Math.floor(u / 2 ** k))
+            w.write(1, 1)
+            if (k) w.write(u % 2 ** k, k)
+          }
+          pos += count
+        })
+      }
+    }
+  }
+  return best
+}
+
+const writeUtf8Number = (w: BitWriter, value: number) => {
+  if (value < 0x80) {
+    w.write(value, 8)
+    return
+  }
+  const bytes: number[] = []
+  let v = value
+  while (v >= 0x40 >> bytes.length || !bytes.length) {
+    bytes.unshift(0x80 | (v & 0x3f))
+    v = Math.floor(v / 64)
+  }
+  const lead = (0xff00 >> (bytes.length + 1)) & 0xff
+  w.write(lead | v, 8)
+  bytes.forEach(b => w.write(b, 8))
+}
+
+export const encodeFlac = (channels: Float32Array[], sampleRate: number, bitDepth: BitDepth = 16) => {
+  const ints = toInt(channels, bitDepth)
+  const channelCount = ints.length
+  const total = ints[0]?.length ?? 0
+  const w = new BitWriter()
+
+  w.write(0x664c6143, 32) // "fLaC"
+  w.write(1, 1) // last metadata block
+  w.write(0, 7) // STREAMINFO
+  w.write(34, 24)
+  w.write(BLOCK_SIZE, 16)
+  w.write(BLOCK_SIZE, 16)
+  w.write(0, 24) // min/max frame size unknown
+  w.write(0, 24)
+  w.write(sampleRate, 20)
+  w.write(channelCount - 1, 3)
+  w.write(bitDepth - 1, 5)
+  w.write(total, 36)
+  w.writeZeros(128) // MD5 left unset, which the format allows
+
+  const rateCode = SAMPLE_RATE_CODES[sampleRate] ?? 0
+  const sizeCode = bitDepth === 16 ? 0b100 : 0b110
+  for (let frame = 0, start = 0; start < total; frame++, start += BLOCK_SIZE) {
+    const size = Math.min(BLOCK_SIZE, total - start)
+    const blocks = ints.map(ch => ch.subarray(start, start + size))
+
+    let assignment = channelCount - 1
+    let subframes = blocks.map(b => encodeSubframe(b, bitDepth))
+    if (channelCount === 2) {
+      const [l, r] = blocks
+      const side = new Int32Array(size)
+      const mid = new Int32Array(size)
+      for (let i = 0; i < size; i++) {
+        side[i] = l[i] - r[i]
+        mid[i] = (l[i] + r[i]) >> 1
+      }
+      const [L, R] = subframes
+      const S = encodeSubframe(side, bitDepth + 1)
+      const M = encodeSubframe(mid, bitDepth)
+      const options: Array<[number, Subframe[]]> = [[1, [L, R]], [0b1000, [L, S]], [0b1001, [S, R]], [0b1010, [M, S]]]
+      const [bestAssignment, bestSubframes] = options.reduce((a, b) => (b[1][0].bits + b[1][1].bits < a[1][0].bits + a[1][1].bits ? b : a))
+      assignment = bestAssignment
+      subframes = bestSubframes
+    }
+
+    const frameStart = w.length
+    w.write(0b11111111111110, 14)
+    w.write(0, 1)
+    w.write(0, 1) // fixed blocksize
+    w.write(0b0111, 4) // blocksize-1 follows as 16 bits
+    w.write(rateCode, 4)
+    w.write(assignment, 4)
+    w.write(sizeCode, 3)
+    w.write(0, 1)
+    writeUtf8Number(w, frame)
+    w.write(size - 1, 16)
+    w.write(crc8(w.bytes, frameStart, w.length), 8)
+    subframes.forEach(s => s.write(w))
+    w.alignToByte()
+    w.write(crc16(w.bytes, frameStart, w.length), 16)
+  }
+  return new Blob([w.bytes.slice(0, w.length)], { type: 'audio/flac' })
+}
+
+export const encodeAudio = (format: AudioFormat, channels: Float32Array[], sampleRate: number, bitDepth: BitDepth) =>
+  format === 'flac' ? encodeFlac(channels, sampleRate, bitDepth) : encodeWav(channels, sampleRate, bitDepth)
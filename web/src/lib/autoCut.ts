@@ -0,0 +1,167 @@
+import type { Asset, BeatAnalysis, Clip, ProjectState } from '../types'
+import { mediaToTimeline } from './beatGrid'
+
+export type AutoCutOrder = 'sequential' | 'shuffle' | 'name'
+
+export type AutoCutOptions = {
+  trackId: string
+  every: number
+  unit: 'beats' | 'bars'
+  order: AutoCutOrder
+  emphasizeDownbeats: boolean // restart the beat count on every bar so a cut always lands on the one
+  placement: 'ripple' | 'overwrite'
+  seed: number
+  palette: string[]
+}
+
+export type TimelineBeat = { time: number; downbeat: boolean }
+
+const EPS = 1e-4
+
+// Beats in timeline seconds: through the anchor clip when the music is placed, raw otherwise.
+export const timelineBeats = (analysis: BeatAnalysis, anchor?: Clip | null): TimelineBeat[] => {
+  const downbeats = new Set(analysis.downbeats)
+  return analysis.beats
+    .map(t => ({ time: anchor ? mediaToTimeline(anchor, t) : t, downbeat: downbeats.has(t) }))
+    .filter((b): b is TimelineBeat => b.time !== null)
+}
+
+export const cutPoints = (beats: TimelineBeat[], opts: Pick<AutoCutOptions, 'every' | 'unit' | 'emphasizeDownbeats'>) => {
+  const every = Math.max(1, Math.round(opts.every))
+  const points: number[] = []
+  if (opts.unit === 'bars') {
+    const bars = beats.filter(b => b.downbeat)
+    bars.forEach((b, idx) => { if (idx % every === 0) points.push(b.time) })
+    // Close the last segment on the following bar line (or the final beat)
+    const lastIdx = bars.length - 1 - ((bars.length - 1) % every)
+    const closing = bars[lastIdx + every]?.time ?? beats.at(-1)?.time
+    if (closing !== undefined && closing > (points.at(-1) ?? -Infinity) + EPS) points.push(closing)
+    return points
+  }
+  let count = 0
+  beats.forEach((b, idx) => {
+    if (opts.emphasizeDownbeats && b.downbeat) count = 0
+    if (count % every === 0 || idx === beats.length - 1) points.push(b.time)
+    count += 1
+  })
+  return points
+}
+
+const mulberry32 = (seed: number) => () => {
+  let t = (seed += 0x6d2b79f5)
+  t = Math.imul(t ^ (t >>> 15), t | 1)
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+}
+
+export const orderAssets = (assets: Asset[], order: AutoCutOrder, seed: number) => {
+  if (order === 'name') return [...assets].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
+  if (order === 'shuffle') {
+    const rand = mulberry32(seed)
+    const out = [...assets]
+    for (let i = out.length - 1; i > 0; i--) {
+      const j = Math.floor(rand() * (i + 1))
+      ;[out[i], out[j]] = [out[j], out[i]]
+    }
+    return out
+  }
+  return assets
+}
+
+// `base`, numbered when a clip already has it; cutting twice never duplicates an id
+const uniqueId = (base: string, taken: Set<string>) => {
+  let next = base
+  for (let n = 2; taken.has(next); n++) next = `${base}-${n}`
+  taken.add(next)
+  return next
+}
+
+// The right half of a split clip; splitting a tail again doesn't stack suffixes
+const tailId = (id: string, taken: Set<string>) => uniqueId(`${id.replace(/-tail(-\d+)?$/, '')}-tail`, taken)
+
+// Clear [from, to) on a track: clips inside go, clips across an edge are trimmed, a clip
+// spanning the whole range is split in two.
+const overwriteRange = (clips: Clip[], trackId: string, from: number, to: number, taken: Set<string>) => {
+  const out: Clip[] = []
+  clips.forEach(c => {
+    const end = c.start + c.duration
+    if (c.track !== trackId || end <= from + EPS || c.start >= to - EPS) {
+      out.push(c)
+      return
+    }
+    if (c.start < from - EPS) out.push({ ...c, duration: from - c.start })
+    if (end > to + EPS) {
+      const cut = to - c.start
+      out.push({ ...c, id: c.start < from - EPS ? tailId(c.id, taken) : c.id, start: to, duration: end - to, mediaOffset: (c.mediaOffset ?? 0) + cut })
+    }
+  })
+  return out
+}
+
+// Open a gap of `length` at `at`: later clips shift right, a clip across `at` is split first.
+const rippleInsert = (clips: Clip[], trackId: string, at: number, length: number, taken: Set<string>) => {
+  const out: Clip[] = []
+  clips.forEach(c => {
+    if (c.track !== trackId || c.start + c.duration <= at + EPS) {
+      out.push(c)
+      return
+    }
+    if (c.start >= at - EPS) {
+      out.push({ ...c, start: c.start + length })
+      return
+    }
+    const head = at - c.start
+    out.push({ ...c, duration: head })
+    out.push({ ...c, id: tailId(c.id, taken), start: at + length, duration: c.duration - head, mediaOffset: (c.mediaOffset ?? 0) + head })
+  })
+  return out
+}
+
+export const autoCutToBeat = (project: ProjectState, assets: Asset[], beats: TimelineBeat[], opts: AutoCutOptions): ProjectState => {
+  const media = assets.filter(a => a.type.startsWith('image') || a.type.startsWith('video'))
+  const points = cutPoints(beats, opts)
+  if (!media.length || points.length < 2) return project
+  const ordered = orderAssets(media, opts.order, opts.seed)
+  const from = points[0]
+  const to = points[points.length - 1]
+  const stamp = Date.now()
+  // Reusing a video continues where its previous segment stopped instead of replaying the head
+  const cursors = new Map<string, number>()
+  const taken = new Set(project.clips.map(c => c.id))
+
+  const created: Clip[] = []
+  for (let i = 0; i < points.length - 1; i++) {
+    const asset = ordered[i % ordered.length]
+    const start = points[i]
+    const duration = points[i + 1] - start
+    if (duration <= EPS) continue
+    const isVideo = asset.type.startsWith('video')
+    let offset = isVideo ? cursors.get(asset.id) ?? 0 : 0
+    if (isVideo && offset + duration > asset.duration) offset = 0
+    if (isVideo) cursors.set(asset.id, offset + duration)
+    created.push({
+      id: uniqueId(`${asset.id}-cut-${stamp}-${i}`, taken),
+      title: asset.name,
+      track: opts.trackId,
+      color: opts.palette[media.indexOf(asset) % opts.palette.length],
+      start,
+      duration,
+      url: asset.url,
+      assetId: asset.id,
+      mediaId: asset.mediaId,
+      assetType: asset.type,
+      thumb: asset.thumb ?? null,
+      waveform: null,
+      mediaDuration: asset.duration,
+      mediaOffset: offset,
+      gain: 1,
+      fadeIn: 0,
+      fadeOut: 0
+    })
+  }
+
+  const base = opts.placement === 'ripple'
+    ? rippleInsert(project.clips, opts.trackId, from, to - from, taken)
+    : overwriteRange(project.clips, opts.trackId, from, to, taken)
+  return { ...project, clips: [...base, ...created] }
+}
@@ -0,0 +1,82 @@
+import type { BeatAnalysis } from '../types'
+
+const round3 = (t: number) => Number(t.toFixed(3))
+
+const median = (values: number[]) => {
+  if (!values.length) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = sorted.length >> 1
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+export const bpmFromBeats = (beats: number[]) => {
+  const gaps = beats.slice(1).map((t, i) => t - beats[i]).filter(g => g > 0)
+  const gap = median(gaps)
+  return gap > 0 ? Math.round(600 / gap) / 10 : 0
+}
+
+// Every edit keeps beats sorted, downbeats a subset of beats and bpm in step with the spacing.
+const withBeats = (analysis: BeatAnalysis, beats: number[], downbeats: number[]): BeatAnalysis => {
+  const sorted = [...new Set(beats.map(round3))].sort((a, b) => a - b)
+  const present = new Set(sorted)
+  return {
+    ...analysis,
+    beats: sorted,
+    downbeats: [...new Set(downbeats.map(round3))].filter(t => present.has(t)).sort((a, b) => a - b),
+    bpm: bpmFromBeats(sorted)
+  }
+}
+
+export const addBeat = (analysis: BeatAnalysis, time: number) =>
+  withBeats(analysis, [...analysis.beats, Math.max(0, time)], analysis.downbeats)
+
+export const removeBeat = (analysis: BeatAnalysis, time: number) =>
+  withBeats(analysis, analysis.beats.filter(t => t !== time), analysis.downbeats.filter(t => t !== time))
+
+export const moveBeat = (analysis: BeatAnalysis, from: number, to: number) => {
+  const target = round3(Math.max(0, to))
+  return withBeats(
+    analysis,
+    analysis.beats.map(t => (t === from ? target : t)),
+    analysis.downbeats.map(t => (t === from ? target : t))
+  )
+}
+
+// Make `time` the first beat of a bar and re-bar every beat from it in both directions.
+export const setBarStart = (analysis: BeatAnalysis, time: number) => {
+  const idx = analysis.beats.indexOf(time)
+  if (idx < 0) return analysis
+  const bpb = Math.max(1, analysis.beatsPerBar)
+  const downbeats = analysis.beats.filter((_, i) => (((i - idx) % bpb) + bpb) % bpb === 0)
+  return { ...analysis, downbeats }
+}
+
+export const evenGrid = (analysis: BeatAnalysis, bpm: number, offset: number, duration: number, beatsPerBar = analysis.beatsPerBar) => {
+  if (bpm <= 0) return analysis
+  const period = 60 / bpm
+  const start = ((offset % period) + period) % period
+  const beats: number[] = []
+  for (let t = start; t <= duration + 1e-6; t += period) beats.push(round3(t))
+  // Offset is the first downbeat; beats before it are a pickup
+  const firstBar = beats.findIndex(t => t >= offset - 1e-6)
+  const bpb = Math.max(1, beatsPerBar)
+  const downbeats = beats.filter((_, i) => (((i - firstBar) % bpb) + bpb) % bpb === 0)
+  return { ...analysis, beats, downbeats, beatsPerBar: bpb, bpm: Math.round(bpm * 10) / 10, tempoConfidence: 1 }
+}
+
+// Tap tempo: bpm from the median tap interval, phase from the taps' average position in the
+// beat so one early tap doesn't drag the grid.
+export const tapTempo = (taps: number[]) => {
+  if (taps.length < 2) return null
+  const period = median(taps.slice(1).map((t, i) => t - taps[i]))
+  if (period <= 0) return null
+  let sx = 0
+  let sy = 0
+  taps.forEach(t => {
+    const angle = (2 * Math.PI * (t - taps[0])) / period
+    sx += Math.cos(angle)
+    sy += Math.sin(angle)
+  })
+  const phase = (Math.atan2(sy, sx) / (2 * Math.PI)) * period
+  return { bpm: Math.round(600 / period) / 10, offset: round3(taps[0] + phase) }
+}
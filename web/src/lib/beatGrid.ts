@@ -0,0 +1,60 @@
+import type { BeatAnalysis, BeatGrid, Clip } from '../types'
+
+export type GridLine = {
+  time: number // timeline seconds
+  kind: 'bar' | 'beat' | 'sub'
+  bar: number // 1-based; 0 for a pickup before the first downbeat
+  beat: number // 1-based within the bar
+  sub: number // 1-based within the beat
+}
+
+export const gridLineLabel = (line: GridLine) => {
+  if (line.kind === 'bar') return `Bar ${line.bar}`
+  if (line.kind === 'beat') return `Beat ${line.bar}.${line.beat}`
+  return `Sub ${line.bar}.${line.beat}.${line.sub}`
+}
+
+export const findGridClip = (clips: Clip[], grid: BeatGrid | null | undefined) =>
+  grid ? clips.find(c => c.id === grid.clipId) ?? null : null
+
+// The clip an analysis should anchor to: first placed clip of that asset, by id or by URL for
+// clips created before clips carried their asset id.
+export const findClipForAsset = (clips: Clip[], assetId: string, assetUrl?: string) =>
+  clips
+    .filter(c => c.assetId === assetId || (!c.assetId && !!assetUrl && c.url === assetUrl))
+    .sort((a, b) => a.start - b.start)[0] ?? null
+
+// Media time -> timeline time for a clip, or null when that moment is trimmed away.
+export const mediaToTimeline = (clip: Clip, mediaTime: number) => {
+  const t = clip.start + mediaTime - (clip.mediaOffset ?? 0)
+  if (t < clip.start - 1e-6 || t > clip.start + clip.duration + 1e-6) return null
+  return t
+}
+
+// Bar/beat numbering comes from the whole analysis so it stays stable while the clip is
+// trimmed or slipped; only lines inside the visible part of the clip are returned.
+export const resolveBeatGrid = (grid: BeatGrid | null | undefined, clips: Clip[], analyses: Record<string, BeatAnalysis>): GridLine[] => {
+  if (!grid) return []
+  const clip = findGridClip(clips, grid)
+  const analysis = analyses[grid.assetId]
+  if (!clip || !analysis || !analysis.beats.length) return []
+  const { beats, beatsPerBar } = analysis
+  const firstDownbeat = analysis.downbeats.length ? beats.indexOf(analysis.downbeats[0]) : 0
+  const phase = firstDownbeat >= 0 ? firstDownbeat : 0
+  const subdivisions = Math.max(1, Math.round(grid.subdivisions))
+  const lines: GridLine[] = []
+  beats.forEach((mediaTime, idx) => {
+    const rel = idx - phase
+    const bar = Math.floor(rel / beatsPerBar) + 1
+    const beat = ((rel % beatsPerBar) + beatsPerBar) % beatsPerBar + 1
+    const at = mediaToTimeline(clip, mediaTime)
+    if (at !== null) lines.push({ time: Number(at.toFixed(4)), kind: beat === 1 ? 'bar' : 'beat', bar: Math.max(0, bar), beat, sub: 1 })
+    const next = beats[idx + 1]
+    if (next === undefined) return
+    for (let k = 1; k < subdivisions; k++) {
+      const subAt = mediaToTimeline(clip, mediaTime + ((next - mediaTime) * k) / subdivisions)
+      if (subAt !== null) lines.push({ time: Number(subAt.toFixed(4)), kind: 'sub', bar: Math.max(0, bar), beat, sub: k + 1 })
+    }
+  })
+  return lines.sort((a, b) => a.time - b.time)
+}
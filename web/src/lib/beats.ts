@@ -0,0 +1,285 @@
+import { createFFT, hannWindow } from './fft'
+
+export type BeatDetection = {
+  onsets: number[]
+  beats: number[]
+  downbeats: number[]
+  bpm: number
+  beatsPerBar: number
+  tempoConfidence: number
+}
+
+export type BeatDetectOptions = {
+  minBpm?: number
+  maxBpm?: number
+  beatsPerBar?: number // force a meter; otherwise 3 vs 4 is estimated
+}
+
+const FRAME = 1024
+const HOP = 256
+// Band edges in Hz; kick, bass, low-mid, mid, presence, air
+const BANDS: Array<[number, number]> = [[30, 150], [150, 400], [400, 1200], [1200, 3500], [3500, 8000], [8000, 16000]]
+// Low bands weigh more so broadband hats on the offbeat don't out-vote the kick
+const BAND_WEIGHTS = [2, 1.5, 1, 1, 0.75, 0.5]
+const LOW_BANDS = 2
+const TEMPO_PRIOR_BPM = 120
+const TRACK_TIGHTNESS = 100
+
+export const mixToMono = (channels: Float32Array[]) => {
+  if (channels.length === 1) return channels[0]
+  const len = Math.min(...channels.map(c => c.length))
+  const out = new Float32Array(len)
+  channels.forEach(ch => {
+    for (let i = 0; i < len; i++) out[i] += ch[i] / channels.length
+  })
+  return out
+}
+
+// Halve the rate while it stays above ~32 kHz; onset detail above 11 kHz is not needed.
+export const downsample = (signal: Float32Array, sampleRate: number) => {
+  let data = signal
+  let rate = sampleRate
+  while (rate > 32000) {
+    const next = new Float32Array(Math.floor(data.length / 2))
+    for (let i = 0; i < next.length; i++) next[i] = (data[2 * i] + data[2 * i + 1]) / 2
+    data = next
+    rate /= 2
+  }
+  return { data, rate }
+}
+
+const round3 = (t: number) => Number(t.toFixed(3))
+
+export type OnsetEnvelope = {
+  envelope: Float32Array
+  lowEnvelope: Float32Array
+  frameRate: number
+  timeOffset: number // seconds from frame start to window centre
+}
+
+// Multi-band spectral flux: log-compressed magnitudes, half-wave rectified frame differences
+// summed per band, each band normalised so quiet kicks count as much as loud hats.
+export const onsetEnvelope = (channels: Float32Array[], sampleRate: number, onProgress?: (ratio: number) => void): OnsetEnvelope => {
+  const { data, rate } = downsample(mixToMono(channels), sampleRate)
+  const frameCount = Math.max(0, Math.floor((data.length - FRAME) / HOP) + 1)
+  const binHz = rate / FRAME
+  const bandBins = BANDS.map(([lo, hi]) => [Math.max(1, Math.floor(lo / binHz)), Math.min(FRAME / 2, Math.ceil(hi / binHz))])
+  const bandFlux = BANDS.map(() => new Float32Array(frameCount))
+  const fft = createFFT(FRAME)
+  const window = hannWindow(FRAME)
+  const re = new Float32Array(FRAME)
+  const im = new Float32Array(FRAME)
+  let prev = new Float32Array(FRAME / 2 + 1)
+  let cur = new Float32Array(FRAME / 2 + 1)
+  const reportEvery = Math.max(1, Math.floor(frameCount / 20))
+
+  for (let f = 0; f < frameCount; f++) {
+    const offset = f * HOP
+    for (let i = 0; i < FRAME; i++) {
+      re[i] = data[offset + i] * window[i]
+      im[i] = 0
+    }
+    fft(re, im)
+    for (let i = 0; i <= FRAME / 2; i++) cur[i] = Math.log1p(100 * Math.hypot(re[i], im[i]))
+    if (f > 0) {
+      bandBins.forEach(([lo, hi], b) => {
+        let flux = 0
+        for (let i = lo; i < hi; i++) {
+          const d = cur[i] - prev[i]
+          if (d > 0) flux += d
+        }
+        bandFlux[b][f] = flux / Math.max(1, hi - lo)
+      })
+    }
+    const swap = prev
+    prev = cur
+    cur = swap
+    if (onProgress && f % reportEvery === 0) onProgress(f / frameCount)
+  }
+
+  const envelope = new Float32Array(frameCount)
+  const lowEnvelope = new Float32Array(frameCount)
+  bandFlux.forEach((flux, b) => {
+    let max = 0
+    for (let i = 0; i < flux.length; i++) max = Math.max(max, flux[i])
+    if (max <= 0) return
+    for (let i = 0; i < flux.length; i++) {
+      envelope[i] += (BAND_WEIGHTS[b] * flux[i]) / max
+      if (b < LOW_BANDS) lowEnvelope[i] += flux[i] / max
+    }
+  })
+
+  // Remove the slowly varying loudness trend so sustained sections don't read as onsets
+  const frameRate = rate / HOP
+  const trend = movingAverage(envelope, Math.round(frameRate * 0.5))
+  let peak = 0
+  for (let i = 0; i < envelope.length; i++) {
+    envelope[i] = Math.max(0, envelope[i] - trend[i])
+    peak = Math.max(peak, envelope[i])
+  }
+  if (peak > 0) for (let i = 0; i < envelope.length; i++) envelope[i] /= peak
+
+  return { envelope, lowEnvelope, frameRate, timeOffset: FRAME / 2 / rate }
+}
+
+const movingAverage = (values: Float32Array, radius: number) => {
+  const out = new Float32Array(values.length)
+  let sum = 0
+  let count = 0
+  let lo = 0
+  let hi = -1
+  for (let i = 0; i < values.length; i++) {
+    const from = Math.max(0, i - radius)
+    const to = Math.min(values.length - 1, i + radius)
+    while (hi < to) { hi++; sum += values[hi]; count++ }
+    while (lo < from) { sum -= values[lo]; lo++; count-- }
+    out[i] = sum / Math.max(1, count)
+  }
+  return out
+}
+
+export const pickOnsets = (envelope: Float32Array, frameRate: number, timeOffset = 0) => {
+  const before = Math.max(1, Math.round(frameRate * 0.1))
+  const after = Math.max(1, Math.round(frameRate * 0.05))
+  const minGap = Math.max(1, Math.round(frameRate * 0.05))
+  const mean = movingAverage(envelope, before)
+  const onsets: number[] = []
+  let last = -Infinity
+  for (let i = 1; i < envelope.length - 1; i++) {
+    const v = envelope[i]
+    if (v < mean[i] * 1.4 + 0.06) continue
+    let isPeak = true
+    for (let j = Math.max(0, i - before); j <= Math.min(envelope.length - 1, i + after); j++) {
+      if (envelope[j] > v) { isPeak = false; break }
+    }
+    if (!isPeak || i - last < minGap) continue
+    onsets.push(round3(i / frameRate + timeOffset))
+    last = i
+  }
+  return onsets
+}
+
+// Autocorrelation of the onset envelope, weighted by a log-gaussian tempo prior and
+// reinforced by the half-tempo lag. Returns the beat period in frames.
+export const estimateTempo = (envelope: Float32Array, frameRate: number, minBpm = 60, maxBpm = 200) => {
+  const minLag = Math.max(1, Math.floor((60 * frameRate) / maxBpm))
+  const maxLag = Math.ceil((60 * frameRate) / minBpm)
+  const acf = new Float32Array(maxLag * 2 + 2)
+  const n = envelope.length
+  for (let lag = 0; lag < acf.length && lag < n; lag++) {
+    let sum = 0
+    for (let i = lag; i < n; i++) sum += envelope[i] * envelope[i - lag]
+    acf[lag] = sum / (n - lag)
+  }
+  if (acf[0] <= 0) return { period: 0, confidence: 0 }
+
+  const scores: number[] = []
+  let bestLag = 0
+  let best = -Infinity
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = (60 * frameRate) / lag
+    const prior = Math.exp(-0.5 * (Math.log2(bpm / TEMPO_PRIOR_BPM) / 0.9) ** 2)
+    const score = prior * (acf[lag] + 0.5 * (acf[2 * lag] || 0)) / acf[0]
+    scores.push(score)
+    if (score > best) {
+      best = score
+      bestLag = lag
+    }
+  }
+
+  // Parabolic interpolation around the winning lag for sub-frame tempo precision
+  let period = bestLag
+  const l = acf[bestLag - 1]
+  const c = acf[bestLag]
+  const r = acf[bestLag + 1]
+  const denom = l - 2 * c + r
+  if (bestLag > minLag && bestLag < maxLag && denom < 0) period = bestLag + clampUnit(0.5 * (l - r) / denom)
+
+  const mean = scores.reduce((a, b) => a + b, 0) / Math.max(1, scores.length)
+  const confidence = best > 0 ? Math.min(1, Math.max(0, (best - mean) / best)) : 0
+  return { period, confidence }
+}
+
+const clampUnit = (v: number) => Math.max(-0.5, Math.min(0.5, v))
+
+// Dynamic-programming beat tracker (Ellis 2007): every beat maximises onset strength
+// plus a penalty for deviating from the estimated period.
+export const trackBeats = (envelope: Float32Array, period: number) => {
+  const n = envelope.length
+  if (!n || period < 1) return [] as number[]
+  const score = new Float32Array(n)
+  const backlink = new Int32Array(n).fill(-1)
+  const minBack = Math.max(1, Math.round(period / 2))
+  const maxBack = Math.round(period * 2)
+  for (let i = 0; i < n; i++) {
+    let bestPrev = -1
+    let bestScore = 0
+    for (let j = i - maxBack; j <= i - minBack; j++) {
+      if (j < 0) continue
+      const penalty = -TRACK_TIGHTNESS * Math.log((i - j) / period) ** 2
+      const s = score[j] + penalty
+      if (bestPrev < 0 || s > bestScore) {
+        bestScore = s
+        bestPrev = j
+      }
+    }
+    score[i] = envelope[i] + (bestPrev >= 0 ? Math.max(0, bestScore) : 0)
+    backlink[i] = bestPrev >= 0 && bestScore > 0 ? bestPrev : -1
+  }
+
+  // Start from the best-scoring frame in the final period and walk back
+  let end = n - 1
+  for (let i = Math.max(0, n - Math.round(period)); i < n; i++) if (score[i] > score[end]) end = i
+  const frames: number[] = []
+  for (let i = end; i >= 0; i = backlink[i]) frames.push(i)
+  return frames.reverse()
+}
+
+// Pick the meter (3 or 4) and bar phase whose downbeats carry the most low-band energy.
+export const estimateDownbeats = (beatFrames: number[], lowEnvelope: Float32Array, beatsPerBar?: number) => {
+  if (!beatFrames.length) return { phase: 0, beatsPerBar: beatsPerBar ?? 4 }
+  const strength = beatFrames.map(f => {
+    let s = 0
+    for (let i = Math.max(0, f - 2); i <= Math.min(lowEnvelope.length - 1, f + 2); i++) s = Math.max(s, lowEnvelope[i])
+    return s
+  })
+  const evaluate = (meter: number) => {
+    const sums = new Array(meter).fill(0)
+    const counts = new Array(meter).fill(0)
+    strength.forEach((s, idx) => {
+      sums[idx % meter] += s
+      counts[idx % meter] += 1
+    })
+    const means = sums.map((s, i) => s / Math.max(1, counts[i]))
+    const phase = means.indexOf(Math.max(...means))
+    const rest = means.filter((_, i) => i !== phase)
+    const others = rest.reduce((a, b) => a + b, 0) / Math.max(1, rest.length)
+    return { phase, contrast: means[phase] / Math.max(1e-6, others) }
+  }
+  if (beatsPerBar) return { phase: evaluate(beatsPerBar).phase, beatsPerBar }
+  const four = evaluate(4)
+  const three = evaluate(3)
+  // 4/4 is far more common; only switch when triple meter is clearly stronger
+  return three.contrast > four.contrast * 1.15 ? { phase: three.phase, beatsPerBar: 3 } : { phase: four.phase, beatsPerBar: 4 }
+}
+
+export const detectBeats = (
+  channels: Float32Array[],
+  sampleRate: number,
+  opts: BeatDetectOptions = {},
+  onProgress?: (ratio: number) => void
+): BeatDetection => {
+  const { envelope, lowEnvelope, frameRate, timeOffset } = onsetEnvelope(channels, sampleRate, r => onProgress?.(r * 0.7))
+  const onsets = pickOnsets(envelope, frameRate, timeOffset)
+  onProgress?.(0.75)
+  const { period, confidence } = estimateTempo(envelope, frameRate, opts.minBpm, opts.maxBpm)
+  onProgress?.(0.8)
+  const beatFrames = trackBeats(envelope, period)
+  onProgress?.(0.95)
+  const { phase, beatsPerBar } = estimateDownbeats(beatFrames, lowEnvelope, opts.beatsPerBar)
+  const beats = beatFrames.map(f => round3(f / frameRate + timeOffset))
+  const downbeats = beats.filter((_, idx) => idx % beatsPerBar === phase)
+  const bpm = period > 0 ? Math.round((600 * frameRate) / period) / 10 : 0
+  onProgress?.(1)
+  return { onsets, beats, downbeats, bpm, beatsPerBar, tempoConfidence: Number(confidence.toFixed(3)) }
+}
@@ -0,0 +1,189 @@
+import type { Asset, ProjectState } from '../types'
+import { parsePresetsJson, presetsToJson } from './exportPresets'
+import type { ExportPreset } from './exportPresets'
+import { hashMedia, readMedia } from './mediaStore'
+import { parseProjectJson, projectToJson } from './projectSchema'
+import type { LoadOptions } from './projectSchema'
+import { createZip, readZip } from './zip'
+
+// A bundle is one zip that carries a project to another machine: the versioned project JSON
+// (beat analyses included), the media pool with its cached waveforms and thumbnails, the export
+// presets and a copy of every media file the pool, the timeline or a preset watermark points
+// at. Media sits under media/ named by its SHA-256, the same id the media store uses, so
+// importing it relinks clips and assets without any matching by name.
+
+export type BundleMedia = { mediaId: string; path: string; name: string; type: string; size: number }
+
+type Manifest = { type: string; version: number; name: string; createdAt: number; media: BundleMedia[] }
+
+export type BundleContents = { name: string; project: ProjectState; assets: Asset[]; presets: ExportPreset[] }
+
+export type LoadedBundle = BundleContents & {
+  media: { info: BundleMedia; blob: Blob }[]
+  fromVersion: number
+  warnings: string[]
+}
+
+// Where the bytes for a clip or asset come from; the default reads the store, then the URL
+export type MediaLoader = (ref: { mediaId?: string; url?: string }) => Promise<Blob | null>
+
+const BUNDLE_TYPE = 'timeline-builder-bundle'
+const BUNDLE_VERSION = 1
+const MANIFEST = 'manifest.json'
+const PROJECT = 'project.json'
+const ASSETS = 'assets.json'
+const PRESETS = 'presets.json'
+
+export const storedOrFetchedMedia: MediaLoader = async ({ mediaId, url }) => {
+  const stored = mediaId ? await readMedia(mediaId) : null
+  if (stored) return stored
+  if (!url) return null
+  const res = await fetch(url)
+  return res.ok ? res.blob() : null
+}
+
+const extensionOf = (name: string, type: string) => {
+  const ext = /\.([a-z0-9]{1,5})$/i.exec(name)?.[1] ?? type.split('/')[1]?.replace(/[^a-z0-9]/gi, '')
+  return ext ? `.${ext.toLowerCase()}` : ''
+}
+
+const jsonBlob = (text: string) => new Blob([text], { type: 'application/json' })
+
+// Object URLs die with the page; whatever carries a media id is relinked from the bundle instead
+const portable = <T extends { url?: string; mediaId?: string }>(item: T, mediaId: string | undefined): T => {
+  const next = { ...item, mediaId }
+  if (!mediaId) delete next.mediaId
+  if (mediaId || item.url?.startsWith('blob:')) delete next.url
+  return next
+}
+
+type Ref = { mediaId?: string; url?: string; name: string }
+
+export const collectBundle = async (
+  contents: BundleContents,
+  opts: { loadMedia?: MediaLoader; onProgress?: (stage: string, ratio: number) => void } = {}
+) => {
+  const { loadMedia = storedOrFetchedMedia, onProgress } = opts
+  const { project, assets, presets } = contents
+  // Watermarks only keep their pool asset and media id; the asset has this session's URL
+  const watermarkRef = (p: ExportPreset) => {
+    const wm = p.burnIn.watermark
+    if (!wm) return null
+    const image = assets.find(a => a.id === wm.assetId)
+    return { mediaId: wm.mediaId ?? image?.mediaId, url: image?.url, name: wm.name }
+  }
+  const refs: Ref[] = [
+    ...assets.map(a => ({ mediaId: a.mediaId, url: a.url, name: a.name })),
+    ...project.clips.map(c => ({ mediaId: c.mediaId, url: c.url, name: c.title })),
+    ...presets.flatMap(p => watermarkRef(p) ?? [])
+  ].filter(r => r.mediaId || r.url)
+  // One read per distinct file: by media id where there is one, else by URL
+  const keyOf = (r: { mediaId?: string; url?: string }) => r.mediaId ?? r.url ?? ''
+  const unique = [...new Map(refs.map(r => [keyOf(r), r])).values()]
+  const resolved = new Map<string, string>() // ref key -> media id
+  const media = new Map<string, { info: BundleMedia; blob: Blob }>()
+  const warnings: string[] = []
+  for (let i = 0; i < unique.length; i++) {
+    const ref = unique[i]
+    onProgress?.(`Collecting ${ref.name}`, i / Math.max(1, unique.length))
+    const blob = await loadMedia(ref).catch(() => null)
+    if (!blob) {
+      warnings.push(`${ref.name}: media could not be read, it will be offline after import.`)
+      continue
+    }
+    const mediaId = ref.mediaId ?? await hashMedia(blob)
+    resolved.set(keyOf(ref), mediaId)
+    if (media.has(mediaId)) continue
+    const type = blob.type || 'application/octet-stream'
+    media.set(mediaId, { info: { mediaId, path: `media/${mediaId}${extensionOf(ref.name, type)}`, name: ref.name, type, size: blob.size }, blob })
+  }
+  const idFor = (r: { mediaId?: string; url?: string }) => resolved.get(keyOf(r)) ?? r.mediaId
+  const bundledProject: ProjectState = { ...project, clips: project.clips.map(c => portable(c, idFor(c))) }
+  const bundledAssets = assets.map(a => portable(a, idFor(a)))
+  const bundledPresets = presets.map(p => {
+    const ref = watermarkRef(p)
+    const mediaId = ref && idFor(ref)
+    if (!ref || !p.burnIn.watermark) return p
+    if (!mediaId) {
+      warnings.push(`${p.name}: the watermark image ${ref.name} is not in the media pool, it was left out.`)
+      return p
+    }
+    return { ...p, burnIn: { ...p.burnIn, watermark: { ...p.burnIn.watermark, mediaId } } }
+  })
+  const manifest: Manifest = {
+    type: BUNDLE_TYPE,
+    version: BUNDLE_VERSION,
+    name: contents.name,
+    createdAt: Date.now(),
+    media: [...media.values()].map(m => m.info)
+  }
+  const zip = await createZip([
+    { name: MANIFEST, data: jsonBlob(JSON.stringify(manifest, null, 2)) },
+    { name: PROJECT, data: jsonBlob(projectToJson(bundledProject, 2)) },
+    { name: ASSETS, data: jsonBlob(JSON.stringify(bundledAssets, null, 2)) },
+    { name: PRESETS, data: jsonBlob(presetsToJson(bundledPresets)) },
+    ...[...media.values()].map(m => ({ name: m.info.path, data: m.blob }))
+  ], (done, total) => onProgress?.('Writing the bundle', done / total))
+  return { blob: zip, mediaCount: media.size, bytes: manifest.media.reduce((sum, m) => sum + m.size, 0), warnings }
+}
+
+const isMedia = (m: unknown): m is BundleMedia => {
+  const r = m as BundleMedia
+  return !!r && typeof r.mediaId === 'string' && typeof r.path === 'string' && typeof r.name === 'string'
+}
+
+// Reads and validates a bundle; nothing is stored yet, so a bad file changes nothing
+export const readBundle = async (file: Blob, opts: LoadOptions): Promise<LoadedBundle> => {
+  const entries = new Map((await readZip(file)).map(e => [e.name, e]))
+  const text = async (name: string) => {
+    const entry = entries.get(name)
+    if (!entry) throw new Error(`Not a project bundle: ${name} is missing`)
+    return (await entry.blob()).text()
+  }
+  let manifest: Manifest
+  try {
+    manifest = JSON.parse(await text(MANIFEST))
+  } catch (err) {
+    throw err instanceof SyntaxError ? new Error(`Not a project bundle: ${MANIFEST} is not JSON`) : err
+  }
+  if (manifest?.type !== BUNDLE_TYPE) throw new Error('Not a project bundle')
+  const warnings: string[] = []
+  if (manifest.version > BUNDLE_VERSION) warnings.push(`Bundle written by a newer version (format ${manifest.version}).`)
+  const { project, fromVersion, warnings: projectWarnings } = parseProjectJson(await text(PROJECT), opts)
+  warnings.push(...projectWarnings)
+  let assets: Asset[] = []
+  if (entries.has(ASSETS)) {
+    let raw: unknown
+    try {
+      raw = JSON.parse(await text(ASSETS))
+    } catch (err) {
+      throw err instanceof SyntaxError ? new Error(`Not a project bundle: ${ASSETS} is not JSON`) : err
+    }
+    if (Array.isArray(raw)) assets = raw.filter(a => a && typeof a.id === 'string' && typeof a.name === 'string')
+  }
+  const presets = entries.has(PRESETS) ? parsePresetsJson(await text(PRESETS)) : []
+  const media: LoadedBundle['media'] = []
+  for (const info of Array.isArray(manifest.media) ? manifest.media.filter(isMedia) : []) {
+    const entry = entries.get(info.path)
+    if (!entry) {
+      warnings.push(`${info.name}: missing from the bundle, it will be offline.`)
+      continue
+    }
+    const blob = await entry.blob()
+    // The id is the content hash, so a damaged copy would relink clips to the wrong bytes
+    if (await hashMedia(blob) !== info.mediaId) {
+      warnings.push(`${info.name}: the bundled copy is damaged, it will be offline.`)
+      continue
+    }
+    media.push({ info, blob: new Blob([blob], { type: info.type }) })
+  }
+  // Watermarks relink through the media store like clips; say which ones won't
+  const bundled = new Set(media.map(m => m.info.mediaId))
+  presets.forEach(p => {
+    const wm = p.burnIn.watermark
+    if (wm && !(wm.mediaId && bundled.has(wm.mediaId)) && !assets.some(a => a.id === wm.assetId && a.mediaId && bundled.has(a.mediaId))) {
+      warnings.push(`${p.name}: the watermark image ${wm.name} is not in the bundle; pick it again under Burn-ins.`)
+    }
+  })
+  return { name: typeof manifest.name === 'string' ? manifest.name : '', project, assets, presets, media, fromVersion, warnings }
+}
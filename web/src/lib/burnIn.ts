@@ -0,0 +1,93 @@
+import type { Asset, Clip, TrackState } from '../types'
+import type { MediaUrls } from './mediaStore'
+import { trackIsLive } from './render'
+import { secondsToTc } from './timecode'
+
+export type OverlayPosition = 'top-left' | 'top-center' | 'top-right' | 'center' | 'bottom-left' | 'bottom-center' | 'bottom-right'
+
+export const OVERLAY_POSITIONS: Array<{ id: OverlayPosition; label: string }> = [
+  { id: 'top-left', label: 'Top left' },
+  { id: 'top-center', label: 'Top centre' },
+  { id: 'top-right', label: 'Top right' },
+  { id: 'center', label: 'Centre' },
+  { id: 'bottom-left', label: 'Bottom left' },
+  { id: 'bottom-center', label: 'Bottom centre' },
+  { id: 'bottom-right', label: 'Bottom right' }
+]
+
+// The image is the media pool asset `assetId`, stored as `mediaId`; `url` is this session's copy
+// of it, filled in for the preview and the render and never saved with the preset
+export type Watermark = { assetId: string; mediaId?: string; url?: string; name: string; opacity: number; position: OverlayPosition; scale: number } // scale: width as a share of the frame
+
+export type BurnInSettings = {
+  timecode: boolean
+  timecodePosition: OverlayPosition
+  clipName: boolean
+  clipNamePosition: OverlayPosition
+  watermark: Watermark | null
+  slate: boolean
+  slateSeconds: number
+}
+
+export const DEFAULT_BURN_IN: BurnInSettings = {
+  timecode: false,
+  timecodePosition: 'bottom-center',
+  clipName: false,
+  clipNamePosition: 'top-left',
+  watermark: null,
+  slate: false,
+  slateSeconds: 3
+}
+
+export const hasBurnIn = (b?: BurnInSettings | null) => !!b && (b.timecode || b.clipName || !!b.watermark || b.slate)
+
+// From the media store first, then the pool; no url when neither has the image, and the render
+// refuses such a watermark
+export const withWatermarkUrl = (settings: BurnInSettings, images: Asset[], urls: MediaUrls = {}): BurnInSettings => {
+  const { watermark } = settings
+  if (!watermark) return settings
+  const url = (watermark.mediaId && urls[watermark.mediaId]) || images.find(a => a.id === watermark.assetId)?.url || undefined
+  return { ...settings, watermark: { ...watermark, url } }
+}
+
+export type SlateInfo = { project: string; date: string; duration: number; preset: string; range: { from: number; to: number } }
+
+export const slateLines = (info: SlateInfo, fps: number, dropFrame = false) => [
+  info.project || 'Untitled project',
+  info.preset,
+  `Duration ${secondsToTc(info.duration, fps, dropFrame)} @ ${fps} fps`,
+  `Sequence ${secondsToTc(info.range.from, fps, dropFrame)} – ${secondsToTc(info.range.to, fps, dropFrame)}`,
+  info.date
+]
+
+export type ClipSegment = { from: number; to: number; clipId: string; title: string }
+
+const isVisual = (clip: Clip) => /^(video|image)/.test(clip.assetType || '')
+
+// The picture on screen at `t` comes from the top-most live video track, like the render's overlay order
+export const topVisualClipAt = (tracks: TrackState[], clips: Clip[], t: number) => {
+  const anySolo = tracks.some(tr => tr.solo)
+  for (let i = tracks.length - 1; i >= 0; i--) {
+    const track = tracks[i]
+    if (track.type !== 'video' || !trackIsLive(track, anySolo)) continue
+    const hit = clips.find(c => c.track === track.id && isVisual(c) && c.url && t >= c.start && t < c.start + c.duration)
+    if (hit) return hit
+  }
+  return null
+}
+
+// Name changes over [0, duration): one segment per stretch where the same clip is on top
+export const clipNameSegments = (tracks: TrackState[], clips: Clip[], duration: number): ClipSegment[] => {
+  const cuts = [...new Set([0, duration, ...clips.flatMap(c => [c.start, c.start + c.duration])])]
+    .filter(t => t >= 0 && t <= duration)
+    .sort((a, b) => a - b)
+  const segments: ClipSegment[] = []
+  for (let i = 0; i < cuts.length - 1; i++) {
+    const clip = topVisualClipAt(tracks, clips, (cuts[i] + cuts[i + 1]) / 2)
+    if (!clip) continue
+    const last = segments[segments.length - 1]
+    if (last && last.clipId === clip.id && Math.abs(last.to - cuts[i]) < 1e-6) last.to = cuts[i + 1]
+    else segments.push({ from: cuts[i], to: cuts[i + 1], clipId: clip.id, title: clip.title })
+  }
+  return segments
+}
@@ -0,0 +1,280 @@
+import type { AudioFormat, BitDepth } from './audioEncode'
+import { DEFAULT_BURN_IN, OVERLAY_POSITIONS } from './burnIn'
+import type { BurnInSettings } from './burnIn'
+import { LOUDNESS_TARGETS } from './loudness'
+import type { AudioCodec, RenderFormat, RenderSettings, VideoCodec } from './render'
+
+export type PresetKind = RenderFormat | 'audio'
+export type RangeMode = 'sequence' | 'loop'
+
+export type AudioJobSettings = { format: AudioFormat; bitDepth: BitDepth; sampleRate: number }
+
+export type PresetVideo = {
+  width: number
+  height: number
+  fps: number | null // null follows the project
+  codec: VideoCodec
+  rateControl: 'crf' | 'bitrate'
+  crf: number
+  kbps: number
+}
+
+export type PresetAudio = { codec: AudioCodec; kbps: number }
+
+// Everything a render needs besides the timeline itself. Video presets use `video` + `audio`,
+// audio-only presets `mixdown`; the unused half is kept so switching kinds loses nothing.
+export type ExportPreset = {
+  id: string
+  name: string
+  kind: PresetKind
+  video: PresetVideo
+  audio: PresetAudio
+  mixdown: AudioJobSettings
+  range: { mode: RangeMode }
+  filename: string // template, see FILENAME_TOKENS; the extension is added
+  normalize: string // LOUDNESS_TARGETS id or 'off'
+  burnIn: BurnInSettings
+}
+
+export const DEFAULT_AUDIO_JOB: AudioJobSettings = { format: 'wav', bitDepth: 24, sampleRate: 48000 }
+
+export const CONTAINER_CODECS: Record<RenderFormat, { video: VideoCodec[]; audio: AudioCodec[] }> = {
+  mp4: { video: ['h264'], audio: ['aac', 'opus'] },
+  webm: { video: ['vp9', 'vp8'], audio: ['opus', 'vorbis'] }
+}
+
+export const VIDEO_CODEC_LABELS: Record<VideoCodec, string> = { h264: 'H.264', vp9: 'VP9', vp8: 'VP8' }
+export const AUDIO_CODEC_LABELS: Record<AudioCodec, string> = { aac: 'AAC', opus: 'Opus', vorbis: 'Vorbis' }
+
+// Quantizer scales of x264 and libvpx; WebCodecs takes the same numbers
+export const CRF_RANGE: Record<VideoCodec, { min: number; max: number }> = {
+  h264: { min: 0, max: 51 },
+  vp9: { min: 0, max: 63 },
+  vp8: { min: 4, max: 63 }
+}
+
+export const FRAME_SIZES = [
+  { label: '2160p', width: 3840, height: 2160 },
+  { label: '1440p', width: 2560, height: 1440 },
+  { label: '1080p', width: 1920, height: 1080 },
+  { label: '720p', width: 1280, height: 720 },
+  { label: '480p', width: 854, height: 480 },
+  { label: 'Square', width: 1080, height: 1080 },
+  { label: 'Vertical', width: 1080, height: 1920 }
+]
+
+export const RANGE_LABELS: Record<RangeMode, string> = { sequence: 'Whole sequence', loop: 'Loop range' }
+
+export const FILENAME_TOKENS = ['project', 'preset', 'date', 'time', 'source', 'range', 'size', 'fps'] as const
+export const DEFAULT_FILENAME = '{project}_{preset}_{date}'
+
+const MAX_SIZE = 4096
+
+const basePreset = (id: string, name: string, kind: PresetKind): ExportPreset => ({
+  id,
+  name,
+  kind,
+  video: { width: 1920, height: 1080, fps: null, codec: 'h264', rateControl: 'crf', crf: 23, kbps: 8000 },
+  audio: { codec: 'aac', kbps: 192 },
+  mixdown: DEFAULT_AUDIO_JOB,
+  range: { mode: 'sequence' },
+  filename: DEFAULT_FILENAME,
+  normalize: 'off',
+  burnIn: DEFAULT_BURN_IN
+})
+
+// What the app shipped with before presets were editable
+export const DEFAULT_PRESETS: ExportPreset[] = [
+  basePreset('mp4-1080p', 'MP4 · 1080p', 'mp4'),
+  {
+    ...basePreset('webm-720p', 'WebM · 720p', 'webm'),
+    video: { width: 1280, height: 720, fps: null, codec: 'vp8', rateControl: 'bitrate', crf: 31, kbps: 2000 },
+    audio: { codec: 'opus', kbps: 128 }
+  },
+  { ...basePreset('audio-wav', 'Audio · WAV 24-bit', 'audio'), filename: '{project}_mixdown_{date}' }
+]
+
+let presetSeq = 0
+
+const newPresetId = () => `preset-${Date.now().toString(36)}-${(presetSeq++).toString(36)}`
+
+export const duplicatePreset = (preset: ExportPreset): ExportPreset => ({ ...structuredClone(preset), id: newPresetId(), name: `${preset.name} copy` })
+
+const clamp = (v: unknown, min: number, max: number, fallback: number) => {
+  const num = Number(v)
+  return Number.isFinite(num) ? Math.min(max, Math.max(min, num)) : fallback
+}
+
+const even = (v: number) => Math.max(2, Math.round(v / 2) * 2) // 4:2:0 wants even dimensions
+
+const pick = <T extends string>(value: unknown, allowed: readonly T[], fallback: T) => (allowed.includes(value as T) ? (value as T) : fallback)
+
+const positions = OVERLAY_POSITIONS.map(p => p.id)
+
+const conformBurnIn = (raw: Partial<BurnInSettings> | undefined): BurnInSettings => {
+  const b = { ...DEFAULT_BURN_IN, ...raw }
+  const wm = b.watermark
+  return {
+    timecode: !!b.timecode,
+    timecodePosition: pick(b.timecodePosition, positions, DEFAULT_BURN_IN.timecodePosition),
+    clipName: !!b.clipName,
+    clipNamePosition: pick(b.clipNamePosition, positions, DEFAULT_BURN_IN.clipNamePosition),
+    // Presets saved before watermarks kept their asset id only have a dead URL; the name stays so
+    // the panel can ask for the image again
+    watermark: wm && (typeof wm.assetId === 'string' || typeof wm.url === 'string')
+      ? { assetId: typeof wm.assetId === 'string' ? wm.assetId : '', ...(typeof wm.mediaId === 'string' ? { mediaId: wm.mediaId } : {}), name: String(wm.name ?? 'watermark'), opacity: clamp(wm.opacity, 0.05, 1, 0.6), position: pick(wm.position, positions, 'top-right'), scale: clamp(wm.scale, 0.05, 0.5, 0.15) }
+      : null,
+    slate: !!b.slate,
+    slateSeconds: clamp(b.slateSeconds, 1, 10, DEFAULT_BURN_IN.slateSeconds)
+  }
+}
+
+// Stored media the presets hold on to, so cleaning up the store leaves their watermarks alone
+export const presetMedia = (presets: ExportPreset[]) => presets.flatMap(p => (p.burnIn.watermark?.mediaId ? [p.burnIn.watermark.mediaId] : []))
+
+// Fill gaps and clamp values so stored or shared presets (older, hand-edited, from another
+// version) always render; codecs are forced into what the container can hold.
+export const conformPreset = (raw: Partial<ExportPreset> & { id?: unknown }): ExportPreset => {
+  const kind = pick(raw.kind, ['mp4', 'webm', 'audio'] as const, 'mp4')
+  const base = basePreset(typeof raw.id === 'string' && raw.id ? raw.id : newPresetId(), '', kind)
+  const container = CONTAINER_CODECS[kind === 'audio' ? 'mp4' : kind]
+  const video = { ...base.video, ...raw.video }
+  const audio = { ...base.audio, ...raw.audio }
+  const mixdown = { ...base.mixdown, ...raw.mixdown }
+  const range = { ...base.range, ...raw.range }
+  const codec = pick(video.codec, container.video, container.video[0])
+  const crf = CRF_RANGE[codec]
+  return {
+    id: base.id,
+    name: String(raw.name ?? '').trim() || 'Untitled preset',
+    kind,
+    video: {
+      width: even(clamp(video.width, 16, MAX_SIZE, base.video.width)),
+      height: even(clamp(video.height, 16, MAX_SIZE, base.video.height)),
+      fps: video.fps === null || video.fps === undefined ? null : clamp(video.fps, 1, 120, 30),
+      codec,
+      rateControl: video.rateControl === 'bitrate' ? 'bitrate' : 'crf',
+      crf: Math.round(clamp(video.crf, crf.min, crf.max, base.video.crf)),
+      kbps: Math.round(clamp(video.kbps, 100, 100_000, base.video.kbps))
+    },
+    audio: { codec: pick(audio.codec, container.audio, container.audio[0]), kbps: Math.round(clamp(audio.kbps, 32, 512, base.audio.kbps)) },
+    mixdown: {
+      format: pick(mixdown.format, ['wav', 'flac'] as const, 'wav'),
+      bitDepth: mixdown.bitDepth === 16 ? 16 : 24,
+      sampleRate: mixdown.sampleRate === 44100 ? 44100 : 48000
+    },
+    range: { mode: pick(range.mode, ['sequence', 'loop'] as const, 'sequence') },
+    filename: String(raw.filename ?? '').trim() || DEFAULT_FILENAME,
+    normalize: LOUDNESS_TARGETS.some(t => t.id === raw.normalize) ? (raw.normalize as string) : 'off',
+    burnIn: conformBurnIn(raw.burnIn)
+  }
+}
+
+// Switching container keeps every setting it can and swaps codecs the new one can't hold
+export const withKind = (preset: ExportPreset, kind: PresetKind): ExportPreset => {
+  if (kind === 'audio') return { ...preset, kind }
+  const { video, audio } = CONTAINER_CODECS[kind]
+  const codec = video.includes(preset.video.codec) ? preset.video.codec : video[0]
+  const crf = CRF_RANGE[codec]
+  return {
+    ...preset,
+    kind,
+    video: { ...preset.video, codec, crf: Math.min(crf.max, Math.max(crf.min, preset.video.crf)) },
+    audio: { ...preset.audio, codec: audio.includes(preset.audio.codec) ? preset.audio.codec : audio[0] }
+  }
+}
+
+export const presetFps = (preset: ExportPreset, projectFps: number) => preset.video.fps ?? projectFps
+
+export const renderSettingsFor = (preset: ExportPreset, projectFps: number): RenderSettings => ({
+  format: preset.kind === 'webm' ? 'webm' : 'mp4',
+  width: preset.video.width,
+  height: preset.video.height,
+  fps: presetFps(preset, projectFps),
+  videoCodec: preset.video.codec,
+  rateControl: preset.video.rateControl,
+  crf: preset.video.crf,
+  videoKbps: preset.video.kbps,
+  audioCodec: preset.audio.codec,
+  audioKbps: preset.audio.kbps
+})
+
+export const presetExtension = (preset: ExportPreset) => (preset.kind === 'audio' ? preset.mixdown.format : preset.kind)
+
+export const describePreset = (preset: ExportPreset) => {
+  if (preset.kind === 'audio') {
+    const { format, bitDepth, sampleRate } = preset.mixdown
+    return `${format.toUpperCase()} ${bitDepth}-bit · ${sampleRate / 1000} kHz`
+  }
+  const { width, height, fps, codec, rateControl, crf, kbps } = preset.video
+  return [
+    `${VIDEO_CODEC_LABELS[codec]} ${width}×${height}`,
+    fps ? `${fps} fps` : 'project fps',
+    rateControl === 'crf' ? `CRF ${crf}` : `${kbps} kb/s`,
+    `${AUDIO_CODEC_LABELS[preset.audio.codec]} ${preset.audio.kbps} kb/s`
+  ].join(' · ')
+}
+
+export type FilenameContext = {
+  project: string
+  preset: ExportPreset
+  source: string
+  range: { from: number; to: number }
+  fps: number
+  date: Date
+}
+
+const pad = (v: number) => String(v).padStart(2, '0')
+
+// Token values and literal text alike lose anything a file system would choke on
+const safe = (text: string) => text.replace(/[^\p{L}\p{N}_.\-()[\]+,=@]+/gu, '-').replace(/-{2,}/g, '-').replace(/^[-.]+|-+$/g, '')
+
+export const renderFileName = (template: string, ctx: FilenameContext) => {
+  const { project, preset, source, range, fps, date } = ctx
+  const values: Record<(typeof FILENAME_TOKENS)[number], string> = {
+    project: project || 'untitled',
+    preset: preset.name,
+    date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+    time: `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`,
+    source,
+    range: `${range.from.toFixed(1)}-${range.to.toFixed(1)}s`,
+    size: preset.kind === 'audio' ? 'audio' : `${preset.video.width}x${preset.video.height}`,
+    fps: String(Math.round(fps * 1000) / 1000)
+  }
+  const name = safe(template.replace(/\{(\w+)\}/g, (token, key: string) => (key in values ? values[key as keyof typeof values] : token)))
+  return `${name || 'render'}.${presetExtension(preset)}`
+}
+
+// --- storage & sharing --------------------------------------------------------------------------
+
+export const PRESETS_DB_KEY = 'export-presets'
+const FILE_TYPE = 'timeline-builder-export-presets'
+
+export const presetsToJson = (presets: ExportPreset[]) => JSON.stringify({ type: FILE_TYPE, version: 1, presets }, null, 2)
+
+// Accepts the shared file or a bare array of presets
+export const parsePresetsJson = (text: string) => {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('Not a JSON file')
+  }
+  const list = Array.isArray(data) ? data : (data as { presets?: unknown })?.presets
+  if (!Array.isArray(list)) throw new Error('No presets in this file')
+  const presets = list.filter(p => p && typeof p === 'object').map(p => conformPreset(p as Partial<ExportPreset>))
+  if (!presets.length) throw new Error('No presets in this file')
+  return presets
+}
+
+// Same id means the same preset (shared again after an edit); everything else is added
+export const mergePresets = (current: ExportPreset[], incoming: ExportPreset[]) => {
+  const ids = new Set(current.map(p => p.id))
+  const replaced = incoming.filter(p => ids.has(p.id))
+  const byId = new Map(incoming.map(p => [p.id, p]))
+  return {
+    presets: [...current.map(p => byId.get(p.id) ?? p), ...incoming.filter(p => !ids.has(p.id))],
+    added: incoming.length - replaced.length,
+    replaced: replaced.length
+  }
+}
@@ -0,0 +1,70 @@
+// In-place iterative radix-2 FFT. Tables are built once per size.
+export const createFFT = (size: number) => {
+  if (size < 2 || (size & (size - 1)) !== 0) throw new Error(`FFT size must be a power of two (got ${size})`)
+  const levels = Math.log2(size)
+  const reverse = new Uint32Array(size)
+  for (let i = 0; i < size; i++) {
+    let r = 0
+    for (let b = 0; b < levels; b++) r = (r << 1) | ((i >>> b) & 1)
+    reverse[i] = r
+  }
+  const cos = new Float32Array(size / 2)
+  const sin = new Float32Array(size / 2)
+  for (let i = 0; i < size / 2; i++) {
+    cos[i] = Math.cos((2 * Math.PI * i) / size)
+    sin[i] = Math.sin((2 * Math.PI * i) / size)
+  }
+
+  return (re: Float32Array, im: Float32Array) => {
+    for (let i = 0; i < size; i++) {
+      const j = reverse[i]
+      if (j > i) {
+        const tr = re[i]; re[i] = re[j]; re[j] = tr
+        const ti = im[i]; im[i] = im[j]; im[j] = ti
+      }
+    }
+    for (let half = 1; half < size; half <<= 1) {
+      const step = size / (half * 2)
+      for (let start = 0; start < size; start += half * 2) {
+        for (let k = 0; k < half; k++) {
+          const a = start + k
+          const b = a + half
+          const wr = cos[k * step]
+          const wi = -sin[k * step]
+          const xr = re[b] * wr - im[b] * wi
+          const xi = re[b] * wi + im[b] * wr
+          re[b] = re[a] - xr
+          im[b] = im[a] - xi
+          re[a] += xr
+          im[a] += xi
+        }
+      }
+    }
+  }
+}
+
+export const hannWindow = (size: number) => {
+  const w = new Float32Array(size)
+  for (let i = 0; i < size; i++) w[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1))
+  return w
+}
+
+// Magnitude spectrogram of a mono signal: one Float32Array (size/2 + 1 bins) per hop.
+export const magnitudeFrames = (signal: Float32Array, size: number, hop: number) => {
+  const fft = createFFT(size)
+  const window = hannWindow(size)
+  const re = new Float32Array(size)
+  const im = new Float32Array(size)
+  const frames: Float32Array[] = []
+  for (let offset = 0; offset + size <= signal.length; offset += hop) {
+    for (let i = 0; i < size; i++) {
+      re[i] = signal[offset + i] * window[i]
+      im[i] = 0
+    }
+    fft(re, im)
+    const mags = new Float32Array(size / 2 + 1)
+    for (let i = 0; i <= size / 2; i++) mags[i] = Math.hypot(re[i], im[i])
+    frames.push(mags)
+  }
+  return frames
+}
@@ -0,0 +1,216 @@
+// ITU-R BS.1770-4 / EBU R128 loudness: K-weighting, 400 ms momentary and 3 s short-term
+// windows on a 100 ms hop, two-stage gated integrated loudness and 4x-oversampled true peak.
+// Channel weights are 1.0, i.e. mono/stereo programmes (no surround channels here).
+
+export type LoudnessReading = {
+  momentary: number // LUFS; -Infinity until a full window has been seen
+  shortTerm: number
+  integrated: number
+  truePeak: number // dBTP, running maximum over all channels
+  momentaryMax: number
+  shortTermMax: number
+}
+
+export type LoudnessTarget = { id: string; label: string; lufs: number; truePeak: number }
+
+export const LOUDNESS_TARGETS: LoudnessTarget[] = [
+  { id: 'streaming', label: 'Streaming · -14 LUFS', lufs: -14, truePeak: -1 },
+  { id: 'podcast', label: 'Podcast · -16 LUFS', lufs: -16, truePeak: -1 },
+  { id: 'ebu-r128', label: 'Broadcast EBU R128 · -23 LUFS', lufs: -23, truePeak: -1 },
+  { id: 'atsc', label: 'Broadcast ATSC A/85 · -24 LKFS', lufs: -24, truePeak: -2 }
+]
+
+const ABSOLUTE_GATE = -70
+const RELATIVE_GATE = -10
+const MOMENTARY_HOPS = 4 // 400 ms
+const SHORT_TERM_HOPS = 30 // 3 s
+// Gating blocks are kept as a histogram, 0.01 LU per bin from the absolute gate to +10 LUFS, so a
+// meter left running on playback stays the same size; each bin also sums its blocks' energy.
+const BIN_STEP = 0.01
+const BIN_COUNT = Math.round((10 - ABSOLUTE_GATE) / BIN_STEP)
+
+const energyToLufs = (energy: number) => (energy > 0 ? -0.691 + 10 * Math.log10(energy) : -Infinity)
+
+type Biquad = { b0: number; b1: number; b2: number; a1: number; a2: number }
+
+// Pre-filter (high shelf) and RLB high-pass, re-derived for any sample rate from the analogue
+// prototypes so 44.1 kHz matches the 48 kHz coefficients printed in the standard.
+export const kWeightingFilters = (sampleRate: number): [Biquad, Biquad] => {
+  let f0 = 1681.974450955533
+  const G = 3.999843853973347
+  let Q = 0.7071752369554196
+  let K = Math.tan((Math.PI * f0) / sampleRate)
+  const Vh = 10 ** (G / 20)
+  const Vb = Vh ** 0.4996667741545416
+  let a0 = 1 + K / Q + K * K
+  const shelf = {
+    b0: (Vh + (Vb * K) / Q + K * K) / a0,
+    b1: (2 * (K * K - Vh)) / a0,
+    b2: (Vh - (Vb * K) / Q + K * K) / a0,
+    a1: (2 * (K * K - 1)) / a0,
+    a2: (1 - K / Q + K * K) / a0
+  }
+  f0 = 38.13547087602444
+  Q = 0.5003270373238773
+  K = Math.tan((Math.PI * f0) / sampleRate)
+  a0 = 1 + K / Q + K * K
+  const highpass = { b0: 1, b1: -2, b2: 1, a1: (2 * (K * K - 1)) / a0, a2: (1 - K / Q + K * K) / a0 }
+  return [shelf, highpass]
+}
+
+// 4x polyphase interpolator: 48-tap Hann-windowed sinc, 12 taps per phase (the size BS.1770 Annex 2 uses)
+const OVERSAMPLE = 4
+const TAPS_PER_PHASE = 12
+const PHASES = (() => {
+  const total = OVERSAMPLE * TAPS_PER_PHASE
+  const centre = (total - 1) / 2
+  const h = Array.from({ length: total }, (_, n) => {
+    const x = (n - centre) / OVERSAMPLE
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x)
+    const hann = 0.5 - 0.5 * Math.cos((2 * Math.PI * (n + 0.5)) / total)
+    return sinc * hann
+  })
+  return Array.from({ length: OVERSAMPLE }, (_, p) => {
+    const taps = Array.from({ length: TAPS_PER_PHASE }, (_, k) => h[k * OVERSAMPLE + p])
+    const sum = taps.reduce((a, b) => a + b, 0)
+    return Float64Array.from(taps, t => t / sum) // unity DC gain per phase
+  })
+})()
+// No phase can output more than this times the largest input in its window
+const PHASE_GAIN = Math.max(...PHASES.map(taps => taps.reduce((a, t) => a + Math.abs(t), 0)))
+
+type ChannelState = {
+  z: [number, number, number, number] // biquad delay lines (direct form II transposed)
+  history: Float64Array // last TAPS_PER_PHASE input samples for the interpolator
+  historyPos: number
+}
+
+export const createLoudnessMeter = (sampleRate: number, channelCount = 2) => {
+  const [shelf, highpass] = kWeightingFilters(sampleRate)
+  const hop = Math.round(sampleRate / 10)
+  const channels: ChannelState[] = Array.from({ length: channelCount }, () => ({
+    z: [0, 0, 0, 0],
+    history: new Float64Array(TAPS_PER_PHASE),
+    historyPos: 0
+  }))
+  const hopEnergies: number[] = [] // channel-summed mean square per 100 ms hop
+  // 400 ms gating blocks, 75% overlap, above the absolute gate
+  const blockCounts = new Float64Array(BIN_COUNT)
+  const blockSums = new Float64Array(BIN_COUNT)
+  let gatedSum = 0
+  let gatedCount = 0
+  let hopSum = 0
+  let hopFill = 0
+  let peak = 0
+  let momentaryMax = -Infinity
+  let shortTermMax = -Infinity
+
+  const windowEnergy = (hops: number) => {
+    if (hopEnergies.length < hops) return 0
+    let sum = 0
+    for (let i = hopEnergies.length - hops; i < hopEnergies.length; i++) sum += hopEnergies[i]
+    return sum / hops
+  }
+
+  const closeHop = () => {
+    hopEnergies.push(hopSum / hop)
+    hopSum = 0
+    hopFill = 0
+    if (hopEnergies.length >= MOMENTARY_HOPS) {
+      const block = windowEnergy(MOMENTARY_HOPS)
+      const lufs = energyToLufs(block)
+      if (lufs > ABSOLUTE_GATE) {
+        const bin = Math.min(BIN_COUNT - 1, Math.floor((lufs - ABSOLUTE_GATE) / BIN_STEP))
+        blockCounts[bin] += 1
+        blockSums[bin] += block
+        gatedSum += block
+        gatedCount += 1
+      }
+      momentaryMax = Math.max(momentaryMax, lufs)
+    }
+    if (hopEnergies.length >= SHORT_TERM_HOPS) shortTermMax = Math.max(shortTermMax, energyToLufs(windowEnergy(SHORT_TERM_HOPS)))
+    // Only the short-term window is needed from the hop list
+    if (hopEnergies.length > SHORT_TERM_HOPS * 4) hopEnergies.splice(0, hopEnergies.length - SHORT_TERM_HOPS)
+  }
+
+  const push = (input: Float32Array[]) => {
+    const length = input[0]?.length ?? 0
+    for (let i = 0; i < length; i++) {
+      let energy = 0
+      for (let c = 0; c < channelCount; c++) {
+        const x = input[c]?.[i] ?? input[0][i]
+        const st = channels[c]
+        // true peak: push into the interpolator history and evaluate every phase
+        st.history[st.historyPos] = x
+        st.historyPos = (st.historyPos + 1) % TAPS_PER_PHASE
+        let local = 0
+        for (let k = 0; k < TAPS_PER_PHASE; k++) local = Math.max(local, Math.abs(st.history[k]))
+        for (let p = 0; local * PHASE_GAIN > peak && p < OVERSAMPLE; p++) {
+          const taps = PHASES[p]
+          let y = 0
+          for (let k = 0; k < TAPS_PER_PHASE; k++) y += taps[k] * st.history[(st.historyPos + TAPS_PER_PHASE - 1 - k) % TAPS_PER_PHASE]
+          const a = Math.abs(y)
+          if (a > peak) peak = a
+        }
+        const abs = Math.abs(x)
+        if (abs > peak) peak = abs
+        // K-weighting
+        const z = st.z
+        const y1 = shelf.b0 * x + z[0]
+        z[0] = shelf.b1 * x - shelf.a1 * y1 + z[1]
+        z[1] = shelf.b2 * x - shelf.a2 * y1
+        const y2 = highpass.b0 * y1 + z[2]
+        z[2] = highpass.b1 * y1 - highpass.a1 * y2 + z[3]
+        z[3] = highpass.b2 * y1 - highpass.a2 * y2
+        energy += y2 * y2
+      }
+      hopSum += energy
+      hopFill += 1
+      if (hopFill === hop) closeHop()
+    }
+  }
+
+  // A bin counts when its centre clears the relative gate: within 0.005 LU of the exact gating
+  const integrated = () => {
+    if (!gatedCount) return -Infinity
+    const threshold = energyToLufs(gatedSum / gatedCount) + RELATIVE_GATE
+    const first = Math.max(0, Math.ceil((threshold - ABSOLUTE_GATE) / BIN_STEP - 0.5))
+    let sum = 0
+    let count = 0
+    for (let bin = first; bin < BIN_COUNT; bin++) {
+      sum += blockSums[bin]
+      count += blockCounts[bin]
+    }
+    return count ? energyToLufs(sum / count) : -Infinity
+  }
+
+  const read = (): LoudnessReading => ({
+    momentary: hopEnergies.length >= MOMENTARY_HOPS ? energyToLufs(windowEnergy(MOMENTARY_HOPS)) : -Infinity,
+    shortTerm: hopEnergies.length >= SHORT_TERM_HOPS ? energyToLufs(windowEnergy(SHORT_TERM_HOPS)) : -Infinity,
+    integrated: integrated(),
+    truePeak: peak > 0 ? 20 * Math.log10(peak) : -Infinity,
+    momentaryMax,
+    shortTermMax
+  })
+
+  return { push, read }
+}
+
+export type LoudnessMeter = ReturnType<typeof createLoudnessMeter>
+
+export const measureLoudness = (channels: Float32Array[], sampleRate: number) => {
+  const meter = createLoudnessMeter(sampleRate, channels.length)
+  meter.push(channels)
+  return meter.read()
+}
+
+// Static gain that brings `measured` to the target without pushing the true peak over its
+// ceiling; the ceiling wins, so quiet-but-peaky mixes can end up under target.
+export const normalizationGainDb = (measured: LoudnessReading, target: LoudnessTarget) => {
+  if (!Number.isFinite(measured.integrated)) return 0
+  const wanted = target.lufs - measured.integrated
+  const headroom = Number.isFinite(measured.truePeak) ? target.truePeak - measured.truePeak : wanted
+  return Math.min(wanted, headroom)
+}
+
+export const formatLufs = (value: number, unit = 'LUFS') => `${Number.isFinite(value) ? value.toFixed(1) : '–'}${unit ? ` ${unit}` : ''}`
@@ -0,0 +1,124 @@
+import type { Marker } from '../types'
+import { createMarkerId } from './markers'
+import { framesToSeconds, inferTimecodeBaseSeconds, isTimecode, parseTcToFrames, secondsToFrames } from './timecode'
+
+// Same order as timeline_builder.py: the first header that matches wins.
+export const PREFERRED_TIMECODE_COLUMNS = [
+  'source in',
+  'source tc',
+  'source timecode',
+  'timeline in',
+  'timeline timecode',
+  'record in',
+  'marker in',
+  'marker time',
+  'tc in',
+  'timecode',
+  'start'
+]
+
+const NAME_COLUMNS = ['marker name', 'name', 'label', 'comment', 'comments', 'description', 'notes']
+
+export type CsvTable = { headers: string[]; rows: string[][] }
+
+export type MarkerCsvMapping = {
+  tcColumn: number
+  nameColumn: number // -1 numbers the markers instead
+  fps: number
+  subtractBase: boolean
+}
+
+export type MarkerCsvRow = { row: number; label: string; tc: string; frames: number | null }
+
+export type MarkerCsvResult = {
+  rows: MarkerCsvRow[]
+  base: number // seconds removed from every marker
+  markers: Marker[]
+  skipped: number
+}
+
+// RFC 4180-ish: quoted fields may hold commas, doubled quotes and newlines.
+export const parseCsv = (text: string, delimiter = ','): CsvTable => {
+  const records: string[][] = []
+  let field = ''
+  let record: string[] = []
+  let quoted = false
+  const src = text.replace(/^\uFEFF/, '')
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i]
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') { field += '"'; i++ }
+      else if (ch === '"') quoted = false
+      else field += ch
+      continue
+    }
+    if (ch === '"') quoted = true
+    else if (ch === delimiter) { record.push(field); field = '' }
+    else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else field += ch
+  }
+  if (field || record.length) {
+    record.push(field)
+    records.push(record)
+  }
+  const nonEmpty = records.filter(r => r.some(cell => cell.trim()))
+  const [headers = [], ...rows] = nonEmpty
+  return { headers: headers.map(h => h.trim()), rows }
+}
+
+export const detectTimecodeColumn = (table: CsvTable, fps: number) => {
+  const normalized = table.headers.map(h => h.trim().toLowerCase())
+  for (const key of PREFERRED_TIMECODE_COLUMNS) {
+    const idx = normalized.indexOf(key)
+    if (idx >= 0) return idx
+  }
+  // Otherwise the first column with two parseable values among its first 25
+  for (let col = 0; col < table.headers.length; col++) {
+    let hits = 0
+    for (const row of table.rows.filter(r => (r[col] ?? '').trim()).slice(0, 25)) {
+      if (isTimecode(row[col], fps)) hits += 1
+      if (hits >= 2) return col
+    }
+  }
+  return -1
+}
+
+export const detectNameColumn = (table: CsvTable, tcColumn: number) => {
+  const normalized = table.headers.map(h => h.trim().toLowerCase())
+  for (const key of NAME_COLUMNS) {
+    const idx = normalized.indexOf(key)
+    if (idx >= 0 && idx !== tcColumn) return idx
+  }
+  return -1
+}
+
+export const markersFromCsv = (table: CsvTable, mapping: MarkerCsvMapping, palette: string[], startIndex = 0): MarkerCsvResult => {
+  const rows: MarkerCsvRow[] = table.rows.map((r, i) => {
+    const tc = (r[mapping.tcColumn] ?? '').trim()
+    const label = mapping.nameColumn >= 0 ? (r[mapping.nameColumn] ?? '').trim() : ''
+    let frames: number | null = null
+    try {
+      frames = tc ? parseTcToFrames(tc, mapping.fps) : null
+    } catch {
+      frames = null
+    }
+    return { row: i + 2, label: label || `Marker ${startIndex + i + 1}`, tc, frames }
+  })
+  const valid = rows.filter((r): r is MarkerCsvRow & { frames: number } => r.frames !== null)
+  const base = mapping.subtractBase ? inferTimecodeBaseSeconds(valid.map(r => r.frames), mapping.fps) : 0
+  const markers = valid
+    .map((r, i): Marker => ({
+      id: createMarkerId(),
+      type: 'cue',
+      time: Math.max(0, framesToSeconds(r.frames - secondsToFrames(base, mapping.fps), mapping.fps)),
+      label: r.label,
+      color: palette[(startIndex + i) % palette.length]
+    }))
+    .sort((a, b) => a.time - b.time)
+  return { rows, base, markers, skipped: rows.length - valid.length }
+}
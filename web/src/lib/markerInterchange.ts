@@ -0,0 +1,231 @@
+import type { Marker, MarkerType } from '../types'
+import { createMarkerId } from './markers'
+import { parseCsv } from './markerCsv'
+import { framesToSeconds, inferTimecodeBaseSeconds, parseTcToFrames, secondsToFrames, secondsToTc } from './timecode'
+
+export type MarkerFormat = 'resolve-edl' | 'premiere-csv' | 'youtube'
+
+export const MARKER_FORMATS: Array<{ id: MarkerFormat; label: string; ext: string; mime: string }> = [
+  { id: 'resolve-edl', label: 'DaVinci Resolve EDL', ext: 'edl', mime: 'text/plain' },
+  { id: 'premiere-csv', label: 'Premiere Pro CSV', ext: 'csv', mime: 'text/csv' },
+  { id: 'youtube', label: 'YouTube chapters', ext: 'txt', mime: 'text/plain' }
+]
+
+export type MarkerExport = { text: string; warnings: string[] }
+
+// Each tool's marker colours by name; our free-form colours go to the nearest entry.
+export const RESOLVE_COLORS: Record<string, string> = {
+  Blue: '#2f7df6',
+  Cyan: '#22d3ee',
+  Green: '#22c55e',
+  Yellow: '#facc15',
+  Red: '#ef4444',
+  Pink: '#f472b6',
+  Purple: '#a855f7',
+  Fuchsia: '#d946ef',
+  Rose: '#fb7185',
+  Lavender: '#c4b5fd',
+  Sky: '#7dd3fc',
+  Mint: '#6ee7b7',
+  Lemon: '#fef08a',
+  Sand: '#d6b98c',
+  Cocoa: '#8b5e3c',
+  Cream: '#fef3c7'
+}
+
+export const PREMIERE_COLORS: Record<string, string> = {
+  Green: '#22c55e',
+  Red: '#ef4444',
+  Purple: '#a855f7',
+  Orange: '#f97316',
+  Yellow: '#facc15',
+  White: '#f8fafc',
+  Blue: '#2f7df6',
+  Cyan: '#22d3ee'
+}
+
+const hexToRgb = (hex: string) => {
+  const clean = hex.replace('#', '')
+  const full = clean.length === 3 ? clean.split('').map(c => c + c).join('') : clean.padEnd(6, '0').slice(0, 6)
+  const n = parseInt(full, 16)
+  return Number.isNaN(n) ? [0, 0, 0] : [(n >> 16) & 255, (n >> 8) & 255, n & 255]
+}
+
+// "Redmean" weighted distance: cheap and close enough to perceptual for picking a swatch
+export const nearestColorName = (hex: string, palette: Record<string, string>) => {
+  const [r1, g1, b1] = hexToRgb(hex)
+  let best = Object.keys(palette)[0]
+  let bestDist = Infinity
+  Object.entries(palette).forEach(([name, value]) => {
+    const [r2, g2, b2] = hexToRgb(value)
+    const rm = (r1 + r2) / 2
+    const dist = (2 + rm / 256) * (r1 - r2) ** 2 + 4 * (g1 - g2) ** 2 + (2 + (255 - rm) / 256) * (b1 - b2) ** 2
+    if (dist < bestDist) {
+      bestDist = dist
+      best = name
+    }
+  })
+  return best
+}
+
+const colorFromName = (name: string, palette: Record<string, string>, fallback: string) => {
+  const key = Object.keys(palette).find(k => k.toLowerCase() === name.trim().toLowerCase())
+  return key ? palette[key] : fallback
+}
+
+const sorted = (markers: Marker[]) => [...markers].sort((a, b) => a.time - b.time)
+
+const toFrames = secondsToFrames
+
+export const exportResolveEdl = (markers: Marker[], fps: number, title = 'Timeline 1', startHour = 1): MarkerExport => {
+  const base = startHour * 3600
+  const lines = [`TITLE: ${title}`, 'FCM: NON-DROP FRAME', '']
+  sorted(markers).forEach((m, i) => {
+    const frames = Math.max(1, toFrames(m.duration ?? 0, fps))
+    const tcIn = secondsToTc(base + m.time, fps)
+    const tcOut = secondsToTc(base + m.time + framesToSeconds(frames, fps), fps)
+    const event = String(i + 1).padStart(3, '0')
+    lines.push(`${event}  001      V     C        ${tcIn} ${tcOut} ${tcIn} ${tcOut}  `)
+    // Resolve reads the marker from this comment line; "|" can't appear inside a field
+    const name = m.label.replace(/\|/g, '/')
+    lines.push(` |C:ResolveColor${nearestColorName(m.color, RESOLVE_COLORS)} |M:${name} |D:${frames}`)
+    lines.push('')
+  })
+  return { text: lines.join('\n'), warnings: [] }
+}
+
+export const importResolveEdl = (text: string, fps: number, fallbackColor: string): Marker[] => {
+  const events: Array<{ frames: number; color: string; label: string; duration: number }> = []
+  let pendingFrames: number | null = null
+  text.split(/\r?\n/).forEach(line => {
+    const event = line.match(/^\s*\d+\s+\S+\s+\S+\s+\S+\s+(\S+)\s+(\S+)\s+(\S+)\s+(\S+)/)
+    if (event) {
+      try {
+        pendingFrames = parseTcToFrames(event[3], fps)
+      } catch {
+        pendingFrames = null
+      }
+      return
+    }
+    if (pendingFrames === null || !line.includes('|M:')) return
+    const color = line.match(/\|C:ResolveColor(\w+)/)?.[1] ?? ''
+    const label = line.match(/\|M:(.*?)(?=\s*\|[A-Z]:|$)/)?.[1]?.trim() ?? ''
+    const duration = Number(line.match(/\|D:(\d+)/)?.[1] ?? 1)
+    events.push({ frames: pendingFrames, color, label, duration })
+    pendingFrames = null
+  })
+  const base = inferTimecodeBaseSeconds(events.map(e => e.frames), fps)
+  return events.map((e, i) => ({
+    id: createMarkerId(),
+    time: framesToSeconds(e.frames - secondsToFrames(base, fps), fps),
+    label: e.label || `Marker ${i + 1}`,
+    color: colorFromName(e.color, RESOLVE_COLORS, fallbackColor),
+    type: 'cue' as MarkerType,
+    duration: e.duration > 1 ? framesToSeconds(e.duration, fps) : undefined
+  }))
+}
+
+const PREMIERE_HEADERS = ['Marker Name', 'Description', 'In', 'Out', 'Duration', 'Marker Type', 'Color']
+
+const csvField = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value)
+
+export const exportPremiereCsv = (markers: Marker[], fps: number): MarkerExport => {
+  const rows = sorted(markers).map(m => {
+    const duration = m.duration ?? 0
+    return [
+      m.label,
+      m.notes ?? '',
+      secondsToTc(m.time, fps),
+      secondsToTc(m.time + duration, fps),
+      secondsToTc(duration, fps),
+      m.type === 'chapter' ? 'Chapter' : 'Comment',
+      nearestColorName(m.color, PREMIERE_COLORS)
+    ].map(csvField).join(',')
+  })
+  return { text: [PREMIERE_HEADERS.join(','), ...rows].join('\n') + '\n', warnings: [] }
+}
+
+export const importPremiereCsv = (text: string, fps: number, fallbackColor: string): Marker[] => {
+  // Premiere writes tab-separated files even when they are named .csv
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? ''
+  const delimiter = firstLine.includes('\t') && !firstLine.includes(',') ? '\t' : ','
+  const table = parseCsv(text, delimiter)
+  const col = (name: string) => table.headers.findIndex(h => h.toLowerCase() === name.toLowerCase())
+  const [nameCol, descCol, inCol, durCol, typeCol, colorCol] = ['Marker Name', 'Description', 'In', 'Duration', 'Marker Type', 'Color'].map(col)
+  if (inCol < 0) throw new Error('No "In" column found; is this a Premiere marker export?')
+  const markers: Marker[] = []
+  table.rows.forEach((r, i) => {
+    let frames: number
+    try {
+      frames = parseTcToFrames(r[inCol] ?? '', fps)
+    } catch {
+      return
+    }
+    let duration = 0
+    try {
+      duration = durCol >= 0 && r[durCol] ? framesToSeconds(parseTcToFrames(r[durCol], fps), fps) : 0
+    } catch {
+      duration = 0
+    }
+    markers.push({
+      id: createMarkerId(),
+      time: framesToSeconds(frames, fps),
+      label: (nameCol >= 0 && r[nameCol]?.trim()) || `Marker ${i + 1}`,
+      color: colorCol >= 0 ? colorFromName(r[colorCol] ?? '', PREMIERE_COLORS, fallbackColor) : fallbackColor,
+      type: typeCol >= 0 && /chapter/i.test(r[typeCol] ?? '') ? 'chapter' : 'cue',
+      duration: duration > 0 ? duration : undefined,
+      notes: descCol >= 0 && r[descCol] ? r[descCol] : undefined
+    })
+  })
+  return markers
+}
+
+const YOUTUBE_MIN_CHAPTERS = 3
+const YOUTUBE_MIN_LENGTH = 10
+
+const chapterStamp = (seconds: number) => {
+  const total = Math.floor(seconds)
+  const h = Math.floor(total / 3600)
+  const m = Math.floor((total % 3600) / 60)
+  const s = String(total % 60).padStart(2, '0')
+  return h ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`
+}
+
+// Chapter markers when there are any, every marker otherwise. YouTube only shows chapters
+// that start at 0:00, number at least three and last ten seconds or more, so flag the rest.
+export const exportYoutubeChapters = (markers: Marker[]): MarkerExport => {
+  const chapters = markers.some(m => m.type === 'chapter') ? markers.filter(m => m.type === 'chapter') : markers
+  const list = sorted(chapters).map(m => ({ time: Math.floor(m.time), label: m.label }))
+  const warnings: string[] = []
+  if (!list.length || list[0].time > 0) list.unshift({ time: 0, label: 'Intro' })
+  if (list.length < YOUTUBE_MIN_CHAPTERS) warnings.push(`YouTube needs at least ${YOUTUBE_MIN_CHAPTERS} chapters.`)
+  list.forEach((c, i) => {
+    const next = list[i + 1]
+    if (next && next.time - c.time < YOUTUBE_MIN_LENGTH) warnings.push(`"${c.label}" is shorter than ${YOUTUBE_MIN_LENGTH}s.`)
+  })
+  return { text: list.map(c => `${chapterStamp(c.time)} ${c.label}`).join('\n') + '\n', warnings }
+}
+
+export const importYoutubeChapters = (text: string, fallbackColor: string): Marker[] => {
+  const markers: Marker[] = []
+  text.split(/\r?\n/).forEach(line => {
+    const match = line.match(/^\s*\(?((?:\d+:)?\d{1,2}:\d{2})\)?\s*[-–—:|]?\s*(.*)$/)
+    if (!match) return
+    const parts = match[1].split(':').map(Number)
+    const time = parts.reduce((acc, v) => acc * 60 + v, 0)
+    markers.push({ id: createMarkerId(), time, label: match[2].trim() || `Chapter ${markers.length + 1}`, color: fallbackColor, type: 'chapter' })
+  })
+  return markers
+}
+
+export const exportMarkers = (format: MarkerFormat, markers: Marker[], fps: number, title?: string): MarkerExport => {
+  if (format === 'resolve-edl') return exportResolveEdl(markers, fps, title)
+  if (format === 'premiere-csv') return exportPremiereCsv(markers, fps)
+  return exportYoutubeChapters(markers)
+}
+
+export const importMarkerFile = (format: MarkerFormat, text: string, fps: number, fallbackColor: string): Marker[] => {
+  if (format === 'resolve-edl') return importResolveEdl(text, fps, fallbackColor)
+  if (format === 'premiere-csv') return importPremiereCsv(text, fps, fallbackColor)
+  return importYoutubeChapters(text, fallbackColor)
+}
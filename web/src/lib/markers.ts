@@ -0,0 +1,32 @@
+import type { Marker, MarkerType } from '../types'
+
+export const MARKER_TYPES: MarkerType[] = ['cue', 'beat', 'chapter', 'todo']
+
+let seq = 0
+export const createMarkerId = () => `mk-${Date.now().toString(36)}-${(seq++).toString(36)}`
+
+// Older projects stored { time, label, color } only; give them ids and a type.
+export const normalizeMarkers = (raw: unknown): Marker[] => {
+  if (!Array.isArray(raw)) return []
+  const seen = new Set<string>()
+  return raw
+    .filter((m): m is Partial<Marker> & { time: number } => !!m && typeof m === 'object' && Number.isFinite((m as Marker).time))
+    .map(m => {
+      const label = typeof m.label === 'string' ? m.label : 'Marker'
+      const id = typeof m.id === 'string' && m.id && !seen.has(m.id) ? m.id : createMarkerId()
+      seen.add(id)
+      const type: MarkerType = m.type && MARKER_TYPES.includes(m.type) ? m.type : / · Beat \d+$/.test(label) ? 'beat' : 'cue'
+      return {
+        ...m,
+        id,
+        time: m.time,
+        label,
+        color: typeof m.color === 'string' ? m.color : '#22d3ee',
+        type,
+        duration: m.duration && m.duration > 0 ? m.duration : undefined
+      }
+    })
+}
+
+export const updateMarker = (markers: Marker[], id: string, patch: Partial<Omit<Marker, 'id'>>) =>
+  markers.map(m => (m.id === id ? { ...m, ...patch } : m))
@@ -0,0 +1,180 @@
+import { createStore, del, get, set, update } from 'idb-keyval'
+import type { UseStore } from 'idb-keyval'
+import type { Asset, Clip } from '../types'
+import { createSha256 } from './sha256'
+
+// Imported media is kept in the Origin Private File System (IndexedDB where OPFS can't be
+// written from the page) under the SHA-256 of its bytes, so the same file imported twice is
+// stored once. Assets and clips keep that hash as `mediaId`; object URLs are made fresh from
+// the stored bytes on every start. The index of what is stored lives in the keyval store.
+
+export type MediaBackend = 'opfs' | 'indexeddb'
+
+export type MediaRecord = {
+  id: string // hex SHA-256 of the bytes
+  name: string // file name at first import
+  type: string
+  size: number
+  storedAt: number
+  backend: MediaBackend
+}
+
+export type MediaIndex = Record<string, MediaRecord>
+
+export type StorageReport = {
+  backend: MediaBackend
+  count: number
+  bytes: number
+  usage: number | null // whole origin, from the browser's estimate
+  quota: number | null
+  persisted: boolean
+}
+
+export const MEDIA_INDEX_KEY = 'media-index'
+const OPFS_DIR = 'media'
+let blobStore: UseStore | null = null
+const blobs = () => (blobStore ??= createStore('timeline-media', 'blobs')) // opened on first use
+
+const opfsDir = async () => (await navigator.storage.getDirectory()).getDirectoryHandle(OPFS_DIR, { create: true })
+
+let backendProbe: Promise<MediaBackend> | null = null
+
+// OPFS needs createWritable on the main thread (Safari only offers it in workers)
+export const mediaBackend = () => {
+  backendProbe ??= (async (): Promise<MediaBackend> => {
+    try {
+      if (typeof FileSystemFileHandle === 'undefined' || !('createWritable' in FileSystemFileHandle.prototype)) return 'indexeddb'
+      await opfsDir()
+      return 'opfs'
+    } catch {
+      return 'indexeddb'
+    }
+  })()
+  return backendProbe
+}
+
+const HASH_CHUNK = 8 * 1024 * 1024
+
+// Small files go through crypto.subtle in one piece; larger ones are read and hashed a chunk at
+// a time so a multi-gigabyte file never has to fit in memory
+export const hashMedia = async (blob: Blob) => {
+  if (blob.size <= HASH_CHUNK) {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer())
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('')
+  }
+  const sha = createSha256()
+  for (let at = 0; at < blob.size; at += HASH_CHUNK) sha.update(new Uint8Array(await blob.slice(at, at + HASH_CHUNK).arrayBuffer()))
+  return sha.hex()
+}
+
+export const loadMediaIndex = async (): Promise<MediaIndex> => (await get<MediaIndex>(MEDIA_INDEX_KEY)) ?? {}
+
+const writeBlob = async (backend: MediaBackend, id: string, blob: Blob) => {
+  if (backend === 'indexeddb') {
+    await set(id, blob, blobs())
+    return
+  }
+  const handle = await (await opfsDir()).getFileHandle(id, { create: true })
+  const writable = await handle.createWritable()
+  await writable.write(blob)
+  await writable.close()
+}
+
+const readBlob = async (record: MediaRecord): Promise<Blob | null> => {
+  try {
+    if (record.backend === 'indexeddb') return (await get<Blob>(record.id, blobs())) ?? null
+    const file = await (await (await opfsDir()).getFileHandle(record.id)).getFile()
+    return new Blob([file], { type: record.type }) // keep the type the import saw
+  } catch {
+    return null
+  }
+}
+
+// Stores the file unless the same bytes are already there; resolves to its record either way
+export const storeMedia = async (file: Blob, name: string): Promise<MediaRecord> => {
+  const id = await hashMedia(file)
+  const existing = (await loadMediaIndex())[id]
+  if (existing && await readBlob(existing)) return existing
+  const backend = await mediaBackend()
+  await writeBlob(backend, id, file)
+  const record: MediaRecord = { id, name, type: file.type || 'application/octet-stream', size: file.size, storedAt: Date.now(), backend }
+  await update<MediaIndex>(MEDIA_INDEX_KEY, index => ({ ...index, [id]: record }))
+  return record
+}
+
+export const readMedia = async (id: string) => {
+  const record = (await loadMediaIndex())[id]
+  return record ? readBlob(record) : null
+}
+
+// Fresh object URLs for stored media; null for ids this browser doesn't have
+export const mediaUrls = async (ids: string[]): Promise<MediaUrls> => {
+  const index = await loadMediaIndex()
+  const entries = await Promise.all(ids.map(async id => {
+    const blob = index[id] ? await readBlob(index[id]) : null
+    return [id, blob ? URL.createObjectURL(blob) : null] as const
+  }))
+  return Object.fromEntries(entries)
+}
+
+export const deleteMedia = async (ids: string[]) => {
+  const index = await loadMediaIndex()
+  await Promise.all(ids.map(async id => {
+    const record = index[id]
+    if (!record) return
+    if (record.backend === 'indexeddb') await del(id, blobs())
+    else await (await opfsDir()).removeEntry(id).catch(() => undefined)
+  }))
+  await update<MediaIndex>(MEDIA_INDEX_KEY, current => Object.fromEntries(Object.entries(current ?? {}).filter(([id]) => !ids.includes(id))))
+}
+
+export type MediaUrls = Record<string, string | null> // null: not in this browser's store
+
+// This session's URLs for stored media; clips whose media isn't stored here go offline
+export const bindClipMedia = (clips: Clip[], urls: MediaUrls) => clips.map(c => {
+  if (!c.mediaId || !(c.mediaId in urls)) return c
+  const url = urls[c.mediaId]
+  if (url) return c.url === url ? c : { ...c, url }
+  return { ...c, url: undefined, offlineMedia: c.offlineMedia ?? c.title }
+})
+
+export const bindAssetMedia = (assets: Asset[], urls: MediaUrls) => assets.map(a => {
+  const url = a.mediaId ? urls[a.mediaId] : undefined
+  return url && url !== a.url ? { ...a, url } : a
+})
+
+// What goes into IndexedDB: object URLs die with the page, the media id is what comes back
+export const storableAssets = (assets: Asset[]) => assets.map(a => (a.mediaId || a.url?.startsWith('blob:') ? { ...a, url: undefined } : a))
+
+// `others`: ids held outside assets and clips, like preset watermarks
+export const referencedMedia = (assets: Asset[], clipLists: Clip[][], others: string[] = []) => new Set([
+  ...assets.flatMap(a => (a.mediaId ? [a.mediaId] : [])),
+  ...clipLists.flat().flatMap(c => (c.mediaId ? [c.mediaId] : [])),
+  ...others
+])
+
+export const unusedMedia = (index: MediaIndex, referenced: Set<string>) =>
+  Object.values(index).filter(r => !referenced.has(r.id)).sort((a, b) => b.size - a.size)
+
+export const storageReport = async (index: MediaIndex): Promise<StorageReport> => {
+  const records = Object.values(index)
+  const estimate = await navigator.storage?.estimate?.().catch(() => null)
+  const persisted = await navigator.storage?.persisted?.().catch(() => false)
+  return {
+    backend: await mediaBackend(),
+    count: records.length,
+    bytes: records.reduce((sum, r) => sum + r.size, 0),
+    usage: estimate?.usage ?? null,
+    quota: estimate?.quota ?? null,
+    persisted: !!persisted
+  }
+}
+
+// Asks the browser not to evict the store under storage pressure; it may say no
+export const requestPersistentStorage = async () => (await navigator.storage?.persist?.().catch(() => false)) ?? false
+
+export const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(1)} GB`
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(1)} MB`
+  return `${Math.max(bytes > 0 ? 1 : 0, Math.round(bytes / 1024))} KB`
+}
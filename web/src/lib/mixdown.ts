@@ -0,0 +1,98 @@
+import type { Clip, TrackState } from '../types'
+import { kindOf, trackIsLive } from './render'
+
+export type ScheduledClip = { clip: Clip; buffer: AudioBuffer }
+
+const DEFAULT_FADE = 0.12
+const SILENT = 0.0001 // exponential-safe floor; ramps never hit true zero
+
+// Audio clips and video clips, whose sound plays with them; a video without a sound track
+// simply fails to decode and drops out
+export const liveAudioClips = (tracks: TrackState[], clips: Clip[]) => {
+  const anySolo = tracks.some(t => t.solo)
+  const byId = new Map(tracks.map(t => [t.id, t]))
+  return clips.filter(c => (kindOf(c) === 'audio' || kindOf(c) === 'video') && trackIsLive(byId.get(c.track), anySolo))
+}
+
+// The per-clip source → gain (fades) graph used by live playback and the offline mixdown alike.
+// `from` is the sequence time that plays at context time `startAt`.
+export const scheduleClips = (ctx: BaseAudioContext, destination: AudioNode, items: ScheduledClip[], from: number, startAt: number, until = Infinity) => {
+  const sources: AudioBufferSourceNode[] = []
+  items.forEach(({ clip, buffer }) => {
+    if (clip.start >= until) return
+    const into = Math.max(0, from - clip.start)
+    const offset = (clip.mediaOffset ?? 0) + into
+    const mediaDur = clip.mediaDuration ?? buffer.duration
+    const dur = Math.max(0, Math.min(mediaDur - offset, clip.duration - into))
+    if (dur <= 0) return
+    const when = startAt + Math.max(0, clip.start - from)
+    const src = ctx.createBufferSource()
+    src.buffer = buffer
+    const gainNode = ctx.createGain()
+    const targetGain = Math.max(SILENT, clip.gain ?? 1)
+    const fadeIn = Math.max(0, clip.fadeIn ?? DEFAULT_FADE)
+    const fadeOut = Math.max(0, clip.fadeOut ?? DEFAULT_FADE)
+    gainNode.gain.setValueAtTime(targetGain, when)
+    if (fadeIn > 0) {
+      gainNode.gain.setValueAtTime(SILENT, when)
+      gainNode.gain.linearRampToValueAtTime(targetGain, when + Math.min(fadeIn, dur * 0.6))
+    }
+    if (fadeOut > 0) {
+      gainNode.gain.setValueAtTime(targetGain, when + Math.max(0, dur - fadeOut))
+      gainNode.gain.linearRampToValueAtTime(SILENT, when + dur)
+    }
+    src.connect(gainNode)
+    gainNode.connect(destination)
+    src.start(when, offset, dur)
+    sources.push(src)
+  })
+  return sources
+}
+
+export type MixdownOpts = {
+  from: number
+  to: number
+  sampleRate: number
+  signal?: AbortSignal
+  onProgress?: (ratio: number) => void
+}
+
+const PROGRESS_STEPS = 20
+
+const cancelled = () => new DOMException('Mixdown cancelled', 'AbortError')
+
+// Render [from, to) of the sequence offline. Progress comes from suspending the render at
+// fixed points. An offline render can't be stopped, so cancelling silences it and lets it run
+// out instead of leaving the context suspended with its buffers; the caller gets the rejection.
+export const renderMixdown = async (items: ScheduledClip[], opts: MixdownOpts) => {
+  const { from, to, sampleRate, signal, onProgress } = opts
+  const span = to - from
+  if (!(span > 0)) throw new Error('Nothing to mix down: the range is empty')
+  if (signal?.aborted) throw cancelled()
+  const length = Math.ceil(span * sampleRate)
+  const ctx = new OfflineAudioContext({ numberOfChannels: 2, length, sampleRate })
+  const sources = scheduleClips(ctx, ctx.destination, items, from, 0, to)
+
+  let abort = () => {}
+  return new Promise<AudioBuffer>((resolve, reject) => {
+    abort = () => {
+      sources.forEach(src => src.stop())
+      if (ctx.state === 'suspended') ctx.resume().catch(() => {})
+      reject(cancelled())
+    }
+    signal?.addEventListener('abort', abort, { once: true })
+    for (let i = 1; i < PROGRESS_STEPS; i++) {
+      // suspend() wants a render-quantum (128 frame) boundary; engines without it just skip progress
+      const frame = Math.floor((length * i) / PROGRESS_STEPS / 128) * 128
+      ctx.suspend(frame / sampleRate).then(() => {
+        if (!signal?.aborted) onProgress?.(i / PROGRESS_STEPS)
+        return ctx.resume()
+      }).catch(() => {})
+    }
+    ctx.startRendering().then(buffer => {
+      if (signal?.aborted) return
+      onProgress?.(1)
+      resolve(buffer)
+    }, reject)
+  }).finally(() => signal?.removeEventListener('abort', abort))
+}
@@ -0,0 +1,400 @@
+// WebM and MP4 writers for WebCodecs output. Both take the encoded chunks of one video and one
+// audio track (timestamps in microseconds, as WebCodecs hands them out) and lay them out in memory.
+
+export type MuxSample = { data: Uint8Array; timestamp: number; duration: number; key: boolean }
+
+export type MuxVideoTrack = {
+  codec: 'avc' | 'vp8' | 'vp9'
+  width: number
+  height: number
+  description?: Uint8Array // avcC for H.264
+  samples: MuxSample[]
+}
+
+export type MuxAudioTrack = {
+  codec: 'aac' | 'opus'
+  sampleRate: number
+  channels: number
+  description?: Uint8Array // AudioSpecificConfig for AAC, OpusHead for Opus
+  samples: MuxSample[]
+}
+
+const concat = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0))
+  let offset = 0
+  parts.forEach(p => {
+    out.set(p, offset)
+    offset += p.length
+  })
+  return out
+}
+
+const ascii = (text: string) => Uint8Array.from(text, ch => ch.charCodeAt(0))
+
+// Big-endian unsigned integer of `width` bytes (up to 2^53)
+const uintBytes = (value: number, width: number) => {
+  const out = new Uint8Array(width)
+  let v = value
+  for (let i = width - 1; i >= 0; i--) {
+    out[i] = v % 256
+    v = Math.floor(v / 256)
+  }
+  return out
+}
+
+// Opus pre-skip: from the encoder's OpusHead when it gave one, libopus' 48 kHz lookahead otherwise
+const DEFAULT_PRE_SKIP = 312
+
+const opusPreSkip = (track: MuxAudioTrack) => {
+  const d = track.description
+  if (d && d.length >= 12 && String.fromCharCode(...d.subarray(0, 8)) === 'OpusHead') return d[10] | (d[11] << 8)
+  return DEFAULT_PRE_SKIP
+}
+
+// --- WebM -------------------------------------------------------------------------------------
+// Matroska subset: EBML header, then a sized Segment with Info, Tracks, Cues (one per cluster that
+// opens on a video keyframe) and SimpleBlock clusters at millisecond timecodes.
+
+const TIMECODE_SCALE = 1_000_000 // ns per block timecode tick
+const MAX_CLUSTER_MS = 30_000 // block timecodes are int16 relative to the cluster
+const OPUS_SEEK_PRE_ROLL = 80_000_000 // ns, what the Opus mapping recommends
+
+const ebmlId = (id: number) => uintBytes(id, Math.max(1, Math.ceil(Math.log2(id + 1) / 8)))
+
+// EBML variable-length size; the all-ones value of each length means "unknown", so skip it
+const vint = (size: number) => {
+  let len = 1
+  while (len < 8 && size >= 2 ** (7 * len) - 1) len++
+  const out = uintBytes(size, len)
+  out[0] |= 1 << (8 - len)
+  return out
+}
+
+const ebml = (id: number, ...children: Uint8Array[]) => {
+  const body = concat(children)
+  return concat([ebmlId(id), vint(body.length), body])
+}
+
+const ebmlUint = (id: number, value: number, width?: number) => {
+  let w = width ?? 1
+  if (width === undefined) while (w < 8 && value >= 2 ** (8 * w)) w++
+  return ebml(id, uintBytes(value, w))
+}
+
+const ebmlFloat = (id: number, value: number) => {
+  const out = new Uint8Array(8)
+  new DataView(out.buffer).setFloat64(0, value)
+  return ebml(id, out)
+}
+
+const ebmlString = (id: number, value: string) => ebml(id, ascii(value))
+
+const opusHead = (channels: number, sampleRate: number, preSkip: number) => {
+  const out = new Uint8Array(19)
+  out.set(ascii('OpusHead'))
+  const view = new DataView(out.buffer)
+  view.setUint8(8, 1)
+  view.setUint8(9, channels)
+  view.setUint16(10, preSkip, true)
+  view.setUint32(12, sampleRate, true)
+  return out // output gain 0, mapping family 0
+}
+
+const WEBM_CODEC: Record<MuxVideoTrack['codec'], string> = { vp8: 'V_VP8', vp9: 'V_VP9', avc: 'V_MPEG4/ISO/AVC' }
+
+export const muxWebm = (video: MuxVideoTrack, audio: MuxAudioTrack | null) => {
+  if (video.codec === 'avc') throw new Error('WebM takes VP8/VP9 video')
+  if (audio && audio.codec !== 'opus') throw new Error('WebM takes Opus audio')
+  const ms = (us: number) => Math.round(us / 1000)
+  const end = Math.max(0, ...[...video.samples, ...(audio?.samples ?? [])].map(s => s.timestamp + s.duration))
+
+  const header = ebml(0x1a45dfa3,
+    ebmlUint(0x4286, 1), // EBMLVersion
+    ebmlUint(0x42f7, 1), // EBMLReadVersion
+    ebmlUint(0x42f2, 4), // EBMLMaxIDLength
+    ebmlUint(0x42f3, 8), // EBMLMaxSizeLength
+    ebmlString(0x4282, 'webm'),
+    ebmlUint(0x4287, 4), // DocTypeVersion
+    ebmlUint(0x4285, 2) // DocTypeReadVersion
+  )
+  const info = ebml(0x1549a966,
+    ebmlUint(0x2ad7b1, TIMECODE_SCALE),
+    ebmlString(0x4d80, 'timeline-builder'), // MuxingApp
+    ebmlString(0x5741, 'timeline-builder'), // WritingApp
+    ebmlFloat(0x4489, end / 1000) // Duration, in timecode ticks
+  )
+  const frameDuration = video.samples[0]?.duration ?? 0
+  const entries = [ebml(0xae,
+    ebmlUint(0xd7, 1), // TrackNumber
+    ebmlUint(0x73c5, 1), // TrackUID
+    ebmlUint(0x83, 1), // TrackType: video
+    ebmlUint(0x9c, 0), // FlagLacing
+    ebmlString(0x86, WEBM_CODEC[video.codec]),
+    ...(frameDuration > 0 ? [ebmlUint(0x23e383, frameDuration * 1000)] : []), // DefaultDuration (ns)
+    ebml(0xe0, ebmlUint(0xb0, video.width), ebmlUint(0xba, video.height))
+  )]
+  if (audio) {
+    const preSkip = opusPreSkip(audio)
+    entries.push(ebml(0xae,
+      ebmlUint(0xd7, 2),
+      ebmlUint(0x73c5, 2),
+      ebmlUint(0x83, 2), // TrackType: audio
+      ebmlUint(0x9c, 0),
+      ebmlString(0x86, 'A_OPUS'),
+      ebml(0x63a2, opusHead(audio.channels, audio.sampleRate, preSkip)), // CodecPrivate
+      ebmlUint(0x56aa, Math.round((preSkip / 48000) * 1e9)), // CodecDelay (ns)
+      ebmlUint(0x56bb, OPUS_SEEK_PRE_ROLL),
+      ebml(0xe1, ebmlFloat(0xb5, audio.sampleRate), ebmlUint(0x9f, audio.channels))
+    ))
+  }
+  const tracks = ebml(0x1654ae6b, ...entries)
+
+  // Blocks in time order, video first on ties so a cluster opens on its keyframe
+  const blocks = [
+    ...video.samples.map(s => ({ track: 1, sample: s })),
+    ...(audio?.samples ?? []).map(s => ({ track: 2, sample: s }))
+  ].sort((a, b) => a.sample.timestamp - b.sample.timestamp || a.track - b.track)
+
+  const clusters: Array<{ time: number; cue: boolean; bytes: Uint8Array }> = []
+  let open: { time: number; cue: boolean; blocks: Uint8Array[] } | null = null
+  const close = () => {
+    if (open) clusters.push({ time: open.time, cue: open.cue, bytes: ebml(0x1f43b675, ebmlUint(0xe7, open.time), ...open.blocks) })
+    open = null
+  }
+  blocks.forEach(({ track, sample }) => {
+    const time = ms(sample.timestamp)
+    const keyframe = track === 1 && sample.key
+    if (!open || (keyframe && open.blocks.length) || time - open.time > MAX_CLUSTER_MS) {
+      close()
+      open = { time, cue: keyframe, blocks: [] }
+    }
+    const head = new Uint8Array(4)
+    head[0] = 0x80 | track // track number as a one-byte vint
+    new DataView(head.buffer).setInt16(1, time - open.time)
+    head[3] = sample.key || track === 2 ? 0x80 : 0
+    open.blocks.push(ebml(0xa3, head, sample.data))
+  })
+  close()
+
+  // Cue positions are fixed-width, so the Cues size is known before the offsets are
+  const cues = (base: number) => {
+    let offset = base
+    const points: Uint8Array[] = []
+    clusters.forEach(c => {
+      if (c.cue) points.push(ebml(0xbb, ebmlUint(0xb3, c.time, 8), ebml(0xb7, ebmlUint(0xf7, 1), ebmlUint(0xf1, offset, 8))))
+      offset += c.bytes.length
+    })
+    return ebml(0x1c53bb6b, ...points)
+  }
+  const cueSize = cues(0).length
+  const cueBytes = cues(info.length + tracks.length + cueSize)
+  const segmentSize = info.length + tracks.length + cueBytes.length + clusters.reduce((sum, c) => sum + c.bytes.length, 0)
+  const segment = concat([ebmlId(0x18538067), vint(segmentSize)])
+  return new Blob([header, segment, info, tracks, cueBytes, ...clusters.map(c => c.bytes)] as BlobPart[], { type: 'video/webm' })
+}
+
+// --- MP4 --------------------------------------------------------------------------------------
+// Progressive ISO BMFF with the moov in front (like ffmpeg's +faststart): one sample per chunk,
+// samples interleaved by time in a single mdat.
+
+const VIDEO_TIMESCALE = 90000
+const MOVIE_TIMESCALE = 1000
+
+const u8 = (v: number) => Uint8Array.of(v & 0xff)
+const u16 = (v: number) => uintBytes(v & 0xffff, 2)
+const u24 = (v: number) => uintBytes(v, 3)
+const u32 = (v: number) => uintBytes(v >>> 0, 4)
+const i32 = (v: number) => u32(v < 0 ? v + 2 ** 32 : v)
+const zeros = (n: number) => new Uint8Array(n)
+
+const box = (type: string, ...parts: Uint8Array[]) => {
+  const body = concat(parts)
+  return concat([u32(8 + body.length), ascii(type), body])
+}
+
+const fullBox = (type: string, version: number, flags: number, ...parts: Uint8Array[]) => box(type, u8(version), u24(flags), ...parts)
+
+const MATRIX = concat([0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000].map(u32))
+
+// MPEG-4 descriptor: tag, then a one-byte length (every descriptor here stays under 128 bytes)
+const descriptor = (tag: number, ...parts: Uint8Array[]) => {
+  const body = concat(parts)
+  return concat([u8(tag), u8(body.length), body])
+}
+
+const AAC_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350]
+
+// AAC-LC AudioSpecificConfig for encoders that don't hand one over
+const audioSpecificConfig = (sampleRate: number, channels: number) => {
+  const rate = Math.max(0, AAC_RATES.indexOf(sampleRate))
+  return Uint8Array.of((2 << 3) | (rate >> 1), ((rate & 1) << 7) | (channels << 3))
+}
+
+type Mp4Track = {
+  id: number
+  timescale: number
+  samples: MuxSample[]
+  entry: Uint8Array // stsd sample entry
+  handler: 'vide' | 'soun'
+  width?: number
+  height?: number
+}
+
+const sampleEntryBase = () => concat([zeros(6), u16(1)]) // reserved + data_reference_index
+
+const videoEntry = (video: MuxVideoTrack) => {
+  if (video.codec !== 'avc' || !video.description) throw new Error('MP4 takes H.264 video with an avcC record')
+  return box('avc1',
+    sampleEntryBase(),
+    zeros(16), // pre_defined + reserved
+    u16(video.width),
+    u16(video.height),
+    u32(0x00480000), // 72 dpi
+    u32(0x00480000),
+    u32(0),
+    u16(1), // frame_count
+    zeros(32), // compressorname
+    u16(0x0018), // depth
+    u16(0xffff), // pre_defined = -1
+    box('avcC', video.description)
+  )
+}
+
+const audioEntry = (audio: MuxAudioTrack) => {
+  const base = (type: string, ...children: Uint8Array[]) => box(type,
+    sampleEntryBase(),
+    zeros(8),
+    u16(audio.channels),
+    u16(16), // samplesize
+    zeros(4),
+    u32(audio.sampleRate * 65536),
+    ...children
+  )
+  if (audio.codec === 'opus') {
+    // dOps is OpusHead minus the magic, big-endian and with version 0
+    const dOps = concat([u8(0), u8(audio.channels), u16(opusPreSkip(audio)), u32(audio.sampleRate), u16(0), u8(0)])
+    return base('Opus', box('dOps', dOps))
+  }
+  const asc = audio.description?.length ? audio.description : audioSpecificConfig(audio.sampleRate, audio.channels)
+  const esds = fullBox('esds', 0, 0, descriptor(0x03,
+    u16(2), // ES_ID
+    u8(0),
+    descriptor(0x04,
+      u8(0x40), // objectTypeIndication: MPEG-4 audio
+      u8(0x15), // streamType audio, upstream 0, reserved 1
+      u24(0),
+      u32(0),
+      u32(0),
+      descriptor(0x05, asc)
+    ),
+    descriptor(0x06, u8(0x02))
+  ))
+  return base('mp4a', esds)
+}
+
+const runs = (values: number[]) => {
+  const out: Array<[number, number]> = []
+  values.forEach(v => {
+    const last = out[out.length - 1]
+    if (last && last[1] === v) last[0] += 1
+    else out.push([1, v])
+  })
+  return out
+}
+
+// Decode order is the encoder's output order; decode times are the sorted presentation times,
+// so reordered (B-frame) streams get a signed composition offset.
+const sampleTable = (track: Mp4Track, offsets: number[], wide: boolean) => {
+  const ticks = (us: number) => Math.round((us * track.timescale) / 1e6)
+  const pts = track.samples.map(s => ticks(s.timestamp))
+  const dts = [...pts].sort((a, b) => a - b)
+  const last = track.samples[track.samples.length - 1]
+  const deltas = dts.map((d, i) => (i < dts.length - 1 ? dts[i + 1] - d : Math.max(1, ticks(last.duration))))
+  const boxes = [
+    fullBox('stsd', 0, 0, u32(1), track.entry),
+    fullBox('stts', 0, 0, u32(runs(deltas).length), ...runs(deltas).flatMap(([count, delta]) => [u32(count), u32(delta)]))
+  ]
+  const composition = pts.map((p, i) => p - dts[i])
+  if (composition.some(c => c !== 0)) {
+    const signed = composition.some(c => c < 0)
+    boxes.push(fullBox('ctts', signed ? 1 : 0, 0, u32(runs(composition).length), ...runs(composition).flatMap(([count, offset]) => [u32(count), i32(offset)])))
+  }
+  if (track.handler === 'vide') {
+    const keys = track.samples.flatMap((s, i) => (s.key ? [i + 1] : []))
+    boxes.push(fullBox('stss', 0, 0, u32(keys.length), ...keys.map(u32)))
+  }
+  boxes.push(
+    fullBox('stsc', 0, 0, u32(1), u32(1), u32(1), u32(1)),
+    fullBox('stsz', 0, 0, u32(0), u32(track.samples.length), ...track.samples.map(s => u32(s.data.length))),
+    wide
+      ? fullBox('co64', 0, 0, u32(offsets.length), ...offsets.map(o => uintBytes(o, 8)))
+      : fullBox('stco', 0, 0, u32(offsets.length), ...offsets.map(u32))
+  )
+  return { stbl: box('stbl', ...boxes), duration: deltas.reduce((sum, d) => sum + d, 0) }
+}
+
+const trak = (track: Mp4Track, offsets: number[], wide: boolean) => {
+  const { stbl, duration } = sampleTable(track, offsets, wide)
+  const movieDuration = Math.round((duration / track.timescale) * MOVIE_TIMESCALE)
+  const video = track.handler === 'vide'
+  const tkhd = fullBox('tkhd', 0, 3,
+    u32(0), u32(0), // creation / modification
+    u32(track.id),
+    u32(0),
+    u32(movieDuration),
+    zeros(8),
+    u16(0), // layer
+    u16(0), // alternate_group
+    u16(video ? 0 : 0x0100), // volume
+    u16(0),
+    MATRIX,
+    u32((track.width ?? 0) * 65536),
+    u32((track.height ?? 0) * 65536)
+  )
+  const mdhd = fullBox('mdhd', 0, 0, u32(0), u32(0), u32(track.timescale), u32(duration), u16(0x55c4), u16(0)) // language "und"
+  const hdlr = fullBox('hdlr', 0, 0, u32(0), ascii(track.handler), zeros(12), ascii(video ? 'VideoHandler\0' : 'SoundHandler\0'))
+  const mediaHeader = video ? fullBox('vmhd', 0, 1, zeros(8)) : fullBox('smhd', 0, 0, zeros(4))
+  const dinf = box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1)))
+  return { bytes: box('trak', tkhd, box('mdia', mdhd, hdlr, box('minf', mediaHeader, dinf, stbl))), movieDuration }
+}
+
+export const muxMp4 = (video: MuxVideoTrack, audio: MuxAudioTrack | null) => {
+  const tracks: Mp4Track[] = [{ id: 1, timescale: VIDEO_TIMESCALE, samples: video.samples, entry: videoEntry(video), handler: 'vide', width: video.width, height: video.height }]
+  if (audio) tracks.push({ id: 2, timescale: audio.sampleRate, samples: audio.samples, entry: audioEntry(audio), handler: 'soun' })
+
+  // mdat order: every sample of both tracks by time
+  const order = tracks
+    .flatMap(track => track.samples.map((sample, index) => ({ track, index, sample })))
+    .sort((a, b) => a.sample.timestamp - b.sample.timestamp || a.track.id - b.track.id)
+  const mdatSize = order.reduce((sum, o) => sum + o.sample.data.length, 0)
+  const wide = mdatSize + 8 > 2 ** 32 - 1 - 16_000_000 // leave room for the moov in 32-bit offsets
+
+  const ftyp = box('ftyp', ascii('isom'), u32(0x200), ascii('isom'), ascii('iso2'), ascii(audio?.codec === 'opus' ? 'Opus' : 'mp41'), ascii('avc1'))
+  const mdatHead = wide ? concat([u32(1), ascii('mdat'), uintBytes(mdatSize + 16, 8)]) : concat([u32(mdatSize + 8), ascii('mdat')])
+
+  const moov = (base: number) => {
+    const offsets = new Map(tracks.map(t => [t.id, new Array<number>(t.samples.length)]))
+    let pos = base
+    order.forEach(o => {
+      (offsets.get(o.track.id) as number[])[o.index] = pos
+      pos += o.sample.data.length
+    })
+    const traks = tracks.map(t => trak(t, offsets.get(t.id) as number[], wide))
+    const mvhd = fullBox('mvhd', 0, 0,
+      u32(0), u32(0),
+      u32(MOVIE_TIMESCALE),
+      u32(Math.max(...traks.map(t => t.movieDuration))),
+      u32(0x00010000), // rate 1.0
+      u16(0x0100), // volume 1.0
+      zeros(10),
+      MATRIX,
+      zeros(24),
+      u32(tracks.length + 1) // next_track_ID
+    )
+    return box('moov', mvhd, ...traks.map(t => t.bytes))
+  }
+  // Offsets have a fixed width, so a first pass gives the moov size
+  const moovSize = moov(0).length
+  const moovBytes = moov(ftyp.length + moovSize + mdatHead.length)
+  return new Blob([ftyp, moovBytes, mdatHead, ...order.map(o => o.sample.data)] as BlobPart[], { type: 'video/mp4' })
+}
@@ -0,0 +1,243 @@
+import type { BeatAnalysis, ProjectState } from '../types'
+import { MARKER_TYPES, normalizeMarkers } from './markers'
+import { canDropFrame } from './timecode'
+
+// Saved projects carry a schemaVersion. Payloads from before it (the `timeline-builder-project-v1`
+// localStorage entry, JSON exports and drafts) count as version 1. Each migration lifts a
+// document one version, then the result is checked field by field against the current shape.
+// Fields this build doesn't know are kept as they are, so a file written by a newer build
+// survives a round trip through an older one.
+
+export const PROJECT_SCHEMA_VERSION = 2
+
+export type SavedProject = ProjectState & { schemaVersion: number }
+
+export type LoadOptions = { fps: number } // rate for projects saved before it moved into them
+
+export type LoadedProject = { project: ProjectState; fromVersion: number; warnings: string[] }
+
+type Doc = Record<string, unknown>
+
+const isObject = (v: unknown): v is Doc => !!v && typeof v === 'object' && !Array.isArray(v)
+
+// Analyses saved before onset/downbeat detection only carry beats + bpm
+const withBeatDefaults = (analyses: Doc) => Object.fromEntries(
+  Object.entries(analyses).map(([id, raw]) => {
+    if (!isObject(raw)) return [id, raw]
+    const a = raw as Partial<BeatAnalysis>
+    return [id, {
+      ...a,
+      assetId: a.assetId ?? id,
+      beats: a.beats ?? [],
+      bpm: a.bpm ?? 0,
+      createdAt: a.createdAt ?? Date.now(),
+      onsets: a.onsets ?? [],
+      downbeats: a.downbeats ?? [],
+      beatsPerBar: a.beatsPerBar ?? 4,
+      tempoConfidence: a.tempoConfidence ?? 0
+    }]
+  })
+)
+
+const MIGRATIONS: Record<number, (doc: Doc, opts: LoadOptions) => Doc> = {
+  // 1 -> 2: markers get ids and types, analyses the fields detection added later, and the
+  // working frame rate moves from a browser setting into the project
+  1: (doc, opts) => ({
+    ...doc,
+    markers: Array.isArray(doc.markers) && doc.markers.every(m => isObject(m) && Number.isFinite(m.time))
+      ? normalizeMarkers(doc.markers)
+      : doc.markers ?? [],
+    beatGrid: doc.beatGrid ?? null,
+    beatAnalyses: isObject(doc.beatAnalyses) ? withBeatDefaults(doc.beatAnalyses) : doc.beatAnalyses ?? {},
+    fps: doc.fps ?? opts.fps,
+    dropFrame: doc.dropFrame ?? false,
+    schemaVersion: 2
+  })
+}
+
+// One rule per known field; `optional` also lets undefined through
+type Rule = { test: (v: unknown) => boolean; expected: string; optional?: boolean }
+type Shape = Record<string, Rule>
+
+const rule = (test: Rule['test'], expected: string): Rule => ({ test, expected })
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v)
+const isString = (v: unknown) => typeof v === 'string'
+const isNumberList = (v: unknown) => Array.isArray(v) && v.every(isNumber)
+const oneOf = (values: readonly string[]) => rule(v => values.includes(v as string), `one of ${values.map(v => `"${v}"`).join(', ')}`)
+
+const ID = rule(v => typeof v === 'string' && v.length > 0, 'a non-empty string')
+const STRING = rule(isString, 'a string')
+const TIME = rule(v => isNumber(v) && v >= 0, 'a number ≥ 0')
+const BOOLEAN = rule(v => typeof v === 'boolean', 'true or false')
+const OPTIONAL = (r: Rule): Rule => ({ ...r, optional: true })
+
+const TRACK: Shape = {
+  id: ID,
+  name: STRING,
+  type: oneOf(['video', 'audio']),
+  mute: OPTIONAL(BOOLEAN),
+  solo: OPTIONAL(BOOLEAN),
+  locked: OPTIONAL(BOOLEAN),
+  height: OPTIONAL(oneOf(['normal', 'compact']))
+}
+
+const CLIP: Shape = {
+  id: ID,
+  title: STRING,
+  track: ID,
+  color: STRING,
+  start: TIME,
+  duration: rule(v => isNumber(v) && v > 0, 'a number > 0'),
+  url: OPTIONAL(STRING),
+  assetId: OPTIONAL(STRING),
+  mediaId: OPTIONAL(STRING),
+  assetType: OPTIONAL(STRING),
+  waveform: OPTIONAL(rule(v => v === null || isNumberList(v), 'a list of numbers or null')),
+  thumb: OPTIONAL(rule(v => v === null || isString(v), 'a string or null')),
+  mediaDuration: OPTIONAL(TIME),
+  mediaOffset: OPTIONAL(TIME),
+  gain: OPTIONAL(TIME),
+  fadeIn: OPTIONAL(TIME),
+  fadeOut: OPTIONAL(TIME),
+  offlineMedia: OPTIONAL(STRING)
+}
+
+const MARKER: Shape = {
+  id: ID,
+  time: TIME,
+  label: STRING,
+  color: STRING,
+  type: oneOf(MARKER_TYPES),
+  duration: OPTIONAL(TIME),
+  notes: OPTIONAL(STRING)
+}
+
+const BEAT_GRID: Shape = {
+  assetId: ID,
+  clipId: ID,
+  subdivisions: rule(v => Number.isInteger(v) && (v as number) > 0, 'a whole number > 0')
+}
+
+const ANALYSIS: Shape = {
+  assetId: ID,
+  beats: rule(isNumberList, 'a list of numbers'),
+  bpm: TIME,
+  createdAt: rule(isNumber, 'a number'),
+  onsets: rule(isNumberList, 'a list of numbers'),
+  downbeats: rule(isNumberList, 'a list of numbers'),
+  beatsPerBar: rule(v => Number.isInteger(v) && (v as number) > 0, 'a whole number > 0'),
+  tempoConfidence: rule(isNumber, 'a number'),
+  sections: OPTIONAL(rule(Array.isArray, 'a list of sections'))
+}
+
+const SECTION: Shape = {
+  start: TIME,
+  end: TIME,
+  kind: oneOf(['intro', 'build', 'drop', 'breakdown', 'outro', 'section']),
+  energy: rule(isNumber, 'a number')
+}
+
+const describe = (v: unknown) => {
+  if (v === undefined) return 'nothing'
+  if (v === null) return 'null'
+  if (Array.isArray(v)) return 'a list'
+  if (typeof v === 'object') return 'an object'
+  if (typeof v === 'string') return JSON.stringify(v.length > 24 ? `${v.slice(0, 24)}…` : v)
+  return String(v)
+}
+
+const checkShape = (value: unknown, shape: Shape, path: string, issues: string[], what: string): value is Doc => {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected ${what}, got ${describe(value)}`)
+    return false
+  }
+  Object.entries(shape).forEach(([key, r]) => {
+    const v = value[key]
+    if (v === undefined && r.optional) return
+    if (!r.test(v)) issues.push(`${path}.${key}: expected ${r.expected}, got ${describe(v)}`)
+  })
+  return true
+}
+
+const checkList = (value: unknown, shape: Shape, path: string, issues: string[], what: string) => {
+  if (!Array.isArray(value)) {
+    issues.push(`${path}: expected a list of ${what}s, got ${describe(value)}`)
+    return []
+  }
+  return value.filter((item, i) => checkShape(item, shape, `${path}[${i}]`, issues, `a ${what}`)) as Doc[]
+}
+
+const checkUnique = (items: Doc[], path: string, issues: string[]) => {
+  const seen = new Set<unknown>()
+  items.forEach(item => {
+    if (seen.has(item.id)) issues.push(`${path}: id ${describe(item.id)} is used more than once`)
+    seen.add(item.id)
+  })
+}
+
+const MAX_REPORTED = 5
+
+const validate = (doc: Doc) => {
+  const issues: string[] = []
+  const tracks = checkList(doc.tracks, TRACK, 'tracks', issues, 'track')
+  const clips = checkList(doc.clips, CLIP, 'clips', issues, 'clip')
+  checkList(doc.markers, MARKER, 'markers', issues, 'marker')
+  checkUnique(tracks, 'tracks', issues)
+  checkUnique(clips, 'clips', issues)
+  const trackIds = new Set(tracks.map(t => t.id))
+  if (Array.isArray(doc.clips)) {
+    doc.clips.forEach((c, i) => {
+      if (isObject(c) && typeof c.track === 'string' && !trackIds.has(c.track)) issues.push(`clips[${i}].track: no track with id ${describe(c.track)}`)
+    })
+  }
+  if (doc.beatGrid !== null && doc.beatGrid !== undefined) checkShape(doc.beatGrid, BEAT_GRID, 'beatGrid', issues, 'a beat grid or null')
+  if (isObject(doc.beatAnalyses)) {
+    Object.entries(doc.beatAnalyses).forEach(([id, a]) => {
+      const path = `beatAnalyses[${JSON.stringify(id)}]`
+      if (checkShape(a, ANALYSIS, path, issues, 'a beat analysis') && Array.isArray(a.sections)) {
+        a.sections.forEach((s, i) => checkShape(s, SECTION, `${path}.sections[${i}]`, issues, 'a section'))
+      }
+    })
+  } else {
+    issues.push(`beatAnalyses: expected an object keyed by asset id, got ${describe(doc.beatAnalyses)}`)
+  }
+  if (!(isNumber(doc.fps) && doc.fps > 0 && doc.fps <= 240)) issues.push(`fps: expected a frame rate between 0 and 240, got ${describe(doc.fps)}`)
+  if (!BOOLEAN.test(doc.dropFrame)) issues.push(`dropFrame: expected true or false, got ${describe(doc.dropFrame)}`)
+  return issues
+}
+
+// Migrates and validates a parsed project; throws with the offending paths when it doesn't fit
+export const loadProject = (raw: unknown, opts: LoadOptions): LoadedProject => {
+  if (!isObject(raw)) throw new Error(`Not a project: expected an object, got ${describe(raw)}`)
+  const fromVersion = raw.schemaVersion === undefined ? 1 : raw.schemaVersion
+  if (!Number.isInteger(fromVersion) || (fromVersion as number) < 1) {
+    throw new Error(`schemaVersion: expected a whole number ≥ 1, got ${describe(raw.schemaVersion)}`)
+  }
+  let doc = raw
+  for (let v = fromVersion as number; v < PROJECT_SCHEMA_VERSION; v++) doc = MIGRATIONS[v](doc, opts)
+  const issues = validate(doc)
+  if (issues.length) {
+    const more = issues.length > MAX_REPORTED ? ` (and ${issues.length - MAX_REPORTED} more)` : ''
+    throw new Error(`Invalid project: ${issues.slice(0, MAX_REPORTED).join('; ')}${more}`)
+  }
+  const warnings = (fromVersion as number) > PROJECT_SCHEMA_VERSION
+    ? [`Saved by a newer version (schema ${fromVersion}); fields this version doesn't know are kept as they are.`]
+    : []
+  const project = { ...doc, beatGrid: doc.beatGrid ?? null, dropFrame: doc.dropFrame === true && canDropFrame(doc.fps as number) } as ProjectState
+  return { project, fromVersion: fromVersion as number, warnings }
+}
+
+export const parseProjectJson = (text: string, opts: LoadOptions) => {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error('Not a JSON file')
+  }
+  return loadProject(data, opts)
+}
+
+// A newer schemaVersion carried in from the file wins, so its data isn't migrated twice
+export const versionedProject = (project: ProjectState): SavedProject => ({ schemaVersion: PROJECT_SCHEMA_VERSION, ...project })
+
+export const projectToJson = (project: ProjectState, space?: number) => JSON.stringify(versionedProject(project), null, space)
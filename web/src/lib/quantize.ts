@@ -0,0 +1,111 @@
+import type { Clip } from '../types'
+
+// One cut point and where it would go. A cut shared by two touching clips is a roll: the
+// outgoing clip's end and the incoming clip's start move together.
+export type CutMove = {
+  trackId: string
+  time: number
+  target: number
+  outgoing: string | null // clip whose end sits on the cut
+  incoming: string | null // clip whose start sits on the cut
+}
+
+export type QuantizeScope = { clipIds?: string[]; trackIds?: string[] }
+
+const EPS = 1e-3
+
+export const nearestBeat = (beats: number[], time: number) => {
+  let lo = 0
+  let hi = beats.length - 1
+  if (hi < 0) return null
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1
+    if (beats[mid] < time) lo = mid + 1
+    else hi = mid
+  }
+  const after = beats[lo]
+  const before = beats[lo - 1]
+  if (before === undefined) return after
+  return Math.abs(before - time) <= Math.abs(after - time) ? before : after
+}
+
+const hasMediaLimits = (clip: Clip) => (clip.assetType || '').startsWith('video') || (clip.assetType || '').startsWith('audio')
+
+const collectCuts = (clips: Clip[], scope: QuantizeScope) => {
+  const inScope = (c: Clip) => (scope.clipIds?.includes(c.id) ?? false) || (scope.trackIds?.includes(c.track) ?? false)
+  const cuts: Array<Omit<CutMove, 'target'>> = []
+  const byTrack = new Map<string, Clip[]>()
+  clips.forEach(c => byTrack.set(c.track, [...(byTrack.get(c.track) ?? []), c]))
+  byTrack.forEach((trackClips, trackId) => {
+    const sorted = [...trackClips].sort((a, b) => a.start - b.start)
+    const edges: Array<{ time: number; outgoing: Clip | null; incoming: Clip | null }> = []
+    sorted.forEach(c => {
+      const end = c.start + c.duration
+      const shared = edges.find(e => !e.incoming && Math.abs(e.time - c.start) < EPS)
+      if (shared) shared.incoming = c
+      else edges.push({ time: c.start, outgoing: null, incoming: c })
+      edges.push({ time: end, outgoing: c, incoming: null })
+    })
+    edges.forEach(e => {
+      if (!(e.outgoing && inScope(e.outgoing)) && !(e.incoming && inScope(e.incoming))) return
+      cuts.push({ trackId, time: e.time, outgoing: e.outgoing?.id ?? null, incoming: e.incoming?.id ?? null })
+    })
+  })
+  return cuts
+}
+
+// Apply cut moves to clips. Clips only change through their edges: a moved start shifts the
+// in-point (mediaOffset) so the frame at the clip's end stays put, exactly like a roll/trim.
+export const applyQuantize = (clips: Clip[], moves: CutMove[]) => {
+  const startTo = new Map<string, number>()
+  const endTo = new Map<string, number>()
+  moves.forEach(m => {
+    if (m.incoming) startTo.set(m.incoming, m.target)
+    if (m.outgoing) endTo.set(m.outgoing, m.target)
+  })
+  return clips.map(c => {
+    if (!startTo.has(c.id) && !endTo.has(c.id)) return c
+    const start = startTo.get(c.id) ?? c.start
+    const end = endTo.get(c.id) ?? c.start + c.duration
+    return { ...c, start, duration: end - start, mediaOffset: Math.max(0, (c.mediaOffset ?? 0) + (start - c.start)) }
+  })
+}
+
+// A move is kept only if every clip it touches keeps at least `minDuration`, stays inside its
+// source media and doesn't run into a neighbour it didn't overlap before; offending moves are
+// dropped until the plan is stable.
+export const planQuantize = (clips: Clip[], scope: QuantizeScope, beats: number[], tolerance: number, minDuration: number): CutMove[] => {
+  const sortedBeats = [...beats].sort((a, b) => a - b)
+  let moves: CutMove[] = collectCuts(clips, scope).flatMap(cut => {
+    const target = nearestBeat(sortedBeats, cut.time)
+    if (target === null) return []
+    const shift = target - cut.time
+    if (Math.abs(shift) < 1e-4 || Math.abs(shift) > tolerance) return []
+    return [{ ...cut, target: Number(target.toFixed(4)) }]
+  })
+
+  const byId = new Map(clips.map(c => [c.id, c]))
+  const overlap = (a: Clip, b: Clip) => Math.max(0, Math.min(a.start + a.duration, b.start + b.duration) - Math.max(a.start, b.start))
+  // Every pass drops at least one move, so this ends
+  for (;;) {
+    const next = applyQuantize(clips, moves)
+    const bad = new Set<string>()
+    next.forEach(c => {
+      const orig = byId.get(c.id)
+      if (!orig || c === orig) return
+      const tooShort = c.duration < minDuration - 1e-6
+      const beforeMedia = hasMediaLimits(orig) && (orig.mediaOffset ?? 0) + (c.start - orig.start) < -1e-6
+      const pastMedia = hasMediaLimits(orig) && orig.mediaDuration !== undefined && (c.mediaOffset ?? 0) + c.duration > orig.mediaDuration + 1e-6
+      if (tooShort || beforeMedia || pastMedia) bad.add(c.id)
+    })
+    // A cut moved past a clip that stays put (out of scope, or its own move was dropped)
+    const moved = next.filter(c => c !== byId.get(c.id))
+    moved.forEach(c => next.forEach(other => {
+      if (other.id === c.id || other.track !== c.track) return
+      const before = overlap(byId.get(c.id) as Clip, byId.get(other.id) as Clip)
+      if (overlap(c, other) > before + 1e-6) bad.add(c.id)
+    }))
+    if (!bad.size) return moves
+    moves = moves.filter(m => !(m.incoming && bad.has(m.incoming)) && !(m.outgoing && bad.has(m.outgoing)))
+  }
+}
@@ -0,0 +1,380 @@
+import type { Clip, TrackState } from '../types'
+import type { BurnInSettings, ClipSegment, OverlayPosition } from './burnIn'
+import { fpsRational, secondsToTc } from './timecode'
+
+export type RenderFormat = 'mp4' | 'webm'
+export type VideoCodec = 'h264' | 'vp9' | 'vp8'
+export type AudioCodec = 'aac' | 'opus' | 'vorbis'
+
+export type RenderSettings = {
+  format: RenderFormat
+  width: number
+  height: number
+  fps: number
+  videoCodec: VideoCodec
+  rateControl: 'crf' | 'bitrate'
+  crf: number
+  videoKbps: number // target in bitrate mode, ceiling for VP8 in CRF mode
+  audioCodec: AudioCodec
+  audioKbps: number
+  gainDb?: number // master gain after the mix, e.g. from loudness normalization
+  burnIn?: BurnInPlan
+}
+
+// `timecodeStart` is the sequence time of the first programme frame; a slate is prepended before it
+export type BurnInPlan = { settings: BurnInSettings; timecodeStart: number; dropFrame?: boolean; clipNames: ClipSegment[]; slate: string[] | null }
+
+// Burn-in text is sized off the frame height so the monitor preview and renders line up
+export const BURN_IN_TEXT = 0.04 // font size / frame height
+export const BURN_IN_MARGIN = 0.05 // safe-area inset / frame height
+export const BURN_IN_FONT_URL = '/fonts/SourceCodePro-Regular.ttf'
+
+const SAMPLE_RATE = 48000
+const DEFAULT_FADE = 0.12 // playback's default when a clip has no fade set
+
+// Same rule as playback: locked tracks are skipped, solo wins over mute.
+export const trackIsLive = (track: TrackState | undefined, anySolo: boolean) => {
+  if (!track || track.locked) return false
+  if (anySolo) return track.solo === true
+  return !track.mute
+}
+
+export const contentDuration = (clips: Clip[]) => clips.reduce((end, c) => Math.max(end, c.start + c.duration), 0)
+
+// Clips cut to [from, to) and moved so `from` lands on zero; the cut-off head moves into mediaOffset.
+export const clipsInRange = (clips: Clip[], from: number, to: number): Clip[] => clips
+  .filter(c => c.start < to && c.start + c.duration > from)
+  .map(c => {
+    const head = Math.max(0, from - c.start)
+    const tail = Math.max(0, c.start + c.duration - to)
+    return { ...c, start: Math.max(0, c.start - from), duration: c.duration - head - tail, mediaOffset: (c.mediaOffset ?? 0) + head }
+  })
+
+export const kindOf = (clip: Clip) => {
+  const type = clip.assetType || ''
+  if (type.startsWith('audio')) return 'audio'
+  if (type.startsWith('video')) return 'video'
+  if (type.startsWith('image')) return 'image'
+  return null
+}
+
+const extensionFor = (clip: Clip) => {
+  const fromUrl = clip.url?.split(/[?#]/)[0].match(/\.([a-z0-9]{2,4})$/i)?.[1]
+  if (fromUrl && !clip.url?.startsWith('blob:')) return fromUrl.toLowerCase()
+  const subtype = (clip.assetType || '').split('/')[1] || 'bin'
+  return ({ jpeg: 'jpg', 'x-wav': 'wav', wave: 'wav', mpeg: clip.assetType?.startsWith('audio') ? 'mp3' : 'mpg', quicktime: 'mov' } as Record<string, string>)[subtype] ?? subtype
+}
+
+// Clips that make it into a render over [0, duration), in overlay order: track order, then start.
+export const liveRenderClips = (tracks: TrackState[], clips: Clip[], duration: number) => {
+  const anySolo = tracks.some(t => t.solo)
+  const trackOrder = new Map(tracks.map((t, i) => [t.id, i]))
+  const trackById = new Map(tracks.map(t => [t.id, t]))
+  const live = clips
+    .filter(c => c.url && kindOf(c) && trackIsLive(trackById.get(c.track), anySolo) && c.duration > 0 && c.start < duration)
+    .sort((a, b) => (trackOrder.get(a.track) ?? 0) - (trackOrder.get(b.track) ?? 0) || a.start - b.start)
+  return {
+    visual: live.filter(c => kindOf(c) !== 'audio' && trackById.get(c.track)?.type === 'video'),
+    audible: live.filter(c => kindOf(c) === 'audio' || kindOf(c) === 'video')
+  }
+}
+
+export type RenderInput = { name: string; url: string } | { name: string; text: string } // text: written as-is (drawtext textfiles)
+
+export type RenderJob = {
+  inputs: RenderInput[] // files to stage in the ffmpeg FS, by name
+  args: string[]
+  output: string
+  duration: number
+  mime: string
+}
+
+const n = (v: number) => Number(v.toFixed(4)).toString()
+
+const BURN_IN_FONT = 'burnin.ttf'
+
+// drawtext/overlay position expressions; `slot` stacks several lines that share a corner
+const placeText = (position: OverlayPosition, slot: number, size: number, margin: number) => {
+  const line = Math.round(size * 1.5)
+  const x = position.endsWith('left') ? `${margin}` : position.endsWith('right') ? `w-tw-${margin}` : '(w-tw)/2'
+  const y = position.startsWith('top') ? `${margin + slot * line}` : position.startsWith('bottom') ? `h-${margin + size + slot * line}` : `(h-${size})/2+${slot * line}`
+  return `x=${x}:y=${y}`
+}
+
+const placeOverlay = (position: OverlayPosition, margin: number) => {
+  const x = position.endsWith('left') ? `${margin}` : position.endsWith('right') ? `main_w-overlay_w-${margin}` : '(main_w-overlay_w)/2'
+  const y = position.startsWith('top') ? `${margin}` : position.startsWith('bottom') ? `main_h-overlay_h-${margin}` : '(main_h-overlay_h)/2'
+  return `x=${x}:y=${y}`
+}
+
+// Opus is swapped for the container's other codec: libopus in the 0.12 wasm core faults on encode
+const FFMPEG_AUDIO: Record<RenderFormat, Record<AudioCodec, string>> = {
+  mp4: { aac: 'aac', opus: 'aac', vorbis: 'aac' },
+  webm: { aac: 'libvorbis', opus: 'libvorbis', vorbis: 'libvorbis' }
+}
+
+// Encoder arguments for the settings, plus the codec names for the job's log and badge
+export const ffmpegCodecs = (settings: RenderSettings) => {
+  const { videoCodec, rateControl, crf, videoKbps, audioKbps, format } = settings
+  const crfMode = rateControl === 'crf'
+  const video = videoCodec === 'h264'
+    ? ['-c:v', 'libx264', '-preset', 'ultrafast', ...(crfMode ? ['-crf', String(crf)] : ['-b:v', `${videoKbps}k`])]
+    : [
+        '-c:v', videoCodec === 'vp9' ? 'libvpx-vp9' : 'libvpx', '-deadline', 'realtime', '-cpu-used', '8',
+        // libvpx CRF: VP9 runs unconstrained with -b:v 0, VP8 needs a ceiling
+        ...(crfMode ? ['-crf', String(crf), '-b:v', videoCodec === 'vp9' ? '0' : `${videoKbps}k`] : ['-b:v', `${videoKbps}k`])
+      ]
+  const audio = FFMPEG_AUDIO[format][settings.audioCodec]
+  return {
+    args: [...video, '-pix_fmt', 'yuv420p', '-c:a', audio, '-b:a', `${audioKbps}k`, ...(format === 'mp4' ? ['-movflags', '+faststart'] : [])],
+    label: `${video[1]} + ${audio}`
+  }
+}
+
+// Build the ffmpeg command for a timeline: every live video/image clip is trimmed, shifted to
+// its start and overlaid on a black canvas in track order (later tracks on top); every live
+// audio clip, and the sound of every live video clip, is trimmed, gained, faded, delayed and
+// mixed. A filter graph can't ask whether a file has a sound track, so `soundingVideo` names the
+// video clips that do; without it every video clip is taken to have one.
+export const buildRenderJob = (
+  tracks: TrackState[],
+  clips: Clip[],
+  settings: RenderSettings,
+  duration = contentDuration(clips),
+  soundingVideo?: ReadonlySet<string>
+): RenderJob => {
+  const live = liveRenderClips(tracks, clips, duration)
+  const visual = live.visual
+  const audible = live.audible.filter(c => kindOf(c) === 'audio' || !soundingVideo || soundingVideo.has(c.id))
+
+  const files = new Map<string, string>()
+  const inputs: RenderInput[] = []
+  const stage = (clip: Clip) => {
+    const url = clip.url as string
+    if (!files.has(url)) {
+      const name = `in${files.size}.${extensionFor(clip)}`
+      files.set(url, name)
+      inputs.push({ name, url })
+    }
+    return files.get(url) as string
+  }
+
+  const { width: W, height: H, fps } = settings
+  const args: string[] = []
+  const filters: string[] = [`color=c=black:s=${W}x${H}:r=${fpsRational(fps)}:d=${n(duration)},format=yuv420p[base]`]
+  let inputIndex = 0
+  let lastVideo = 'base'
+
+  visual.forEach((clip, i) => {
+    const name = stage(clip)
+    const offset = Math.max(0, clip.mediaOffset ?? 0)
+    const fadeIn = Math.max(0, clip.fadeIn ?? 0)
+    const fadeOut = Math.max(0, clip.fadeOut ?? 0)
+    if (kindOf(clip) === 'image') args.push('-loop', '1', '-framerate', fpsRational(fps), '-t', n(clip.duration), '-i', name)
+    else args.push('-ss', n(offset), '-t', n(clip.duration), '-i', name)
+    const chain = [
+      `fps=${fpsRational(fps)}`,
+      `scale=${W}:${H}:force_original_aspect_ratio=decrease`,
+      `pad=${W}:${H}:(ow-iw)/2:(oh-ih)/2:color=black@0`,
+      'setsar=1',
+      'format=yuva420p'
+    ]
+    if (fadeIn > 0) chain.push(`fade=t=in:st=0:d=${n(fadeIn)}:alpha=1`)
+    if (fadeOut > 0) chain.push(`fade=t=out:st=${n(Math.max(0, clip.duration - fadeOut))}:d=${n(fadeOut)}:alpha=1`)
+    chain.push(`setpts=PTS-STARTPTS+${n(clip.start)}/TB`)
+    filters.push(`[${inputIndex}:v]${chain.join(',')}[v${i}]`)
+    const end = clip.start + clip.duration
+    filters.push(`[${lastVideo}][v${i}]overlay=eof_action=pass:enable='between(t,${n(clip.start)},${n(end)})'[ov${i}]`)
+    lastVideo = `ov${i}`
+    inputIndex += 1
+  })
+
+  const burnIn = settings.burnIn
+  const watermark = burnIn?.settings.watermark
+  const watermarkInput = inputIndex
+  if (watermark?.url) {
+    const name = `wm.${watermark.name.match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase() ?? 'png'}`
+    inputs.push({ name, url: watermark.url })
+    args.push('-i', name) // one frame; the overlay repeats it
+    inputIndex += 1
+  }
+
+  const mixInputs: string[] = []
+  audible.forEach((clip, i) => {
+    const name = stage(clip)
+    const offset = Math.max(0, clip.mediaOffset ?? 0)
+    const dur = clip.mediaDuration !== undefined ? Math.max(0, Math.min(clip.duration, clip.mediaDuration - offset)) : clip.duration
+    if (dur <= 0) return
+    args.push('-i', name)
+    const fadeIn = Math.min(Math.max(0, clip.fadeIn ?? DEFAULT_FADE), dur * 0.6)
+    const fadeOut = Math.min(Math.max(0, clip.fadeOut ?? DEFAULT_FADE), dur)
+    const delay = Math.round(clip.start * 1000)
+    const chain = [
+      `atrim=start=${n(offset)}:duration=${n(dur)}`,
+      'asetpts=PTS-STARTPTS',
+      `aresample=${SAMPLE_RATE}`,
+      'aformat=channel_layouts=stereo',
+      `volume=${n(Math.max(0, clip.gain ?? 1))}`
+    ]
+    if (fadeIn > 0) chain.push(`afade=t=in:st=0:d=${n(fadeIn)}`)
+    if (fadeOut > 0) chain.push(`afade=t=out:st=${n(Math.max(0, dur - fadeOut))}:d=${n(fadeOut)}`)
+    if (delay > 0) chain.push(`adelay=${delay}|${delay}`)
+    filters.push(`[${inputIndex}:a]${chain.join(',')}[a${i}]`)
+    mixInputs.push(`[a${i}]`)
+    inputIndex += 1
+  })
+
+  // Burn-ins go on the finished picture; the slate is cut in front of it and the audio waits for it
+  const slate = burnIn?.slate ? Math.max(0, burnIn.settings.slateSeconds) : 0
+  let program = lastVideo
+  if (burnIn) {
+    const b = burnIn.settings
+    const size = Math.round(H * BURN_IN_TEXT)
+    const margin = Math.round(H * BURN_IN_MARGIN)
+    const text = `fontfile=${BURN_IN_FONT}:fontsize=${size}:fontcolor=white:box=1:boxcolor=black@0.55:boxborderw=${Math.round(size * 0.25)}`
+    const slots = new Map<OverlayPosition, number>()
+    const place = (position: OverlayPosition) => {
+      const slot = slots.get(position) ?? 0
+      slots.set(position, slot + 1)
+      return placeText(position, slot, size, margin)
+    }
+    const draw: string[] = []
+    if (b.timecode) draw.push(`drawtext=${text}:timecode='${secondsToTc(burnIn.timecodeStart, fps, burnIn.dropFrame).replace(/:/g, '\\:')}':rate=${fpsRational(fps)}:${place(b.timecodePosition)}`)
+    if (b.clipName) {
+      const at = place(b.clipNamePosition)
+      const textFiles = new Map<string, string>()
+      burnIn.clipNames.forEach(seg => {
+        if (!textFiles.has(seg.title)) {
+          textFiles.set(seg.title, `name${textFiles.size}.txt`)
+          inputs.push({ name: textFiles.get(seg.title) as string, text: seg.title })
+        }
+        draw.push(`drawtext=${text}:textfile=${textFiles.get(seg.title)}:expansion=none:${at}:enable='gte(t,${n(seg.from)})*lt(t,${n(seg.to)})'`)
+      })
+    }
+    if (watermark?.url) {
+      filters.push(`[${watermarkInput}:v]scale=${Math.max(2, Math.round(W * watermark.scale))}:-1,format=rgba,colorchannelmixer=aa=${n(watermark.opacity)}[wm]`)
+      filters.push(`[${program}][wm]overlay=${placeOverlay(watermark.position, margin)}:eof_action=repeat[wmv]`)
+      program = 'wmv'
+    }
+    if (draw.length) {
+      filters.push(`[${program}]${draw.join(',')}[burn]`)
+      program = 'burn'
+    }
+    if (draw.length || slate > 0) inputs.push({ name: BURN_IN_FONT, url: BURN_IN_FONT_URL })
+  }
+  if (burnIn?.slate && slate > 0) {
+    const size = Math.round(H * BURN_IN_TEXT)
+    const heights = burnIn.slate.map((_, i) => (i === 0 ? Math.round(size * 1.6) : size))
+    const gap = Math.round(size * 0.8)
+    let y = Math.round((H - heights.reduce((a, h) => a + h, 0) - gap * (heights.length - 1)) / 2)
+    const lines = burnIn.slate.map((line, i) => {
+      const name = `slate${i}.txt`
+      inputs.push({ name, text: line })
+      const drawn = `drawtext=fontfile=${BURN_IN_FONT}:textfile=${name}:expansion=none:fontsize=${heights[i]}:fontcolor=${i === 0 ? 'white' : '0xcbd5e1'}:x=(w-tw)/2:y=${y}`
+      y += heights[i] + gap
+      return drawn
+    })
+    filters.push(`color=c=black:s=${W}x${H}:r=${fpsRational(fps)}:d=${n(slate)},format=yuv420p,setsar=1,${lines.join(',')}[slate]`)
+    filters.push(`[${program}]format=yuv420p,setsar=1[prog]`, '[slate][prog]concat=n=2:v=1:a=0[vout]')
+  } else {
+    filters.push(`[${program}]null[vout]`)
+  }
+
+  if (mixInputs.length) {
+    const master = settings.gainDb ? `,volume=${n(settings.gainDb)}dB` : ''
+    const lead = slate > 0 ? `,adelay=${Math.round(slate * 1000)}:all=1` : ''
+    filters.push(`${mixInputs.join('')}amix=inputs=${mixInputs.length}:duration=longest:dropout_transition=0:normalize=0${master}${lead},apad[aout]`)
+  } else {
+    filters.push(`anullsrc=r=${SAMPLE_RATE}:cl=stereo[aout]`)
+  }
+
+  const output = `out.${settings.format}`
+  args.push(
+    '-filter_complex', filters.join(';'),
+    '-map', '[vout]',
+    '-map', '[aout]',
+    '-t', n(duration + slate),
+    '-r', fpsRational(fps),
+    ...ffmpegCodecs(settings).args,
+    output
+  )
+  return { inputs, args, output, duration: duration + slate, mime: settings.format === 'mp4' ? 'video/mp4' : 'video/webm' }
+}
+
+// ffmpeg logs "time=00:00:03.20" while encoding; that over the duration is real progress.
+export const parseProgressTime = (line: string) => {
+  const match = line.match(/time=\s*(-?\d+):(\d{2}):(\d{2}(?:\.\d+)?)/)
+  if (!match) return null
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3])
+}
+
+const CORE_VERSION = '0.12.10'
+
+// The cached core in public/ffmpeg-core (npm run cache:ffmpeg) is used when present.
+const coreUrls = async () => {
+  const local = { coreURL: '/ffmpeg-core/ffmpeg-core.js', wasmURL: '/ffmpeg-core/ffmpeg-core.wasm' }
+  try {
+    const res = await fetch(local.wasmURL, { method: 'HEAD' })
+    if (res.ok) return { ...local, source: 'local' as const }
+  } catch {
+    /* fall through to the CDN copy */
+  }
+  const cdn = `https://unpkg.com/@ffmpeg/core@${CORE_VERSION}/dist/esm`
+  return { coreURL: `${cdn}/ffmpeg-core.js`, wasmURL: `${cdn}/ffmpeg-core.wasm`, source: 'cdn' as const }
+}
+
+export type RenderRunOpts = {
+  signal?: AbortSignal
+  onProgress?: (ratio: number, stage: string) => void
+  onLog?: (line: string) => void
+}
+
+const abortError = () => new DOMException('Render cancelled', 'AbortError')
+
+export const runRenderJob = async (job: RenderJob, opts: RenderRunOpts = {}) => {
+  const { signal, onProgress, onLog } = opts
+  if (signal?.aborted) throw abortError()
+  const { FFmpeg } = await import('@ffmpeg/ffmpeg')
+  const ffmpeg = new FFmpeg()
+  // terminate() is the only way to stop a running exec; it rejects whatever is pending
+  const stop = () => ffmpeg.terminate()
+  signal?.addEventListener('abort', stop, { once: true })
+  try {
+    onProgress?.(0, 'Loading ffmpeg.wasm…')
+    const { coreURL, wasmURL, source } = await coreUrls()
+    onLog?.(`Loading ffmpeg core (${source})`)
+    await ffmpeg.load({ coreURL, wasmURL })
+
+    for (let i = 0; i < job.inputs.length; i++) {
+      const input = job.inputs[i]
+      onProgress?.(0.02 + (i / Math.max(1, job.inputs.length)) * 0.08, `Staging ${input.name}…`)
+      if ('text' in input) {
+        await ffmpeg.writeFile(input.name, input.text)
+        continue
+      }
+      const res = await fetch(input.url, { signal })
+      if (!res.ok) throw new Error(`Could not fetch ${input.url} (${res.status})`)
+      await ffmpeg.writeFile(input.name, new Uint8Array(await res.arrayBuffer()))
+    }
+
+    ffmpeg.on('log', ({ message }) => {
+      onLog?.(message)
+      const t = parseProgressTime(message)
+      if (t !== null && job.duration > 0) onProgress?.(0.1 + 0.88 * Math.min(1, Math.max(0, t / job.duration)), 'Encoding…')
+    })
+    onLog?.(`ffmpeg ${job.args.join(' ')}`)
+    onProgress?.(0.1, 'Encoding…')
+    const code = await ffmpeg.exec(job.args)
+    if (code !== 0) throw new Error(`ffmpeg exited with code ${code}`)
+    const data = await ffmpeg.readFile(job.output)
+    onProgress?.(1, 'Done')
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data
+    return new Blob([bytes as BlobPart], { type: job.mime })
+  } catch (err) {
+    if (signal?.aborted) throw abortError()
+    throw err
+  } finally {
+    signal?.removeEventListener('abort', stop)
+    if (!signal?.aborted) ffmpeg.terminate()
+  }
+}
@@ -0,0 +1,208 @@
+import type { Clip, TrackState } from '../types'
+import { isAbortError } from './analysisPool'
+import type { AnalysisPool } from './analysisPool'
+import { clipNameSegments, hasBurnIn, slateLines } from './burnIn'
+import { renderFileName, renderSettingsFor } from './exportPresets'
+import type { ExportPreset } from './exportPresets'
+import { LOUDNESS_TARGETS, formatLufs, normalizationGainDb } from './loudness'
+import type { LoudnessTarget } from './loudness'
+import { liveAudioClips, renderMixdown } from './mixdown'
+import type { ScheduledClip } from './mixdown'
+import { buildRenderJob, clipsInRange, ffmpegCodecs, kindOf, runRenderJob } from './render'
+import { describePlan, planWebCodecs, renderWithWebCodecs } from './webcodecs'
+
+export type QueueJobStatus = 'queued' | 'running' | 'done' | 'error' | 'cancelled'
+
+export type QueueJobOutput = { url: string; name: string; size: number }
+
+export type QueueJobLoudness = { measured: number; truePeak: number; gainDb: number; target: LoudnessTarget }
+
+// 'auto' tries WebCodecs first (on the main thread) and falls back to ffmpeg.wasm; 'ffmpeg', the
+// default, keeps the encode in ffmpeg.wasm's worker
+export type RenderEncoder = 'auto' | 'ffmpeg'
+export type RenderBackend = { kind: 'webcodecs' | 'ffmpeg'; codecs: string }
+
+// A job renders a frozen copy of the timeline, so editing (or loading another draft) while the
+// queue runs never changes what comes out.
+export type QueueJob = {
+  id: string
+  label: string
+  preset: ExportPreset // frozen with the job; loudness is measured on an offline mixdown and applied as one static gain
+  source: string // "Current timeline" or the draft's name
+  range: { from: number; to: number }
+  fps: number
+  dropFrame?: boolean // timecode burn-ins and slate at 29.97/59.94
+  project?: string // for the slate and the file name
+  encoder?: RenderEncoder // video jobs only
+  backend?: RenderBackend // what actually encoded (or is encoding) the file
+  snapshot: { tracks: TrackState[]; clips: Clip[] }
+  status: QueueJobStatus
+  progress: number // 0..1
+  stage: string
+  log: string[]
+  error?: string
+  output?: QueueJobOutput
+  loudness?: QueueJobLoudness
+  createdAt: number
+  finishedAt?: number
+}
+
+export type NewQueueJob = Pick<QueueJob, 'preset' | 'source' | 'range' | 'fps' | 'dropFrame' | 'project' | 'encoder' | 'snapshot'>
+
+const LOG_LINES = 200
+
+let jobSeq = 0
+
+export const createQueueJob = (spec: NewQueueJob): QueueJob => ({
+  ...spec,
+  id: `rj-${Date.now().toString(36)}-${(jobSeq++).toString(36)}`,
+  label: spec.preset.name,
+  status: 'queued',
+  progress: 0,
+  stage: 'Queued',
+  log: [],
+  createdAt: Date.now()
+})
+
+export const appendLog = (log: string[], line: string) => [...log.slice(-(LOG_LINES - 1)), line]
+
+// Queued jobs only trade places with other queued jobs; running/finished ones stay put.
+export const moveJob = (jobs: QueueJob[], id: string, delta: -1 | 1) => {
+  const idx = jobs.findIndex(j => j.id === id)
+  if (idx < 0 || jobs[idx].status !== 'queued') return jobs
+  let target = idx + delta
+  while (target >= 0 && target < jobs.length && jobs[target].status !== 'queued') target += delta
+  if (target < 0 || target >= jobs.length) return jobs
+  const next = [...jobs]
+  ;[next[idx], next[target]] = [next[target], next[idx]]
+  return next
+}
+
+export const retryJob = (job: QueueJob): QueueJob => ({
+  ...job,
+  status: 'queued',
+  progress: 0,
+  stage: 'Queued',
+  log: [],
+  error: undefined,
+  output: undefined,
+  loudness: undefined,
+  backend: undefined,
+  finishedAt: undefined
+})
+
+export const outputName = (job: QueueJob) => renderFileName(job.preset.filename, {
+  project: job.project ?? '',
+  preset: job.preset,
+  source: job.source,
+  range: job.range,
+  fps: job.fps,
+  date: new Date(job.createdAt)
+})
+
+export type QueueRunDeps = {
+  signal: AbortSignal
+  pool: AnalysisPool
+  loadBuffers: (clips: Clip[]) => Promise<ScheduledClip[]>
+  onProgress: (ratio: number, stage: string) => void
+  onLog: (line: string) => void
+  onLoudness: (loudness: QueueJobLoudness) => void
+  onBackend: (backend: RenderBackend) => void
+}
+
+const MEASURE_SHARE = 0.15 // progress given to the loudness pass (and the WebCodecs mixdown) of video jobs
+const MIX_RATE = 48000
+
+export const runQueueJob = async (job: QueueJob, deps: QueueRunDeps): Promise<Blob> => {
+  const { signal, pool, loadBuffers, onProgress, onLog, onLoudness, onBackend } = deps
+  const { tracks, clips } = job.snapshot
+  const { from, to } = job.range
+  const { preset } = job
+  const normalize = LOUDNESS_TARGETS.find(t => t.id === preset.normalize)
+  if (!(to > from)) throw new Error('The range is empty')
+
+  // Clips whose sound decoded; the ffmpeg graph only mixes video clips that have a sound track
+  let sounding: Set<string> | null = null
+  const mixdown = async (sampleRate: number, share: number) => {
+    onProgress(0, 'Decoding audio…')
+    const scheduled = await loadBuffers(liveAudioClips(tracks, clips))
+    sounding = new Set(scheduled.map(s => s.clip.id))
+    onLog(`Mixing ${scheduled.length} audio clip(s) over ${from.toFixed(2)}–${to.toFixed(2)}s at ${sampleRate} Hz`)
+    return renderMixdown(scheduled, { from, to, sampleRate, signal, onProgress: ratio => onProgress(ratio * share, 'Mixing down…') })
+  }
+
+  const loudnessGain = async (mix: AudioBuffer) => {
+    const target = normalize
+    if (!target) return 0
+    // Copies: the AudioBuffer keeps its own storage, the copies are transferred to the worker
+    const channels = [mix.getChannelData(0).slice(), mix.getChannelData(1).slice()]
+    const measured = await pool.run('loudness', { channels, sampleRate: mix.sampleRate }, { signal })
+    const gainDb = normalizationGainDb(measured, target)
+    onLoudness({ measured: measured.integrated, truePeak: measured.truePeak, gainDb, target })
+    onLog(`Measured ${formatLufs(measured.integrated)}, true peak ${formatLufs(measured.truePeak, 'dBTP')}; gain ${gainDb >= 0 ? '+' : ''}${gainDb.toFixed(2)} dB for ${target.lufs} LUFS / ${target.truePeak} dBTP`)
+    if (gainDb < target.lufs - measured.integrated - 0.05) onLog('True-peak ceiling limits the gain; the result stays under target')
+    return gainDb
+  }
+
+  if (preset.kind === 'audio') {
+    const settings = preset.mixdown
+    const mix = await mixdown(settings.sampleRate, 0.7)
+    onProgress(0.7, 'Measuring loudness…')
+    const gainDb = await loudnessGain(mix)
+    onProgress(0.8, `Encoding ${settings.format.toUpperCase()}…`)
+    const channels = [mix.getChannelData(0).slice(), mix.getChannelData(1).slice()]
+    const blob = await pool.run('encode', { channels, sampleRate: settings.sampleRate, format: settings.format, bitDepth: settings.bitDepth, gain: 10 ** (gainDb / 20) }, { signal })
+    onLog(`Encoded ${settings.format.toUpperCase()} ${settings.bitDepth}-bit, ${blob.size} bytes`)
+    return blob
+  }
+
+  const watermark = preset.burnIn.watermark
+  if (watermark && !watermark.url) throw new Error(`The watermark image "${watermark.name}" is not in the media pool; pick it again under Burn-ins`)
+  let gainDb = 0
+  let mix: AudioBuffer | null = null
+  if (normalize) {
+    mix = await mixdown(MIX_RATE, MEASURE_SHARE * 0.7)
+    onProgress(MEASURE_SHARE * 0.7, 'Measuring loudness…')
+    gainDb = await loudnessGain(mix)
+  }
+  const ranged = clipsInRange(clips, from, to)
+  const burnIn = hasBurnIn(preset.burnIn)
+    ? {
+        settings: preset.burnIn,
+        timecodeStart: from,
+        dropFrame: job.dropFrame,
+        clipNames: preset.burnIn.clipName ? clipNameSegments(tracks, ranged, to - from) : [],
+        slate: preset.burnIn.slate ? slateLines({ project: job.project ?? '', date: new Date(job.createdAt).toLocaleString(), duration: to - from, preset: job.label, range: job.range }, job.fps, job.dropFrame) : null
+      }
+    : undefined
+  const settings = { ...renderSettingsFor(preset, job.fps), gainDb, burnIn }
+
+  // WebCodecs encodes the playback mixdown, so the loudness pass's mix is reused when there is one
+  const plan = job.encoder === 'auto' ? await planWebCodecs(settings) : null
+  if (plan) {
+    onBackend({ kind: 'webcodecs', codecs: describePlan(plan) })
+    try {
+      const audio = mix ?? await mixdown(MIX_RATE, MEASURE_SHARE)
+      return await renderWithWebCodecs(tracks, ranged, settings, to - from, audio, plan, {
+        signal,
+        onProgress: (ratio, stage) => onProgress(MEASURE_SHARE + ratio * (1 - MEASURE_SHARE), stage),
+        onLog
+      })
+    } catch (err) {
+      if (signal.aborted || isAbortError(err)) throw err
+      onLog(`WebCodecs render failed (${err instanceof Error ? err.message : String(err)}); falling back to ffmpeg.wasm`)
+    }
+  } else if (job.encoder === 'auto') {
+    onLog(`WebCodecs can't encode ${preset.kind.toUpperCase()} in this browser; using ffmpeg.wasm`)
+  }
+
+  onBackend({ kind: 'ffmpeg', codecs: ffmpegCodecs(settings).label })
+  const share = normalize ? MEASURE_SHARE : 0
+  if (!sounding) {
+    onProgress(0, 'Decoding audio…')
+    const videos = liveAudioClips(tracks, clips).filter(c => kindOf(c) === 'video')
+    sounding = new Set((await loadBuffers(videos)).map(s => s.clip.id))
+  }
+  const render = buildRenderJob(tracks, ranged, settings, to - from, sounding)
+  return runRenderJob(render, { signal, onProgress: (ratio, stage) => onProgress(share + ratio * (1 - share), stage), onLog })
+}
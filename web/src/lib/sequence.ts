@@ -0,0 +1,50 @@
+import type { Clip, Marker } from '../types'
+import { contentDuration } from './render'
+
+// The sequence is as long as its content (clips and markers) plus editable headroom to drop
+// new material into; the ruler picks its tick spacing from the zoom level.
+
+export const DEFAULT_HEADROOM = 10 // seconds
+export const MIN_SEQUENCE = 10
+
+export const sequenceContentEnd = (clips: Clip[], markers: Marker[]) => markers.reduce(
+  (end, m) => Math.max(end, m.time + Math.max(0, m.duration ?? 0)),
+  contentDuration(clips)
+)
+
+export const sequenceDuration = (clips: Clip[], markers: Marker[], headroom: number) => Math.max(
+  MIN_SEQUENCE,
+  sequenceContentEnd(clips, markers) + Math.max(0, headroom)
+)
+
+export type RulerTick = { time: number; label: string | null }
+
+// Labelled steps; each one's minor step is the previous entry that still has room
+const TICK_STEPS = [0.1, 0.25, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300, 600, 900, 1800, 3600, 7200]
+const LABEL_PX = 64
+const MINOR_PX = 12
+
+export const formatRulerTime = (t: number, step: number) => {
+  const rounded = Math.round(t * 1000) / 1000
+  if (rounded < 60 && step < 60) return step < 1 ? String(Number(rounded.toFixed(2))) : rounded.toFixed(0)
+  const h = Math.floor(rounded / 3600)
+  const m = Math.floor((rounded % 3600) / 60)
+  const s = Math.round(rounded % 60)
+  const mm = h ? String(m).padStart(2, '0') : String(m)
+  return `${h ? `${h}:` : ''}${mm}:${String(s).padStart(2, '0')}`
+}
+
+// Ticks over [from, to] only, so an hour at high zoom is still a few hundred elements
+export const rulerTicks = (from: number, to: number, pxPerSec: number): RulerTick[] => {
+  const major = TICK_STEPS.find(s => s * pxPerSec >= LABEL_PX) ?? TICK_STEPS[TICK_STEPS.length - 1]
+  const minor = [...TICK_STEPS].reverse().find(s => s < major && Math.abs(major / s - Math.round(major / s)) < 1e-6 && s * pxPerSec >= MINOR_PX) ?? major
+  const ticks: RulerTick[] = []
+  const first = Math.max(0, Math.ceil(from / minor - 1e-9))
+  const last = Math.floor(to / minor + 1e-9)
+  const perMajor = Math.round(major / minor)
+  for (let i = first; i <= last; i++) {
+    const time = Number((i * minor).toFixed(3))
+    ticks.push({ time, label: i % perMajor === 0 ? formatRulerTime(time, major) : null })
+  }
+  return ticks
+}
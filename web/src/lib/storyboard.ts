@@ -0,0 +1,314 @@
+import type { Clip, Marker, TrackState } from '../types'
+import { topVisualClipAt } from './burnIn'
+import { kindOf, trackIsLive } from './render'
+import { secondsToTc } from './timecode'
+import { loadBitmap, loadVideo, seek } from './webcodecs'
+
+// Storyboard / contact sheet of the current edit: one panel per picture clip or per marker,
+// each with a still and its timing. Frames are captured once and shared by the PNG sheet and
+// the printable HTML page.
+
+export type StoryboardMode = 'clips' | 'markers'
+export type StoryboardFrames = 'render' | 'thumb' // render: decode the media; thumb: the clip's thumbnail
+
+export type StoryboardOptions = { mode: StoryboardMode; frames: StoryboardFrames; columns: number; rows: number }
+
+export type StoryboardPanel = {
+  id: string
+  title: string
+  in: number // program seconds
+  out: number
+  clip: Clip | null // where the still comes from; null when nothing is on screen
+  mediaTime: number // seconds into the clip's media for that still
+  notes: string[]
+}
+
+export type StoryboardInfo = { project: string; fps: number; dropFrame?: boolean; date: Date; options: StoryboardOptions }
+
+export const DEFAULT_STORYBOARD: StoryboardOptions = { mode: 'clips', frames: 'render', columns: 4, rows: 3 }
+export const GRID_CHOICES = [2, 3, 4, 5, 6]
+
+const FRAME_W = 480
+const FRAME_H = 270
+
+const isPicture = (clip: Clip) => kindOf(clip) === 'video' || kindOf(clip) === 'image'
+
+const mediaTimeAt = (clip: Clip, t: number) => (clip.mediaOffset ?? 0) + Math.max(0, t - clip.start)
+
+const markerNote = (m: Marker) => (m.notes ? `${m.label}: ${m.notes}` : m.label)
+
+// Picture clips on live video tracks in program order (offline ones too; they keep their slot)
+export const storyboardPanels = (tracks: TrackState[], clips: Clip[], markers: Marker[], mode: StoryboardMode): StoryboardPanel[] => {
+  if (mode === 'markers') {
+    return [...markers]
+      .sort((a, b) => a.time - b.time)
+      .map(m => {
+        const clip = topVisualClipAt(tracks, clips, m.time)
+        return {
+          id: m.id,
+          title: m.label || 'Marker',
+          in: m.time,
+          out: m.time + Math.max(0, m.duration ?? 0),
+          clip,
+          mediaTime: clip ? mediaTimeAt(clip, m.time) : 0,
+          notes: m.notes ? [m.notes] : []
+        }
+      })
+  }
+  const anySolo = tracks.some(t => t.solo)
+  const order = new Map(tracks.map((t, i) => [t.id, i]))
+  const live = new Set(tracks.filter(t => t.type === 'video' && trackIsLive(t, anySolo)).map(t => t.id))
+  return clips
+    .filter(c => live.has(c.track) && c.duration > 0 && (isPicture(c) || c.offlineMedia))
+    .sort((a, b) => a.start - b.start || (order.get(b.track) ?? 0) - (order.get(a.track) ?? 0))
+    .map(c => {
+      const end = c.start + c.duration
+      return {
+        id: c.id,
+        title: c.title,
+        in: c.start,
+        out: end,
+        clip: c,
+        mediaTime: mediaTimeAt(c, c.start + c.duration / 2),
+        notes: markers
+          .filter(m => m.time < end && m.time + Math.max(0, m.duration ?? 0) >= c.start)
+          .sort((a, b) => a.time - b.time)
+          .map(markerNote)
+      }
+    })
+}
+
+export const storyboardPages = (panels: StoryboardPanel[], options: StoryboardOptions) => {
+  const size = Math.max(1, options.columns * options.rows)
+  const pages: StoryboardPanel[][] = []
+  for (let i = 0; i < panels.length; i += size) pages.push(panels.slice(i, i + size))
+  return pages
+}
+
+export const panelTiming = (panel: StoryboardPanel, fps: number, dropFrame = false) => (panel.out > panel.in
+  ? `${secondsToTc(panel.in, fps, dropFrame)} – ${secondsToTc(panel.out, fps, dropFrame)} · ${(panel.out - panel.in).toFixed(2)}s`
+  : secondsToTc(panel.in, fps, dropFrame))
+
+const fit = (iw: number, ih: number, W: number, H: number) => {
+  const scale = Math.min(W / iw, H / ih)
+  const w = Math.round(iw * scale)
+  const h = Math.round(ih * scale)
+  return { x: Math.round((W - w) / 2), y: Math.round((H - h) / 2), w, h }
+}
+
+const stillOf = async (image: CanvasImageSource, iw: number, ih: number) => {
+  const canvas = new OffscreenCanvas(FRAME_W, FRAME_H)
+  const ctx = canvas.getContext('2d')!
+  ctx.fillStyle = '#000'
+  ctx.fillRect(0, 0, FRAME_W, FRAME_H)
+  const { x, y, w, h } = fit(iw, ih, FRAME_W, FRAME_H)
+  ctx.drawImage(image, x, y, w, h)
+  return canvas.convertToBlob({ type: 'image/jpeg', quality: 0.85 })
+}
+
+const stillFromUrl = async (url: string, signal?: AbortSignal) => {
+  const bitmap = await loadBitmap(url, signal)
+  try {
+    return await stillOf(bitmap, bitmap.width, bitmap.height)
+  } finally {
+    bitmap.close()
+  }
+}
+
+// One JPEG still per panel (null when neither the media nor a thumbnail gives a picture).
+// Videos are opened once per URL and seeked from panel to panel.
+export const captureStills = async (
+  panels: StoryboardPanel[],
+  frames: StoryboardFrames,
+  opts: { signal?: AbortSignal; onProgress?: (done: number, total: number) => void } = {}
+) => {
+  const stills = new Map<string, Blob | null>()
+  const videos = new Map<string, Promise<HTMLVideoElement>>()
+  const fromMedia = async (clip: Clip, time: number) => {
+    if (!clip.url) throw new Error('Media offline')
+    if (kindOf(clip) === 'image') return stillFromUrl(clip.url, opts.signal)
+    if (!videos.has(clip.url)) videos.set(clip.url, loadVideo(clip.url))
+    const video = await videos.get(clip.url)!
+    await seek(video, Math.min(time, Math.max(0, video.duration - 0.05)))
+    return stillOf(video, video.videoWidth, video.videoHeight)
+  }
+  const fromThumb = (clip: Clip) => {
+    if (!clip.thumb) throw new Error('No thumbnail')
+    return stillFromUrl(clip.thumb, opts.signal)
+  }
+  try {
+    for (const [i, panel] of panels.entries()) {
+      if (opts.signal?.aborted) throw new DOMException('Storyboard cancelled', 'AbortError')
+      const { clip } = panel
+      let still: Blob | null = null
+      if (clip) {
+        const attempts = frames === 'thumb' ? [() => fromThumb(clip), () => fromMedia(clip, panel.mediaTime)] : [() => fromMedia(clip, panel.mediaTime), () => fromThumb(clip)]
+        for (const attempt of attempts) {
+          try {
+            still = await attempt()
+            break
+          } catch (err) {
+            if (opts.signal?.aborted) throw err
+          }
+        }
+      }
+      stills.set(panel.id, still)
+      opts.onProgress?.(i + 1, panels.length)
+    }
+  } finally {
+    for (const pending of videos.values()) {
+      pending.then(video => {
+        video.removeAttribute('src')
+        video.load()
+      }).catch(() => {})
+    }
+  }
+  return stills
+}
+
+// --- PNG contact sheet -----------------------------------------------------------------------------
+
+const SHEET = { margin: 32, gap: 20, header: 64, caption: 96, font: 'system-ui, -apple-system, Segoe UI, sans-serif' }
+
+const wrapLines = (ctx: OffscreenCanvasRenderingContext2D, text: string, width: number, max: number) => {
+  const lines: string[] = []
+  let line = ''
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const next = line ? `${line} ${word}` : word
+    if (ctx.measureText(next).width <= width || !line) line = next
+    else {
+      lines.push(line)
+      line = word
+    }
+  }
+  if (line) lines.push(line)
+  if (lines.length <= max) return lines
+  const kept = lines.slice(0, max)
+  let last = kept[max - 1]
+  while (last && ctx.measureText(`${last}…`).width > width) last = last.slice(0, -1)
+  kept[max - 1] = `${last}…`
+  return kept
+}
+
+// One PNG per grid page; the sheet keeps its cell size however few panels the page holds
+export const renderContactSheet = async (page: StoryboardPanel[], stills: Map<string, Blob | null>, info: StoryboardInfo, pageIndex: number, pageCount: number) => {
+  const { columns, rows } = info.options
+  const cellH = FRAME_H + SHEET.caption
+  const W = SHEET.margin * 2 + columns * FRAME_W + (columns - 1) * SHEET.gap
+  const usedRows = Math.min(rows, Math.ceil(page.length / columns))
+  const H = SHEET.margin * 2 + SHEET.header + usedRows * cellH + (usedRows - 1) * SHEET.gap
+  const canvas = new OffscreenCanvas(W, H)
+  const ctx = canvas.getContext('2d')!
+  ctx.fillStyle = '#fff'
+  ctx.fillRect(0, 0, W, H)
+  ctx.textBaseline = 'top'
+  ctx.fillStyle = '#111'
+  ctx.font = `600 26px ${SHEET.font}`
+  ctx.fillText(info.project || 'Untitled project', SHEET.margin, SHEET.margin)
+  ctx.font = `15px ${SHEET.font}`
+  ctx.fillStyle = '#555'
+  const meta = `Storyboard · ${info.options.mode === 'markers' ? 'per marker' : 'per clip'} · ${info.fps} fps · ${info.date.toLocaleString()} · page ${pageIndex + 1}/${pageCount}`
+  ctx.fillText(meta, SHEET.margin, SHEET.margin + 34)
+
+  for (const [i, panel] of page.entries()) {
+    const x = SHEET.margin + (i % columns) * (FRAME_W + SHEET.gap)
+    const y = SHEET.margin + SHEET.header + Math.floor(i / columns) * (cellH + SHEET.gap)
+    const still = stills.get(panel.id)
+    if (still) {
+      const bitmap = await createImageBitmap(still)
+      ctx.drawImage(bitmap, x, y, FRAME_W, FRAME_H)
+      bitmap.close()
+    } else {
+      ctx.fillStyle = '#e5e7eb'
+      ctx.fillRect(x, y, FRAME_W, FRAME_H)
+      ctx.fillStyle = '#6b7280'
+      ctx.font = `16px ${SHEET.font}`
+      ctx.textAlign = 'center'
+      ctx.fillText(panel.clip ? (panel.clip.url ? 'No frame' : 'Media offline') : 'Nothing on screen', x + FRAME_W / 2, y + FRAME_H / 2 - 8)
+      ctx.textAlign = 'left'
+    }
+    ctx.strokeStyle = '#d1d5db'
+    ctx.strokeRect(x + 0.5, y + 0.5, FRAME_W - 1, FRAME_H - 1)
+    let line = y + FRAME_H + 8
+    ctx.fillStyle = '#111'
+    ctx.font = `600 16px ${SHEET.font}`
+    ctx.fillText(`${pageIndex * columns * rows + i + 1}. ${wrapLines(ctx, panel.title, FRAME_W - 24, 1)[0] ?? ''}`, x, line)
+    line += 22
+    ctx.fillStyle = '#374151'
+    ctx.font = `14px ui-monospace, Menlo, Consolas, monospace`
+    ctx.fillText(panelTiming(panel, info.fps, info.dropFrame), x, line)
+    line += 20
+    ctx.fillStyle = '#4b5563'
+    ctx.font = `13px ${SHEET.font}`
+    for (const text of wrapLines(ctx, panel.notes.join(' · '), FRAME_W, 2)) {
+      ctx.fillText(text, x, line)
+      line += 18
+    }
+  }
+  return canvas.convertToBlob({ type: 'image/png' })
+}
+
+// --- printable HTML ---------------------------------------------------------------------------------
+
+const htmlEscape = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+
+const dataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader()
+  reader.onload = () => resolve(String(reader.result))
+  reader.onerror = () => reject(reader.error)
+  reader.readAsDataURL(blob)
+})
+
+// Self-contained page (stills inlined) laid out so each grid page prints on one landscape sheet
+export const storyboardHtml = async (panels: StoryboardPanel[], stills: Map<string, Blob | null>, info: StoryboardInfo) => {
+  const { columns, rows } = info.options
+  const pages = storyboardPages(panels, info.options)
+  const title = htmlEscape(info.project || 'Untitled project')
+  const meta = htmlEscape(`Storyboard · ${info.options.mode === 'markers' ? 'per marker' : 'per clip'} · ${info.fps} fps · ${info.date.toLocaleString()}`)
+  const sections: string[] = []
+  for (const [p, page] of pages.entries()) {
+    const cells: string[] = []
+    for (const [i, panel] of page.entries()) {
+      const still = stills.get(panel.id)
+      const picture = still
+        ? `<img src="${await dataUrl(still)}" alt="">`
+        : `<div class="empty">${panel.clip ? (panel.clip.url ? 'No frame' : 'Media offline') : 'Nothing on screen'}</div>`
+      const notes = panel.notes.map(n => `<li>${htmlEscape(n)}</li>`).join('')
+      cells.push(`<figure>${picture}<figcaption><strong>${p * columns * rows + i + 1}. ${htmlEscape(panel.title)}</strong>`
+        + `<span class="tc">${htmlEscape(panelTiming(panel, info.fps, info.dropFrame))}</span>${notes ? `<ul>${notes}</ul>` : ''}</figcaption></figure>`)
+    }
+    sections.push(`<section><header><h1>${title}</h1><p>${meta} · page ${p + 1}/${pages.length}</p></header><div class="grid">${cells.join('')}</div></section>`)
+  }
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title} – storyboard</title>
+<style>
+@page { size: A4 landscape; margin: 10mm; }
+* { box-sizing: border-box; }
+body { margin: 0; font: 12px/1.4 system-ui, -apple-system, 'Segoe UI', sans-serif; color: #111; background: #fff; }
+section { padding: 16px; break-after: page; }
+section:last-child { break-after: auto; }
+header { display: flex; align-items: baseline; gap: 16px; margin-bottom: 12px; }
+h1 { margin: 0; font-size: 18px; }
+header p { margin: 0; color: #555; }
+.grid { display: grid; grid-template-columns: repeat(${columns}, 1fr); gap: 12px; }
+figure { margin: 0; break-inside: avoid; }
+img, .empty { display: block; width: 100%; aspect-ratio: 16 / 9; object-fit: contain; background: #000; border: 1px solid #d1d5db; }
+.empty { display: grid; place-items: center; background: #e5e7eb; color: #6b7280; }
+figcaption { display: grid; gap: 2px; padding-top: 4px; }
+.tc { font-family: ui-monospace, Menlo, Consolas, monospace; color: #374151; }
+ul { margin: 2px 0 0; padding-left: 16px; color: #4b5563; }
+</style>
+</head>
+<body>
+${sections.join('\n')}
+</body>
+</html>
+`
+}
@@ -0,0 +1,208 @@
+import type { Section, SectionKind } from '../types'
+import { downsample, mixToMono } from './beats'
+import { createFFT, hannWindow } from './fft'
+
+const FRAME = 4096
+const HOP = 2048
+const BAND_COUNT = 16
+const MIN_HZ = 40
+const MAX_HZ = 11000
+const KERNEL_HALF = 4 // analysis units (bars, or fixed windows without bars) on each side of a boundary
+const MIN_SECTION_UNITS = 4
+const WINDOW_SECONDS = 2 // unit length when there are too few bars to segment on
+const RISE_DB = 3 // loudness climb across a section that reads as a build
+
+export const SECTION_COLORS: Record<SectionKind, string> = {
+  intro: '#60a5fa',
+  build: '#f59e0b',
+  drop: '#f43f5e',
+  breakdown: '#a78bfa',
+  outro: '#34d399',
+  section: '#94a3b8'
+}
+
+export const sectionLabel = (kind: SectionKind) => kind.charAt(0).toUpperCase() + kind.slice(1)
+
+const round3 = (t: number) => Number(t.toFixed(3))
+
+// Log-spaced band energies (timbre) plus RMS loudness per frame.
+const frameFeatures = (channels: Float32Array[], sampleRate: number, onProgress?: (ratio: number) => void) => {
+  const { data, rate } = downsample(mixToMono(channels), sampleRate)
+  const frameCount = Math.max(0, Math.floor((data.length - FRAME) / HOP) + 1)
+  const binHz = rate / FRAME
+  const top = Math.min(MAX_HZ, rate / 2)
+  const edges = Array.from({ length: BAND_COUNT + 1 }, (_, i) => MIN_HZ * Math.pow(top / MIN_HZ, i / BAND_COUNT))
+  const bandBins = edges.slice(0, -1).map((lo, i) => [Math.max(1, Math.floor(lo / binHz)), Math.max(Math.floor(lo / binHz) + 1, Math.ceil(edges[i + 1] / binHz))])
+  const bands = Array.from({ length: frameCount }, () => new Float32Array(BAND_COUNT))
+  const loudness = new Float32Array(frameCount)
+  const fft = createFFT(FRAME)
+  const window = hannWindow(FRAME)
+  const re = new Float32Array(FRAME)
+  const im = new Float32Array(FRAME)
+  const reportEvery = Math.max(1, Math.floor(frameCount / 20))
+
+  for (let f = 0; f < frameCount; f++) {
+    const offset = f * HOP
+    let energy = 0
+    for (let i = 0; i < FRAME; i++) {
+      const s = data[offset + i]
+      energy += s * s
+      re[i] = s * window[i]
+      im[i] = 0
+    }
+    loudness[f] = 10 * Math.log10(energy / FRAME + 1e-10)
+    fft(re, im)
+    bandBins.forEach(([lo, hi], b) => {
+      let sum = 0
+      for (let i = lo; i < Math.min(hi, FRAME / 2); i++) sum += re[i] * re[i] + im[i] * im[i]
+      bands[f][b] = Math.log1p(sum / Math.max(1, hi - lo))
+    })
+    if (onProgress && f % reportEvery === 0) onProgress(f / frameCount)
+  }
+  return { bands, loudness, frameRate: rate / HOP, duration: data.length / rate }
+}
+
+// Unit boundaries in seconds: bar lines when there are enough of them, fixed windows otherwise.
+const unitEdges = (downbeats: number[], duration: number) => {
+  const bars = downbeats.filter(t => t > 0 && t < duration)
+  if (bars.length >= KERNEL_HALF * 2 + 2) return [0, ...bars, duration]
+  const edges: number[] = []
+  for (let t = 0; t < duration; t += WINDOW_SECONDS) edges.push(t)
+  edges.push(duration)
+  return edges
+}
+
+const cosine = (a: Float32Array, b: Float32Array) => {
+  let dot = 0
+  let na = 0
+  let nb = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    na += a[i] * a[i]
+    nb += b[i] * b[i]
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0
+}
+
+// Foote novelty: slide a Gaussian-tapered checkerboard kernel down the diagonal of the
+// self-similarity matrix; it peaks where the past stops resembling the future.
+export const noveltyCurve = (features: Float32Array[], half = KERNEL_HALF) => {
+  const n = features.length
+  const sim = features.map(a => features.map(b => cosine(a, b)))
+  const sigma = half / 2
+  const novelty = new Float32Array(n)
+  // Only where the whole kernel fits; a half kernel at the edges reads as a boundary
+  for (let c = half; c <= n - half; c++) {
+    let sum = 0
+    let weight = 0
+    for (let i = -half; i < half; i++) {
+      for (let j = -half; j < half; j++) {
+        const taper = Math.exp(-((i + 0.5) ** 2 + (j + 0.5) ** 2) / (2 * sigma * sigma))
+        const sign = (i < 0) === (j < 0) ? 1 : -1
+        sum += sign * taper * sim[c + i][c + j]
+        weight += taper
+      }
+    }
+    novelty[c] = weight ? Math.max(0, sum / weight) : 0
+  }
+  return novelty
+}
+
+const pickBoundaries = (novelty: Float32Array, minGap: number) => {
+  const n = novelty.length
+  let mean = 0
+  novelty.forEach(v => { mean += v / Math.max(1, n) })
+  let variance = 0
+  novelty.forEach(v => { variance += (v - mean) ** 2 / Math.max(1, n) })
+  const threshold = mean + 0.5 * Math.sqrt(variance)
+  const candidates: number[] = []
+  const reach = Math.max(1, minGap >> 1)
+  for (let i = 1; i < n; i++) {
+    if (novelty[i] < threshold) continue
+    let isPeak = true
+    for (let j = Math.max(0, i - reach); j <= Math.min(n - 1, i + reach); j++) {
+      if (novelty[j] > novelty[i]) { isPeak = false; break }
+    }
+    if (isPeak) candidates.push(i)
+  }
+  // Strongest first, so a weaker neighbour never blocks a real boundary
+  const chosen: number[] = []
+  candidates
+    .sort((a, b) => novelty[b] - novelty[a])
+    .forEach(i => {
+      if (i < minGap || n - i < minGap) return
+      if (chosen.every(c => Math.abs(c - i) >= minGap)) chosen.push(i)
+    })
+  return chosen.sort((a, b) => a - b)
+}
+
+// Energy shape decides the label: loud blocks are drops, what climbs into a drop is a build,
+// a quiet stretch after a drop is a breakdown, and quiet edges are intro/outro.
+export const labelSections = (spans: Array<{ start: number; end: number; energy: number; slope: number }>): Section[] => {
+  const energies = spans.map(s => s.energy)
+  const lo = Math.min(...energies)
+  const hi = Math.max(...energies)
+  const norm = spans.map(s => (hi - lo > 0.5 ? (s.energy - lo) / (hi - lo) : 0.5))
+  const isDrop = norm.map(e => e >= 0.7)
+  return spans.map((s, i) => {
+    let kind: SectionKind = 'section'
+    const droppedBefore = isDrop.slice(0, i).some(Boolean)
+    if (isDrop[i] && spans.length > 1) kind = 'drop'
+    else if (i === 0) kind = 'intro'
+    else if (i === spans.length - 1) kind = 'outro'
+    else if (isDrop[i + 1] && s.slope > RISE_DB) kind = 'build'
+    else if (droppedBefore && norm[i] < 0.6) kind = 'breakdown'
+    else if (isDrop[i + 1]) kind = 'build'
+    return { start: round3(s.start), end: round3(s.end), kind, energy: Number(norm[i].toFixed(2)) }
+  })
+}
+
+export const segmentStructure = (
+  channels: Float32Array[],
+  sampleRate: number,
+  downbeats: number[] = [],
+  onProgress?: (ratio: number) => void
+): Section[] => {
+  const { bands, loudness, frameRate, duration } = frameFeatures(channels, sampleRate, onProgress)
+  if (duration < WINDOW_SECONDS * MIN_SECTION_UNITS * 2 || !bands.length) {
+    return duration > 0 ? [{ start: 0, end: round3(duration), kind: 'section', energy: 0.5 }] : []
+  }
+  const edges = unitEdges(downbeats, duration)
+  const frameAt = (t: number) => Math.min(bands.length - 1, Math.max(0, Math.round(t * frameRate)))
+
+  const units = edges.slice(0, -1).map((start, u) => {
+    const from = frameAt(start)
+    const to = Math.max(from + 1, frameAt(edges[u + 1]))
+    const feature = new Float32Array(BAND_COUNT + 1)
+    let level = 0
+    for (let f = from; f < to; f++) {
+      for (let b = 0; b < BAND_COUNT; b++) feature[b] += bands[Math.min(f, bands.length - 1)][b] / (to - from)
+      level += loudness[Math.min(f, bands.length - 1)] / (to - from)
+    }
+    feature[BAND_COUNT] = level / 10
+    return { feature, level }
+  })
+
+  // Z-score every dimension so the loudest bands don't decide similarity alone
+  const dims = BAND_COUNT + 1
+  for (let d = 0; d < dims; d++) {
+    let mean = 0
+    units.forEach(u => { mean += u.feature[d] / units.length })
+    let sd = 0
+    units.forEach(u => { sd += (u.feature[d] - mean) ** 2 / units.length })
+    sd = Math.sqrt(sd) || 1
+    units.forEach(u => { u.feature[d] = (u.feature[d] - mean) / sd })
+  }
+
+  const novelty = noveltyCurve(units.map(u => u.feature))
+  const cuts = [0, ...pickBoundaries(novelty, MIN_SECTION_UNITS), units.length]
+  const spans = cuts.slice(0, -1).map((from, i) => {
+    const slice = units.slice(from, cuts[i + 1])
+    const energy = slice.reduce((sum, u) => sum + u.level, 0) / slice.length
+    const third = Math.max(1, Math.floor(slice.length / 3))
+    const head = slice.slice(0, third).reduce((sum, u) => sum + u.level, 0) / third
+    const tail = slice.slice(-third).reduce((sum, u) => sum + u.level, 0) / third
+    return { start: edges[from], end: edges[cuts[i + 1]], energy, slope: tail - head }
+  })
+  return labelSections(spans)
+}
@@ -0,0 +1,131 @@
+// SMPTE helpers mirroring timeline_builder.py so both tools read the same marker files.
+// NTSC rates are passed as their nominal numbers (23.976, 29.97, 59.94) and counted at
+// 1000/1001 of the next whole rate; drop-frame applies to 29.97 and 59.94 only.
+
+export type FrameRate = { id: string; label: string; fps: number; dropFrame: boolean }
+
+export const FRAME_RATES: FrameRate[] = [
+  { id: '23.976', label: '23.976', fps: 23.976, dropFrame: false },
+  { id: '24', label: '24', fps: 24, dropFrame: false },
+  { id: '25', label: '25', fps: 25, dropFrame: false },
+  { id: '29.97', label: '29.97 NDF', fps: 29.97, dropFrame: false },
+  { id: '29.97-df', label: '29.97 DF', fps: 29.97, dropFrame: true },
+  { id: '30', label: '30', fps: 30, dropFrame: false },
+  { id: '50', label: '50', fps: 50, dropFrame: false },
+  { id: '59.94', label: '59.94 NDF', fps: 59.94, dropFrame: false },
+  { id: '59.94-df', label: '59.94 DF', fps: 59.94, dropFrame: true },
+  { id: '60', label: '60', fps: 60, dropFrame: false }
+]
+
+export const frameRateId = (fps: number, dropFrame: boolean) => (FRAME_RATES.find(r => r.fps === fps && r.dropFrame === (dropFrame && canDropFrame(fps))) ?? FRAME_RATES.find(r => r.fps === fps))?.id ?? String(fps)
+
+// Frames per second of real time: 29.97 -> 30000/1001
+export const exactFps = (fps: number) => (Number.isInteger(fps) ? fps : (Math.round(fps) * 1000) / 1001)
+
+// ffmpeg wants NTSC rates as a fraction
+export const fpsRational = (fps: number) => (Number.isInteger(fps) ? String(fps) : `${Math.round(fps) * 1000}/1001`)
+
+// Frames per timecode second
+const tcBase = (fps: number) => Math.round(fps)
+
+export const canDropFrame = (fps: number) => !Number.isInteger(fps) && tcBase(fps) % 30 === 0
+
+const dropPerMinute = (fps: number) => (tcBase(fps) / 30) * 2
+
+const labelToFrames = (hh: number, mm: number, ss: number, ff: number, fps: number, dropFrame: boolean) => {
+  const base = tcBase(fps)
+  const nominal = (hh * 3600 + mm * 60 + ss) * base + ff
+  if (!dropFrame) return nominal
+  const minutes = hh * 60 + mm
+  return nominal - dropPerMinute(fps) * (minutes - Math.floor(minutes / 10))
+}
+
+export const parseTcToFrames = (tc: string, fps: number, dropFrame = /;/.test(String(tc))) => {
+  const text = String(tc).trim()
+  if (!text) throw new Error('Empty timecode string.')
+  const df = dropFrame && canDropFrame(fps)
+  const parts = text.replace(/[;,]/g, ':').split(':').map(p => p.trim())
+  if (parts.length === 4 && parts.every(p => /^\d+$/.test(p))) {
+    const [hh, mm, ss, ff] = parts.map(Number)
+    return labelToFrames(hh, mm, ss, ff, fps, df)
+  }
+  const digits = text.match(/\d+/g)
+  if (digits?.length === 4) {
+    const [hh, mm, ss, ff] = digits.map(Number)
+    return labelToFrames(hh, mm, ss, ff, fps, df)
+  }
+  throw new Error(`Invalid timecode (expected HH:MM:SS:FF): ${text}`)
+}
+
+export const isTimecode = (value: string, fps: number) => {
+  try {
+    parseTcToFrames(value, fps)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export const framesToSeconds = (frames: number, fps: number) => frames / exactFps(fps)
+
+export const secondsToFrames = (seconds: number, fps: number) => Math.round(seconds * exactFps(fps))
+
+export const snapToFrame = (seconds: number, fps: number, mode: 'round' | 'floor' | 'ceil' = 'round') => {
+  const f = seconds * exactFps(fps)
+  const whole = mode === 'floor' ? Math.floor(f + 1e-6) : mode === 'ceil' ? Math.ceil(f - 1e-6) : Math.round(f)
+  return whole / exactFps(fps)
+}
+
+export const secondsToTc = (seconds: number, fps: number, dropFrame = false) => {
+  const base = tcBase(fps)
+  let frames = Math.max(0, secondsToFrames(seconds, fps))
+  const df = dropFrame && canDropFrame(fps)
+  if (df) {
+    // Skip the dropped labels: two (four at 59.94) per minute except every tenth minute
+    const drop = dropPerMinute(fps)
+    const perMinute = base * 60 - drop
+    const perTenMinutes = perMinute * 10 + drop
+    const tens = Math.floor(frames / perTenMinutes)
+    const rest = frames % perTenMinutes
+    frames += drop * 9 * tens + (rest > drop ? drop * Math.floor((rest - drop) / perMinute) : 0)
+  }
+  const hh = Math.floor(frames / (3600 * base))
+  let rem = frames % (3600 * base)
+  const mm = Math.floor(rem / (60 * base))
+  rem %= 60 * base
+  const ss = Math.floor(rem / base)
+  const ff = rem % base
+  const [h, m, s, f] = [hh, mm, ss, ff].map(v => String(v).padStart(2, '0'))
+  return `${h}:${m}:${s}${df ? ';' : ':'}${f}`
+}
+
+// Typed entry: full HH:MM:SS:FF, shorter forms counted from the right (SS:FF, MM:SS:FF) or bare
+// digits the way NLEs take them (1000 -> 00:00:10:00). Dropped drop-frame labels move to the
+// next frame that exists. Returns seconds on the frame grid, or null when it isn't a timecode.
+export const parseTcEntry = (text: string, fps: number, dropFrame = false) => {
+  const trimmed = text.trim()
+  if (!trimmed) return null
+  let parts: number[]
+  if (/^\d+$/.test(trimmed)) {
+    const digits = trimmed.padStart(8, '0').slice(-8)
+    parts = [0, 2, 4, 6].map(i => Number(digits.slice(i, i + 2)))
+  } else {
+    const fields = trimmed.split(/[:;.,]/)
+    if (fields.length > 4 || !fields.every(f => /^\d{1,2}$/.test(f.trim()))) return null
+    parts = [...Array(4 - fields.length).fill(0), ...fields.map(Number)]
+  }
+  const [hh, mm, ss] = parts
+  let ff = parts[3]
+  const df = dropFrame && canDropFrame(fps)
+  if (mm > 59 || ss > 59 || ff >= tcBase(fps)) return null
+  if (df && ss === 0 && mm % 10 !== 0 && ff < dropPerMinute(fps)) ff = dropPerMinute(fps)
+  return framesToSeconds(labelToFrames(hh, mm, ss, ff, fps, df), fps)
+}
+
+// Record timecode often starts at 01:00:00:00; drop whole hours when every marker sits past them.
+export const inferTimecodeBaseSeconds = (markerFrames: number[], fps: number, dropFrame = false) => {
+  if (!markerFrames.length) return 0
+  const hour = labelToFrames(1, 0, 0, 0, fps, dropFrame && canDropFrame(fps))
+  const hours = Math.floor(Math.min(...markerFrames) / hour)
+  return framesToSeconds(hours * hour, fps)
+}
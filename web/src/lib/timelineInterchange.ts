@@ -0,0 +1,850 @@
+import type { Clip, Marker, TrackState } from '../types'
+import { nearestColorName } from './markerInterchange'
+import { createMarkerId } from './markers'
+import { canDropFrame, framesToSeconds, inferTimecodeBaseSeconds, parseTcToFrames, secondsToFrames, secondsToTc, snapToFrame } from './timecode'
+
+export type TimelineFormat = 'cmx3600' | 'fcpxml' | 'otio'
+
+export const TIMELINE_FORMATS: Array<{ id: TimelineFormat; label: string; ext: string; mime: string }> = [
+  { id: 'cmx3600', label: 'CMX3600 EDL', ext: 'edl', mime: 'text/plain' },
+  { id: 'fcpxml', label: 'Final Cut Pro XML (FCPXML 1.10)', ext: 'fcpxml', mime: 'application/xml' },
+  { id: 'otio', label: 'OpenTimelineIO', ext: 'otio', mime: 'application/json' }
+]
+
+export type TimelineDoc = { tracks: TrackState[]; clips: Clip[]; markers: Marker[] }
+
+export type TimelineExport = { text: string; warnings: string[] }
+
+const EDL_START_TC = '01:00:00:00' // record timecode starts here like Resolve/Premiere timelines
+
+const toFrames = secondsToFrames
+
+const isImage = (clip: Clip) => (clip.assetType || '').startsWith('image')
+const isAudio = (clip: Clip) => (clip.assetType || '').startsWith('audio')
+
+export const mediaFileName = (clip: Clip) => {
+  const fromUrl = clip.url && !clip.url.startsWith('blob:') ? decodeURIComponent(clip.url.split(/[?#]/)[0].split('/').pop() || '') : ''
+  return fromUrl || clip.title || clip.id
+}
+
+// Where other tools should look for the media: real URLs as-is, everything else by file name
+export const mediaTargetUrl = (clip: Clip) => {
+  if (clip.url && /^(https?|file):/i.test(clip.url)) return clip.url
+  return `file:///${encodeURIComponent(mediaFileName(clip))}`
+}
+
+// Source in/out in frames: mediaOffset is where the clip starts inside its media
+const sourceRange = (clip: Clip, fps: number) => {
+  const sourceIn = isImage(clip) ? 0 : toFrames(clip.mediaOffset ?? 0, fps)
+  return { sourceIn, sourceOut: sourceIn + toFrames(clip.duration, fps) }
+}
+
+const trackClips = (clips: Clip[], trackId: string) => clips
+  .filter(c => c.track === trackId && c.duration > 0)
+  .sort((a, b) => a.start - b.start)
+
+// --- CMX3600 ----------------------------------------------------------------------------------
+
+const EDL_AUDIO_CHANNELS = ['A', 'A2']
+
+const reelName = (clip: Clip) => (mediaFileName(clip).replace(/\.[^.]+$/, '').replace(/[^A-Za-z0-9_]/g, '').toUpperCase().slice(0, 8) || 'AX')
+
+// One video and up to two audio channels, which is all CMX3600 can say; events carry the clip
+// and file names as comments so Resolve/Premiere can relink by name. Timecode is counted in
+// frames from the 01:00:00:00 label, so NTSC rates land on it exactly.
+export const exportCmx3600 = (doc: TimelineDoc, fps: number, title = 'Timeline 1', dropFrame = false): TimelineExport => {
+  const warnings: string[] = []
+  const df = dropFrame && canDropFrame(fps)
+  const base = parseTcToFrames(EDL_START_TC, fps, df)
+  const used = (t: TrackState) => doc.clips.some(c => c.track === t.id)
+  const videoTracks = doc.tracks.filter(t => t.type === 'video' && used(t))
+  const audioTracks = doc.tracks.filter(t => t.type === 'audio' && used(t))
+  if (videoTracks.length > 1) warnings.push(`EDL holds one video track; only ${videoTracks[0].name} was written.`)
+  if (audioTracks.length > EDL_AUDIO_CHANNELS.length) warnings.push(`EDL holds two audio channels; ${audioTracks.slice(2).map(t => t.name).join(', ')} skipped.`)
+  if (doc.markers.length) warnings.push('Markers are not part of a CMX3600 cut list; use the marker export for them.')
+
+  const channels: Array<{ channel: string; clips: Clip[] }> = []
+  if (videoTracks[0]) channels.push({ channel: 'V', clips: trackClips(doc.clips, videoTracks[0].id).filter(c => !isAudio(c)) })
+  audioTracks.slice(0, EDL_AUDIO_CHANNELS.length).forEach((t, i) => channels.push({ channel: EDL_AUDIO_CHANNELS[i], clips: trackClips(doc.clips, t.id) }))
+  const events = channels
+    .flatMap(({ channel, clips }) => clips.map(clip => ({ channel, clip })))
+    .sort((a, b) => a.clip.start - b.clip.start || (a.channel === 'V' ? -1 : 1))
+
+  const lines = [`TITLE: ${title}`, df ? 'FCM: DROP FRAME' : 'FCM: NON-DROP FRAME', '']
+  events.forEach(({ channel, clip }, i) => {
+    const { sourceIn, sourceOut } = sourceRange(clip, fps)
+    const recIn = base + toFrames(clip.start, fps)
+    const recOut = recIn + (sourceOut - sourceIn)
+    const tc = (frames: number) => secondsToTc(framesToSeconds(frames, fps), fps, df)
+    lines.push(`${String(i + 1).padStart(3, '0')}  ${reelName(clip).padEnd(8)} ${channel.padEnd(5)} C        ${tc(sourceIn)} ${tc(sourceOut)} ${tc(recIn)} ${tc(recOut)}`)
+    lines.push(`* FROM CLIP NAME: ${clip.title}`)
+    lines.push(`* SOURCE FILE: ${mediaFileName(clip)}`)
+    lines.push('')
+  })
+  return { text: lines.join('\n'), warnings }
+}
+
+// --- FCPXML -----------------------------------------------------------------------------------
+
+const xmlEscape = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+
+// FCPXML times are rational seconds; NTSC rates use 1001-based frame durations
+const frameDuration = (fps: number) => (Number.isInteger(fps) ? { num: 1, den: fps } : { num: 1001, den: Math.round(fps * 1001) })
+
+const rational = (frames: number, fps: number) => {
+  if (frames === 0) return '0s'
+  const { num, den } = frameDuration(fps)
+  return `${frames * num}/${den}s`
+}
+
+type SpineItem =
+  | { kind: 'gap'; offset: number; duration: number }
+  | { kind: 'clip'; offset: number; duration: number; clip: Clip; start: number }
+
+// The first video track is the primary storyline (clips with gaps between them); every other
+// track hangs off it as connected clips in lanes (video above, audio below).
+export const exportFcpxml = (doc: TimelineDoc, fps: number, title = 'Timeline 1', dropFrame = false, size = { width: 1920, height: 1080 }): TimelineExport => {
+  const warnings: string[] = []
+  const df = dropFrame && canDropFrame(fps)
+  const end = toFrames(doc.clips.reduce((m, c) => Math.max(m, c.start + c.duration), 0), fps)
+  const videoTracks = doc.tracks.filter(t => t.type === 'video')
+  const audioTracks = doc.tracks.filter(t => t.type === 'audio')
+  const primary = videoTracks[0]
+
+  const assets = new Map<string, { id: string; clip: Clip }>()
+  const assetFor = (clip: Clip) => {
+    const key = clip.url || clip.assetId || clip.title
+    if (!assets.has(key)) assets.set(key, { id: `r${assets.size + 2}`, clip })
+    return assets.get(key)!.id
+  }
+
+  const spine: SpineItem[] = []
+  let cursor = 0
+  ;(primary ? trackClips(doc.clips, primary.id) : []).forEach(clip => {
+    const offset = toFrames(clip.start, fps)
+    const duration = toFrames(clip.duration, fps)
+    if (offset < cursor) {
+      warnings.push(`"${clip.title}" overlaps the clip before it on ${primary.name}; it was trimmed.`)
+    }
+    if (offset > cursor) spine.push({ kind: 'gap', offset: cursor, duration: offset - cursor })
+    const from = Math.max(offset, cursor)
+    const trimmed = duration - (from - offset)
+    if (trimmed <= 0) return
+    spine.push({ kind: 'clip', offset: from, duration: trimmed, clip, start: sourceRange(clip, fps).sourceIn + (from - offset) })
+    cursor = from + trimmed
+  })
+  if (cursor < end || !spine.length) spine.push({ kind: 'gap', offset: cursor, duration: Math.max(1, end - cursor) })
+
+  // A connected item's offset is in its parent's local time: parent start + distance into it
+  const parentFor = (frame: number) => spine.find(s => frame >= s.offset && frame < s.offset + s.duration) ?? spine[spine.length - 1]
+  const localTime = (item: SpineItem, frame: number) => (item.kind === 'clip' ? item.start : 0) + (frame - item.offset)
+  const children = new Map<SpineItem, string[]>(spine.map(s => [s, []]))
+
+  doc.markers.forEach(m => {
+    const frame = toFrames(m.time, fps)
+    const parent = parentFor(frame)
+    const dur = rational(Math.max(1, toFrames(m.duration ?? 0, fps)), fps)
+    const start = rational(localTime(parent, frame), fps)
+    const note = m.notes ? ` note="${xmlEscape(m.notes)}"` : ''
+    if (m.type === 'chapter') children.get(parent)!.push(`<chapter-marker start="${start}" duration="${dur}" value="${xmlEscape(m.label)}" posterOffset="0s"${note}/>`)
+    else children.get(parent)!.push(`<marker start="${start}" duration="${dur}" value="${xmlEscape(m.label)}"${m.type === 'todo' ? ' completed="0"' : ''}${note}/>`)
+  })
+
+  const volume = (clip: Clip) => (clip.gain !== undefined && clip.gain !== 1 ? `<adjust-volume amount="${(20 * Math.log10(Math.max(1e-4, clip.gain))).toFixed(2)}dB"/>` : '')
+  const connected = [
+    ...videoTracks.slice(1).map((t, i) => ({ track: t, lane: i + 1 })),
+    ...audioTracks.map((t, i) => ({ track: t, lane: -(i + 1) }))
+  ]
+  connected.forEach(({ track, lane }) => {
+    trackClips(doc.clips, track.id).forEach(clip => {
+      const frame = toFrames(clip.start, fps)
+      const parent = parentFor(frame)
+      const { sourceIn } = sourceRange(clip, fps)
+      const role = isAudio(clip) ? ' audioRole="music"' : ''
+      const inner = volume(clip)
+      const attrs = `ref="${assetFor(clip)}" lane="${lane}" offset="${rational(localTime(parent, frame), fps)}" name="${xmlEscape(clip.title)}" start="${rational(sourceIn, fps)}" duration="${rational(toFrames(clip.duration, fps), fps)}"${role}`
+      children.get(parent)!.push(inner ? `<asset-clip ${attrs}>${inner}</asset-clip>` : `<asset-clip ${attrs}/>`)
+    })
+  })
+
+  const spineXml = spine.map(item => {
+    const kids = children.get(item)!
+    const timing = `offset="${rational(item.offset, fps)}" duration="${rational(item.duration, fps)}"`
+    if (item.kind === 'gap') {
+      const open = `<gap name="Gap" ${timing} start="0s"`
+      return kids.length ? `${open}>\n${kids.map(k => `              ${k}`).join('\n')}\n            </gap>` : `${open}/>`
+    }
+    const { clip } = item
+    const inner = [volume(item.clip), ...kids].filter(Boolean)
+    const open = `<asset-clip ref="${assetFor(clip)}" ${timing} name="${xmlEscape(clip.title)}" start="${rational(item.start, fps)}"`
+    return inner.length ? `${open}>\n${inner.map(k => `              ${k}`).join('\n')}\n            </asset-clip>` : `${open}/>`
+  })
+
+  const { num, den } = frameDuration(fps)
+  const assetXml = [...assets.values()].map(({ id, clip }) => {
+    const duration = isImage(clip) ? '0s' : rational(toFrames(clip.mediaDuration ?? (clip.mediaOffset ?? 0) + clip.duration, fps), fps)
+    const av = isAudio(clip) ? 'hasAudio="1" audioSources="1" audioChannels="2"' : `hasVideo="1" format="r1"${isImage(clip) ? '' : ' hasAudio="1"'}`
+    return `    <asset id="${id}" name="${xmlEscape(mediaFileName(clip))}" start="0s" duration="${duration}" ${av}>\n      <media-rep kind="original-media" src="${xmlEscape(mediaTargetUrl(clip))}"/>\n    </asset>`
+  })
+
+  const text = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE fcpxml>',
+    '<fcpxml version="1.10">',
+    '  <resources>',
+    `    <format id="r1" name="FFVideoFormat${size.height}p${Math.round(fps * 100) / 100}" frameDuration="${num}/${den}s" width="${size.width}" height="${size.height}"/>`,
+    ...assetXml,
+    '  </resources>',
+    '  <library>',
+    `    <event name="${xmlEscape(title)}">`,
+    `      <project name="${xmlEscape(title)}">`,
+    `        <sequence format="r1" duration="${rational(Math.max(end, 1), fps)}" tcStart="0s" tcFormat="${df ? 'DF' : 'NDF'}" audioLayout="stereo" audioRate="48k">`,
+    '          <spine>',
+    ...spineXml.map(s => `            ${s}`),
+    '          </spine>',
+    '        </sequence>',
+    '      </project>',
+    '    </event>',
+    '  </library>',
+    '</fcpxml>',
+    ''
+  ].join('\n')
+  return { text, warnings }
+}
+
+// --- OpenTimelineIO ---------------------------------------------------------------------------
+
+const OTIO_COLORS: Record<string, string> = {
+  PINK: '#f472b6',
+  RED: '#ef4444',
+  ORANGE: '#f97316',
+  YELLOW: '#facc15',
+  GREEN: '#22c55e',
+  CYAN: '#22d3ee',
+  BLUE: '#2f7df6',
+  PURPLE: '#a855f7',
+  MAGENTA: '#d946ef',
+  WHITE: '#f8fafc'
+}
+
+const rationalTime = (frames: number, fps: number) => ({ OTIO_SCHEMA: 'RationalTime.1', rate: fps, value: frames })
+const timeRange = (start: number, duration: number, fps: number) => ({
+  OTIO_SCHEMA: 'TimeRange.1',
+  start_time: rationalTime(start, fps),
+  duration: rationalTime(duration, fps)
+})
+
+// Our own fields ride along in metadata so a round trip through OTIO keeps gain, fades and colours.
+export const OTIO_METADATA_KEY = 'timeline_builder'
+
+export const exportOtio = (doc: TimelineDoc, fps: number, title = 'Timeline 1'): TimelineExport => {
+  const warnings: string[] = []
+  // An OTIO track is strictly sequential, so a clip that overlaps the one before it goes on an
+  // extra track right after its own (the first one it fits on) instead of being pushed later.
+  const otioTracks = doc.tracks.flatMap(track => {
+    const lanes: { children: object[]; cursor: number }[] = []
+    trackClips(doc.clips, track.id).forEach(clip => {
+      const offset = toFrames(clip.start, fps)
+      const { sourceIn, sourceOut } = sourceRange(clip, fps)
+      let lane = lanes.find(l => l.cursor <= offset)
+      if (!lane) {
+        lane = { children: [], cursor: 0 }
+        lanes.push(lane)
+        if (lanes.length > 1) warnings.push(`"${clip.title}" overlaps another clip on ${track.name}; it was written to an extra track.`)
+      }
+      if (offset > lane.cursor) {
+        lane.children.push({ OTIO_SCHEMA: 'Gap.1', name: '', source_range: timeRange(0, offset - lane.cursor, fps), effects: [], markers: [], metadata: {} })
+      }
+      const mediaFrames = clip.mediaDuration !== undefined && !isImage(clip) ? toFrames(clip.mediaDuration, fps) : null
+      lane.children.push({
+        OTIO_SCHEMA: 'Clip.1',
+        name: clip.title,
+        source_range: timeRange(sourceIn, sourceOut - sourceIn, fps),
+        media_reference: {
+          OTIO_SCHEMA: 'ExternalReference.1',
+          name: mediaFileName(clip),
+          target_url: mediaTargetUrl(clip),
+          available_range: mediaFrames !== null ? timeRange(0, mediaFrames, fps) : null,
+          metadata: { [OTIO_METADATA_KEY]: { assetType: clip.assetType ?? null, assetId: clip.assetId ?? null } }
+        },
+        effects: [],
+        markers: [],
+        metadata: {
+          [OTIO_METADATA_KEY]: { id: clip.id, color: clip.color, gain: clip.gain ?? 1, fadeIn: clip.fadeIn ?? null, fadeOut: clip.fadeOut ?? null }
+        }
+      })
+      lane.cursor = offset + (sourceOut - sourceIn)
+    })
+    if (!lanes.length) lanes.push({ children: [], cursor: 0 })
+    return lanes.map(({ children }, i) => ({
+      OTIO_SCHEMA: 'Track.1',
+      name: i ? `${track.name} (${i + 1})` : track.name,
+      kind: track.type === 'audio' ? 'Audio' : 'Video',
+      source_range: null,
+      children,
+      effects: [],
+      markers: [],
+      metadata: { [OTIO_METADATA_KEY]: { id: i ? `${track.id}-${i + 1}` : track.id, mute: !!track.mute, solo: !!track.solo, locked: !!track.locked } }
+    }))
+  })
+
+  const markers = doc.markers.map(m => ({
+    OTIO_SCHEMA: 'Marker.2',
+    name: m.label,
+    color: nearestColorName(m.color, OTIO_COLORS),
+    comment: m.notes ?? '',
+    marked_range: timeRange(toFrames(m.time, fps), toFrames(m.duration ?? 0, fps), fps),
+    metadata: { [OTIO_METADATA_KEY]: { id: m.id, type: m.type, color: m.color } }
+  }))
+
+  // OTIO stacks put later children on top, which matches our V1-under-V2 order for video
+  const timeline = {
+    OTIO_SCHEMA: 'Timeline.1',
+    name: title,
+    global_start_time: rationalTime(0, fps),
+    metadata: { [OTIO_METADATA_KEY]: { fps } },
+    tracks: { OTIO_SCHEMA: 'Stack.1', name: 'tracks', source_range: null, children: otioTracks, effects: [], markers, metadata: {} }
+  }
+  return { text: JSON.stringify(timeline, null, 2) + '\n', warnings }
+}
+
+export const exportTimeline = (format: TimelineFormat, doc: TimelineDoc, fps: number, opts: { title?: string; dropFrame?: boolean } = {}): TimelineExport => {
+  const { title, dropFrame } = opts
+  if (format === 'cmx3600') return exportCmx3600(doc, fps, title, dropFrame)
+  if (format === 'fcpxml') return exportFcpxml(doc, fps, title, dropFrame)
+  return exportOtio(doc, fps, title)
+}
+
+// --- Import -----------------------------------------------------------------------------------
+
+export type MediaRef = { name: string; url?: string }
+
+export type MediaMatch = Pick<Clip, 'url' | 'assetId' | 'mediaId' | 'assetType' | 'mediaDuration' | 'waveform' | 'thumb'>
+
+export type MediaResolver = (ref: MediaRef) => MediaMatch | null
+
+export type MediaCandidate = { name: string; url?: string; id?: string; mediaId?: string; type?: string; duration?: number; waveform?: number[] | null; thumb?: string | null }
+
+export type TimelineImportOptions = {
+  fps: number // fallback when the file doesn't say (EDL never does)
+  resolveMedia: MediaResolver
+  clipColors: string[]
+  markerColor: string
+}
+
+export type TimelineImport = TimelineDoc & { fps: number; warnings: string[]; offline: number }
+
+const EXTENSION_KINDS: Record<string, string[]> = {
+  video: ['mp4', 'mov', 'm4v', 'mkv', 'webm', 'avi', 'mxf', 'mts'],
+  audio: ['wav', 'mp3', 'aac', 'm4a', 'flac', 'ogg', 'opus', 'aif', 'aiff'],
+  image: ['png', 'jpg', 'jpeg', 'gif', 'webp', 'tif', 'tiff', 'bmp', 'exr', 'dpx']
+}
+
+export const guessAssetType = (name: string) => {
+  const ext = name.split(/[?#]/)[0].match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase()
+  const kind = ext && Object.keys(EXTENSION_KINDS).find(k => EXTENSION_KINDS[k].includes(ext))
+  return kind ? `${kind}/${ext}` : undefined
+}
+
+const baseName = (ref: string) => {
+  const path = ref.split(/[?#]/)[0].replace(/\\/g, '/')
+  try {
+    return decodeURIComponent(path.split('/').pop() || '').toLowerCase()
+  } catch {
+    return (path.split('/').pop() || '').toLowerCase()
+  }
+}
+
+// Matches by URL first, then by file name against the media pool; web URLs that match
+// nothing are used as they are, anything else (file paths from another machine) goes offline.
+export const createMediaResolver = (candidates: MediaCandidate[]): MediaResolver => {
+  const named = new Map<string, MediaCandidate>()
+  candidates.forEach(c => {
+    ;[c.name, c.url].forEach(key => {
+      if (key && !key.startsWith('blob:') && !named.has(baseName(key))) named.set(baseName(key), c)
+    })
+  })
+  return ref => {
+    const hit = candidates.find(c => ref.url && c.url === ref.url) ?? named.get(baseName(ref.name)) ?? (ref.url ? named.get(baseName(ref.url)) : undefined)
+    if (hit?.url) {
+      return { url: hit.url, assetId: hit.id, mediaId: hit.mediaId, assetType: hit.type || guessAssetType(hit.name), mediaDuration: hit.duration, waveform: hit.waveform ?? null, thumb: hit.thumb ?? null }
+    }
+    if (ref.url && /^https?:/i.test(ref.url)) return { url: ref.url, assetType: guessAssetType(ref.url) }
+    return null
+  }
+}
+
+const isOffline = (clip: Clip) => !!clip.offlineMedia && !clip.url
+
+export const offlineClips = (clips: Clip[]) => clips.filter(isOffline)
+
+// Relinks `clip` and every other offline clip that pointed at the same media
+export const relinkClips = (clips: Clip[], clipId: string, media: MediaCandidate) => {
+  const ref = clips.find(c => c.id === clipId)?.offlineMedia
+  return clips.map(c => {
+    if (c.id !== clipId && !(ref && c.offlineMedia === ref && isOffline(c))) return c
+    return {
+      ...c,
+      url: media.url,
+      assetId: media.id,
+      mediaId: media.mediaId,
+      assetType: media.type || c.assetType,
+      mediaDuration: media.duration ?? c.mediaDuration,
+      waveform: media.waveform ?? c.waveform ?? null,
+      thumb: media.thumb ?? c.thumb ?? null,
+      offlineMedia: undefined
+    }
+  })
+}
+
+type PendingClip = {
+  kind: 'video' | 'audio'
+  lane: number // video lanes count up from 0, audio lanes down from 0
+  title: string
+  start: number
+  duration: number
+  sourceIn: number
+  media: MediaRef
+  mediaDuration?: number
+  extra?: Partial<Clip>
+}
+
+// Lanes become V1..Vn (bottom up) and A1..An (top down); lanes keep their relative order.
+const assemble = (pending: PendingClip[], markers: Marker[], fps: number, warnings: string[], opts: TimelineImportOptions, names: Record<string, string> = {}): TimelineImport => {
+  const laneKey = (p: Pick<PendingClip, 'kind' | 'lane'>) => `${p.kind}:${p.lane}`
+  const videoLanes = [...new Set(pending.filter(p => p.kind === 'video').map(p => p.lane))].sort((a, b) => a - b)
+  const audioLanes = [...new Set(pending.filter(p => p.kind === 'audio').map(p => p.lane))].sort((a, b) => b - a)
+  const trackIds = new Map<string, string>()
+  const tracks: TrackState[] = [
+    ...videoLanes.map((lane, i) => ({ key: laneKey({ kind: 'video', lane }), id: `v${i + 1}`, name: `V${i + 1}`, type: 'video' as const })),
+    ...audioLanes.map((lane, i) => ({ key: laneKey({ kind: 'audio', lane }), id: `a${i + 1}`, name: `A${i + 1}`, type: 'audio' as const }))
+  ].map(({ key, id, name, type }) => {
+    trackIds.set(key, id)
+    return { id, name: names[key] || name, type, height: 'normal' as const }
+  })
+
+  let offline = 0
+  const usedIds = new Set<string>()
+  const clips = pending
+    .filter(p => p.duration > 0)
+    .sort((a, b) => a.start - b.start)
+    .map((p, i): Clip => {
+      const match = opts.resolveMedia(p.media)
+      if (!match) offline += 1
+      const wanted = p.extra?.id
+      const id = wanted && !usedIds.has(wanted) ? wanted : `imp-${i + 1}`
+      usedIds.add(id)
+      const assetType = match?.assetType || p.extra?.assetType || guessAssetType(p.media.name) || guessAssetType(p.media.url || '') || `${p.kind}/unknown`
+      return {
+        title: p.title || p.media.name,
+        track: trackIds.get(laneKey(p))!,
+        color: opts.clipColors[i % opts.clipColors.length],
+        start: Math.max(0, p.start),
+        duration: p.duration,
+        mediaOffset: assetType.startsWith('image') ? 0 : Math.max(0, p.sourceIn),
+        mediaDuration: match?.mediaDuration ?? p.mediaDuration,
+        gain: 1,
+        fadeIn: 0.12,
+        fadeOut: 0.12,
+        ...p.extra,
+        id,
+        url: match?.url,
+        assetId: match?.assetId,
+        mediaId: match?.mediaId,
+        assetType,
+        waveform: match?.waveform ?? null,
+        thumb: match?.thumb ?? null,
+        offlineMedia: match ? undefined : p.media.url || p.media.name
+      }
+    })
+  if (offline) warnings.push(`${offline} clip(s) reference media that isn't in the pool; they are marked offline until relinked.`)
+  return { tracks, clips, markers: markers.sort((a, b) => a.time - b.time), fps, warnings, offline }
+}
+
+const importedMarker = (time: number, label: string, color: string, extra: Partial<Marker> = {}): Marker => ({
+  id: createMarkerId(),
+  time: Math.max(0, time),
+  label: label || 'Marker',
+  color,
+  type: 'cue',
+  ...extra
+})
+
+// --- CMX3600 import ---
+
+const EDL_EVENT = /^(\d{3,6})\s+(\S+)\s+(\S+)\s+(C|D|W\d{3}|K[BO]?)\s+(?:(\d{1,3})\s+)?(\d{2}[:;]\d{2}[:;]\d{2}[:;]\d{2})\s+(\d{2}[:;]\d{2}[:;]\d{2}[:;]\d{2})\s+(\d{2}[:;]\d{2}[:;]\d{2}[:;]\d{2})\s+(\d{2}[:;]\d{2}[:;]\d{2}[:;]\d{2})/
+
+// V, A, A2, AA, A/V, B (picture and sound) and the 4-channel forms all show up in the wild
+const edlChannels = (channel: string) => {
+  const upper = channel.toUpperCase()
+  const both = upper === 'B' || upper.includes('/V') || upper.startsWith('V/')
+  const video = both || upper.startsWith('V')
+  const audio = [...upper.matchAll(/A(\d)?/g)].map(m => Number(m[1] || 1))
+  if (upper === 'AA' || upper.startsWith('AA/')) audio.splice(0, audio.length, 1)
+  if (both && !audio.length) audio.push(1)
+  return { video, audio: [...new Set(audio)] }
+}
+
+export const importCmx3600 = (text: string, opts: TimelineImportOptions): TimelineImport => {
+  const { fps } = opts
+  const warnings: string[] = []
+  type EdlEvent = { reel: string; channel: string; transition: string; tc: number[]; comments: string[] }
+  const events: EdlEvent[] = []
+  let dropFrame = false // FCM applies to the events after it; `;` marks drop-frame per timecode too
+  text.split(/\r?\n/).forEach(raw => {
+    const line = raw.trim()
+    const m = line.match(EDL_EVENT)
+    if (m) {
+      events.push({ reel: m[2], channel: m[3], transition: m[4], tc: m.slice(6, 10).map(tc => parseTcToFrames(tc, fps, dropFrame || tc.includes(';'))), comments: [] })
+    } else if (events.length && line) {
+      events[events.length - 1].comments.push(line)
+    } else if (/^FCM:/i.test(line)) {
+      dropFrame = /^FCM:\s*DROP/i.test(line)
+      if (dropFrame && !canDropFrame(fps)) warnings.push(`The EDL is drop-frame; timecode was read as non-drop at ${fps} fps.`)
+    }
+  })
+  if (!events.length) throw new Error('No CMX3600 events found; is this an EDL?')
+
+  const base = inferTimecodeBaseSeconds(events.map(e => e.tc[2]), fps, dropFrame)
+  const pending: PendingClip[] = []
+  let dissolves = 0
+  let speedChanges = 0
+  events.forEach(e => {
+    const [srcIn, srcOut, recIn, recOut] = e.tc
+    if (recOut <= recIn || /^(BL|BLACK)$/i.test(e.reel)) return
+    if (e.transition !== 'C') dissolves += 1
+    const comment = (key: RegExp) => e.comments.map(c => c.match(key)?.[1]?.trim()).find(Boolean)
+    if (e.comments.some(c => /^M2\s/.test(c))) speedChanges += 1
+    // a dissolve's block names the outgoing clip FROM and the incoming one (this event) TO
+    const clipName = (e.transition !== 'C' && comment(/^\*\s*TO CLIP NAME:\s*(.+)$/i)) || comment(/^\*\s*FROM CLIP NAME:\s*(.+)$/i)
+    const file = comment(/^\*\s*SOURCE FILE:\s*(.+)$/i)
+    const media = { name: file || clipName || e.reel }
+    const { video, audio } = edlChannels(e.channel)
+    const cut = { title: clipName || media.name, start: snapToFrame(framesToSeconds(recIn, fps) - base, fps), duration: framesToSeconds(recOut - recIn, fps), sourceIn: framesToSeconds(srcIn, fps), media }
+    if (srcOut - srcIn !== recOut - recIn) speedChanges += 1
+    if (video) pending.push({ ...cut, kind: 'video', lane: 0 })
+    audio.forEach(ch => pending.push({ ...cut, kind: 'audio', lane: 1 - ch }))
+  })
+  if (pending.some(p => p.sourceIn >= 3600)) warnings.push('Source timecode was taken as the offset into each file; media recorded with a start timecode will need slipping after relinking.')
+  if (dissolves) warnings.push(`${dissolves} dissolve/wipe event(s) were imported as cuts.`)
+  if (speedChanges) warnings.push(`${speedChanges} event(s) change speed; clips play at normal speed from their source in-point.`)
+  return assemble(pending, [], fps, warnings, opts)
+}
+
+// --- FCPXML import ---
+
+type XmlNode = { name: string; attrs: Record<string, string>; children: XmlNode[] }
+
+const decodeEntities = (value: string) => value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, e: string) => {
+  if (e[0] === '#') return String.fromCodePoint(e[1].toLowerCase() === 'x' ? parseInt(e.slice(2), 16) : Number(e.slice(1)))
+  return ({ amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" } as Record<string, string>)[e.toLowerCase()]
+})
+
+// Elements and attributes only: FCPXML keeps everything we need in attributes, so text
+// content, comments, processing instructions and the DOCTYPE are skipped.
+export const parseXml = (text: string): XmlNode => {
+  const root: XmlNode = { name: '#document', attrs: {}, children: [] }
+  const stack = [root]
+  const tag = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<\/([^\s>]+)\s*>|<([^\s/>!?]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g
+  for (const m of text.matchAll(tag)) {
+    if (m[1]) {
+      const idx = stack.map(n => n.name).lastIndexOf(m[1])
+      if (idx < 1) throw new Error(`Unexpected </${m[1]}> in XML`)
+      stack.length = idx
+    } else if (m[2]) {
+      const attrs: Record<string, string> = {}
+      for (const a of (m[3] || '').matchAll(/([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) attrs[a[1]] = decodeEntities(a[2] ?? a[3] ?? '')
+      const node = { name: m[2], attrs, children: [] }
+      stack[stack.length - 1].children.push(node)
+      if (!m[4]) stack.push(node)
+    }
+  }
+  if (!root.children.length) throw new Error('Not an XML document')
+  return root
+}
+
+const findNode = (node: XmlNode, name: string): XmlNode | undefined => {
+  for (const child of node.children) {
+    if (child.name === name) return child
+    const hit = findNode(child, name)
+    if (hit) return hit
+  }
+  return undefined
+}
+
+// "1001/30000s", "5s" or "0s"
+const fcpTime = (value?: string) => {
+  if (!value) return 0
+  const [num, den] = value.replace(/s$/, '').split('/').map(Number)
+  const seconds = num / (den || 1)
+  return Number.isFinite(seconds) ? seconds : 0
+}
+
+const FCP_MARKERS = ['marker', 'chapter-marker']
+const FCP_SKIPPED = ['title', 'mc-clip', 'transition']
+
+export const importFcpxml = (text: string, opts: TimelineImportOptions): TimelineImport => {
+  const doc = parseXml(text)
+  const root = findNode(doc, 'fcpxml')
+  if (!root) throw new Error('No <fcpxml> root; is this a Final Cut Pro XML file?')
+  const sequence = findNode(root, 'sequence')
+  const spine = sequence && sequence.children.find(c => c.name === 'spine')
+  if (!sequence || !spine) throw new Error('The FCPXML has no project sequence to import')
+  const warnings: string[] = []
+  const resources = findNode(root, 'resources')?.children ?? []
+  const byId = new Map(resources.filter(r => r.attrs.id).map(r => [r.attrs.id, r]))
+
+  const frameDuration = byId.get(sequence.attrs.format)?.attrs.frameDuration
+  const fps = frameDuration ? Math.round(1000 / fcpTime(frameDuration)) / 1000 : opts.fps
+  const tcStart = fcpTime(sequence.attrs.tcStart)
+
+  const mediaFor = (ref?: string) => {
+    const res = ref ? byId.get(ref) : undefined
+    if (!res) return null
+    const src = res.attrs.src || res.children.find(c => c.name === 'media-rep')?.attrs.src
+    return {
+      media: { name: res.attrs.name || (src ? decodeURIComponent(src.split('/').pop() || '') : ref!), url: src },
+      audioOnly: res.name === 'asset' && res.attrs.hasVideo !== '1' && res.attrs.hasAudio === '1',
+      start: fcpTime(res.attrs.start),
+      duration: fcpTime(res.attrs.duration) || undefined, // stills say 0s
+      compound: res.name === 'media'
+    }
+  }
+
+  const pending: PendingClip[] = []
+  const markers: Marker[] = []
+  const skipped = new Set<string>()
+  let compounds = 0
+
+  const gainOf = (node: XmlNode) => {
+    const amount = node.children.find(c => c.name === 'adjust-volume')?.attrs.amount
+    return amount ? Math.round(10 ** (parseFloat(amount) / 20) * 1000) / 1000 : undefined
+  }
+
+  // `toRecord` maps a time in the container's local timeline onto the sequence
+  const walk = (nodes: XmlNode[], toRecord: (t: number) => number, lane: number, inClip: boolean) => {
+    nodes.forEach(node => {
+      if (FCP_MARKERS.includes(node.name)) {
+        const label = node.attrs.value || 'Marker'
+        const duration = fcpTime(node.attrs.duration)
+        markers.push(importedMarker(snapToFrame(toRecord(fcpTime(node.attrs.start)), fps), label, opts.markerColor, {
+          type: node.name === 'chapter-marker' ? 'chapter' : node.attrs.completed !== undefined ? 'todo' : 'cue',
+          ...(duration > 1.5 / fps ? { duration } : {}),
+          ...(node.attrs.note ? { notes: node.attrs.note } : {})
+        }))
+        return
+      }
+      if (FCP_SKIPPED.includes(node.name)) {
+        if (node.name !== 'transition') skipped.add(node.name)
+        return
+      }
+      const own = node.attrs.lane !== undefined ? Number(node.attrs.lane) : null
+      // a <clip>'s own video/audio without a lane is its media, handled by the clip itself
+      if (inClip && own === null && (node.name === 'video' || node.name === 'audio' || node.name === 'asset-clip')) return
+      const nodeLane = own ?? lane
+      const offset = fcpTime(node.attrs.offset)
+      const start = fcpTime(node.attrs.start)
+      const duration = fcpTime(node.attrs.duration)
+      const recordStart = toRecord(offset)
+      const local = (t: number) => recordStart + (t - start)
+
+      if (node.name === 'spine') {
+        const first = node.children.find(c => c.attrs.offset !== undefined)
+        const origin = fcpTime(first?.attrs.offset)
+        walk(node.children, t => recordStart + (t - origin), nodeLane, false)
+        return
+      }
+      if (node.name === 'gap' || node.name === 'sync-clip') {
+        walk(node.children, local, nodeLane, false)
+        return
+      }
+      if (!['asset-clip', 'clip', 'ref-clip', 'video', 'audio'].includes(node.name)) return
+
+      let ref: string | undefined = node.attrs.ref
+      let sourceIn = start
+      if (node.name === 'clip') {
+        const inner = node.children.find(c => (c.name === 'video' || c.name === 'asset-clip') && c.attrs.lane === undefined)
+          ?? node.children.find(c => c.name === 'audio' && c.attrs.lane === undefined)
+        ref = inner?.attrs.ref
+        if (inner) sourceIn = fcpTime(inner.attrs.start) + (start - fcpTime(inner.attrs.offset))
+      }
+      if (ref && byId.get(ref)?.name === 'effect') {
+        skipped.add('generator')
+        return
+      }
+      const media = mediaFor(ref)
+      if (!media) {
+        skipped.add(node.name)
+        return
+      }
+      if (media.compound) compounds += 1
+      const kind = node.name === 'audio' || media.audioOnly ? 'audio' : 'video'
+      const gain = gainOf(node)
+      pending.push({
+        kind,
+        lane: kind === 'audio' && nodeLane > 0 ? -nodeLane : kind === 'video' && nodeLane < 0 ? 0 : nodeLane,
+        title: node.attrs.name || media.media.name,
+        start: snapToFrame(recordStart, fps),
+        duration,
+        sourceIn: sourceIn - media.start,
+        media: media.media,
+        mediaDuration: media.duration,
+        extra: gain !== undefined ? { gain } : undefined
+      })
+      walk(node.children, local, nodeLane, node.name === 'clip')
+    })
+  }
+
+  walk(spine.children, t => t - tcStart, 0, false)
+  if (compounds) warnings.push(`${compounds} compound clip(s) came in as single offline clips; their contents are not expanded.`)
+  if (skipped.size) warnings.push(`Skipped ${[...skipped].join(', ')} items; only media clips, gaps and markers are imported.`)
+  if (sequence.attrs.tcFormat === 'DF') warnings.push('The sequence uses drop-frame timecode; times were read as real time.')
+  return assemble(pending, markers, fps, warnings, opts)
+}
+
+// --- OpenTimelineIO import ---
+
+type OtioTime = { value: number; rate: number }
+type OtioRange = { start_time: OtioTime; duration: OtioTime }
+type OtioMarker = { name?: string; color?: string; comment?: string; marked_range?: OtioRange; metadata?: Record<string, Record<string, unknown>> }
+type OtioMediaReference = { OTIO_SCHEMA: string; name?: string; target_url?: string; target_url_base?: string; name_prefix?: string; available_range?: OtioRange | null }
+type OtioItem = {
+  OTIO_SCHEMA: string
+  name?: string
+  kind?: string
+  source_range?: OtioRange | null
+  media_reference?: OtioMediaReference | null // Clip.1
+  media_references?: Record<string, OtioMediaReference | null> // Clip.2 (OTIO 0.15+)
+  active_media_reference_key?: string
+  children?: OtioItem[]
+  markers?: OtioMarker[]
+  metadata?: Record<string, Record<string, unknown>>
+}
+
+const otioSeconds = (t?: OtioTime | null) => (t && t.rate ? t.value / t.rate : 0)
+
+const schemaIs = (item: { OTIO_SCHEMA?: string }, name: string) => (item.OTIO_SCHEMA || '').split('.')[0] === name
+
+// Clip.2 keeps several references under keys and names the active one
+const otioMediaReference = (item: OtioItem) =>
+  item.media_references?.[item.active_media_reference_key ?? 'DEFAULT_MEDIA'] ?? item.media_reference ?? null
+
+// Duration of anything in a track: its trim if it has one, else its media or children
+const otioDuration = (item: OtioItem): number => {
+  if (item.source_range) return otioSeconds(item.source_range.duration)
+  const ref = otioMediaReference(item)
+  if (ref?.available_range) return otioSeconds(ref.available_range.duration)
+  if (schemaIs(item, 'Stack')) return Math.max(0, ...(item.children ?? []).map(otioDuration))
+  if (schemaIs(item, 'Track')) return (item.children ?? []).filter(c => !schemaIs(c, 'Transition')).reduce((sum, c) => sum + otioDuration(c), 0)
+  return 0
+}
+
+export const importOtio = (text: string, opts: TimelineImportOptions): TimelineImport => {
+  let timeline: OtioItem & { tracks?: OtioItem; global_start_time?: OtioTime | null }
+  try {
+    timeline = JSON.parse(text)
+  } catch {
+    throw new Error('The OTIO file is not valid JSON')
+  }
+  if (!schemaIs(timeline, 'Timeline') || !timeline.tracks) throw new Error('No OTIO Timeline found in the file')
+  const ours = (item: { metadata?: Record<string, Record<string, unknown>> }) => item.metadata?.[OTIO_METADATA_KEY] ?? {}
+  const warnings: string[] = []
+  const firstRate = JSON.stringify(timeline).match(/"rate":\s*([\d.]+)/)?.[1]
+  const fps = Number(ours(timeline).fps) || Number(firstRate) || opts.fps
+
+  const pending: PendingClip[] = []
+  const markers: Marker[] = []
+  const names: Record<string, string> = {}
+  const skipped = new Set<string>()
+
+  const addMarker = (m: OtioMarker, toRecord: (t: number) => number) => {
+    const meta = ours(m)
+    const type = typeof meta.type === 'string' && ['cue', 'beat', 'chapter', 'todo'].includes(meta.type) ? meta.type as Marker['type'] : 'cue'
+    const color = typeof meta.color === 'string' ? meta.color : OTIO_COLORS[(m.color || '').toUpperCase()] || opts.markerColor
+    const duration = otioSeconds(m.marked_range?.duration)
+    markers.push(importedMarker(snapToFrame(toRecord(otioSeconds(m.marked_range?.start_time)), fps), m.name || '', color, {
+      ...(typeof meta.id === 'string' ? { id: meta.id } : {}),
+      type,
+      ...(duration > 0 ? { duration } : {}),
+      ...(m.comment ? { notes: m.comment } : {})
+    }))
+  }
+
+  ;(timeline.tracks.markers ?? []).forEach(m => addMarker(m, t => t))
+  const trackCount = { video: 0, audio: 0 }
+  ;(timeline.tracks.children ?? []).forEach(track => {
+    if (!schemaIs(track, 'Track')) {
+      skipped.add(track.OTIO_SCHEMA)
+      return
+    }
+    const kind = track.kind === 'Audio' ? 'audio' : 'video'
+    const lane = kind === 'video' ? trackCount.video++ : -trackCount.audio++
+    if (track.name) names[`${kind}:${lane}`] = track.name
+    const trackStart = otioSeconds(track.source_range?.start_time)
+    ;(track.markers ?? []).forEach(m => addMarker(m, t => t - trackStart))
+    let cursor = 0
+    ;(track.children ?? []).forEach(item => {
+      if (schemaIs(item, 'Transition')) {
+        skipped.add('transition')
+        return
+      }
+      const duration = otioDuration(item)
+      if (schemaIs(item, 'Clip')) {
+        const ref = otioMediaReference(item)
+        const available = ref?.available_range ? otioSeconds(ref.available_range.start_time) : 0
+        const rawIn = item.source_range ? otioSeconds(item.source_range.start_time) : available
+        const url = ref?.target_url || (ref?.target_url_base ? `${ref.target_url_base}${ref.name_prefix ?? ''}` : undefined)
+        const meta = ours(item)
+        const refMeta = ref ? ours(ref as { metadata?: Record<string, Record<string, unknown>> }) : {}
+        const extra: Partial<Clip> = {}
+        if (typeof meta.id === 'string') extra.id = meta.id
+        if (typeof meta.color === 'string') extra.color = meta.color
+        if (typeof meta.gain === 'number') extra.gain = meta.gain
+        if (typeof meta.fadeIn === 'number') extra.fadeIn = meta.fadeIn
+        if (typeof meta.fadeOut === 'number') extra.fadeOut = meta.fadeOut
+        if (typeof refMeta.assetType === 'string') extra.assetType = refMeta.assetType
+        if (ref && !schemaIs(ref, 'ExternalReference') && !schemaIs(ref, 'ImageSequenceReference')) skipped.add(ref.OTIO_SCHEMA.split('.')[0])
+        pending.push({
+          kind,
+          lane,
+          title: item.name || '',
+          start: snapToFrame(cursor, fps),
+          duration,
+          sourceIn: rawIn - available,
+          media: { name: ref?.name || (url ? decodeURIComponent(url.split('/').pop() || '') : item.name || 'Offline media'), url },
+          mediaDuration: ref?.available_range ? otioSeconds(ref.available_range.duration) : undefined,
+          extra
+        })
+        ;(item.markers ?? []).forEach(m => addMarker(m, t => cursor + (t - rawIn)))
+      } else if (!schemaIs(item, 'Gap')) {
+        skipped.add(item.OTIO_SCHEMA.split('.')[0])
+      }
+      cursor += duration
+    })
+  })
+  if (skipped.size) warnings.push(`Skipped ${[...skipped].join(', ')} items; nested stacks, transitions and generators are not imported.`)
+  return assemble(pending, markers, fps, warnings, opts, names)
+}
+
+export const TIMELINE_IMPORT_ACCEPT = '.otio,.fcpxml,.xml,.edl'
+
+export const detectTimelineFormat = (fileName: string, text: string): TimelineFormat => {
+  const ext = fileName.toLowerCase().split('.').pop()
+  if (ext === 'otio') return 'otio'
+  if (ext === 'fcpxml' || ext === 'xml') return 'fcpxml'
+  if (ext === 'edl') return 'cmx3600'
+  const head = text.trimStart()
+  if (head.startsWith('{')) return 'otio'
+  if (head.startsWith('<')) return 'fcpxml'
+  return 'cmx3600'
+}
+
+export const importTimeline = (format: TimelineFormat, text: string, opts: TimelineImportOptions): TimelineImport => {
+  if (format === 'cmx3600') return importCmx3600(text, opts)
+  if (format === 'fcpxml') return importFcpxml(text, opts)
+  return importOtio(text, opts)
+}
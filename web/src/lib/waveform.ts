@@ -0,0 +1,24 @@
+// Normalised peak buckets for waveform strips (left/right averaged).
+export const waveformPeaks = (channels: Float32Array[]) => {
+  const channelL = channels[0]
+  const channelR = channels.length > 1 ? channels[1] : null
+  if (!channelL?.length) return []
+  const buckets = Math.min(512, Math.max(96, Math.floor(channelL.length / 4000)))
+  const step = Math.max(1, Math.floor(channelL.length / buckets))
+  const samplesL: number[] = []
+  const samplesR: number[] = []
+  for (let i = 0; i < buckets; i++) {
+    let sumL = 0
+    let sumR = 0
+    for (let j = 0; j < step; j++) {
+      const idx = i * step + j
+      sumL += Math.abs(channelL[idx] || 0)
+      if (channelR) sumR += Math.abs(channelR[idx] || 0)
+    }
+    samplesL.push(sumL / step)
+    if (channelR) samplesR.push(sumR / step)
+  }
+  let max = 0.001
+  for (let i = 0; i < buckets; i++) max = Math.max(max, samplesL[i], samplesR[i] ?? 0)
+  return samplesL.map((s, i) => (s + (samplesR[i] || s)) / (samplesR.length ? 2 : 1) / max)
+}
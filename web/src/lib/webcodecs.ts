@@ -0,0 +1,373 @@
+import type { Clip, TrackState } from '../types'
+import type { OverlayPosition } from './burnIn'
+import { muxMp4, muxWebm } from './mux'
+import type { MuxAudioTrack, MuxSample, MuxVideoTrack } from './mux'
+import { BURN_IN_FONT_URL, BURN_IN_MARGIN, BURN_IN_TEXT, kindOf, liveRenderClips } from './render'
+import type { AudioCodec, RenderFormat, RenderRunOpts, RenderSettings, VideoCodec } from './render'
+import { exactFps, secondsToTc } from './timecode'
+
+// The WebCodecs backend: every frame is drawn on an OffscreenCanvas the way the ffmpeg graph
+// composites it, encoded with VideoEncoder, the offline mixdown goes through AudioEncoder, and
+// mux.ts writes the container. Runs on the main thread because frames come from <video> seeks, so
+// the page stutters while it renders: the queue only takes this path when the job opts in.
+
+// `quantizer` is set when the encoder runs in per-frame quantizer mode (the preset's CRF)
+export type WebCodecsPlan = { format: RenderFormat; video: VideoEncoderConfig; audio: AudioEncoderConfig; quantizer?: number }
+
+const VIDEO_CODECS: Record<VideoCodec, string[]> = {
+  h264: ['avc1.640033', 'avc1.4d0033', 'avc1.420033'], // High / Main / Baseline, level 5.1 covers up to 4K
+  vp9: ['vp09.00.51.08'],
+  vp8: ['vp8']
+}
+
+// Fallbacks after the preset's own codec: Linux Chrome has no AAC encoder and no browser encodes
+// Vorbis, so both containers end up on Opus there
+const AUDIO_CODECS: Record<AudioCodec, string> = { aac: 'mp4a.40.2', opus: 'opus', vorbis: 'opus' }
+const AUDIO_FALLBACK: Record<RenderFormat, string[]> = { mp4: ['mp4a.40.2', 'opus'], webm: ['opus'] }
+
+const SAMPLE_RATE = 48000
+const KEYFRAME_SECONDS = 2
+const AUDIO_CHUNK = 4800 // frames per AudioData
+const MAX_QUEUE = 8 // encoder backpressure: frames in flight before the loop waits
+const FONT_FAMILY = 'timeline-burn-in'
+
+const abortError = () => new DOMException('Render cancelled', 'AbortError')
+
+const firstSupported = async <C>(configs: C[], check: (config: C) => Promise<{ supported?: boolean }>) => {
+  for (const config of configs) {
+    try {
+      if ((await check(config)).supported) return config
+    } catch {
+      /* malformed for this browser: try the next one */
+    }
+  }
+  return null
+}
+
+// Null when this browser can't encode the preset, and the queue uses ffmpeg.wasm instead.
+export const planWebCodecs = async (settings: RenderSettings): Promise<WebCodecsPlan | null> => {
+  if (typeof VideoEncoder === 'undefined' || typeof AudioEncoder === 'undefined' || typeof OffscreenCanvas === 'undefined') return null
+  const { format, width, height, fps, videoCodec } = settings
+  const base = (codec: string): VideoEncoderConfig => ({
+    codec,
+    width,
+    height,
+    framerate: fps,
+    bitrate: settings.videoKbps * 1000,
+    latencyMode: 'quality',
+    ...(codec.startsWith('avc1') ? { avc: { format: 'avc' } } : {})
+  })
+  // CRF maps onto quantizer mode where the encoder has it (H.264, VP9); otherwise the bitrate applies
+  const quantized = settings.rateControl === 'crf' && videoCodec !== 'vp8'
+  const candidates = VIDEO_CODECS[videoCodec].flatMap(codec => [
+    ...(quantized ? [{ ...base(codec), bitrateMode: 'quantizer' as const }] : []),
+    base(codec)
+  ])
+  const video = await firstSupported(candidates, config => VideoEncoder.isConfigSupported(config))
+  const audioCodecs = [...new Set([AUDIO_CODECS[settings.audioCodec], ...AUDIO_FALLBACK[format]])].filter(c => AUDIO_FALLBACK[format].includes(c))
+  const audio = await firstSupported(
+    audioCodecs.map((codec): AudioEncoderConfig => ({ codec, sampleRate: SAMPLE_RATE, numberOfChannels: 2, bitrate: settings.audioKbps * 1000 })),
+    config => AudioEncoder.isConfigSupported(config)
+  )
+  if (!video || !audio) return null
+  return { format, video, audio, quantizer: video.bitrateMode === 'quantizer' ? settings.crf : undefined }
+}
+
+export const describePlan = (plan: WebCodecsPlan) => {
+  const rate = plan.quantizer !== undefined ? `q${plan.quantizer}` : `${Math.round((plan.video.bitrate ?? 0) / 1000)} kb/s`
+  return `${plan.video.codec} (${rate}) + ${plan.audio.codec}`
+}
+
+type Source = { kind: 'image'; bitmap: ImageBitmap } | { kind: 'video'; video: HTMLVideoElement }
+
+export const loadBitmap = async (url: string, signal?: AbortSignal) => {
+  const res = await fetch(url, { signal })
+  if (!res.ok) throw new Error(`Could not fetch ${url} (${res.status})`)
+  return createImageBitmap(await res.blob())
+}
+
+export const loadVideo = (url: string) => new Promise<HTMLVideoElement>((resolve, reject) => {
+  const video = document.createElement('video')
+  video.muted = true
+  video.playsInline = true
+  video.preload = 'auto'
+  if (/^https?:/.test(url) && new URL(url).origin !== location.origin) video.crossOrigin = 'anonymous' // untainted canvas
+  video.addEventListener('loadeddata', () => resolve(video), { once: true })
+  video.addEventListener('error', () => reject(new Error(`Could not decode ${url}`)), { once: true })
+  video.src = url
+})
+
+export const seek = (video: HTMLVideoElement, time: number) => new Promise<void>((resolve, reject) => {
+  if (Math.abs(video.currentTime - time) < 1e-4 && !video.seeking) return resolve()
+  const done = () => {
+    video.removeEventListener('error', fail)
+    resolve()
+  }
+  const fail = () => {
+    video.removeEventListener('seeked', done)
+    reject(new Error('Seek failed'))
+  }
+  video.addEventListener('seeked', done, { once: true })
+  video.addEventListener('error', fail, { once: true })
+  video.currentTime = time
+})
+
+// Same fit as the ffmpeg chain: scaled to fit the frame, centred on transparent padding
+const drawContained = (ctx: OffscreenCanvasRenderingContext2D, image: CanvasImageSource, iw: number, ih: number, W: number, H: number) => {
+  const scale = Math.min(W / iw, H / ih)
+  const w = Math.round(iw * scale)
+  const h = Math.round(ih * scale)
+  ctx.drawImage(image, Math.round((W - w) / 2), Math.round((H - h) / 2), w, h)
+}
+
+const fadeAlpha = (clip: Clip, local: number) => {
+  const fadeIn = Math.max(0, clip.fadeIn ?? 0)
+  const fadeOut = Math.max(0, clip.fadeOut ?? 0)
+  let alpha = 1
+  if (fadeIn > 0) alpha = Math.min(alpha, local / fadeIn)
+  if (fadeOut > 0) alpha = Math.min(alpha, (clip.duration - local) / fadeOut)
+  return Math.max(0, Math.min(1, alpha))
+}
+
+// Text layout of drawtext in render.ts: `slot` stacks lines that share a corner
+const textOrigin = (position: OverlayPosition, slot: number, size: number, margin: number, tw: number, W: number, H: number) => {
+  const line = Math.round(size * 1.5)
+  const x = position.endsWith('left') ? margin : position.endsWith('right') ? W - tw - margin : (W - tw) / 2
+  const y = position.startsWith('top') ? margin + slot * line : position.startsWith('bottom') ? H - (margin + size + slot * line) : (H - size) / 2 + slot * line
+  return { x, y }
+}
+
+const overlayOrigin = (position: OverlayPosition, w: number, h: number, margin: number, W: number, H: number) => ({
+  x: position.endsWith('left') ? margin : position.endsWith('right') ? W - w - margin : (W - w) / 2,
+  y: position.startsWith('top') ? margin : position.startsWith('bottom') ? H - h - margin : (H - h) / 2
+})
+
+const chunkBytes = (chunk: EncodedVideoChunk | EncodedAudioChunk): MuxSample => {
+  const data = new Uint8Array(chunk.byteLength)
+  chunk.copyTo(data)
+  return { data, timestamp: chunk.timestamp, duration: chunk.duration ?? 0, key: chunk.type === 'key' }
+}
+
+const descriptionBytes = (config?: { description?: AllowSharedBufferSource }) => {
+  const d = config?.description
+  if (!d) return undefined
+  return d instanceof ArrayBuffer || d instanceof SharedArrayBuffer ? new Uint8Array(d.slice(0)) : new Uint8Array(d.buffer.slice(d.byteOffset, d.byteOffset + d.byteLength))
+}
+
+// Per-frame quantizer: `avc` is in the DOM typings, `vp9` (Chrome) isn't yet
+const quantizerOption = (codec: string, quantizer: number): VideoEncoderEncodeOptions => (codec.startsWith('avc1')
+  ? { avc: { quantizer } }
+  : { vp9: { quantizer } } as VideoEncoderEncodeOptions)
+
+const muxCodec = (codec: string): MuxVideoTrack['codec'] => (codec.startsWith('avc1') ? 'avc' : codec.startsWith('vp09') ? 'vp9' : 'vp8')
+
+// `mix` is the offline mixdown of [0, duration) at 48 kHz; master gain and the slate's lead-in are applied here.
+export const renderWithWebCodecs = async (
+  tracks: TrackState[],
+  clips: Clip[],
+  settings: RenderSettings,
+  duration: number,
+  mix: AudioBuffer,
+  plan: WebCodecsPlan,
+  opts: RenderRunOpts = {}
+) => {
+  const { signal, onProgress, onLog } = opts
+  const { width: W, height: H, burnIn } = settings
+  const fps = exactFps(settings.fps) // 29.97 -> 30000/1001
+  const { visual } = liveRenderClips(tracks, clips, duration)
+  const slate = burnIn?.slate ? Math.max(0, burnIn.settings.slateSeconds) : 0
+  const slateFrames = Math.round(slate * fps)
+  const programFrames = Math.round(duration * fps)
+  const totalFrames = slateFrames + programFrames
+
+  const sources = new Map<string, Source>()
+  const bitmaps: ImageBitmap[] = []
+  const videos: HTMLVideoElement[] = []
+  const encoders: Array<VideoEncoder | AudioEncoder> = []
+  try {
+    onProgress?.(0, 'Loading media…')
+    for (const clip of visual) {
+      const url = clip.url as string
+      if (sources.has(url)) continue
+      if (signal?.aborted) throw abortError()
+      if (kindOf(clip) === 'image') {
+        const bitmap = await loadBitmap(url, signal)
+        bitmaps.push(bitmap)
+        sources.set(url, { kind: 'image', bitmap })
+      } else {
+        const video = await loadVideo(url)
+        videos.push(video)
+        sources.set(url, { kind: 'video', video })
+      }
+    }
+    const watermark = burnIn?.settings.watermark
+    const watermarkBitmap = watermark?.url ? await loadBitmap(watermark.url, signal) : null
+    if (watermarkBitmap) bitmaps.push(watermarkBitmap)
+    if (burnIn) {
+      const face = new FontFace(FONT_FAMILY, `url(${BURN_IN_FONT_URL})`)
+      document.fonts.add(await face.load())
+    }
+
+    let failure: Error | null = null
+    const fail = (err: DOMException) => { failure = failure ?? new Error(`Encoder error: ${err.message}`) }
+    const videoSamples: MuxSample[] = []
+    const audioSamples: MuxSample[] = []
+    let videoDescription: Uint8Array | undefined
+    let audioDescription: Uint8Array | undefined
+    const videoEncoder = new VideoEncoder({
+      output: (chunk, meta) => {
+        videoDescription = videoDescription ?? descriptionBytes(meta?.decoderConfig)
+        videoSamples.push(chunkBytes(chunk))
+      },
+      error: fail
+    })
+    const audioEncoder = new AudioEncoder({
+      output: (chunk, meta) => {
+        audioDescription = audioDescription ?? descriptionBytes(meta?.decoderConfig)
+        audioSamples.push(chunkBytes(chunk))
+      },
+      error: fail
+    })
+    encoders.push(videoEncoder, audioEncoder)
+    videoEncoder.configure(plan.video)
+    audioEncoder.configure(plan.audio)
+    onLog?.(`WebCodecs: ${describePlan(plan)}, ${W}x${H} @ ${settings.fps} fps, ${totalFrames} frames`)
+
+    const canvas = new OffscreenCanvas(W, H)
+    const ctx = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D
+    const size = Math.round(H * BURN_IN_TEXT)
+    const margin = Math.round(H * BURN_IN_MARGIN)
+
+    const drawText = (text: string, x: number, y: number, fontSize: number, color: string, box: boolean) => {
+      ctx.font = `${fontSize}px "${FONT_FAMILY}", monospace`
+      ctx.textBaseline = 'top'
+      if (box) {
+        const border = Math.round(fontSize * 0.25)
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.55)'
+        ctx.fillRect(x - border, y - border, ctx.measureText(text).width + border * 2, fontSize + border * 2)
+      }
+      ctx.fillStyle = color
+      ctx.fillText(text, x, y)
+    }
+
+    const drawSlate = (lines: string[]) => {
+      ctx.fillStyle = '#000'
+      ctx.fillRect(0, 0, W, H)
+      const heights = lines.map((_, i) => (i === 0 ? Math.round(size * 1.6) : size))
+      const gap = Math.round(size * 0.8)
+      let y = Math.round((H - heights.reduce((a, h) => a + h, 0) - gap * (heights.length - 1)) / 2)
+      lines.forEach((line, i) => {
+        ctx.font = `${heights[i]}px "${FONT_FAMILY}", monospace`
+        drawText(line, (W - ctx.measureText(line).width) / 2, y, heights[i], i === 0 ? '#fff' : '#cbd5e1', false)
+        y += heights[i] + gap
+      })
+    }
+
+    const drawProgram = async (frame: number) => {
+      const t = frame / fps
+      ctx.globalAlpha = 1
+      ctx.fillStyle = '#000'
+      ctx.fillRect(0, 0, W, H)
+      for (const clip of visual) {
+        if (t < clip.start || t >= clip.start + clip.duration) continue
+        const source = sources.get(clip.url as string) as Source
+        const local = t - clip.start
+        ctx.globalAlpha = fadeAlpha(clip, local)
+        if (source.kind === 'image') drawContained(ctx, source.bitmap, source.bitmap.width, source.bitmap.height, W, H)
+        else {
+          const mediaTime = Math.max(0, clip.mediaOffset ?? 0) + local
+          if (mediaTime >= source.video.duration) continue // past the end of the media: the clip goes blank like -t does
+          await seek(source.video, mediaTime)
+          drawContained(ctx, source.video, source.video.videoWidth, source.video.videoHeight, W, H)
+        }
+      }
+      ctx.globalAlpha = 1
+      if (!burnIn) return
+      if (watermark && watermarkBitmap) {
+        const w = Math.max(2, Math.round(W * watermark.scale))
+        const h = Math.round((watermarkBitmap.height / watermarkBitmap.width) * w)
+        const at = overlayOrigin(watermark.position, w, h, margin, W, H)
+        ctx.globalAlpha = watermark.opacity
+        ctx.drawImage(watermarkBitmap, at.x, at.y, w, h)
+        ctx.globalAlpha = 1
+      }
+      const b = burnIn.settings
+      const slots = new Map<OverlayPosition, number>()
+      const place = (position: OverlayPosition, text: string) => {
+        const slot = slots.get(position) ?? 0
+        slots.set(position, slot + 1)
+        ctx.font = `${size}px "${FONT_FAMILY}", monospace`
+        const at = textOrigin(position, slot, size, margin, ctx.measureText(text).width, W, H)
+        drawText(text, at.x, at.y, size, '#fff', true)
+      }
+      if (b.timecode) place(b.timecodePosition, secondsToTc(burnIn.timecodeStart + t, fps, burnIn.dropFrame))
+      if (b.clipName) {
+        // The slot is taken even between clips, like the drawtext chain
+        const segment = burnIn.clipNames.find(s => t >= s.from && t < s.to)
+        if (segment) place(b.clipNamePosition, segment.title)
+        else slots.set(b.clipNamePosition, (slots.get(b.clipNamePosition) ?? 0) + 1)
+      }
+    }
+
+    const waitForQueue = async (encoder: VideoEncoder | AudioEncoder) => {
+      while (encoder.encodeQueueSize > MAX_QUEUE) await new Promise(resolve => setTimeout(resolve, 4))
+    }
+
+    const frameDuration = Math.round(1e6 / fps)
+    for (let i = 0; i < totalFrames; i++) {
+      if (signal?.aborted) throw abortError()
+      if (failure) throw failure
+      if (i < slateFrames) drawSlate(burnIn?.slate ?? [])
+      else await drawProgram(i - slateFrames)
+      const frame = new VideoFrame(canvas, { timestamp: Math.round((i * 1e6) / fps), duration: frameDuration })
+      const keyFrame = i % Math.round(fps * KEYFRAME_SECONDS) === 0
+      videoEncoder.encode(frame, plan.quantizer === undefined ? { keyFrame } : { keyFrame, ...quantizerOption(plan.video.codec, plan.quantizer) })
+      frame.close()
+      await waitForQueue(videoEncoder)
+      if (i % 10 === 0) onProgress?.(0.05 + 0.85 * (i / totalFrames), `Encoding frame ${i + 1}/${totalFrames}…`)
+    }
+
+    onProgress?.(0.9, 'Encoding audio…')
+    const gain = 10 ** ((settings.gainDb ?? 0) / 20)
+    const lead = Math.round(slate * SAMPLE_RATE)
+    const total = Math.round((slate + duration) * SAMPLE_RATE)
+    const channels = [0, 1].map(c => mix.getChannelData(Math.min(c, mix.numberOfChannels - 1)))
+    for (let start = 0; start < total; start += AUDIO_CHUNK) {
+      if (signal?.aborted) throw abortError()
+      if (failure) throw failure
+      const frames = Math.min(AUDIO_CHUNK, total - start)
+      const planar = new Float32Array(frames * 2)
+      channels.forEach((data, c) => {
+        for (let i = 0; i < frames; i++) {
+          const at = start + i - lead
+          planar[c * frames + i] = at >= 0 && at < data.length ? data[at] * gain : 0
+        }
+      })
+      const chunk = new AudioData({ format: 'f32-planar', sampleRate: SAMPLE_RATE, numberOfFrames: frames, numberOfChannels: 2, timestamp: Math.round((start * 1e6) / SAMPLE_RATE), data: planar })
+      audioEncoder.encode(chunk)
+      chunk.close()
+      await waitForQueue(audioEncoder)
+    }
+
+    onProgress?.(0.95, 'Finishing…')
+    await Promise.all([videoEncoder.flush(), audioEncoder.flush()])
+    if (failure) throw failure
+    if (!videoSamples.length) throw new Error('The encoder produced no frames')
+    onLog?.(`Encoded ${videoSamples.length} video and ${audioSamples.length} audio packets; muxing ${plan.format.toUpperCase()}`)
+
+    const video: MuxVideoTrack = { codec: muxCodec(plan.video.codec), width: W, height: H, description: videoDescription, samples: videoSamples }
+    const audio: MuxAudioTrack = { codec: plan.audio.codec === 'opus' ? 'opus' : 'aac', sampleRate: SAMPLE_RATE, channels: 2, description: audioDescription, samples: audioSamples }
+    const blob = plan.format === 'mp4' ? muxMp4(video, audio) : muxWebm(video, audio)
+    onProgress?.(1, 'Done')
+    return blob
+  } finally {
+    encoders.forEach(e => {
+      if (e.state !== 'closed') e.close()
+    })
+    bitmaps.forEach(b => b.close())
+    videos.forEach(v => {
+      v.removeAttribute('src')
+      v.load()
+    })
+  }
+}
@@ -0,0 +1,174 @@
+// Store-only ZIP writer and reader for project bundles. Media is already compressed, so entries
+// are stored as they are: writing only reads each file once for its CRC-32 and the archive is
+// assembled as a Blob of headers and the original Blobs. No ZIP64, so the archive and every
+// entry stay under 4 GB.
+
+export type ZipInput = { name: string; data: Blob; modified?: Date }
+
+export type ZipEntry = {
+  name: string
+  size: number
+  crc: number
+  blob: () => Promise<Blob> // checks the CRC on the way out
+}
+
+const LOCAL_HEADER = 0x04034b50
+const CENTRAL_HEADER = 0x02014b50
+const END_OF_CENTRAL_DIR = 0x06054b50
+const VERSION = 20 // 2.0: plain stored entries
+const UTF8_NAMES = 0x0800
+const STORED = 0
+const MAX_32 = 0xffffffff
+const MAX_ENTRIES = 0xffff
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+// Pass the previous result as `crc` to continue over the next chunk
+export const crc32 = (bytes: Uint8Array, crc = 0) => {
+  let c = ~crc >>> 0
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8)
+  return ~c >>> 0
+}
+
+// Streams the Blob so a large video isn't held in memory twice
+const blobCrc = async (blob: Blob) => {
+  const reader = blob.stream().getReader()
+  let crc = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) return crc
+    crc = crc32(value, crc)
+  }
+}
+
+const dosDateTime = (d: Date) => ({
+  time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+  date: (Math.max(0, d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate()
+})
+
+const header = (size: number, fill: (view: DataView) => void) => {
+  const bytes = new Uint8Array(size)
+  fill(new DataView(bytes.buffer))
+  return bytes
+}
+
+export const createZip = async (inputs: ZipInput[], onProgress?: (done: number, total: number) => void) => {
+  if (inputs.length > MAX_ENTRIES) throw new Error(`A bundle holds at most ${MAX_ENTRIES} files`)
+  const encoder = new TextEncoder()
+  const parts: BlobPart[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+  for (let i = 0; i < inputs.length; i++) {
+    const { name, data, modified = new Date() } = inputs[i]
+    const nameBytes = encoder.encode(name)
+    const crc = await blobCrc(data)
+    const { time, date } = dosDateTime(modified)
+    if (data.size >= MAX_32 || offset + 30 + nameBytes.length + data.size >= MAX_32) {
+      throw new Error('Bundles over 4 GB are not supported; remove unused media or split the project')
+    }
+    const local = header(30 + nameBytes.length, v => {
+      v.setUint32(0, LOCAL_HEADER, true)
+      v.setUint16(4, VERSION, true)
+      v.setUint16(6, UTF8_NAMES, true)
+      v.setUint16(8, STORED, true)
+      v.setUint16(10, time, true)
+      v.setUint16(12, date, true)
+      v.setUint32(14, crc, true)
+      v.setUint32(18, data.size, true)
+      v.setUint32(22, data.size, true)
+      v.setUint16(26, nameBytes.length, true)
+    })
+    local.set(nameBytes, 30)
+    const entry = header(46 + nameBytes.length, v => {
+      v.setUint32(0, CENTRAL_HEADER, true)
+      v.setUint16(4, VERSION, true)
+      v.setUint16(6, VERSION, true)
+      v.setUint16(8, UTF8_NAMES, true)
+      v.setUint16(10, STORED, true)
+      v.setUint16(12, time, true)
+      v.setUint16(14, date, true)
+      v.setUint32(16, crc, true)
+      v.setUint32(20, data.size, true)
+      v.setUint32(24, data.size, true)
+      v.setUint16(28, nameBytes.length, true)
+      v.setUint32(42, offset, true)
+    })
+    entry.set(nameBytes, 46)
+    central.push(entry)
+    parts.push(local, data)
+    offset += local.length + data.size
+    onProgress?.(i + 1, inputs.length)
+  }
+  const centralSize = central.reduce((sum, c) => sum + c.length, 0)
+  const end = header(22, v => {
+    v.setUint32(0, END_OF_CENTRAL_DIR, true)
+    v.setUint16(8, inputs.length, true)
+    v.setUint16(10, inputs.length, true)
+    v.setUint32(12, centralSize, true)
+    v.setUint32(16, offset, true)
+  })
+  return new Blob([...parts, ...central, end], { type: 'application/zip' })
+}
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer())
+
+export const readZip = async (file: Blob): Promise<ZipEntry[]> => {
+  // The end record sits in the last 22 bytes plus up to 64 KB of comment
+  const tailStart = Math.max(0, file.size - 22 - 0xffff)
+  const tail = await bytesOf(file.slice(tailStart))
+  const tailView = new DataView(tail.buffer)
+  let endAt = -1
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tailView.getUint32(i, true) === END_OF_CENTRAL_DIR) {
+      endAt = i
+      break
+    }
+  }
+  if (endAt < 0) throw new Error('Not a zip file')
+  const count = tailView.getUint16(endAt + 10, true)
+  const centralSize = tailView.getUint32(endAt + 12, true)
+  const centralOffset = tailView.getUint32(endAt + 16, true)
+  if (centralOffset === MAX_32 || count === MAX_ENTRIES) throw new Error('ZIP64 archives are not supported')
+  const dir = await bytesOf(file.slice(centralOffset, centralOffset + centralSize))
+  const view = new DataView(dir.buffer)
+  const decoder = new TextDecoder()
+  const entries: ZipEntry[] = []
+  let p = 0
+  for (let i = 0; i < count; i++) {
+    if (p + 46 > dir.length || view.getUint32(p, true) !== CENTRAL_HEADER) throw new Error('The zip directory is damaged')
+    const method = view.getUint16(p + 10, true)
+    const crc = view.getUint32(p + 16, true)
+    const compressed = view.getUint32(p + 20, true)
+    const size = view.getUint32(p + 24, true)
+    const nameLength = view.getUint16(p + 28, true)
+    const extraLength = view.getUint16(p + 30, true)
+    const commentLength = view.getUint16(p + 32, true)
+    const localOffset = view.getUint32(p + 42, true)
+    const name = decoder.decode(dir.subarray(p + 46, p + 46 + nameLength))
+    p += 46 + nameLength + extraLength + commentLength
+    if (name.endsWith('/')) continue // folder entries from other zip tools
+    entries.push({
+      name,
+      size,
+      crc,
+      blob: async () => {
+        if (method !== STORED || compressed !== size) throw new Error(`${name} is compressed; bundles are read as stored zips only`)
+        const local = new DataView((await bytesOf(file.slice(localOffset, localOffset + 30))).buffer)
+        if (local.getUint32(0, true) !== LOCAL_HEADER) throw new Error(`${name}: damaged entry header`)
+        const start = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true)
+        const data = file.slice(start, start + size)
+        if (await blobCrc(data) !== crc) throw new Error(`${name} is damaged (CRC mismatch)`)
+        return data
+      }
+    })
+  }
+  return entries
+}
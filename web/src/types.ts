@@ -0,0 +1,80 @@
+export type Clip = {
+  id: string
+  title: string
+  track: string
+  color: string
+  start: number // seconds
+  duration: number // seconds
+  url?: string
+  assetId?: string
+  mediaId?: string // content hash in the local media store; `url` is re-made from it on load
+  assetType?: string
+  waveform?: number[] | null
+  thumb?: string | null
+  mediaDuration?: number
+  mediaOffset?: number
+  gain?: number
+  fadeIn?: number
+  fadeOut?: number
+  offlineMedia?: string // unresolved media reference from an imported timeline; relink to bring it back
+}
+
+export type MarkerType = 'cue' | 'beat' | 'chapter' | 'todo'
+
+export type Marker = {
+  id: string
+  time: number
+  label: string
+  color: string
+  type: MarkerType
+  duration?: number // > 0 makes a range marker
+  notes?: string
+}
+
+export type Track = { id: string; name: string; type: 'video' | 'audio' }
+export type TrackState = Track & { mute?: boolean; solo?: boolean; locked?: boolean; height?: 'normal' | 'compact' }
+
+// Musical grid taken from a beat analysis and pinned to the clip that plays that audio
+export type BeatGrid = {
+  assetId: string
+  clipId: string
+  subdivisions: number // 1 = beats only, 2 = eighths, 4 = sixteenths
+}
+
+export type ProjectState = {
+  tracks: TrackState[]
+  clips: Clip[]
+  markers: Marker[]
+  beatGrid?: BeatGrid | null
+  beatAnalyses: Record<string, BeatAnalysis> // keyed by asset id; lives here so beat edits undo
+  fps: number // 23.976, 29.97 and 59.94 stand for the 1000/1001 NTSC rates
+  dropFrame: boolean // 29.97/59.94 timecode only
+}
+
+export type Asset = {
+  id: string
+  name: string
+  type: string
+  duration: number
+  url?: string
+  mediaId?: string // set once the file is in the media store
+  waveform?: number[]
+  thumb?: string
+}
+
+export type BeatAnalysis = {
+  assetId: string
+  beats: number[]
+  bpm: number
+  createdAt: number
+  onsets: number[]
+  downbeats: number[]
+  beatsPerBar: number
+  tempoConfidence: number // 0..1
+  sections?: Section[]
+}
+
+export type SectionKind = 'intro' | 'build' | 'drop' | 'breakdown' | 'outro' | 'section'
+
+// A stretch of the song in media seconds; energy is 0..1 relative to the loudest section
+export type Section = { start: number; end: number; kind: SectionKind; energy: number }
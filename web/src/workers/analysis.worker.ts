@@ -0,0 +1,45 @@
+import { encodeAudio } from '../lib/audioEncode'
+import { detectBeats } from '../lib/beats'
+import { measureLoudness } from '../lib/loudness'
+import { segmentStructure } from '../lib/structure'
+import { waveformPeaks } from '../lib/waveform'
+import type { AnalysisRequest, AnalysisResponse } from '../lib/analysisPool'
+
+const post = (msg: AnalysisResponse) => (self as unknown as Worker).postMessage(msg)
+
+self.addEventListener('message', (e: MessageEvent<AnalysisRequest>) => {
+  const req = e.data
+  try {
+    if (req.kind === 'beats') {
+      const { channels, sampleRate, options } = req.input
+      let lastReport = 0
+      const report = (ratio: number) => {
+        if (ratio - lastReport < 0.02 && ratio < 1) return
+        lastReport = ratio
+        post({ id: req.id, type: 'progress', ratio })
+      }
+      // Beats take most of the time; sections reuse the decoded audio and the bar lines
+      const detection = detectBeats(channels, sampleRate, options, ratio => report(ratio * 0.8))
+      const sections = segmentStructure(channels, sampleRate, detection.downbeats, ratio => report(0.8 + ratio * 0.2))
+      post({ id: req.id, type: 'result', result: { ...detection, sections } })
+      return
+    }
+    if (req.kind === 'waveform') {
+      post({ id: req.id, type: 'result', result: waveformPeaks(req.input.channels) })
+      return
+    }
+    if (req.kind === 'loudness') {
+      post({ id: req.id, type: 'result', result: measureLoudness(req.input.channels, req.input.sampleRate) })
+      return
+    }
+    if (req.kind === 'encode') {
+      const { format, channels, sampleRate, bitDepth, gain = 1 } = req.input
+      if (gain !== 1) channels.forEach(ch => { for (let i = 0; i < ch.length; i++) ch[i] *= gain })
+      post({ id: req.id, type: 'result', result: encodeAudio(format, channels, sampleRate, bitDepth) })
+      return
+    }
+    post({ id: (req as AnalysisRequest).id, type: 'error', message: 'Unknown analysis job' })
+  } catch (err) {
+    post({ id: req.id, type: 'error', message: err instanceof Error ? err.message : String(err) })
+  }
+})
@@ -0,0 +1,37 @@
+import { createLoudnessMeter } from '../lib/loudness'
+
+// AudioWorkletGlobalScope isn't in the DOM lib
+declare const sampleRate: number
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort
+}
+declare function registerProcessor(name: string, processor: unknown): void
+
+const REPORT_EVERY = 0.1 // seconds, one meter hop
+
+class LoudnessMeterProcessor extends AudioWorkletProcessor {
+  private meter = createLoudnessMeter(sampleRate, 2)
+  private sinceReport = 0
+
+  constructor() {
+    super()
+    this.port.onmessage = (e: MessageEvent<{ type: 'reset' }>) => {
+      if (e.data?.type === 'reset') this.meter = createLoudnessMeter(sampleRate, 2)
+    }
+  }
+
+  process(inputs: Float32Array[][]) {
+    const input = inputs[0]
+    if (input?.length) {
+      this.meter.push(input)
+      this.sinceReport += input[0].length
+      if (this.sinceReport >= REPORT_EVERY * sampleRate) {
+        this.sinceReport = 0
+        this.port.postMessage(this.meter.read())
+      }
+    }
+    return true
+  }
+}
+
+registerProcessor('loudness-meter', LoudnessMeterProcessor)
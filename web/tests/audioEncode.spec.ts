@@ -0,0 +1,180 @@
+import { test, expect } from '@playwright/test'
+import { encodeFlac, encodeWav } from '../src/lib/audioEncode'
+
+// Page-less checks of the mixdown writers: the files are read back with a small reference
+// decoder and must give back exactly the quantized samples.
+const SAMPLE_RATE = 44100
+
+const quantize = (ch: Float32Array, bitDepth: number) => {
+  const scale = bitDepth === 16 ? 32767 : 8388607
+  return Array.from(ch, v => Math.round(Math.max(-1, Math.min(1, v)) * scale))
+}
+
+// Tone, then silence (constant subframes), then noise (verbatim), with a side channel that differs
+const stereo = () => {
+  const frames = Math.round(SAMPLE_RATE * 0.75)
+  const left = new Float32Array(frames)
+  const right = new Float32Array(frames)
+  let seed = 7
+  const noise = () => ((seed = (seed * 16807) % 2147483647) / 2147483647) * 2 - 1
+  for (let i = 0; i < frames; i++) {
+    if (i < 12000) {
+      left[i] = 0.5 * Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE)
+      right[i] = 0.45 * Math.sin((2 * Math.PI * 440 * i) / SAMPLE_RATE + 0.1)
+    } else if (i >= 20480) {
+      left[i] = noise()
+      right[i] = i % 2 ? 1.5 : -1.5 // clipped
+    }
+  }
+  return [left, right]
+}
+
+const crc = (bytes: Uint8Array, start: number, end: number, width: 8 | 16, poly: number) => {
+  const top = 1 << (width - 1)
+  const mask = (1 << width) - 1
+  let c = 0
+  for (let i = start; i < end; i++) {
+    c ^= bytes[i] << (width - 8)
+    for (let b = 0; b < 8; b++) c = c & top ? ((c << 1) ^ poly) & mask : (c << 1) & mask
+  }
+  return c
+}
+
+const bitReader = (bytes: Uint8Array) => {
+  let pos = 0
+  const bit = () => (bytes[pos >> 3] >> (7 - (pos++ & 7))) & 1
+  const read = (n: number) => {
+    let v = 0
+    for (let i = 0; i < n; i++) v = v * 2 + bit()
+    return v
+  }
+  return {
+    read,
+    signed: (n: number) => {
+      const v = read(n)
+      return v >= 2 ** (n - 1) ? v - 2 ** n : v
+    },
+    unary: () => {
+      let q = 0
+      while (!bit()) q++
+      return q
+    },
+    skip: (n: number) => { pos += n },
+    align: () => { pos = Math.ceil(pos / 8) * 8 },
+    byte: () => pos >> 3
+  }
+}
+
+const PREDICT = [
+  () => 0,
+  (x: Int32Array, i: number) => x[i - 1],
+  (x: Int32Array, i: number) => 2 * x[i - 1] - x[i - 2],
+  (x: Int32Array, i: number) => 3 * x[i - 1] - 3 * x[i - 2] + x[i - 3],
+  (x: Int32Array, i: number) => 4 * x[i - 1] - 6 * x[i - 2] + 4 * x[i - 3] - x[i - 4]
+]
+
+// Just enough of FLAC for what the encoder writes: CONSTANT, VERBATIM and FIXED subframes
+const decodeFlac = (bytes: Uint8Array) => {
+  const r = bitReader(bytes)
+  expect(r.read(32)).toBe(0x664c6143)
+  expect(r.read(8)).toBe(0x80) // last block, STREAMINFO
+  expect(r.read(24)).toBe(34)
+  r.skip(16 + 16 + 24 + 24)
+  const sampleRate = r.read(20)
+  const channels = r.read(3) + 1
+  const bitDepth = r.read(5) + 1
+  const total = r.read(36)
+  r.skip(128)
+  const out = Array.from({ length: channels }, () => new Int32Array(total))
+  const subframe = (size: number, bps: number) => {
+    r.skip(1)
+    const type = r.read(6)
+    expect(r.read(1)).toBe(0) // no wasted bits
+    const x = new Int32Array(size)
+    if (type === 0) return x.fill(r.signed(bps))
+    if (type === 1) return x.map(() => r.signed(bps))
+    expect(type & 0b111000).toBe(0b001000)
+    const order = type & 7
+    for (let i = 0; i < order; i++) x[i] = r.signed(bps)
+    expect(r.read(2)).toBe(0)
+    const partitions = r.read(4)
+    let i = order
+    for (let p = 0; p < 1 << partitions; p++) {
+      const k = r.read(4)
+      const count = (size >> partitions) - (p === 0 ? order : 0)
+      for (let j = 0; j < count; j++, i++) {
+        const u = r.unary() * 2 ** k + (k ? r.read(k) : 0)
+        x[i] = (u % 2 ? -(u + 1) / 2 : u / 2) + PREDICT[order](x, i)
+      }
+    }
+    return x
+  }
+  for (let at = 0; at < total;) {
+    const start = r.byte()
+    expect(r.read(16)).toBe(0xfff8)
+    expect(r.read(4)).toBe(0b0111)
+    r.skip(4)
+    const assignment = r.read(4)
+    r.skip(4)
+    // Frame number, UTF-8 coded: one continuation byte per extra leading one
+    let lead = r.read(8)
+    if (lead & 0x80) while ((lead <<= 1) & 0x80) r.skip(8)
+    const size = r.read(16) + 1
+    expect(r.read(8)).toBe(crc(bytes, start, r.byte() - 1, 8, 0x07))
+    const sideAt = assignment === 0b1001 ? 0 : assignment >= 0b1000 ? 1 : -1
+    const [a, b] = Array.from({ length: channels }, (_, c) => subframe(size, bitDepth + (c === sideAt ? 1 : 0)))
+    const blocks = [a, b].slice(0, channels)
+    if (assignment === 0b1000) blocks[1] = a.map((l, i) => l - b[i])
+    if (assignment === 0b1001) blocks[0] = a.map((s, i) => s + b[i])
+    if (assignment === 0b1010) {
+      blocks[0] = a.map((m, i) => (m * 2 + (b[i] & 1) + b[i]) >> 1)
+      blocks[1] = a.map((m, i) => (m * 2 + (b[i] & 1) - b[i]) >> 1)
+    }
+    r.align()
+    const end = r.byte()
+    expect(r.read(16)).toBe(crc(bytes, start, end, 16, 0x8005))
+    blocks.forEach((block, c) => out[c].set(block, at))
+    at += size
+  }
+  expect(r.byte()).toBe(bytes.length)
+  return { sampleRate, bitDepth, channels: out.map(ch => Array.from(ch)) }
+}
+
+test('WAV header and interleaved samples read back at 16 and 24 bit', async () => {
+  const channels = stereo()
+  for (const bitDepth of [16, 24] as const) {
+    const blob = encodeWav(channels, SAMPLE_RATE, bitDepth)
+    expect(blob.type).toBe('audio/wav')
+    const view = new DataView(await blob.arrayBuffer())
+    const ascii = (at: number) => String.fromCharCode(...new Uint8Array(view.buffer, at, 4))
+    const bytes = bitDepth / 8
+    const dataSize = channels[0].length * 2 * bytes
+    expect([ascii(0), view.getUint32(4, true), ascii(8), ascii(12), ascii(36), view.getUint32(40, true)]).toEqual(['RIFF', 36 + dataSize, 'WAVE', 'fmt ', 'data', dataSize])
+    expect([view.getUint16(20, true), view.getUint16(22, true), view.getUint32(24, true), view.getUint32(28, true), view.getUint16(32, true), view.getUint16(34, true)])
+      .toEqual([1, 2, SAMPLE_RATE, SAMPLE_RATE * 2 * bytes, 2 * bytes, bitDepth])
+    const sample = (i: number, c: number) => {
+      const at = 44 + (i * 2 + c) * bytes
+      if (bitDepth === 16) return view.getInt16(at, true)
+      const v = view.getUint8(at) | (view.getUint8(at + 1) << 8) | (view.getUint8(at + 2) << 16)
+      return v & 0x800000 ? v - 0x1000000 : v
+    }
+    channels.forEach((ch, c) => expect(Array.from(ch, (_, i) => sample(i, c))).toEqual(quantize(ch, bitDepth)))
+  }
+})
+
+test('FLAC decodes losslessly with valid CRCs at 16 and 24 bit, stereo and mono', async () => {
+  const channels = stereo()
+  for (const bitDepth of [16, 24] as const) {
+    for (const input of [channels, [channels[0]]]) {
+      const blob = encodeFlac(input, SAMPLE_RATE, bitDepth)
+      expect(blob.type).toBe('audio/flac')
+      const decoded = decodeFlac(new Uint8Array(await blob.arrayBuffer()))
+      expect(decoded.sampleRate).toBe(SAMPLE_RATE)
+      expect(decoded.bitDepth).toBe(bitDepth)
+      expect(decoded.channels).toEqual(input.map(ch => quantize(ch, bitDepth)))
+    }
+  }
+  // The tone compresses well below the WAV size
+  const tone = [channels[0].slice(0, 12000), channels[1].slice(0, 12000)]
+  expect(encodeFlac(tone, SAMPLE_RATE).size).toBeLessThan(encodeWav(tone, SAMPLE_RATE).size * 0.6)
+})
@@ -0,0 +1,58 @@
+import { test, expect } from '@playwright/test'
+import { autoCutToBeat, cutPoints, orderAssets } from '../src/lib/autoCut'
+import type { AutoCutOptions, TimelineBeat } from '../src/lib/autoCut'
+import type { Asset, ProjectState } from '../src/types'
+
+// Page-less checks of laying cuts out on beats over an existing track
+const project: ProjectState = {
+  tracks: [{ id: 'v1', name: 'V1', type: 'video' }],
+  clips: [{ id: 'bg', title: 'Background', track: 'v1', color: '#fff', start: 0, duration: 10 }],
+  markers: [],
+  beatAnalyses: {},
+  fps: 25,
+  dropFrame: false
+}
+const assets: Asset[] = [{ id: 'still', name: 'still.jpg', type: 'image/jpeg', duration: 5 }]
+const beats = (...times: number[]): TimelineBeat[] => times.map(time => ({ time, downbeat: false }))
+const opts = (placement: AutoCutOptions['placement']): AutoCutOptions => ({
+  trackId: 'v1', every: 1, unit: 'beats', order: 'sequential', emphasizeDownbeats: false, placement, seed: 1, palette: ['#fff']
+})
+const ids = (p: ProjectState) => p.clips.map(c => c.id)
+
+test('ripple cuts split the clip they land in without repeating ids', () => {
+  const once = autoCutToBeat(project, assets, beats(6, 7), opts('ripple'))
+  expect(once.clips.map(c => [c.id, c.start, c.duration])).toEqual([['bg', 0, 6], ['bg-tail', 7, 4], [once.clips[2].id, 6, 1]])
+  // The head keeps "bg" and is split again; its new tail must not collide with the first one
+  const twice = autoCutToBeat(once, assets, beats(2, 3), opts('ripple'))
+  expect(new Set(ids(twice)).size).toBe(twice.clips.length)
+  expect(twice.clips.find(c => c.start === 3 && c.title === 'Background')?.id).toBe('bg-tail-2')
+  // Splitting a tail numbers it instead of stacking suffixes
+  const thrice = autoCutToBeat(twice, assets, beats(9, 9.5), opts('ripple'))
+  expect(new Set(ids(thrice)).size).toBe(thrice.clips.length)
+  expect(ids(thrice)).toContain('bg-tail-3')
+})
+
+test('overwrite cuts keep ids unique when they split the same clip twice', () => {
+  const once = autoCutToBeat(project, assets, beats(5, 6), opts('overwrite'))
+  expect(once.clips.map(c => [c.id, c.start, c.duration])).toEqual([['bg', 0, 5], ['bg-tail', 6, 4], [once.clips[2].id, 5, 1]])
+  const twice = autoCutToBeat(once, assets, beats(2, 3), opts('overwrite'))
+  expect(new Set(ids(twice)).size).toBe(twice.clips.length)
+  expect(twice.clips.filter(c => c.title === 'Background').map(c => [c.id, c.start, c.duration])).toEqual([['bg', 0, 2], ['bg-tail-2', 3, 2], ['bg-tail', 6, 4]])
+})
+
+test('cut points land every N beats or bars and close on the last beat', () => {
+  // Two bars of 4 with a pickup; downbeats at 1 and 3
+  const song = [0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4, 4.5].map(time => ({ time, downbeat: time === 1 || time === 3 }))
+  expect(cutPoints(song, { every: 2, unit: 'beats', emphasizeDownbeats: false })).toEqual([0.5, 1.5, 2.5, 3.5, 4.5])
+  // Restarting the count on each bar puts a cut on every downbeat
+  expect(cutPoints(song, { every: 3, unit: 'beats', emphasizeDownbeats: true })).toEqual([0.5, 1, 2.5, 3, 4.5])
+  expect(cutPoints(song, { every: 1, unit: 'bars', emphasizeDownbeats: false })).toEqual([1, 3, 4.5])
+})
+
+test('shuffled order is repeatable for a seed and name order is natural', () => {
+  const shots: Asset[] = ['shot10.jpg', 'shot2.jpg', 'shot1.jpg'].map(name => ({ id: name, name, type: 'image/jpeg', duration: 5 }))
+  expect(orderAssets(shots, 'name', 0).map(a => a.name)).toEqual(['shot1.jpg', 'shot2.jpg', 'shot10.jpg'])
+  expect(orderAssets(shots, 'shuffle', 7)).toEqual(orderAssets(shots, 'shuffle', 7))
+  expect(orderAssets(shots, 'shuffle', 7).map(a => a.id).sort()).toEqual(shots.map(a => a.id).sort())
+  expect(orderAssets(shots, 'sequential', 7)).toEqual(shots)
+})
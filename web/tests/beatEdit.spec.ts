@@ -0,0 +1,48 @@
+import { test, expect } from '@playwright/test'
+import { addBeat, bpmFromBeats, evenGrid, moveBeat, removeBeat, setBarStart, tapTempo } from '../src/lib/beatEdit'
+import type { BeatAnalysis } from '../src/types'
+
+// Page-less checks of the beat editor's edits and tap tempo
+const analysis: BeatAnalysis = {
+  assetId: 'song',
+  beats: [0.5, 1, 1.5, 2, 2.5],
+  downbeats: [0.5, 2.5],
+  bpm: 120,
+  beatsPerBar: 4,
+  createdAt: 1,
+  onsets: [],
+  tempoConfidence: 0.8
+}
+
+test('edits keep beats sorted, downbeats among them and bpm in step', () => {
+  const added = addBeat(analysis, 1.2499)
+  expect(added.beats).toEqual([0.5, 1, 1.25, 1.5, 2, 2.5])
+  expect(addBeat(analysis, 1).beats).toEqual(analysis.beats)
+
+  const moved = moveBeat(analysis, 2.5, 3)
+  expect(moved.beats).toEqual([0.5, 1, 1.5, 2, 3])
+  expect(moved.downbeats).toEqual([0.5, 3])
+
+  const removed = removeBeat(analysis, 0.5)
+  expect(removed.downbeats).toEqual([2.5])
+  expect(removed.bpm).toBe(120)
+  expect(bpmFromBeats([0, 0.6, 1.2, 1.8])).toBe(100)
+})
+
+test('re-barring and an even grid count bars from the chosen downbeat', () => {
+  expect(setBarStart(analysis, 1).downbeats).toEqual([1])
+  expect(setBarStart({ ...analysis, beatsPerBar: 2 }, 1).downbeats).toEqual([1, 2])
+  expect(setBarStart(analysis, 7)).toBe(analysis)
+
+  const grid = evenGrid(analysis, 120, 1.25, 4)
+  expect(grid.beats).toEqual([0.25, 0.75, 1.25, 1.75, 2.25, 2.75, 3.25, 3.75])
+  expect(grid.downbeats).toEqual([1.25, 3.25])
+  expect(grid.tempoConfidence).toBe(1)
+})
+
+test('tap tempo takes the median interval and the average phase', () => {
+  const taps = tapTempo([1, 1.5, 2, 2.52, 3])
+  expect(taps?.bpm).toBe(120)
+  expect(taps?.offset).toBeCloseTo(1, 1)
+  expect(tapTempo([1])).toBeNull()
+})
@@ -0,0 +1,45 @@
+import { test, expect } from '@playwright/test'
+import { findClipForAsset, gridLineLabel, resolveBeatGrid } from '../src/lib/beatGrid'
+import type { BeatAnalysis, Clip } from '../src/types'
+
+// Page-less checks of the clip-anchored beat grid used for snapping and the bars:beats ruler
+const analysis: BeatAnalysis = {
+  assetId: 'song',
+  beats: [0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4, 4.5],
+  downbeats: [1, 3],
+  bpm: 120,
+  beatsPerBar: 4,
+  createdAt: 1,
+  onsets: [],
+  tempoConfidence: 1
+}
+const song: Clip = { id: 'c1', title: 'Song', track: 'a1', color: '#fff', start: 10, duration: 2, assetId: 'song', mediaOffset: 0.75 }
+const grid = { assetId: 'song', clipId: 'c1', subdivisions: 2 }
+const lines = (clip: Clip) => resolveBeatGrid(grid, [clip], { song: analysis }).map(l => [l.time, gridLineLabel(l)])
+
+test('grid lines follow the clip onto the timeline with bars counted from the first downbeat', () => {
+  // Only the visible part of the clip (media 0.75–2.75s) gets lines; the pickup beat is bar 0
+  expect(lines(song)).toEqual([
+    [10, 'Sub 0.4.2'],
+    [10.25, 'Bar 1'],
+    [10.5, 'Sub 1.1.2'],
+    [10.75, 'Beat 1.2'],
+    [11, 'Sub 1.2.2'],
+    [11.25, 'Beat 1.3'],
+    [11.5, 'Sub 1.3.2'],
+    [11.75, 'Beat 1.4'],
+    [12, 'Sub 1.4.2']
+  ])
+  // Slipping the clip moves the lines but keeps their numbers
+  expect(lines({ ...song, mediaOffset: 2.75 })).toContainEqual([10.25, 'Bar 2'])
+  expect(resolveBeatGrid(grid, [], { song: analysis })).toEqual([])
+  expect(resolveBeatGrid(null, [song], { song: analysis })).toEqual([])
+})
+
+test('the anchor clip is the first placed clip of the asset, by id or by URL for older clips', () => {
+  const later: Clip = { ...song, id: 'c2', start: 20 }
+  const legacy: Clip = { id: 'c0', title: 'Song', track: 'a1', color: '#fff', start: 5, duration: 2, url: '/song.wav' }
+  expect(findClipForAsset([later, song], 'song')?.id).toBe('c1')
+  expect(findClipForAsset([later, song, legacy], 'song', '/song.wav')?.id).toBe('c0')
+  expect(findClipForAsset([legacy], 'other', '/other.wav')).toBeNull()
+})
@@ -0,0 +1,45 @@
+import { test, expect } from '@playwright/test'
+import { detectBeats } from '../src/lib/beats'
+
+// Page-less checks of the onset/tempo/beat tracker on synthetic click tracks
+const SAMPLE_RATE = 22050
+
+// Short decaying kicks at `bpm`; the first of every `beatsPerBar` is twice as loud
+const clickTrack = (bpm: number, seconds: number, beatsPerBar = 4, start = 0.25) => {
+  const out = new Float32Array(Math.round(seconds * SAMPLE_RATE))
+  const clicks: number[] = []
+  for (let t = start, i = 0; t < seconds - 0.1; t += 60 / bpm, i++) {
+    clicks.push(t)
+    const level = i % beatsPerBar === 0 ? 0.9 : 0.45
+    const at = Math.round(t * SAMPLE_RATE)
+    for (let n = 0; n < SAMPLE_RATE * 0.06 && at + n < out.length; n++) {
+      out[at + n] += level * Math.exp(-n / (SAMPLE_RATE * 0.015)) * Math.sin((2 * Math.PI * 80 * n) / SAMPLE_RATE)
+    }
+  }
+  return { signal: out, clicks }
+}
+
+const nearest = (times: number[], t: number) => Math.min(...times.map(x => Math.abs(x - t)))
+
+test('a 120 BPM click track gives its tempo, beats on the clicks and the accented downbeats', () => {
+  const { signal, clicks } = clickTrack(120, 20)
+  const result = detectBeats([signal, signal], SAMPLE_RATE)
+  expect(Math.abs(result.bpm - 120)).toBeLessThan(1.5)
+  expect(result.beatsPerBar).toBe(4)
+  expect(result.beats.length).toBeGreaterThan(clicks.length - 4)
+  result.beats.forEach(b => expect(nearest(clicks, b)).toBeLessThan(0.03))
+  result.onsets.forEach(o => expect(nearest(clicks, o)).toBeLessThan(0.03))
+  // Every downbeat falls on a loud click, one bar apart
+  const loud = clicks.filter((_, i) => i % 4 === 0)
+  result.downbeats.forEach(d => expect(nearest(loud, d)).toBeLessThan(0.03))
+  expect(result.downbeats.length).toBeGreaterThan(loud.length - 2)
+})
+
+test('tempo follows the click rate and respects a forced meter', () => {
+  const { signal } = clickTrack(90, 20, 3)
+  const result = detectBeats([signal], SAMPLE_RATE, { beatsPerBar: 3 })
+  expect(Math.abs(result.bpm - 90)).toBeLessThan(1.5)
+  expect(result.beatsPerBar).toBe(3)
+  const bars = result.downbeats.slice(1).map((d, i) => d - result.downbeats[i])
+  bars.forEach(gap => expect(gap).toBeCloseTo(2, 1))
+})
@@ -0,0 +1,103 @@
+import { test, expect } from '@playwright/test'
+import { collectBundle, readBundle } from '../src/lib/bundle'
+import { DEFAULT_PRESETS } from '../src/lib/exportPresets'
+import { hashMedia } from '../src/lib/mediaStore'
+import { crc32, createZip, readZip } from '../src/lib/zip'
+import type { Asset, ProjectState } from '../src/types'
+
+// Page-less checks of the zip container and bundle round trips; media loading is injected
+test('zip entries round-trip with their CRC-32', async () => {
+  expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926)
+  const zip = await createZip([
+    { name: 'a.txt', data: new Blob(['hello']) },
+    { name: 'media/ünï.bin', data: new Blob([new Uint8Array([0, 1, 2, 255])]) }
+  ])
+  const entries = await readZip(zip)
+  expect(entries.map(e => [e.name, e.size])).toEqual([['a.txt', 5], ['media/ünï.bin', 4]])
+  expect(await (await entries[0].blob()).text()).toBe('hello')
+  expect(Array.from(new Uint8Array(await (await entries[1].blob()).arrayBuffer()))).toEqual([0, 1, 2, 255])
+  await expect(readZip(new Blob(['not a zip']))).rejects.toThrow('Not a zip file')
+})
+
+test('bundles carry the project, media and presets and relink on read', async () => {
+  const song = new Blob(['song bytes'], { type: 'audio/wav' })
+  const songId = await hashMedia(song)
+  const sample = new Blob(['sample bytes'], { type: 'video/mp4' })
+  const project: ProjectState = {
+    tracks: [{ id: 'v1', name: 'V1', type: 'video' }, { id: 'a1', name: 'A1', type: 'audio' }],
+    clips: [
+      { id: 'c1', title: 'Song', track: 'a1', color: '#fff', start: 0, duration: 4, url: 'blob:song', mediaId: songId, assetId: 'song', waveform: [0.2, 0.4] },
+      { id: 'c2', title: 'Sample', track: 'v1', color: '#fff', start: 0, duration: 2, url: '/samples/sample.mp4' },
+      { id: 'c3', title: 'Gone', track: 'v1', color: '#fff', start: 2, duration: 2, url: 'blob:gone' }
+    ],
+    markers: [],
+    beatGrid: null,
+    beatAnalyses: { song: { assetId: 'song', beats: [0.5, 1], bpm: 120, createdAt: 1, onsets: [], downbeats: [], beatsPerBar: 4, tempoConfidence: 0.9 } },
+    fps: 25,
+    dropFrame: false
+  }
+  const logo = new Blob(['logo bytes'], { type: 'image/png' })
+  const assets: Asset[] = [
+    { id: 'song', name: 'song.wav', type: 'audio/wav', duration: 4, url: 'blob:song', mediaId: songId, waveform: [0.2, 0.4], thumb: 'data:image/jpeg;base64,AA' },
+    { id: 'logo', name: 'logo.png', type: 'image/png', duration: 3, url: 'blob:logo' } // not stored yet: no media id
+  ]
+  const watermark = { assetId: 'logo', name: 'logo.png', opacity: 0.5, position: 'top-right' as const, scale: 0.2 }
+  const [mp4, ...rest] = DEFAULT_PRESETS
+  const presets = [{ ...mp4, burnIn: { ...mp4.burnIn, watermark } }, ...rest]
+  const sources: Record<string, Blob> = { [songId]: song, '/samples/sample.mp4': sample, 'blob:logo': logo }
+  const { blob, mediaCount, warnings } = await collectBundle(
+    { name: 'Promo', project, assets, presets },
+    { loadMedia: async ({ mediaId, url }) => (mediaId && sources[mediaId]) || (url && sources[url]) || null }
+  )
+  expect(mediaCount).toBe(3)
+  expect(warnings).toEqual(['Gone: media could not be read, it will be offline after import.'])
+
+  const bundle = await readBundle(blob, { fps: 30 })
+  const sampleId = await hashMedia(sample)
+  const logoId = await hashMedia(logo)
+  expect(bundle.name).toBe('Promo')
+  expect(bundle.media.map(m => m.info.mediaId).sort()).toEqual([songId, sampleId, logoId].sort())
+  expect(bundle.warnings).toEqual([])
+  expect(await bundle.media.find(m => m.info.mediaId === songId)!.blob.text()).toBe('song bytes')
+  expect(bundle.project.clips.map(c => [c.mediaId, c.url])).toEqual([[songId, undefined], [sampleId, undefined], [undefined, undefined]])
+  expect(bundle.project.beatAnalyses.song.bpm).toBe(120)
+  expect(bundle.project.fps).toBe(25)
+  expect(bundle.assets[0]).toMatchObject({ id: 'song', mediaId: songId, waveform: [0.2, 0.4], thumb: 'data:image/jpeg;base64,AA' })
+  expect(bundle.assets[0].url).toBeUndefined()
+  expect(bundle.presets.map(p => p.id)).toEqual(DEFAULT_PRESETS.map(p => p.id))
+  expect(bundle.presets[0].burnIn.watermark).toEqual({ ...watermark, mediaId: logoId })
+  expect(bundle.assets[1]).toMatchObject({ id: 'logo', mediaId: logoId })
+
+  // A watermark whose image is gone is reported on both sides
+  const orphan = [{ ...mp4, burnIn: { ...mp4.burnIn, watermark: { ...watermark, assetId: 'missing' } } }]
+  const partial = await collectBundle({ name: 'Promo', project: { ...project, clips: [] }, assets: [], presets: orphan }, { loadMedia: async () => null })
+  expect(partial.warnings).toEqual([`${mp4.name}: the watermark image logo.png is not in the media pool, it was left out.`])
+  expect((await readBundle(partial.blob, { fps: 30 })).warnings).toEqual([`${mp4.name}: the watermark image logo.png is not in the bundle; pick it again under Burn-ins.`])
+
+  const notABundle = await createZip([{ name: 'manifest.json', data: new Blob(['{"type":"other"}']) }])
+  await expect(readBundle(notABundle, { fps: 30 })).rejects.toThrow('Not a project bundle')
+})
+
+test('damaged media stays offline and a broken assets.json is refused', async () => {
+  const clip = new Blob(['clip bytes'], { type: 'video/mp4' })
+  const mediaId = await hashMedia(clip)
+  const project: ProjectState = {
+    tracks: [{ id: 'v1', name: 'V1', type: 'video' }],
+    clips: [{ id: 'c1', title: 'Clip', track: 'v1', color: '#fff', start: 0, duration: 2, url: 'blob:clip', mediaId }],
+    markers: [],
+    beatGrid: null,
+    beatAnalyses: {},
+    fps: 25,
+    dropFrame: false
+  }
+  const { blob } = await collectBundle({ name: 'Promo', project, assets: [], presets: DEFAULT_PRESETS }, { loadMedia: async () => clip })
+  const entries = await readZip(blob)
+  const rezip = async (replace: Record<string, Blob>) => createZip(await Promise.all(entries.map(async e => ({ name: e.name, data: replace[e.name] ?? await e.blob() }))))
+  const mediaPath = entries.find(e => e.name.startsWith('media/'))!.name
+
+  const damaged = await readBundle(await rezip({ [mediaPath]: new Blob(['clip bytez']) }), { fps: 25 })
+  expect(damaged.media).toEqual([])
+  expect(damaged.warnings).toEqual(['Clip: the bundled copy is damaged, it will be offline.'])
+
+  await expect(readBundle(await rezip({ 'assets.json': new Blob(['[{']) }), { fps: 25 })).rejects.toThrow('Not a project bundle: assets.json is not JSON')
+})
@@ -0,0 +1,377 @@
+import { test, expect } from '@playwright/test'
+import {
+  createMediaResolver,
+  exportCmx3600,
+  exportFcpxml,
+  exportOtio,
+  importCmx3600,
+  importFcpxml,
+  importOtio,
+  offlineClips,
+  relinkClips
+} from '../src/lib/timelineInterchange'
+import type { TimelineDoc, TimelineImportOptions } from '../src/lib/timelineInterchange'
+import { parseTcToFrames, secondsToFrames } from '../src/lib/timecode'
+import type { Clip } from '../src/types'
+
+// Exporter output, export → import round trips and hand-written files from other tools: no page
+// needed, the converters run straight in the test process.
+const FPS = 25
+
+const doc: TimelineDoc = {
+  tracks: [
+    { id: 'v1', name: 'V1', type: 'video' },
+    { id: 'v2', name: 'V2', type: 'video' },
+    { id: 'a1', name: 'A1', type: 'audio' }
+  ],
+  clips: [
+    { id: 'c1', title: 'Intro', track: 'v1', color: '#4ade80', start: 0, duration: 2, url: '/samples/intro.mp4', assetType: 'video/mp4', mediaDuration: 10, mediaOffset: 1.2 },
+    { id: 'c2', title: 'Drop & Roll', track: 'v1', color: '#60a5fa', start: 3, duration: 1.48, url: '/samples/drop.mp4', assetType: 'video/mp4', mediaDuration: 8, mediaOffset: 0 },
+    { id: 'c3', title: 'Logo', track: 'v2', color: '#f472b6', start: 0.5, duration: 1, url: '/samples/logo.png', assetType: 'image/png' },
+    { id: 'c4', title: 'Song', track: 'a1', color: '#fbbf24', start: 0, duration: 4.48, url: '/samples/song.wav', assetType: 'audio/wav', mediaDuration: 30, mediaOffset: 12.04, gain: 0.5 }
+  ],
+  markers: [{ id: 'm1', time: 3, label: 'Drop', color: '#ef4444', type: 'chapter' }]
+}
+
+const options = (clips: Clip[]): TimelineImportOptions => ({
+  fps: FPS,
+  resolveMedia: createMediaResolver(clips.map(c => ({ name: c.title, url: c.url, type: c.assetType, duration: c.mediaDuration }))),
+  clipColors: ['#888888'],
+  markerColor: '#22d3ee'
+})
+
+type Cut = { track: string; name: string; recordIn: number; recordOut: number; sourceIn: number }
+
+const expectedCuts = (trackIds: string[]): Cut[] => doc.clips
+  .filter(c => trackIds.includes(c.track))
+  .map(c => {
+    const sourceIn = c.assetType?.startsWith('image') ? 0 : Math.round((c.mediaOffset ?? 0) * FPS)
+    return { track: c.track, name: c.title, recordIn: Math.round(c.start * FPS), recordOut: Math.round((c.start + c.duration) * FPS), sourceIn }
+  })
+
+const byPosition = (a: Cut, b: Cut) => a.track.localeCompare(b.track) || a.recordIn - b.recordIn
+
+test('CMX3600 keeps the V and A cut list with source in-points', () => {
+  const { text, warnings } = exportCmx3600(doc, FPS)
+  expect(text).toContain('FCM: NON-DROP FRAME')
+  expect(warnings.join(' ')).toMatch(/one video track/)
+
+  const base = 3600 * FPS
+  const cuts: Cut[] = []
+  const lines = text.split('\n')
+  lines.forEach((line, i) => {
+    const m = line.match(/^\d{3}\s+\S+\s+(V|A2?)\s+C\s+(\S+) (\S+) (\S+) (\S+)$/)
+    if (!m) return
+    const name = lines[i + 1].replace('* FROM CLIP NAME: ', '')
+    const [sourceIn, sourceOut, recIn, recOut] = m.slice(2).map(tc => parseTcToFrames(tc, FPS))
+    expect(sourceOut - sourceIn).toBe(recOut - recIn)
+    cuts.push({ track: m[1] === 'V' ? 'v1' : 'a1', name, recordIn: recIn - base, recordOut: recOut - base, sourceIn })
+  })
+  expect(cuts.sort(byPosition)).toEqual(expectedCuts(['v1', 'a1']).sort(byPosition))
+})
+
+test('FCPXML spine and connected clips resolve back to the same cut list', () => {
+  const { text } = exportFcpxml(doc, FPS)
+  const seconds = (value: string) => {
+    if (value === '0s') return 0
+    const [num, den] = value.replace(/s$/, '').split('/').map(Number)
+    return num / (den ?? 1)
+  }
+  const frames = (value: string) => Math.round(seconds(value) * FPS)
+  const attr = (tag: string, name: string) => tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1]
+
+  const cuts: Cut[] = []
+  const spineItems = [...text.matchAll(/^ {12}<(asset-clip|gap)\b[^>]*>/gm)]
+  spineItems.forEach((m, i) => {
+    const tag = m[0]
+    const parentOffset = frames(attr(tag, 'offset')!)
+    const parentStart = m[1] === 'gap' ? 0 : frames(attr(tag, 'start')!)
+    if (m[1] === 'asset-clip') {
+      cuts.push({ track: 'v1', name: attr(tag, 'name')!.replace('&amp;', '&'), recordIn: parentOffset, recordOut: parentOffset + frames(attr(tag, 'duration')!), sourceIn: parentStart })
+    }
+    const body = text.slice(m.index! + tag.length, spineItems[i + 1]?.index ?? text.indexOf('</spine>'))
+    ;[...body.matchAll(/<asset-clip [^>]*lane="(-?\d+)"[^>]*>/g)].forEach(c => {
+      const recordIn = parentOffset + frames(attr(c[0], 'offset')!) - parentStart
+      cuts.push({ track: Number(c[1]) > 0 ? `v${Number(c[1]) + 1}` : `a${-Number(c[1])}`, name: attr(c[0], 'name')!, recordIn, recordOut: recordIn + frames(attr(c[0], 'duration')!), sourceIn: frames(attr(c[0], 'start')!) })
+    })
+  })
+  expect(cuts.sort(byPosition)).toEqual(expectedCuts(['v1', 'v2', 'a1']).sort(byPosition))
+  expect(text).toContain('<adjust-volume amount="-6.02dB"/>')
+  expect(text).toMatch(/<chapter-marker start="0s" duration="1\/25s" value="Drop"/)
+})
+
+test('OTIO tracks rebuild every clip with its source range and metadata', () => {
+  const timeline = JSON.parse(exportOtio(doc, FPS).text)
+  expect(timeline.OTIO_SCHEMA).toBe('Timeline.1')
+  const cuts: Cut[] = []
+  timeline.tracks.children.forEach((track: { name: string; children: Array<{ OTIO_SCHEMA: string; name: string; source_range: { start_time: { value: number }; duration: { value: number } } }> }) => {
+    let cursor = 0
+    track.children.forEach(item => {
+      const duration = item.source_range.duration.value
+      if (item.OTIO_SCHEMA === 'Clip.1') {
+        cuts.push({ track: track.name.toLowerCase(), name: item.name, recordIn: cursor, recordOut: cursor + duration, sourceIn: item.source_range.start_time.value })
+      }
+      cursor += duration
+    })
+  })
+  expect(cuts.sort(byPosition)).toEqual(expectedCuts(['v1', 'v2', 'a1']).sort(byPosition))
+  expect(timeline.tracks.markers[0]).toMatchObject({ name: 'Drop', color: 'RED', marked_range: { start_time: { value: 75 } } })
+  expect(timeline.tracks.children[2].children[0].metadata.timeline_builder.gain).toBe(0.5)
+})
+
+// --- Export → import round trips ---
+
+type LinkedCut = Cut & { url?: string }
+
+const cutList = (clips: Clip[]): LinkedCut[] => clips
+  .map(c => ({
+    track: c.track,
+    name: c.title,
+    recordIn: Math.round(c.start * FPS),
+    recordOut: Math.round((c.start + c.duration) * FPS),
+    sourceIn: Math.round((c.mediaOffset ?? 0) * FPS),
+    url: c.url
+  }))
+  .sort(byPosition)
+
+const expectedLinks = (trackIds: string[]) => cutList(doc.clips.filter(c => trackIds.includes(c.track)).map(c => (c.assetType?.startsWith('image') ? { ...c, mediaOffset: 0 } : c)))
+
+test('CMX3600 imports back onto V1/A1 with relinked media', () => {
+  const imported = importCmx3600(exportCmx3600(doc, FPS).text, options(doc.clips))
+  expect(imported.tracks.map(t => t.id)).toEqual(['v1', 'a1'])
+  expect(cutList(imported.clips)).toEqual(expectedLinks(['v1', 'a1']))
+})
+
+test('FCPXML spine and connected clips come back on the same tracks', () => {
+  const imported = importFcpxml(exportFcpxml(doc, FPS).text, options(doc.clips))
+  expect(imported.fps).toBe(FPS)
+  expect(imported.tracks.map(t => `${t.id}:${t.type}`)).toEqual(['v1:video', 'v2:video', 'a1:audio'])
+  expect(cutList(imported.clips)).toEqual(expectedLinks(['v1', 'v2', 'a1']))
+  expect(imported.clips.find(c => c.title === 'Song')?.gain).toBeCloseTo(0.5, 2)
+  expect(imported.markers).toMatchObject([{ time: 3, label: 'Drop', type: 'chapter' }])
+})
+
+test('OTIO keeps cut list, ids, colours and markers', () => {
+  const imported = importOtio(exportOtio(doc, FPS).text, options(doc.clips))
+  expect(cutList(imported.clips)).toEqual(expectedLinks(['v1', 'v2', 'a1']))
+  const byId = (a: Clip, b: Clip) => a.id.localeCompare(b.id)
+  expect([...imported.clips].sort(byId).map(c => [c.id, c.color, c.gain])).toEqual(doc.clips.map(c => [c.id, c.color, c.gain ?? 1]))
+  expect(imported.markers).toMatchObject([{ id: 'm1', time: 3, label: 'Drop', color: '#ef4444', type: 'chapter' }])
+})
+
+test('OTIO puts an overlapping clip on an extra track instead of moving it', () => {
+  const overlapping = { ...doc, clips: [...doc.clips, { ...doc.clips[0], id: 'c5', title: 'Insert', start: 1 }] }
+  const { text, warnings } = exportOtio(overlapping, FPS)
+  expect(warnings).toEqual(['"Insert" overlaps another clip on V1; it was written to an extra track.'])
+  expect(JSON.parse(text).tracks.children.map((t: { name: string }) => t.name)).toEqual(['V1', 'V1 (2)', 'V2', 'A1'])
+  const imported = importOtio(text, options(overlapping.clips))
+  expect(imported.tracks.filter(t => t.type === 'video')).toHaveLength(3)
+  expect(imported.clips.filter(c => c.title !== 'Insert').map(c => Math.round(c.start * FPS)).sort((a, b) => a - b)).toEqual([0, 0, 13, 75])
+  expect(imported.clips.find(c => c.title === 'Insert')).toMatchObject({ id: 'c5', start: 1, duration: 2 })
+})
+
+test('FCPXML marks drop-frame sequences where the rate allows it', () => {
+  expect(exportFcpxml(doc, 29.97, 'DF', true).text).toContain('tcFormat="DF"')
+  expect(exportFcpxml(doc, FPS, 'DF', true).text).toContain('tcFormat="NDF"')
+  expect(importFcpxml(exportFcpxml(doc, 29.97, 'DF', true).text, { ...options(doc.clips), fps: 29.97 }).warnings.join(' ')).toMatch(/drop-frame/)
+})
+
+test('unresolved media stays on the timeline offline and relinks in one go', () => {
+  const { text } = exportFcpxml({ ...doc, clips: [...doc.clips, { ...doc.clips[0], id: 'c5', start: 5 }] }, FPS)
+  const imported = importFcpxml(text, options([]))
+  expect(imported.clips).toHaveLength(5)
+  expect(offlineClips(imported.clips)).toHaveLength(5)
+  expect(imported.warnings.join(' ')).toMatch(/5 clip\(s\) reference media/)
+
+  const intro = imported.clips.filter(c => c.offlineMedia === 'file:///intro.mp4')
+  expect(intro).toHaveLength(2)
+  const relinked = relinkClips(imported.clips, intro[0].id, { name: 'intro.mp4', url: 'blob:intro', id: 'asset-1', type: 'video/mp4', duration: 10 })
+  expect(offlineClips(relinked)).toHaveLength(3)
+  expect(relinked.filter(c => c.url === 'blob:intro').map(c => [c.assetId, c.mediaOffset])).toEqual([['asset-1', 1.2], ['asset-1', 1.2]])
+})
+
+test('foreign EDLs: hour-based record timecode, AA/V events and dissolves', () => {
+  const edl = [
+    'TITLE: Client cut',
+    'FCM: NON-DROP FRAME',
+    '',
+    '001  A001C003 AA/V  C        10:00:02:00 10:00:04:00 01:00:00:00 01:00:02:00',
+    '* FROM CLIP NAME: A001C003.MOV',
+    '002  BL       V     C        00:00:00:00 00:00:00:00 01:00:02:00 01:00:02:00',
+    '002  A001C007 V     D    010 10:01:00:00 10:01:03:00 01:00:02:00 01:00:05:00',
+    '* FROM CLIP NAME: BLACK',
+    '* TO CLIP NAME: A001C007.MOV'
+  ].join('\n')
+  const imported = importCmx3600(edl, options([]))
+  expect(imported.tracks.map(t => t.id)).toEqual(['v1', 'a1'])
+  expect(imported.clips.map(c => [c.track, c.start, c.duration, c.offlineMedia])).toEqual([
+    ['v1', 0, 2, 'A001C003.MOV'],
+    ['a1', 0, 2, 'A001C003.MOV'],
+    ['v1', 2, 3, 'A001C007.MOV']
+  ])
+  expect(imported.warnings.join(' ')).toMatch(/1 dissolve/)
+})
+
+test('EDL record timecode starts on 01:00:00:00 at NTSC rates and keeps drop-frame labels', () => {
+  const clip: Clip = { id: 'n1', title: 'Intro', track: 'v1', color: '#fff', start: 0, duration: 2, url: '/samples/intro.mp4', assetType: 'video/mp4', mediaOffset: 0 }
+  const ntsc: TimelineDoc = { tracks: [doc.tracks[0]], clips: [clip, { ...clip, id: 'n2', start: 61, duration: 1 }], markers: [] }
+  const recordIns = (text: string) => text.split('\n').filter(l => /^\d{3}\s/.test(l)).map(l => l.trim().split(/\s+/)[6])
+
+  const film = exportCmx3600(ntsc, 23.976)
+  expect(film.text).toContain('FCM: NON-DROP FRAME')
+  expect(recordIns(film.text)).toEqual(['01:00:00:00', '01:01:00:23'])
+  const ndf = exportCmx3600(ntsc, 29.97)
+  expect(recordIns(ndf.text)).toEqual(['01:00:00:00', '01:01:00:28'])
+  const df = exportCmx3600(ntsc, 29.97, 'Timeline 1', true)
+  expect(df.text).toContain('FCM: DROP FRAME')
+  expect(recordIns(df.text)).toEqual(['01:00:00;00', '01:01:01;00'])
+
+  for (const [text, fps] of [[film.text, 23.976], [ndf.text, 29.97], [df.text, 29.97]] as const) {
+    const [first, second] = importCmx3600(text, { ...options([]), fps }).clips
+    expect(first.start).toBe(0)
+    expect(second.start).toBeCloseTo(61, 1)
+  }
+})
+
+// --- Files written by other tools at NTSC rates ---
+
+const frameCuts = (clips: Clip[], fps: number) => clips.map(c => [c.track, secondsToFrames(c.start, fps), secondsToFrames(c.duration, fps), secondsToFrames(c.mediaOffset ?? 0, fps), c.offlineMedia])
+
+test('hand-written EDLs at 23.976 and 29.97 drop-frame', () => {
+  const film = [
+    'TITLE: Film cut',
+    'FCM: NON-DROP FRAME',
+    '',
+    '001  A001C003 V     C        00:00:10:00 00:00:12:00 01:00:00:00 01:00:02:00',
+    '* FROM CLIP NAME: A001C003.MOV',
+    '002  A001C004 V     C        00:00:00:12 00:00:01:00 01:00:02:00 01:00:02:12',
+    '* FROM CLIP NAME: A001C004.MOV'
+  ].join('\n')
+  expect(frameCuts(importCmx3600(film, { ...options([]), fps: 23.976 }).clips, 23.976)).toEqual([
+    ['v1', 0, 48, 240, 'A001C003.MOV'],
+    ['v1', 48, 12, 12, 'A001C004.MOV']
+  ])
+
+  // 01:01:00;00 and ;01 don't exist: the minute starts on ;02
+  const dropFrame = [
+    'TITLE: Broadcast cut',
+    'FCM: DROP FRAME',
+    '',
+    '001  A001C003 V     C        00:00:00;00 00:00:02;00 01:00:00;00 01:00:02;00',
+    '* FROM CLIP NAME: A001C003.MOV',
+    '002  A001C005 V     C        00:01:00;02 00:01:01;00 01:00:59;28 01:01:00;28',
+    '* FROM CLIP NAME: A001C005.MOV'
+  ].join('\n')
+  const imported = importCmx3600(dropFrame, { ...options([]), fps: 29.97 })
+  expect(imported.warnings.join(' ')).not.toMatch(/drop-frame/)
+  expect(frameCuts(imported.clips, 29.97)).toEqual([
+    ['v1', 0, 60, 0, 'A001C003.MOV'],
+    ['v1', 1798, 28, 1800, 'A001C005.MOV']
+  ])
+})
+
+test('hand-written FCPXML at 23.976 and 29.97 drop-frame', () => {
+  // 01:00:00:00 is 86400 frames of 1001/24000s; connected clip offsets are in the parent's time
+  const film = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE fcpxml>
+<fcpxml version="1.10">
+  <resources>
+    <format id="r1" name="FFVideoFormat1080p2398" frameDuration="1001/24000s" width="1920" height="1080"/>
+    <asset id="r2" name="A001C003" start="0s" duration="2402400/24000s" hasVideo="1" hasAudio="1" format="r1">
+      <media-rep kind="original-media" src="file:///Volumes/Media/A001C003.mov"/>
+    </asset>
+    <asset id="r3" name="Song" start="0s" duration="2402400/24000s" hasAudio="1">
+      <media-rep kind="original-media" src="file:///Volumes/Media/Song.wav"/>
+    </asset>
+  </resources>
+  <library>
+    <event name="Day 1">
+      <project name="Film cut">
+        <sequence format="r1" duration="60060/24000s" tcStart="86486400/24000s" tcFormat="NDF">
+          <spine>
+            <asset-clip ref="r2" offset="86486400/24000s" name="A001C003" start="240240/24000s" duration="48048/24000s" tcFormat="NDF">
+              <asset-clip ref="r3" lane="-1" offset="240240/24000s" name="Song" start="0s" duration="48048/24000s"/>
+            </asset-clip>
+            <asset-clip ref="r2" offset="86534448/24000s" name="A001C003" start="12012/24000s" duration="12012/24000s" tcFormat="NDF"/>
+          </spine>
+        </sequence>
+      </project>
+    </event>
+  </library>
+</fcpxml>
+`
+  const imported = importFcpxml(film, options([]))
+  expect(imported.fps).toBe(23.976)
+  expect(frameCuts(imported.clips, 23.976)).toEqual([
+    ['v1', 0, 48, 240, 'file:///Volumes/Media/A001C003.mov'],
+    ['a1', 0, 48, 0, 'file:///Volumes/Media/Song.wav'],
+    ['v1', 48, 12, 12, 'file:///Volumes/Media/A001C003.mov']
+  ])
+
+  // 01:00:00;00 drop-frame is frame 107892; the clip sits 1798 frames in
+  const dropFrame = `<?xml version="1.0" encoding="UTF-8"?>
+<fcpxml version="1.10">
+  <resources>
+    <format id="r1" name="FFVideoFormat1080i5994" frameDuration="1001/30000s" width="1920" height="1080"/>
+    <asset id="r2" name="A001C005" start="0s" duration="3003000/30000s" hasVideo="1" format="r1" src="file:///Volumes/Media/A001C005.mov"/>
+  </resources>
+  <library>
+    <event name="Day 1">
+      <project name="Broadcast cut">
+        <sequence format="r1" tcStart="107999892/30000s" tcFormat="DF">
+          <spine>
+            <gap name="Gap" offset="107999892/30000s" start="107999892/30000s" duration="1799798/30000s"/>
+            <asset-clip ref="r2" offset="109799690/30000s" name="A001C005" start="1801800/30000s" duration="28028/30000s" tcFormat="DF"/>
+          </spine>
+        </sequence>
+      </project>
+    </event>
+  </library>
+</fcpxml>
+`
+  const df = importFcpxml(dropFrame, options([]))
+  expect(df.fps).toBe(29.97)
+  expect(frameCuts(df.clips, 29.97)).toEqual([['v1', 1798, 28, 1800, 'file:///Volumes/Media/A001C005.mov']])
+})
+
+test('hand-written OTIO at 23.976 (Clip.2 media references) and 29.97 (Clip.1)', () => {
+  const time = (value: number, rate: number) => ({ OTIO_SCHEMA: 'RationalTime.1', rate, value })
+  const range = (start: number, duration: number, rate: number) => ({ OTIO_SCHEMA: 'TimeRange.1', start_time: time(start, rate), duration: time(duration, rate) })
+  const external = (url: string, available: ReturnType<typeof range> | null = null) => ({ OTIO_SCHEMA: 'ExternalReference.1', target_url: url, available_range: available, metadata: {} })
+  const timeline = (rate: number, children: object[]) => JSON.stringify({
+    OTIO_SCHEMA: 'Timeline.1',
+    name: 'Cut',
+    global_start_time: time(rate > 24 ? 107892 : 86400, rate),
+    tracks: { OTIO_SCHEMA: 'Stack.1', name: 'tracks', children: [{ OTIO_SCHEMA: 'Track.1', name: 'Video 1', kind: 'Video', children }] }
+  })
+
+  const film = timeline(23.976, [
+    {
+      OTIO_SCHEMA: 'Clip.2',
+      name: 'A001C003',
+      source_range: range(86640, 48, 23.976),
+      media_references: { DEFAULT_MEDIA: external('file:///Volumes/Media/A001C003.mov', range(86400, 2400, 23.976)) },
+      active_media_reference_key: 'DEFAULT_MEDIA'
+    },
+    { OTIO_SCHEMA: 'Gap.1', source_range: range(0, 12, 23.976) },
+    {
+      OTIO_SCHEMA: 'Clip.2',
+      name: 'A001C004',
+      source_range: range(12, 24, 23.976),
+      media_references: { DEFAULT_MEDIA: external('file:///Volumes/Media/A001C004.mov'), proxy: external('file:///Volumes/Proxies/A001C004.mov') },
+      active_media_reference_key: 'proxy'
+    }
+  ])
+  const imported = importOtio(film, options([]))
+  expect(imported.tracks.map(t => t.name)).toEqual(['Video 1'])
+  expect(frameCuts(imported.clips, 23.976)).toEqual([
+    ['v1', 0, 48, 240, 'file:///Volumes/Media/A001C003.mov'],
+    ['v1', 60, 24, 12, 'file:///Volumes/Proxies/A001C004.mov']
+  ])
+
+  const dropFrame = timeline(29.97, [
+    { OTIO_SCHEMA: 'Gap.1', source_range: range(0, 1798, 29.97) },
+    { OTIO_SCHEMA: 'Clip.1', name: 'A001C005', source_range: range(1800, 28, 29.97), media_reference: external('file:///Volumes/Media/A001C005.mov') }
+  ])
+  expect(frameCuts(importOtio(dropFrame, options([])).clips, 29.97)).toEqual([['v1', 1798, 28, 1800, 'file:///Volumes/Media/A001C005.mov']])
+})
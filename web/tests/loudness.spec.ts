@@ -0,0 +1,47 @@
+import { test, expect } from '@playwright/test'
+import { createLoudnessMeter, measureLoudness, normalizationGainDb, LOUDNESS_TARGETS } from '../src/lib/loudness'
+
+// Page-less checks of the BS.1770 meter against the EBU Tech 3341 sine cases
+const SAMPLE_RATE = 48000
+
+// 997 Hz sine on both channels, each section `[seconds, dBFS]` in turn
+const sine = (sections: [number, number][], sampleRate = SAMPLE_RATE) => {
+  const frames = sections.reduce((n, [s]) => n + s * sampleRate, 0)
+  const out = new Float32Array(frames)
+  let i = 0
+  for (const [seconds, db] of sections) {
+    const amplitude = 10 ** (db / 20)
+    for (const end = i + seconds * sampleRate; i < end; i++) out[i] = amplitude * Math.sin((2 * Math.PI * 997 * i) / sampleRate)
+  }
+  return [out, out]
+}
+
+test('a stereo 997 Hz sine reads its own level in LUFS and dBTP', () => {
+  for (const sampleRate of [44100, 48000]) {
+    const reading = measureLoudness(sine([[20, -20]], sampleRate), sampleRate)
+    expect(reading.integrated).toBeCloseTo(-20, 1)
+    expect(reading.momentary).toBeCloseTo(-20, 1)
+    expect(reading.shortTerm).toBeCloseTo(-20, 1)
+    expect(reading.momentaryMax).toBeCloseTo(-20, 1)
+    expect(reading.truePeak).toBeCloseTo(-20, 1)
+  }
+})
+
+test('gating drops the quiet and silent sections', () => {
+  // Tech 3341 cases 3 and 4
+  expect(measureLoudness(sine([[10, -36], [60, -23], [10, -36]]), SAMPLE_RATE).integrated).toBeCloseTo(-23, 1)
+  expect(measureLoudness(sine([[10, -72], [10, -36], [60, -23], [10, -36], [10, -72]]), SAMPLE_RATE).integrated).toBeCloseTo(-23, 1)
+  expect(measureLoudness(sine([[5, -80]]), SAMPLE_RATE).integrated).toBe(-Infinity)
+})
+
+test('pushing in small buffers matches one pass, and normalization respects the peak ceiling', () => {
+  const channels = sine([[10, -30], [10, -18]])
+  const meter = createLoudnessMeter(SAMPLE_RATE)
+  for (let at = 0; at < channels[0].length; at += 128) meter.push(channels.map(ch => ch.subarray(at, at + 128)))
+  const whole = measureLoudness(channels, SAMPLE_RATE)
+  expect(meter.read()).toEqual(whole)
+
+  const streaming = LOUDNESS_TARGETS.find(t => t.id === 'streaming')!
+  expect(normalizationGainDb(measureLoudness(sine([[10, -30]]), SAMPLE_RATE), streaming)).toBeCloseTo(16, 1)
+  expect(normalizationGainDb({ ...whole, integrated: -30, truePeak: -6 }, streaming)).toBe(5)
+})
@@ -0,0 +1,36 @@
+import { test, expect } from '@playwright/test'
+import { detectNameColumn, detectTimecodeColumn, markersFromCsv, parseCsv } from '../src/lib/markerCsv'
+
+// Page-less checks of marker CSV parsing and timecode column detection
+const palette = ['#f00', '#0f0']
+
+test('quoted fields, CRLF and a BOM parse like a spreadsheet export', () => {
+  const table = parseCsv('\uFEFFMarker Name,Description,Record In\r\n"Drop, big","Say ""hi""\nthen go",01:00:10:12\r\nIntro,,01:00:05:00\r\n\r\nBroken,,n/a\r\n')
+  expect(table.headers).toEqual(['Marker Name', 'Description', 'Record In'])
+  expect(table.rows).toEqual([
+    ['Drop, big', 'Say "hi"\nthen go', '01:00:10:12'],
+    ['Intro', '', '01:00:05:00'],
+    ['Broken', '', 'n/a']
+  ])
+  expect(detectTimecodeColumn(table, 25)).toBe(2)
+  expect(detectNameColumn(table, 2)).toBe(0)
+})
+
+test('markers come out sorted, hour base removed, unparseable rows skipped', () => {
+  const table = parseCsv('Marker Name,Record In\nDrop,01:00:10:12\nIntro,01:00:05:00\nBroken,n/a\n')
+  const result = markersFromCsv(table, { tcColumn: 1, nameColumn: 0, fps: 25, subtractBase: true }, palette)
+  expect(result.base).toBe(3600)
+  expect(result.skipped).toBe(1)
+  expect(result.rows.map(r => [r.row, r.label, r.frames])).toEqual([[2, 'Drop', 90262], [3, 'Intro', 90125], [4, 'Broken', null]])
+  expect(result.markers.map(m => [m.label, m.time, m.color])).toEqual([['Intro', 5, '#0f0'], ['Drop', 10.48, '#f00']])
+
+  const numbered = markersFromCsv(table, { tcColumn: 1, nameColumn: -1, fps: 25, subtractBase: false }, palette, 3)
+  expect(numbered.markers.map(m => [m.label, m.time])).toEqual([['Marker 5', 3605], ['Marker 4', 3610.48]])
+})
+
+test('without a known header the first column of timecodes is used', () => {
+  const table = parseCsv('A,B,C\nx,1,00:00:01:00\ny,2,00:00:02:00\n')
+  expect(detectTimecodeColumn(table, 25)).toBe(2)
+  expect(detectNameColumn(table, 2)).toBe(-1)
+  expect(detectTimecodeColumn(parseCsv('A,B\nx,y\n'), 25)).toBe(-1)
+})
@@ -0,0 +1,45 @@
+import { test, expect } from '@playwright/test'
+import { exportMarkers, importMarkerFile, nearestColorName, RESOLVE_COLORS } from '../src/lib/markerInterchange'
+import type { Marker } from '../src/types'
+
+// Page-less checks of marker export/import for Resolve, Premiere and YouTube
+const markers: Marker[] = [
+  { id: 'm2', time: 30.5, label: 'Drop | big', color: '#ef4444', type: 'chapter', duration: 2, notes: 'Hit, then "hold"' },
+  { id: 'm1', time: 0, label: 'Intro', color: '#22c55e', type: 'chapter' },
+  { id: 'm3', time: 75, label: 'Outro', color: '#e11d48', type: 'cue' }
+]
+const summary = (list: Marker[]) => list.map(m => [m.time, m.label, m.color, m.duration ?? 0])
+
+test('Resolve EDL markers come back with their times, colours and ranges', () => {
+  const { text } = exportMarkers('resolve-edl', markers, 25, 'Promo')
+  expect(text).toContain('001  001      V     C        01:00:00:00 01:00:00:01 01:00:00:00 01:00:00:01')
+  expect(text).toContain(' |C:ResolveColorRed |M:Drop / big |D:50')
+  expect(nearestColorName('#e11d48', RESOLVE_COLORS)).toBe('Red')
+  expect(summary(importMarkerFile('resolve-edl', text, 25, '#000'))).toEqual([
+    [0, 'Intro', '#22c55e', 0],
+    [30.52, 'Drop / big', '#ef4444', 2],
+    [75, 'Outro', '#ef4444', 0]
+  ])
+})
+
+test('Premiere CSV keeps notes and chapter types, and tab-separated files read too', () => {
+  const { text } = exportMarkers('premiere-csv', markers, 25)
+  expect(text.split('\n')[2]).toBe('Drop | big,"Hit, then ""hold""",00:00:30:13,00:00:32:13,00:00:02:00,Chapter,Red')
+  const back = importMarkerFile('premiere-csv', text, 25, '#000')
+  expect(summary(back)).toEqual([[0, 'Intro', '#22c55e', 0], [30.52, 'Drop | big', '#ef4444', 2], [75, 'Outro', '#ef4444', 0]])
+  expect(back.map(m => [m.type, m.notes])).toEqual([['chapter', undefined], ['chapter', 'Hit, then "hold"'], ['cue', undefined]])
+
+  const tabs = 'Marker Name\tDescription\tIn\tOut\tDuration\tMarker Type\nHit\t\t00:00:01:00\t00:00:01:00\t00:00:00:00\tComment\n'
+  expect(summary(importMarkerFile('premiere-csv', tabs, 25, '#000'))).toEqual([[1, 'Hit', '#000', 0]])
+  expect(() => importMarkerFile('premiere-csv', 'Name,Time\nx,1\n', 25, '#000')).toThrow(/No "In" column/)
+})
+
+test('YouTube chapters start at 0:00 and flag lists the site would ignore', () => {
+  const { text, warnings } = exportMarkers('youtube', markers, 25)
+  expect(text).toBe('0:00 Intro\n0:30 Drop | big\n')
+  expect(warnings).toEqual(['YouTube needs at least 3 chapters.'])
+  const long = exportMarkers('youtube', [{ ...markers[2], time: 3725, type: 'cue' }, { ...markers[2], id: 'x', time: 3730, label: 'End', type: 'cue' }], 25)
+  expect(long.text).toBe('0:00 Intro\n1:02:05 Outro\n1:02:10 End\n')
+  expect(long.warnings).toEqual(['"Outro" is shorter than 10s.'])
+  expect(summary(importMarkerFile('youtube', '(0:00) Intro\n1:02:05 - Outro\nnot a chapter\n', 25, '#abc'))).toEqual([[0, 'Intro', '#abc', 0], [3725, 'Outro', '#abc', 0]])
+})
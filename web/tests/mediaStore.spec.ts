@@ -0,0 +1,49 @@
+import { test, expect } from '@playwright/test'
+import { bindClipMedia, formatBytes, hashMedia, referencedMedia, storableAssets, unusedMedia } from '../src/lib/mediaStore'
+import type { MediaIndex } from '../src/lib/mediaStore'
+import { createSha256 } from '../src/lib/sha256'
+import type { Asset, Clip } from '../src/types'
+
+// Page-less checks of media ids and URL binding; the OPFS/IndexedDB side needs a browser
+const clip = (id: string, extra: Partial<Clip> = {}): Clip => ({ id, title: `${id}.mp4`, track: 'v1', color: '#fff', start: 0, duration: 2, ...extra })
+
+test('media ids are the SHA-256 of the bytes', async () => {
+  const id = await hashMedia(new Blob(['abc']))
+  expect(id).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad')
+  expect(await hashMedia(new Blob(['a', 'bc'], { type: 'video/mp4' }))).toBe(id)
+})
+
+test('large files are hashed in chunks to the same id', async () => {
+  const bytes = new Uint8Array(9 * 1024 * 1024 + 77).map((_, i) => (i * 31 + (i >> 11)) & 0xff)
+  const whole = Array.from(new Uint8Array(await crypto.subtle.digest('SHA-256', bytes)), b => b.toString(16).padStart(2, '0')).join('')
+  expect(await hashMedia(new Blob([bytes]))).toBe(whole)
+
+  // Uneven pieces across the 64-byte blocks and the 55/56-byte padding edge
+  for (const size of [0, 55, 56, 64, 1000]) {
+    const sha = createSha256()
+    const part = bytes.subarray(0, size)
+    for (const [from, to] of [[0, 1], [1, 64], [64, 264], [264, size]]) sha.update(part.subarray(from, to))
+    const expected = Array.from(new Uint8Array(await crypto.subtle.digest('SHA-256', part)), b => b.toString(16).padStart(2, '0')).join('')
+    expect(sha.hex()).toBe(expected)
+  }
+})
+
+test('clips take this session’s URLs and go offline when the media is missing', () => {
+  const clips = [clip('a', { mediaId: 'h1', url: 'blob:old-a' }), clip('b', { mediaId: 'h2', url: 'blob:old-b' }), clip('c', { url: '/samples/c.mp4' }), clip('d', { mediaId: 'h3' })]
+  const bound = bindClipMedia(clips, { h1: 'blob:new-a', h2: null })
+  expect(bound[0].url).toBe('blob:new-a')
+  expect(bound[1]).toMatchObject({ url: undefined, offlineMedia: 'b.mp4' })
+  expect(bound[2]).toBe(clips[2])
+  expect(bound[3]).toBe(clips[3]) // not looked up yet
+})
+
+test('unused media leaves out whatever the pool, timeline, drafts or presets point at', () => {
+  const record = (id: string, size: number) => ({ id, name: `${id}.wav`, type: 'audio/wav', size, storedAt: 0, backend: 'opfs' as const })
+  const index: MediaIndex = { h1: record('h1', 10), h2: record('h2', 30), h3: record('h3', 20), h4: record('h4', 5) }
+  const assets: Asset[] = [{ id: 'x', name: 'x.wav', type: 'audio/wav', duration: 1, mediaId: 'h1', url: 'blob:x' }, { id: 'y', name: 'y.wav', type: 'audio/wav', duration: 1, url: 'blob:y' }]
+  const used = referencedMedia(assets, [[clip('a', { mediaId: 'h2' })], [clip('b', { mediaId: 'h4' })]])
+  expect(unusedMedia(index, used).map(r => r.id)).toEqual(['h3'])
+  expect(unusedMedia(index, referencedMedia(assets, [], ['h3'])).map(r => r.id)).toEqual(['h2', 'h4'])
+  expect(storableAssets(assets).map(a => a.url)).toEqual([undefined, undefined])
+  expect(formatBytes(3.5 * 1024 ** 3)).toBe('3.5 GB')
+})
@@ -0,0 +1,96 @@
+import { test, expect } from '@playwright/test'
+import { muxMp4, muxWebm } from '../src/lib/mux'
+import type { MuxSample } from '../src/lib/mux'
+
+// Container layout checks for the WebCodecs muxers with synthetic packets: each payload is a
+// distinct byte pattern, so offsets and ordering can be read back without a decoder.
+const FPS = 30
+
+const samples = (count: number, step: number, tag: number, keyEvery: number): MuxSample[] => Array.from({ length: count }, (_, i) => ({
+  data: Uint8Array.from({ length: 16 + (i % 5) }, (_, j) => (tag + i * 7 + j) & 0xff),
+  timestamp: Math.round(i * step),
+  duration: Math.round(step),
+  key: i % keyEvery === 0
+}))
+
+const video = samples(60, 1e6 / FPS, 0x10, 30)
+const audio = samples(100, (1024 * 1e6) / 48000, 0x80, 1)
+const avcC = Uint8Array.of(1, 0x64, 0, 0x28, 0xff, 0xe1, 0, 4, 0x67, 0x64, 0, 0x28, 1, 0, 2, 0x68, 0xee)
+
+const bytesOf = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer())
+const text = (bytes: Uint8Array, at: number, length: number) => String.fromCharCode(...bytes.subarray(at, at + length))
+const u32 = (bytes: Uint8Array, at: number) => new DataView(bytes.buffer, bytes.byteOffset).getUint32(at)
+
+const findBox = (bytes: Uint8Array, type: string, from = 0) => {
+  for (let i = from; i < bytes.length - 8; i++) if (text(bytes, i + 4, 4) === type) return i
+  return -1
+}
+
+const indexOf = (bytes: Uint8Array, needle: Uint8Array, from = 0) => {
+  outer: for (let i = from; i <= bytes.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) if (bytes[i + j] !== needle[j]) continue outer
+    return i
+  }
+  return -1
+}
+
+test('MP4 puts the moov first and every chunk offset on its sample', async () => {
+  const bytes = await bytesOf(muxMp4({ codec: 'avc', width: 1920, height: 1080, description: avcC, samples: video }, { codec: 'aac', sampleRate: 48000, channels: 2, samples: audio }))
+  const top: string[] = []
+  for (let at = 0; at < bytes.length; at += u32(bytes, at)) top.push(text(bytes, at + 4, 4))
+  expect(top).toEqual(['ftyp', 'moov', 'mdat'])
+
+  // One stco per track, in track order; every offset starts that sample's payload
+  let stco = findBox(bytes, 'stco')
+  for (const track of [video, audio]) {
+    expect(u32(bytes, stco + 12)).toBe(track.length)
+    track.forEach((s, i) => {
+      const offset = u32(bytes, stco + 16 + i * 4)
+      expect([...bytes.subarray(offset, offset + s.data.length)]).toEqual([...s.data])
+    })
+    stco = findBox(bytes, 'stco', stco + 8)
+  }
+
+  const stss = findBox(bytes, 'stss')
+  expect([u32(bytes, stss + 12), u32(bytes, stss + 16), u32(bytes, stss + 20)]).toEqual([2, 1, 31])
+  expect(findBox(bytes, 'avcC')).toBeGreaterThan(0)
+  expect(findBox(bytes, 'esds')).toBeGreaterThan(0)
+  expect(findBox(bytes, 'ctts')).toBe(-1)
+})
+
+test('MP4 carries Opus in a dOps box when there is no AAC encoder', async () => {
+  const bytes = await bytesOf(muxMp4({ codec: 'avc', width: 1280, height: 720, description: avcC, samples: video }, { codec: 'opus', sampleRate: 48000, channels: 2, samples: audio }))
+  const dOps = findBox(bytes, 'dOps')
+  expect(text(bytes, findBox(bytes, 'Opus') + 4, 4)).toBe('Opus')
+  expect([...bytes.subarray(dOps + 8, dOps + 12)]).toEqual([0, 2, 0x01, 0x38]) // version, channels, pre-skip 312
+})
+
+test('WebM: sized segment, cues up front, blocks interleaved in time order', async () => {
+  const bytes = await bytesOf(muxWebm({ codec: 'vp9', width: 1280, height: 720, samples: video }, { codec: 'opus', sampleRate: 48000, channels: 2, samples: audio }))
+  expect([...bytes.subarray(0, 4)]).toEqual([0x1a, 0x45, 0xdf, 0xa3])
+  expect(text(bytes, 0, 64)).toContain('webm')
+  expect(text(bytes, 0, bytes.length)).toContain('V_VP9')
+  expect(text(bytes, 0, bytes.length)).toContain('OpusHead')
+
+  // Segment size: the vint after the 4-byte id covers the rest of the file
+  const segment = indexOf(bytes, Uint8Array.of(0x18, 0x53, 0x80, 0x67))
+  let size = 0
+  const first = bytes[segment + 4]
+  const length = Math.clz32(first) - 23
+  for (let i = 0; i < length; i++) size = size * 256 + (i === 0 ? first & (0xff >> length) : bytes[segment + 4 + i])
+  expect(segment + 4 + length + size).toBe(bytes.length)
+
+  const cues = indexOf(bytes, Uint8Array.of(0x1c, 0x53, 0xbb, 0x6b))
+  const firstCluster = indexOf(bytes, Uint8Array.of(0x1f, 0x43, 0xb6, 0x75))
+  expect(cues).toBeGreaterThan(0)
+  expect(cues).toBeLessThan(firstCluster)
+
+  // Payloads come out merged by timestamp
+  const merged = [...video, ...audio].sort((a, b) => a.timestamp - b.timestamp || (video.includes(a) ? -1 : 1))
+  let at = firstCluster
+  merged.forEach(s => {
+    const next = indexOf(bytes, s.data, at)
+    expect(next).toBeGreaterThan(at)
+    at = next
+  })
+})
@@ -0,0 +1,60 @@
+import { test, expect } from '@playwright/test'
+import { withWatermarkUrl } from '../src/lib/burnIn'
+import { DEFAULT_PRESETS, conformPreset, duplicatePreset, mergePresets, parsePresetsJson, presetsToJson, renderFileName, withKind } from '../src/lib/exportPresets'
+
+// Page-less checks of the export preset model: templates, clamping and the shared JSON file
+const [mp4, webm, wav] = DEFAULT_PRESETS
+
+test('file name templates fill tokens and drop characters file systems reject', () => {
+  const ctx = { project: 'Spot: v2/final', preset: mp4, source: 'Current timeline', range: { from: 0, to: 12.5 }, fps: 29.97, date: new Date(2026, 2, 4, 9, 5, 7) }
+  expect(renderFileName('{project}_{date}', ctx)).toBe('Spot-v2-final_2026-03-04.mp4')
+  expect(renderFileName('{preset}_{size}_{fps}_{range}_{time}', ctx)).toBe('MP4-1080p_1920x1080_29.97_0.0-12.5s_090507.mp4')
+  expect(renderFileName('{unknown}', { ...ctx, preset: wav })).toBe('unknown.wav')
+  expect(renderFileName('///', ctx)).toBe('render.mp4')
+})
+
+test('conformPreset clamps values and keeps codecs inside the container', () => {
+  const preset = conformPreset({ ...webm, video: { ...webm.video, codec: 'h264', width: 1281, height: 9999, crf: 99, kbps: -5 }, audio: { codec: 'aac', kbps: 9000 }, normalize: 'nope' })
+  expect(preset.video).toMatchObject({ codec: 'vp9', width: 1282, height: 4096, crf: 63, kbps: 100 })
+  expect(preset.audio).toEqual({ codec: 'opus', kbps: 512 })
+  expect(preset.normalize).toBe('off')
+  expect(conformPreset({}).name).toBe('Untitled preset')
+  // Presets saved with the old fixed in/out range render the whole sequence
+  expect(conformPreset({ ...webm, range: { mode: 'inout', from: 2, to: 5 } } as unknown as typeof webm).range).toEqual({ mode: 'sequence' })
+
+  const asMp4 = withKind(webm, 'mp4')
+  expect([asMp4.video.codec, asMp4.audio.codec, asMp4.video.kbps]).toEqual(['h264', 'opus', webm.video.kbps])
+})
+
+test('shared preset files round-trip and merge by id', () => {
+  const copy = duplicatePreset(mp4)
+  const edited = { ...webm, name: 'WebM · review' }
+  const parsed = parsePresetsJson(presetsToJson([edited, copy]))
+  expect(parsed).toEqual([edited, copy])
+
+  const merged = mergePresets(DEFAULT_PRESETS, parsed)
+  expect(merged.presets.map(p => p.name)).toEqual(['MP4 · 1080p', 'WebM · review', 'Audio · WAV 24-bit', 'MP4 · 1080p copy'])
+  expect([merged.added, merged.replaced]).toEqual([1, 1])
+
+  expect(() => parsePresetsJson('{')).toThrow('Not a JSON file')
+  expect(() => parsePresetsJson('{"presets": []}')).toThrow('No presets in this file')
+})
+
+test('watermarks are kept by asset id and get this session’s URL when rendered', () => {
+  const watermark = { assetId: 'logo', url: 'blob:old-session', name: 'logo.png', opacity: 0.5, position: 'bottom-right' as const, scale: 0.2 }
+  const saved = conformPreset({ ...mp4, burnIn: { ...mp4.burnIn, watermark } })
+  expect(saved.burnIn.watermark).toEqual({ assetId: 'logo', name: 'logo.png', opacity: 0.5, position: 'bottom-right', scale: 0.2 })
+  expect(parsePresetsJson(presetsToJson([saved]))[0].burnIn.watermark).toEqual(saved.burnIn.watermark)
+
+  const images = [{ id: 'logo', name: 'logo.png', type: 'image/png', duration: 3, url: 'blob:this-session' }]
+  expect(withWatermarkUrl(saved.burnIn, images).watermark?.url).toBe('blob:this-session')
+  expect(withWatermarkUrl(saved.burnIn, []).watermark?.url).toBeUndefined()
+  // Once the image is in the media store the watermark no longer needs the pool asset
+  const stored = conformPreset({ ...saved, burnIn: { ...saved.burnIn, watermark: { ...saved.burnIn.watermark!, mediaId: 'h1' } } })
+  expect(stored.burnIn.watermark?.mediaId).toBe('h1')
+  expect(withWatermarkUrl(stored.burnIn, [], { h1: 'blob:from-store' }).watermark?.url).toBe('blob:from-store')
+
+  // Saved before the asset id: the name survives so the panel can ask for the image again
+  const legacy = conformPreset({ ...mp4, burnIn: { ...mp4.burnIn, watermark: { url: 'blob:dead', name: 'old.png' } as never } })
+  expect(legacy.burnIn.watermark).toMatchObject({ assetId: '', name: 'old.png' })
+})
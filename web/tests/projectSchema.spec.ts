@@ -0,0 +1,52 @@
+import { test, expect } from '@playwright/test'
+import { PROJECT_SCHEMA_VERSION, loadProject, parseProjectJson, projectToJson } from '../src/lib/projectSchema'
+
+// Page-less checks of project migration and validation
+const tracks = [{ id: 'v1', name: 'V1', type: 'video' }, { id: 'a1', name: 'A1', type: 'audio' }]
+const clip = { id: 'c1', title: 'Intro', track: 'v1', color: '#fff', start: 0, duration: 4 }
+
+test('unversioned payloads migrate to the current schema', () => {
+  const legacy = {
+    tracks,
+    clips: [clip],
+    markers: [{ time: 2, label: 'Drop · Beat 3', color: '#f00' }],
+    beatAnalyses: { song: { beats: [0.5, 1], bpm: 120 } }
+  }
+  const { project, fromVersion, warnings } = loadProject(legacy, { fps: 25 })
+  expect(fromVersion).toBe(1)
+  expect(warnings).toEqual([])
+  expect(project).toMatchObject({ fps: 25, dropFrame: false, beatGrid: null, schemaVersion: PROJECT_SCHEMA_VERSION })
+  expect(project.markers[0]).toMatchObject({ time: 2, type: 'beat' })
+  expect(project.markers[0].id).toBeTruthy()
+  expect(project.beatAnalyses.song).toMatchObject({ assetId: 'song', onsets: [], beatsPerBar: 4 })
+})
+
+test('invalid files fail with the paths that are wrong', () => {
+  const bad = { schemaVersion: 2, tracks, clips: [clip, { ...clip, id: 'c2', start: 'soon', track: 'v9' }], markers: [], beatAnalyses: {}, fps: 30, dropFrame: false }
+  expect(() => loadProject(bad, { fps: 30 })).toThrow('clips[1].start: expected a number ≥ 0, got "soon"')
+  expect(() => loadProject(bad, { fps: 30 })).toThrow('clips[1].track: no track with id "v9"')
+  expect(() => loadProject({ ...bad, clips: [clip, clip] }, { fps: 30 })).toThrow('clips: id "c1" is used more than once')
+  expect(() => loadProject({ ...bad, tracks: 'none' }, { fps: 30 })).toThrow('tracks: expected a list of tracks, got "none"')
+  expect(() => loadProject({ ...bad, schemaVersion: 0 }, { fps: 30 })).toThrow('schemaVersion')
+  expect(() => parseProjectJson('{"tracks": [', { fps: 30 })).toThrow('Not a JSON file')
+})
+
+test('fields from newer builds survive a load and save', () => {
+  const newer = {
+    schemaVersion: PROJECT_SCHEMA_VERSION + 1,
+    tracks: [{ ...tracks[0], colorLabel: 'teal' }],
+    clips: [{ ...clip, speed: 2 }],
+    markers: [],
+    beatAnalyses: {},
+    fps: 29.97,
+    dropFrame: true,
+    captions: [{ at: 1, text: 'Hi' }]
+  }
+  const { project, warnings } = loadProject(newer, { fps: 30 })
+  expect(warnings[0]).toContain('newer version')
+  const saved = JSON.parse(projectToJson(project))
+  expect(saved.schemaVersion).toBe(PROJECT_SCHEMA_VERSION + 1)
+  expect(saved.captions).toEqual(newer.captions)
+  expect(saved.tracks[0].colorLabel).toBe('teal')
+  expect(saved.clips[0].speed).toBe(2)
+})
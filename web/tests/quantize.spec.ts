@@ -0,0 +1,49 @@
+import { test, expect } from '@playwright/test'
+import { applyQuantize, nearestBeat, planQuantize } from '../src/lib/quantize'
+import type { Clip } from '../src/types'
+
+// Page-less checks of snapping cuts to beats as rolls and trims
+const clip = (id: string, start: number, duration: number, extra: Partial<Clip> = {}): Clip => ({ id, title: id, track: 'v1', color: '#fff', start, duration, ...extra })
+const beats = [0, 0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4]
+const spans = (clips: Clip[]) => clips.map(c => [c.id, Number(c.start.toFixed(4)), Number((c.start + c.duration).toFixed(4))])
+
+test('a shared cut rolls both clips onto the nearest beat', () => {
+  expect(nearestBeat(beats, 1.74)).toBe(1.5)
+  expect(nearestBeat(beats, 1.76)).toBe(2)
+  expect(nearestBeat([], 1)).toBeNull()
+  const clips = [clip('a', 0, 1.9), clip('b', 1.9, 2.1, { assetType: 'video/mp4', mediaOffset: 1, mediaDuration: 10 })]
+  const moves = planQuantize(clips, { trackIds: ['v1'] }, beats, 0.25, 0.1)
+  expect(moves).toEqual([{ trackId: 'v1', time: 1.9, target: 2, outgoing: 'a', incoming: 'b' }])
+  const next = applyQuantize(clips, moves)
+  expect(spans(next)).toEqual([['a', 0, 2], ['b', 2, 4]])
+  expect(next[1].mediaOffset).toBeCloseTo(1.1, 6)
+})
+
+test('moves that would be too short, leave the media or run into a clip are dropped', () => {
+  expect(planQuantize([clip('short', 0.95, 0.25)], { clipIds: ['short'] }, beats, 0.25, 0.25)).toEqual([])
+  expect(planQuantize([clip('head', 1.1, 2, { assetType: 'video/mp4', mediaOffset: 0 })], { clipIds: ['head'] }, [1], 0.25, 0.1)).toEqual([])
+  // Only "a" is quantized; its end would cross into "b", which stays where it is
+  expect(planQuantize([clip('a', 0, 1.9), clip('b', 1.95, 1)], { clipIds: ['a'] }, beats, 0.25, 0.1)).toEqual([])
+})
+
+test('quantized plans never overlap clips that did not overlap before', () => {
+  let seed = 12345
+  const rand = () => ((seed = (seed * 1103515245 + 12345) % 2 ** 31) / 2 ** 31)
+  for (let run = 0; run < 200; run++) {
+    const clips: Clip[] = []
+    let t = rand()
+    for (let i = 0; i < 8; i++) {
+      const duration = 0.05 + rand() * 0.8
+      clips.push(clip(`c${i}`, t, duration, rand() < 0.5 ? { assetType: 'video/mp4', mediaOffset: rand() * 0.3, mediaDuration: duration + rand() * 0.5 } : {}))
+      t += duration + (rand() < 0.4 ? 0 : rand() * 0.3)
+    }
+    const grid = Array.from({ length: 40 }, (_, i) => i * 0.25 + rand() * 0.05)
+    const scope = { clipIds: clips.filter(() => rand() < 0.6).map(c => c.id) }
+    const next = applyQuantize(clips, planQuantize(clips, scope, grid, 0.2, 0.1))
+    const sorted = [...next].sort((a, b) => a.start - b.start)
+    sorted.slice(1).forEach((c, i) => expect(c.start).toBeGreaterThanOrEqual(sorted[i].start + sorted[i].duration - 1e-6))
+    next.forEach((c, i) => {
+      if (c !== clips[i]) expect(c.duration).toBeGreaterThanOrEqual(0.1 - 1e-6)
+    })
+  }
+})
@@ -0,0 +1,34 @@
+import { test, expect } from '@playwright/test'
+import { buildRenderJob } from '../src/lib/render'
+import type { RenderSettings } from '../src/lib/render'
+import type { Clip, TrackState } from '../src/types'
+
+// Page-less checks of the ffmpeg job the render queue hands to ffmpeg.wasm
+const settings: RenderSettings = {
+  format: 'mp4', width: 640, height: 360, fps: 25, videoCodec: 'h264', rateControl: 'crf', crf: 23, videoKbps: 4000, audioCodec: 'aac', audioKbps: 160
+}
+const tracks: TrackState[] = [{ id: 'v1', name: 'V1', type: 'video' }, { id: 'a1', name: 'A1', type: 'audio' }]
+const clips: Clip[] = [
+  { id: 'cam', title: 'Cam', track: 'v1', color: '#fff', start: 0, duration: 4, url: '/cam.mp4', assetType: 'video/mp4', mediaOffset: 2, gain: 0.5, fadeIn: 0, fadeOut: 1 },
+  { id: 'b-roll', title: 'B-roll', track: 'v1', color: '#fff', start: 4, duration: 2, url: '/broll.mp4', assetType: 'video/mp4' },
+  { id: 'song', title: 'Song', track: 'a1', color: '#fff', start: 0, duration: 6, url: '/song.wav', assetType: 'audio/wav' }
+]
+const graph = (job: ReturnType<typeof buildRenderJob>) => job.args[job.args.indexOf('-filter_complex') + 1]
+
+test('video clips with a sound track are mixed with their trim, gain and fades', () => {
+  const job = buildRenderJob(tracks, clips, settings, 6, new Set(['cam']))
+  const filters = graph(job).split(';')
+  // cam and b-roll are inputs 0 and 1 for the picture; cam's sound (2) and the song (3) follow
+  expect(filters).toContain('[2:a]atrim=start=2:duration=4,asetpts=PTS-STARTPTS,aresample=48000,aformat=channel_layouts=stereo,volume=0.5,afade=t=out:st=3:d=1[a0]')
+  expect(filters.some(f => f.startsWith('[3:a]atrim=start=0:duration=6'))).toBe(true)
+  expect(filters.find(f => f.includes('amix'))).toContain('amix=inputs=2')
+  expect(job.inputs.map(i => i.name)).toEqual(['in0.mp4', 'in1.mp4', 'in2.wav'])
+
+  // Muting the video track silences its sound as well as its picture
+  const muted = buildRenderJob([{ ...tracks[0], mute: true }, tracks[1]], clips, settings, 6, new Set(['cam']))
+  expect(graph(muted)).not.toContain('overlay=')
+  expect(graph(muted)).toContain('amix=inputs=1')
+
+  // Without the decode results every video clip is taken to have sound
+  expect(graph(buildRenderJob(tracks, clips, settings, 6))).toContain('amix=inputs=3')
+})
@@ -0,0 +1,34 @@
+import { test, expect } from '@playwright/test'
+import { formatRulerTime, rulerTicks, sequenceDuration } from '../src/lib/sequence'
+import type { Clip, Marker } from '../src/types'
+
+// Page-less checks of the sequence length and the zoom-dependent ruler
+const clip = (start: number, duration: number): Clip => ({ id: `c${start}`, title: 'Clip', track: 'v1', color: '#fff', start, duration })
+
+test('sequence length is the content end plus headroom', () => {
+  const song = [clip(0, 180), clip(30, 10)]
+  const markers: Marker[] = [{ id: 'm', time: 185, label: 'Outro', color: '#f00', type: 'cue', duration: 5 }]
+  expect(sequenceDuration(song, [], 10)).toBe(190)
+  expect(sequenceDuration(song, markers, 10)).toBe(200)
+  expect(sequenceDuration([], [], 0)).toBe(10)
+})
+
+test('tick spacing adapts to the zoom and only covers the asked window', () => {
+  const close = rulerTicks(0, 2, 240) // 240 px/s
+  expect(close.filter(t => t.label).map(t => t.label)).toEqual(['0', '0.5', '1', '1.5', '2'])
+
+  const hour = rulerTicks(0, 3600, 0.3) // an hour across ~1000 px
+  expect(hour.filter(t => t.label).map(t => t.label)).toEqual(['0:00', '5:00', '10:00', '15:00', '20:00', '25:00', '30:00', '35:00', '40:00', '45:00', '50:00', '55:00', '1:00:00'])
+  expect(hour.length).toBe(61) // minor ticks every minute
+
+  const window = rulerTicks(1200, 1210, 80)
+  expect(window[0].time).toBe(1200)
+  expect(window[window.length - 1].time).toBe(1210)
+  expect(window.find(t => t.time === 1205)?.label).toBe('20:05')
+})
+
+test('ruler labels', () => {
+  expect(formatRulerTime(12, 1)).toBe('12')
+  expect(formatRulerTime(75, 5)).toBe('1:15')
+  expect(formatRulerTime(3725, 60)).toBe('1:02:05')
+})
@@ -18,7 +18,7 @@ test('timeline basics, snapping, loop handles, asset drop, export', async ({ pag
   await page.screenshot({ path: 'screenshots/edit-overview-v2.png', fullPage: true })
 
   // marker click moves playhead
-  const firstMarker = page.locator('.marker-list li').first()
+  const firstMarker = page.locator('.marker-list li .marker-time').first()
   await firstMarker.scrollIntoViewIfNeeded()
   await firstMarker.click()
   const playhead = page.locator('.playhead')
@@ -62,9 +62,9 @@ test('timeline basics, snapping, loop handles, asset drop, export', async ({ pag
   await waitForRenderIdle(page)
   await page.screenshot({ path: 'screenshots/beat-detect.png', fullPage: true })
 
-  // export preset mock
+  // export preset render (kicks off ffmpeg.wasm; the screenshot catches it in progress)
   await page.locator('.tabs .tab', { hasText: 'Export' }).click()
-  await page.locator('select.ghost').selectOption('mp4')
+  await page.getByLabel('Export preset').selectOption('mp4-1080p')
   const renderBtn = page.getByRole('button', { name: 'Render preset' })
   await renderBtn.click()
   await page.waitForTimeout(600)
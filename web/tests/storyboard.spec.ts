@@ -0,0 +1,50 @@
+import { test, expect } from '@playwright/test'
+import { panelTiming, storyboardPages, storyboardPanels } from '../src/lib/storyboard'
+import type { Clip, Marker, TrackState } from '../src/types'
+
+// Page-less checks of which panels a storyboard gets and what they say; capture needs a browser
+const tracks: TrackState[] = [
+  { id: 'v1', name: 'V1', type: 'video' },
+  { id: 'v2', name: 'V2', type: 'video' },
+  { id: 'a1', name: 'A1', type: 'audio' }
+]
+
+const clip = (id: string, track: string, start: number, duration: number, extra: Partial<Clip> = {}): Clip => ({
+  id, title: id.toUpperCase(), track, color: '#fff', start, duration, url: `/${id}.mp4`, assetType: 'video/mp4', ...extra
+})
+
+const clips = [
+  clip('b', 'v1', 4, 4, { mediaOffset: 10 }),
+  clip('a', 'v1', 0, 4),
+  clip('title', 'v2', 4, 2, { url: '/title.png', assetType: 'image/png' }),
+  clip('music', 'a1', 0, 8, { url: '/music.wav', assetType: 'audio/wav' }),
+  clip('lost', 'v1', 8, 2, { url: undefined, offlineMedia: 'lost.mov' })
+]
+
+const markers: Marker[] = [
+  { id: 'm2', time: 5, label: 'Logo', color: '#f00', type: 'cue', notes: 'hold 2s' },
+  { id: 'm1', time: 1, label: 'Open', color: '#f00', type: 'cue', duration: 4 }
+]
+
+test('one panel per picture clip in program order, with the markers it spans', () => {
+  const panels = storyboardPanels(tracks, clips, markers, 'clips')
+  expect(panels.map(p => p.id)).toEqual(['a', 'title', 'b', 'lost'])
+  expect(panels.find(p => p.id === 'b')).toMatchObject({ in: 4, out: 8, mediaTime: 12, notes: ['Open', 'Logo: hold 2s'] })
+  expect(panels.find(p => p.id === 'lost')?.notes).toEqual([])
+
+  const muted = storyboardPanels([{ ...tracks[0], mute: true }, tracks[1]], clips, [], 'clips')
+  expect(muted.map(p => p.id)).toEqual(['title'])
+})
+
+test('one panel per marker, framed on the top picture at that time', () => {
+  const panels = storyboardPanels(tracks, clips, markers, 'markers')
+  expect(panels.map(p => [p.title, p.clip?.id])).toEqual([['Open', 'a'], ['Logo', 'title']])
+  expect(panels[0]).toMatchObject({ in: 1, out: 5, mediaTime: 1 })
+  expect(panelTiming(panels[1], 25)).toBe('00:00:05:00')
+  expect(panelTiming(panels[0], 25)).toBe('00:00:01:00 – 00:00:05:00 · 4.00s')
+})
+
+test('pages hold columns × rows panels', () => {
+  const panels = storyboardPanels(tracks, clips, markers, 'clips')
+  expect(storyboardPages(panels, { mode: 'clips', frames: 'render', columns: 3, rows: 1 }).map(p => p.length)).toEqual([3, 1])
+})
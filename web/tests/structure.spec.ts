@@ -0,0 +1,28 @@
+import { test, expect } from '@playwright/test'
+import { labelSections, segmentStructure } from '../src/lib/structure'
+
+// Page-less checks of song segmentation into labelled sections
+const SAMPLE_RATE = 22050
+
+test('energy shape names the sections', () => {
+  const span = (start: number, energy: number, slope = 0) => ({ start, end: start + 8, energy, slope })
+  expect(labelSections([span(0, -30), span(8, -20, 6), span(16, -10), span(24, -25), span(32, -10), span(40, -30)]).map(s => s.kind))
+    .toEqual(['intro', 'build', 'drop', 'breakdown', 'drop', 'outro'])
+  // Flat energy gives no drops: the song reads as plain sections between intro and outro
+  expect(labelSections([span(0, -20), span(8, -20.2), span(16, -20.1)]).map(s => s.kind)).toEqual(['intro', 'section', 'outro'])
+})
+
+test('a quiet tone, loud noise, quiet tone song splits on the bar lines where the sound changes', () => {
+  const seconds = 48
+  const signal = new Float32Array(seconds * SAMPLE_RATE)
+  let seed = 1
+  const noise = () => ((seed = (seed * 16807) % 2147483647) / 2147483647) * 2 - 1
+  for (let i = 0; i < signal.length; i++) {
+    const t = i / SAMPLE_RATE
+    signal[i] = t >= 16 && t < 32 ? 0.6 * noise() : 0.05 * Math.sin(2 * Math.PI * 220 * t)
+  }
+  const downbeats = Array.from({ length: seconds / 2 }, (_, i) => i * 2)
+  const sections = segmentStructure([signal], SAMPLE_RATE, downbeats)
+  expect(sections.map(s => [s.start, s.end, s.kind])).toEqual([[0, 16, 'intro'], [16, 32, 'drop'], [32, 48, 'outro']])
+  expect(sections[1].energy).toBe(1)
+})
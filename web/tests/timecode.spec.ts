@@ -0,0 +1,34 @@
+import { test, expect } from '@playwright/test'
+import { framesToSeconds, parseTcEntry, parseTcToFrames, secondsToFrames, secondsToTc, snapToFrame } from '../src/lib/timecode'
+
+// Page-less checks of the NTSC frame math and drop-frame labels
+test('drop-frame skips two labels a minute except every tenth', () => {
+  const tc = (frames: number, fps = 29.97) => secondsToTc(framesToSeconds(frames, fps), fps, true)
+  expect(tc(1799)).toBe('00:00:59;29')
+  expect(tc(1800)).toBe('00:01:00;02')
+  expect(tc(17982)).toBe('00:10:00;00')
+  expect(tc(107892)).toBe('01:00:00;00')
+  expect(tc(3600, 59.94)).toBe('00:01:00;04')
+  for (const frames of [0, 1, 1799, 1800, 1801, 17981, 17982, 53946, 107891, 107892]) {
+    expect(parseTcToFrames(tc(frames), 29.97)).toBe(frames)
+  }
+})
+
+test('non-drop NTSC counts whole-rate labels at 1000/1001 speed', () => {
+  expect(parseTcToFrames('01:00:00:00', 29.97)).toBe(108000)
+  expect(framesToSeconds(108000, 29.97)).toBeCloseTo(3603.6, 6)
+  expect(secondsToTc(3603.6, 29.97)).toBe('01:00:00:00')
+  expect(secondsToFrames(1, 23.976)).toBe(24)
+  expect(snapToFrame(0.02, 25)).toBe(0.04)
+  expect(secondsToTc(12.48, 25)).toBe('00:00:12:12')
+})
+
+test('typed timecode entry', () => {
+  expect(parseTcEntry('1000', 25)).toBe(10)
+  expect(parseTcEntry('5:10', 25)).toBe(5.4)
+  expect(parseTcEntry('00:00:01:30', 30)).toBeNull()
+  expect(parseTcEntry('1:2:x', 30)).toBeNull()
+  // 00:01:00;00 doesn't exist in drop-frame; the entry lands on ;02
+  expect(parseTcEntry('00:01:00;00', 29.97, true)).toBe(framesToSeconds(1800, 29.97))
+  expect(parseTcEntry('00:10:00;00', 29.97, true)).toBe(framesToSeconds(17982, 29.97))
+})